@@ -3,6 +3,7 @@ import config from './config/config.js';
 import corsMiddleware from './config/cors.config.js';
 import rateLimitMiddleware from './config/rateLimit.config.js';
 import routes from './routes/index.js';
+import { DIDController } from './controllers/did.controller.js';
 import loggerMiddleware from './middleware/logger.middleware.js';
 import securityMiddleware from './middleware/security.middleware.js';
 import { errorHandler } from './middleware/error.middleware.js';
@@ -32,6 +33,11 @@ app.get('/', (_req: Request, res: Response) => {
   });
 });
 
+// did:web resolution for the issuer DID
+app.get('/.well-known/did.json', DIDController.getDidDocument);
+// did:web:<host>:orgs:<slug> resolution for organization issuer DIDs
+app.get('/orgs/:slug/did.json', DIDController.getOrganizationDidDocument);
+
 app.use(config.apiPrefix, routes);
 
 app.use(handleMongoErrors);
@@ -30,6 +30,89 @@ const config = {
     refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || "7d",
   },
 
+  // Public URL of the frontend, used in links sent by email
+  appUrl: process.env.APP_URL || "http://localhost:5173",
+
+  auth: {
+    verificationTokenTtlHours: parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || "48", 10),
+    passwordResetTtlMinutes: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || "60", 10),
+    // Signed-in devices kept per user; the least recently used are signed out
+    maxSessionsPerUser: parseInt(process.env.MAX_SESSIONS_PER_USER || "10", 10),
+    // Failed sign-ins are counted per account and per IP address; after a few,
+    // each attempt is delayed progressively, and at the limit it is locked out
+    loginProtection: {
+      windowMinutes: parseInt(process.env.LOGIN_FAILURE_WINDOW_MINUTES || "15", 10),
+      delayAfterFailures: parseInt(process.env.LOGIN_DELAY_AFTER_FAILURES || "3", 10),
+      maxDelaySeconds: parseInt(process.env.LOGIN_MAX_DELAY_SECONDS || "30", 10),
+      lockoutMinutes: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || "15", 10),
+      maxAccountFailures: parseInt(process.env.LOGIN_MAX_ACCOUNT_FAILURES || "10", 10),
+      maxIpFailures: parseInt(process.env.LOGIN_MAX_IP_FAILURES || "50", 10),
+    },
+    twoFactor: {
+      // Roles that must enroll in TOTP before they can sign in
+      requiredRoles: (process.env.TWO_FACTOR_REQUIRED_ROLES ?? "certifier,admin")
+        .split(",")
+        .map((role) => role.trim())
+        .filter(Boolean),
+      issuer: process.env.TWO_FACTOR_ISSUER || "AgriQCert",
+      challengeExpiresIn: process.env.TWO_FACTOR_CHALLENGE_EXPIRES_IN || "10m",
+      maxChallengeAttempts: parseInt(process.env.TWO_FACTOR_MAX_ATTEMPTS || "5", 10),
+    },
+  },
+
+  mail: {
+    // console | file | smtp
+    transport: process.env.MAIL_TRANSPORT || "console",
+    from: process.env.MAIL_FROM || "AgriQCert <no-reply@agriqcert.com>",
+    outboxDir: process.env.MAIL_OUTBOX_DIR || "./data/mail",
+    smtp: {
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || "587", 10),
+      secure: process.env.SMTP_SECURE === "true",
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+    },
+  },
+
+  files: {
+    // Signs upload and download URLs; defaults to the JWT secret
+    urlSecret: process.env.FILE_URL_SECRET || process.env.JWT_SECRET || "",
+    uploadUrlTtlSeconds: parseInt(process.env.UPLOAD_URL_TTL_SECONDS || "900", 10),
+    downloadUrlTtlSeconds: parseInt(process.env.DOWNLOAD_URL_TTL_SECONDS || "300", 10),
+    maxFileSize: parseInt(process.env.MAX_FILE_SIZE || "10485760", 10),
+    // Uploads no batch or inspection refers to are deleted after this long
+    orphanGraceHours: parseInt(process.env.FILE_ORPHAN_GRACE_HOURS || "24", 10),
+    sweepIntervalMs: parseInt(process.env.FILE_SWEEP_INTERVAL_MS || "3600000", 10),
+  },
+
+  storage: {
+    // local | s3
+    driver: process.env.STORAGE_DRIVER || "local",
+    localDir: process.env.UPLOAD_DIR || "./uploads",
+    s3: {
+      // For MinIO or another S3-compatible service, e.g. http://localhost:9000
+      endpoint: process.env.S3_ENDPOINT,
+      region: process.env.S3_REGION || "us-east-1",
+      bucket: process.env.S3_BUCKET,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      // endpoint/bucket/key URLs, which MinIO needs, instead of bucket.endpoint/key
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+    },
+  },
+
+  scanner: {
+    // none | clamav
+    driver: process.env.MALWARE_SCANNER || "none",
+    clamav: {
+      host: process.env.CLAMAV_HOST || "127.0.0.1",
+      port: parseInt(process.env.CLAMAV_PORT || "3310", 10),
+      // Unix socket of clamd; used instead of host/port when set
+      socketPath: process.env.CLAMAV_SOCKET,
+      timeoutMs: parseInt(process.env.CLAMAV_TIMEOUT_MS || "30000", 10),
+    },
+  },
+
   bcrypt: {
     rounds: parseInt(process.env.BCRYPT_ROUNDS || "12", 10),
   },
@@ -39,7 +122,11 @@ const config = {
     vc: {
       issuerDid: process.env.VC_ISSUER_DID || "did:example:agriqcert",
       verificationMethod: process.env.VC_VERIFICATION_METHOD,
+      signingKey: process.env.VC_SIGNING_KEY,
+      signingKeyFile: process.env.VC_SIGNING_KEY_FILE || "./keys/issuer-ed25519.pem",
       defaultExpiryDays: parseInt(process.env.VC_DEFAULT_EXPIRY_DAYS || "365", 10),
+      statusListBaseUrl: process.env.VC_STATUS_LIST_BASE_URL || "http://localhost:5000/api/vc/status",
+      statusListSize: parseInt(process.env.VC_STATUS_LIST_SIZE || "131072", 10),
     },
     inji: {
       apiUrl: process.env.INJI_API_URL,
@@ -47,13 +134,34 @@ const config = {
       issuerDid: process.env.INJI_ISSUER_DID,
       webhookSecret: process.env.INJI_WEBHOOK_SECRET,
       mockMode: process.env.INJI_MOCK_MODE === "true" || process.env.INJI_MOCK_MODE === "1",
+      timeoutMs: parseInt(process.env.INJI_TIMEOUT_MS || "30000", 10),
+    },
+    // Local stand-in for the Inji Certify/Verify API (npm run inji:emulator)
+    injiEmulator: {
+      port: parseInt(process.env.INJI_EMULATOR_PORT || "4010", 10),
+      dataFile: process.env.INJI_EMULATOR_DATA_FILE || "./data/inji-emulator.json",
+      webhookUrl: process.env.INJI_EMULATOR_WEBHOOK_URL || "http://localhost:5000/api/vc/webhook",
+      webhookDelayMs: parseInt(process.env.INJI_EMULATOR_WEBHOOK_DELAY_MS || "1000", 10),
+      failureMode: process.env.INJI_EMULATOR_FAILURE_MODE || "none",
+      failureRate: parseFloat(process.env.INJI_EMULATOR_FAILURE_RATE || "0"),
+      failureStatus: parseInt(process.env.INJI_EMULATOR_FAILURE_STATUS || "503", 10),
+      timeoutDelayMs: parseInt(process.env.INJI_EMULATOR_TIMEOUT_DELAY_MS || "60000", 10),
     },
     worker: {
       pollIntervalMs: parseInt(process.env.WORKER_POLL_INTERVAL_MS || "3000", 10),
       concurrency: parseInt(process.env.WORKER_CONCURRENCY || "2", 10),
+      leaseMs: parseInt(process.env.WORKER_LEASE_MS || "60000", 10),
+      heartbeatIntervalMs: parseInt(process.env.WORKER_HEARTBEAT_INTERVAL_MS || "20000", 10),
+      backoffBaseMs: parseInt(process.env.WORKER_BACKOFF_BASE_MS || "5000", 10),
+      backoffMaxMs: parseInt(process.env.WORKER_BACKOFF_MAX_MS || "900000", 10),
+      progressRelayIntervalMs: parseInt(process.env.WORKER_PROGRESS_RELAY_INTERVAL_MS || "2000", 10),
     },
     geolocation: {
       maxAccuracyMeters: parseInt(process.env.MAX_LOCATION_ACCURACY_METERS || "100", 10),
+      // How far from the batch's farm location an inspection may be recorded
+      geofenceRadiusMeters: parseInt(process.env.GEOFENCE_RADIUS_METERS || "1000", 10),
+      // flag: record and audit off-site inspections; reject: refuse them
+      geofenceMode: process.env.GEOFENCE_MODE || "flag",
     },
     qr: {
       baseUrl: process.env.QR_BASE_URL || "https://verify.agriqcert.com",
@@ -70,6 +178,12 @@ const config = {
     level: process.env.LOG_LEVEL || "info",
   },
 
+  auditLog: {
+    retentionDays: parseInt(process.env.AUDIT_LOG_RETENTION_DAYS || "730", 10),
+    checkpointIntervalMs: parseInt(process.env.AUDIT_CHECKPOINT_INTERVAL_MS || "3600000", 10),
+    archiveIntervalMs: parseInt(process.env.AUDIT_ARCHIVE_INTERVAL_MS || "86400000", 10),
+  },
+
   validateConfig,
 };
 
@@ -0,0 +1,140 @@
+import { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler.middleware.js';
+import { AppError } from '../middleware/errorHandler.middleware.js';
+import { AssignmentService } from '../services/assignment.service.js';
+
+export class AssignmentController {
+  /**
+   * List inspection assignments; inspectors only see their own
+   * GET /api/assignments
+   */
+  static getAssignments = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const response = await AssignmentService.listAssignments({
+      ...(req.query as Record<string, unknown>),
+      user: req.user,
+    });
+
+    res.json({
+      success: true,
+      data: response,
+    });
+  });
+
+  /**
+   * List the inspectors a batch can be assigned to
+   * GET /api/assignments/inspectors?batchId=
+   */
+  static getEligibleInspectors = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const inspectors = await AssignmentService.listEligibleInspectors({
+      batchId: req.query.batchId as string,
+      user: req.user,
+    });
+
+    res.json({
+      success: true,
+      data: inspectors,
+    });
+  });
+
+  /**
+   * Assign a submitted batch to an inspector and schedule the visit
+   * POST /api/assignments
+   */
+  static assign = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const assignment = await AssignmentService.assign({
+      ...req.body,
+      user: req.user,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Inspection assigned',
+      data: assignment,
+    });
+  });
+
+  /**
+   * Move the assignment to another inspector or date
+   * POST /api/assignments/:id/reassign
+   */
+  static reassign = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const assignment = await AssignmentService.reassign({
+      ...req.body,
+      id: req.params.id,
+      user: req.user,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Inspection reassigned',
+      data: assignment,
+    });
+  });
+
+  /**
+   * Accept an assignment
+   * POST /api/assignments/:id/accept
+   */
+  static accept = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const assignment = await AssignmentService.accept({
+      id: req.params.id,
+      user: req.user,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      message: 'Assignment accepted',
+      data: assignment,
+    });
+  });
+
+  /**
+   * Decline an assignment with a reason
+   * POST /api/assignments/:id/decline
+   */
+  static decline = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const assignment = await AssignmentService.decline({
+      id: req.params.id,
+      reason: req.body.reason,
+      user: req.user,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      message: 'Assignment declined',
+      data: assignment,
+    });
+  });
+}
@@ -0,0 +1,177 @@
+import { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler.middleware.js';
+import { AppError } from '../middleware/errorHandler.middleware.js';
+import { AuditLogService } from '../services/auditLog.service.js';
+import { AuditChainService } from '../services/auditChain.service.js';
+import type { AuditLogExportQuery, AuditLogQuery } from '../validators/schemas.js';
+
+/**
+ * Resolves once the response can take more data or the connection has closed
+ */
+const writable = (res: Response) =>
+  new Promise<void>((resolve) => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+
+export class AuditLogController {
+  /**
+   * Query audit log entries
+   * GET /api/audit-logs
+   */
+  static getLogs = asyncHandler(async (req: Request, res: Response) => {
+    const response = await AuditLogService.listLogs(req.query as unknown as AuditLogQuery);
+
+    res.json({
+      success: true,
+      data: response,
+    });
+  });
+
+  /**
+   * Distinct actions and resources present in the audit log
+   * GET /api/audit-logs/facets
+   */
+  static getFacets = asyncHandler(async (_req: Request, res: Response) => {
+    const facets = await AuditLogService.getFacets();
+
+    res.json({
+      success: true,
+      data: facets,
+    });
+  });
+
+  /**
+   * Full history of a single resource
+   * GET /api/audit-logs/timeline/:resource/:resourceId
+   */
+  static getResourceTimeline = asyncHandler(async (req: Request, res: Response) => {
+    const entries = await AuditLogService.getResourceTimeline(req.params.resource, req.params.resourceId);
+
+    res.json({
+      success: true,
+      data: entries,
+    });
+  });
+
+  /**
+   * Stream matching entries as CSV or JSON Lines
+   * GET /api/audit-logs/export
+   */
+  static exportLogs = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const { format, ...filters } = req.query as unknown as AuditLogExportQuery;
+    const lines = AuditLogService.exportLogs({
+      filters,
+      format,
+      user: req.user,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    let started = false;
+
+    try {
+      for await (const line of lines) {
+        // The client went away; leaving the loop closes the database cursor
+        if (res.destroyed) {
+          return;
+        }
+
+        if (!started) {
+          res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8');
+          res.setHeader('Content-Disposition', `attachment; filename="audit-log-${stamp}.${format}"`);
+          started = true;
+        }
+
+        if (!res.write(line)) {
+          await writable(res);
+        }
+      }
+    } catch (error) {
+      // Once data has been sent the status can no longer change, so cut the
+      // download short rather than let it look complete
+      if (started) {
+        console.error('Audit log export failed mid-stream:', error);
+        res.destroy(error as Error);
+        return;
+      }
+      throw error;
+    }
+
+    res.end();
+  });
+
+  /**
+   * Verify the hash chain and signed checkpoints
+   * GET /api/audit-logs/verify
+   */
+  static verifyChain = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const report = await AuditChainService.verifyChain();
+
+    await AuditLogService.record({
+      userId: req.user.userId,
+      userName: req.user.name,
+      action: 'AUDIT_CHAIN_VERIFIED',
+      resource: 'audit_log',
+      resourceId: 'chain',
+      details: {
+        valid: report.valid,
+        checkedEntries: report.checkedEntries,
+        headSequence: report.headSequence,
+        issueCount: report.issueCount,
+      },
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      data: report,
+    });
+  });
+
+  /**
+   * Signed checkpoints of the chain head, newest first
+   * GET /api/audit-logs/checkpoints
+   */
+  static getCheckpoints = asyncHandler(async (_req: Request, res: Response) => {
+    const checkpoints = await AuditChainService.listCheckpoints();
+
+    res.json({
+      success: true,
+      data: checkpoints,
+    });
+  });
+
+  /**
+   * Sign the current chain head now
+   * POST /api/audit-logs/checkpoints
+   */
+  static createCheckpoint = asyncHandler(async (_req: Request, res: Response) => {
+    const checkpoint = await AuditChainService.createCheckpoint();
+
+    if (!checkpoint) {
+      throw new AppError(409, 'The audit log has no chained entries to checkpoint');
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Checkpoint created',
+      data: checkpoint,
+    });
+  });
+}
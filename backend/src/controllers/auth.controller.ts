@@ -1,6 +1,9 @@
 import { Request, Response } from 'express';
 import { asyncHandler, AppError } from '../middleware/errorHandler.middleware.js';
-import { AuthService } from '../services/auth.service.js';
+import { AuthService, AuthResult } from '../services/auth.service.js';
+import { TwoFactorService } from '../services/twoFactor.service.js';
+import { SessionService } from '../services/session.service.js';
+import type { IUserDocument } from '../models/index.js';
 import { authCookieOptions, clearAuthCookieOptions } from '../config/cokkie.config.js';
 
 const getCookie = (req: Request, name: string): string | undefined => {
@@ -16,6 +19,53 @@ const getCookie = (req: Request, name: string): string | undefined => {
   return undefined;
 };
 
+const toSessionUser = (user: IUserDocument) => ({
+  id: user._id.toString(),
+  email: user.email,
+  name: user.name,
+  role: user.role,
+  avatar: user.avatar,
+  organization: user.organization,
+  organizationId: user.organizationId,
+  organizationRole: user.organizationRole,
+  isVerified: user.isVerified,
+  twoFactorEnabled: !!user.twoFactor?.enabled,
+  lastLogin: user.lastLogin,
+  createdAt: user.createdAt,
+});
+
+/**
+ * Set the session cookies and return the user, or return the pending
+ * two-factor challenge without any tokens
+ */
+const sendAuthResult = (res: Response, result: AuthResult, status: number, message: string) => {
+  if (result.challenge) {
+    res.status(200).json({
+      success: true,
+      message: result.challenge.purpose === 'enroll'
+        ? 'Two-factor authentication must be set up to continue'
+        : 'Two-factor authentication code required',
+      data: {
+        twoFactorRequired: true,
+        ...result.challenge,
+      },
+    });
+    return;
+  }
+
+  res.cookie('agriqcert_access_token', result.tokens.accessToken, authCookieOptions);
+  res.cookie('agriqcert_refresh_token', result.tokens.refreshToken, authCookieOptions);
+
+  res.status(status).json({
+    success: true,
+    message,
+    data: {
+      user: toSessionUser(result.user),
+      tokens: result.tokens,
+    },
+  });
+};
+
 export class AuthController {
   /**
    * Register new user
@@ -23,7 +73,7 @@ export class AuthController {
   static register = asyncHandler(async (req: Request, res: Response) => {
     const { email, password, name, role, organization, phone, address } = req.body;
 
-    const { user, tokens } = await AuthService.register({
+    const result = await AuthService.register({
       email,
       password,
       name,
@@ -35,57 +85,76 @@ export class AuthController {
       userAgent: req.get('user-agent'),
     });
 
-    res.cookie('agriqcert_access_token', tokens.accessToken, authCookieOptions);
-    res.cookie('agriqcert_refresh_token', tokens.refreshToken, authCookieOptions);
-
-    res.status(201).json({
-      success: true,
-      message: 'User registered successfully',
-      data: {
-        user: {
-          id: user._id.toString(),
-          email: user.email,
-          name: user.name,
-          role: user.role,
-          organization: user.organization,
-          createdAt: user.createdAt,
-        },
-        tokens,
-      },
-    });
+    sendAuthResult(res, result, 201, 'User registered successfully');
   });
 
   /**
-   * Login user
+   * Login user. Returns a two-factor challenge instead of tokens when the
+   * account uses (or must enroll in) two-factor authentication.
    */
   static login = asyncHandler(async (req: Request, res: Response) => {
     const { email, password } = req.body;
 
-    const { user, tokens } = await AuthService.login({
+    const result = await AuthService.login({
       email,
       password,
       ipAddress: req.ip,
       userAgent: req.get('user-agent'),
     });
 
+    sendAuthResult(res, result, 200, 'Login successful');
+  });
+
+  /**
+   * Complete a login challenge with a TOTP or recovery code
+   */
+  static verifyTwoFactorLogin = asyncHandler(async (req: Request, res: Response) => {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    const result = await AuthService.completeTwoFactorLogin({
+      challengeToken,
+      code,
+      recoveryCode,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    sendAuthResult(res, result, 200, 'Login successful');
+  });
+
+  /**
+   * Start the enrollment a login challenge requires
+   */
+  static beginTwoFactorEnrollment = asyncHandler(async (req: Request, res: Response) => {
+    const setup = await AuthService.beginTwoFactorEnrollment(req.body.challengeToken);
+
+    res.status(200).json({
+      success: true,
+      data: setup,
+    });
+  });
+
+  /**
+   * Confirm enrollment from a login challenge and sign in
+   */
+  static completeTwoFactorEnrollment = asyncHandler(async (req: Request, res: Response) => {
+    const { user, tokens, recoveryCodes } = await AuthService.completeTwoFactorEnrollment({
+      challengeToken: req.body.challengeToken,
+      code: req.body.code,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
     res.cookie('agriqcert_access_token', tokens.accessToken, authCookieOptions);
     res.cookie('agriqcert_refresh_token', tokens.refreshToken, authCookieOptions);
 
     res.status(200).json({
       success: true,
-      message: 'Login successful',
+      message: 'Two-factor authentication enabled',
       data: {
-        user: {
-          id: user._id.toString(),
-          email: user.email,
-          name: user.name,
-          role: user.role,
-          avatar: user.avatar,
-          organization: user.organization,
-          lastLogin: user.lastLogin,
-          createdAt: user.createdAt,
-        },
+        user: toSessionUser(user),
         tokens,
+        recoveryCodes,
       },
     });
   });
@@ -102,7 +171,11 @@ export class AuthController {
       throw new AppError(400, 'Refresh token is required');
     }
 
-    const { tokens } = await AuthService.refreshToken(refreshToken);
+    const { tokens } = await AuthService.refreshToken({
+      refreshToken,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
 
     res.cookie('agriqcert_access_token', tokens.accessToken, authCookieOptions);
     res.cookie('agriqcert_refresh_token', tokens.refreshToken, authCookieOptions);
@@ -163,9 +236,12 @@ export class AuthController {
           role: user.role,
           avatar: user.avatar,
           organization: user.organization,
+          organizationId: user.organizationId,
+          organizationRole: user.organizationRole,
           phone: user.phone,
           address: user.address,
           isVerified: user.isVerified,
+          twoFactorEnabled: !!user.twoFactor?.enabled,
           lastLogin: user.lastLogin,
           createdAt: user.createdAt,
           updatedAt: user.updatedAt,
@@ -228,4 +304,235 @@ export class AuthController {
       message: 'Password changed successfully. Please login again.',
     });
   });
+
+  /**
+   * Confirm an email address
+   */
+  static verifyEmail = asyncHandler(async (req: Request, res: Response) => {
+    await AuthService.verifyEmail({
+      token: req.body.token,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Email address verified',
+    });
+  });
+
+  /**
+   * Send a new verification link to the current user
+   */
+  static resendVerification = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    await AuthService.resendVerification({
+      userId: req.user.userId,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Verification email sent',
+    });
+  });
+
+  /**
+   * Request a password reset link
+   */
+  static forgotPassword = asyncHandler(async (req: Request, res: Response) => {
+    await AuthService.requestPasswordReset({
+      email: req.body.email,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'If an account exists for that address, a password reset link has been sent.',
+    });
+  });
+
+  /**
+   * Set a new password from a reset link
+   */
+  static resetPassword = asyncHandler(async (req: Request, res: Response) => {
+    await AuthService.resetPassword({
+      token: req.body.token,
+      password: req.body.password,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.clearCookie('agriqcert_access_token', clearAuthCookieOptions);
+    res.clearCookie('agriqcert_refresh_token', clearAuthCookieOptions);
+
+    res.status(200).json({
+      success: true,
+      message: 'Password reset successfully. Please login with your new password.',
+    });
+  });
+
+  /**
+   * Two-factor status of the current user
+   */
+  static getTwoFactorStatus = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const status = await TwoFactorService.getStatus(req.user.userId);
+
+    res.status(200).json({
+      success: true,
+      data: status,
+    });
+  });
+
+  /**
+   * Generate a TOTP secret for the current user to enroll
+   */
+  static beginTwoFactorSetup = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const setup = await TwoFactorService.beginSetup(req.user.userId);
+
+    res.status(200).json({
+      success: true,
+      data: setup,
+    });
+  });
+
+  /**
+   * Confirm the TOTP secret and turn on two-factor authentication
+   */
+  static enableTwoFactor = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const recoveryCodes = await TwoFactorService.enable(req.user.userId, req.body.code, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication enabled',
+      data: { recoveryCodes },
+    });
+  });
+
+  /**
+   * Turn off two-factor authentication
+   */
+  static disableTwoFactor = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const { password, code, recoveryCode } = req.body;
+    await TwoFactorService.disable(req.user.userId, password, { code, recoveryCode }, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication disabled',
+    });
+  });
+
+  /**
+   * Replace the current user's recovery codes
+   */
+  static regenerateRecoveryCodes = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(req.user.userId, req.body.code, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'New recovery codes generated',
+      data: { recoveryCodes },
+    });
+  });
+
+  /**
+   * List the current user's signed-in devices
+   * GET /api/auth/sessions
+   */
+  static listSessions = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const sessions = await SessionService.list(req.user.userId, req.user.sessionId);
+
+    res.status(200).json({
+      success: true,
+      data: sessions,
+    });
+  });
+
+  /**
+   * Sign out one device
+   * DELETE /api/auth/sessions/:id
+   */
+  static revokeSession = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    await SessionService.revoke(req.params.id, {
+      userId: req.user.userId,
+      userName: req.user.name,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    if (req.params.id === req.user.sessionId) {
+      res.clearCookie('agriqcert_access_token', clearAuthCookieOptions);
+      res.clearCookie('agriqcert_refresh_token', clearAuthCookieOptions);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Session revoked',
+    });
+  });
+
+  /**
+   * Sign out every device except this one
+   * DELETE /api/auth/sessions
+   */
+  static revokeOtherSessions = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const revoked = await SessionService.revokeOthers(req.user.sessionId, {
+      userId: req.user.userId,
+      userName: req.user.name,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: `${revoked} other session${revoked === 1 ? '' : 's'} revoked`,
+      data: { revoked },
+    });
+  });
 }
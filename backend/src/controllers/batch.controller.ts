@@ -17,6 +17,7 @@ export class BatchController {
         userId: req.user.userId,
         name: req.user.name,
         role: req.user.role,
+        organizationId: req.user.organizationId,
       },
       ipAddress: req.ip,
       userAgent: req.get('user-agent'),
@@ -42,6 +43,7 @@ export class BatchController {
         userId: req.user.userId,
         name: req.user.name,
         role: req.user.role,
+        organizationId: req.user.organizationId,
       },
       ...(req.query as any),
     });
@@ -64,6 +66,7 @@ export class BatchController {
         userId: req.user.userId,
         name: req.user.name,
         role: req.user.role,
+        organizationId: req.user.organizationId,
       },
     });
 
@@ -89,6 +92,7 @@ export class BatchController {
         userId: req.user.userId,
         name: req.user.name,
         role: req.user.role,
+        organizationId: req.user.organizationId,
       },
       ipAddress: req.ip,
       userAgent: req.get('user-agent'),
@@ -116,6 +120,7 @@ export class BatchController {
         userId: req.user.userId,
         name: req.user.name,
         role: req.user.role,
+        organizationId: req.user.organizationId,
       },
       ipAddress: req.ip,
       userAgent: req.get('user-agent'),
@@ -143,6 +148,7 @@ export class BatchController {
         userId: req.user.userId,
         name: req.user.name,
         role: req.user.role,
+        organizationId: req.user.organizationId,
       },
       ipAddress: req.ip,
       userAgent: req.get('user-agent'),
@@ -167,6 +173,7 @@ export class BatchController {
         userId: req.user.userId,
         name: req.user.name,
         role: req.user.role,
+        organizationId: req.user.organizationId,
       },
     });
 
@@ -0,0 +1,104 @@
+import { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler.middleware.js';
+import { AppError } from '../middleware/errorHandler.middleware.js';
+import { didService } from '../services/did.service.js';
+import { OrganizationService } from '../services/organization.service.js';
+
+export class DIDController {
+  /**
+   * Get the issuer's DID document (did:web resolution)
+   * GET /.well-known/did.json
+   */
+  static getDidDocument = asyncHandler(async (_req: Request, res: Response) => {
+    const document = await didService.getDidDocument();
+
+    if (!document) {
+      throw new AppError(404, 'DID document not found');
+    }
+
+    res.type('application/did+json').send(JSON.stringify(document));
+  });
+
+  /**
+   * Get an organization's issuer DID document (did:web resolution)
+   * GET /orgs/:slug/did.json
+   */
+  static getOrganizationDidDocument = asyncHandler(async (req: Request, res: Response) => {
+    const organization = await OrganizationService.getBySlug(req.params.slug);
+    const document = organization?.issuerDid ? await didService.getDidDocument(organization.issuerDid) : null;
+
+    if (!document) {
+      throw new AppError(404, 'DID document not found');
+    }
+
+    res.type('application/did+json').send(JSON.stringify(document));
+  });
+
+  /**
+   * List the issuer's keys, including rotated-out and revoked ones
+   * GET /api/did/keys
+   */
+  static getKeys = asyncHandler(async (_req: Request, res: Response) => {
+    const did = didService.getIssuerDid();
+    const document = await didService.getDidDocument(did);
+    const keys = await didService.listKeys(did);
+
+    res.json({
+      success: true,
+      data: {
+        did,
+        document,
+        keys,
+      },
+    });
+  });
+
+  /**
+   * Rotate the issuer's signing key
+   * POST /api/did/keys/rotate
+   */
+  static rotateKey = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const { key, previous } = await didService.rotateKey({
+      user: req.user,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Issuer key rotated successfully',
+      data: {
+        key,
+        previousKeyId: previous?.keyId,
+      },
+    });
+  });
+
+  /**
+   * Revoke a compromised issuer key
+   * POST /api/did/keys/:id/revoke
+   */
+  static revokeKey = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const key = await didService.revokeKey({
+      id: req.params.id,
+      reason: req.body.reason,
+      user: req.user,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      message: 'Issuer key revoked successfully',
+      data: { key },
+    });
+  });
+}
@@ -1,20 +1,91 @@
 import { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import path from 'path';
 import fs from 'fs/promises';
+import { AppError } from '../middleware/errorHandler.middleware.js';
+import config from '../config/config.js';
+import { FileAccessService } from '../services/fileAccess.service.js';
+import { FileRegistryService } from '../services/fileRegistry.service.js';
+import { StorageService } from '../services/storage.service.js';
+import type { StoredObject } from '../services/storage.service.js';
+import { UploadProcessingService } from '../services/uploadProcessing.service.js';
+import { parseRange } from '../utils/httpRange.util.js';
+import type { UploadGrant } from '../utils/signedUrl.util.js';
 
 export class FileUploadController {
-  private readonly uploadDir = path.join(process.cwd(), 'uploads');
+  private sendError(res: Response, error: unknown, fallback: string): void {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+      return;
+    }
 
-  constructor() {
-    this.ensureUploadDirectory();
+    console.error(`${fallback}:`, error);
+    res.status(500).json({
+      success: false,
+      error: fallback,
+    });
   }
 
-  private async ensureUploadDirectory(): Promise<void> {
-    try {
-      await fs.access(this.uploadDir);
-    } catch {
-      await fs.mkdir(this.uploadDir, { recursive: true });
+  /**
+   * Redirect to object storage, or stream a local file with Range support
+   */
+  private async sendObject(req: Request, res: Response, file: StoredObject): Promise<void> {
+    res.setHeader('Cache-Control', 'private, no-store');
+
+    // Object storage serves the bytes (and ranges) itself
+    const driver = StorageService.getDriver();
+    if (driver.presignGet) {
+      res.redirect(302, driver.presignGet(file.key, { expiresIn: config.files.downloadUrlTtlSeconds }));
+      return;
+    }
+
+    const range = parseRange(req.headers.range, file.size);
+    if (range === 'unsatisfiable') {
+      res.setHeader('Content-Range', `bytes */${file.size}`);
+      throw new AppError(416, 'Requested range not satisfiable');
+    }
+
+    const stream = await driver.read(file.key, range ?? undefined);
+    stream.on('error', (error) => {
+      console.error('Error streaming file:', error);
+      res.destroy(error);
+    });
+
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('Content-Type', file.contentType || 'application/octet-stream');
+    if (range) {
+      res.status(206);
+      res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${file.size}`);
+      res.setHeader('Content-Length', range.end - range.start + 1);
+    } else {
+      res.setHeader('Content-Length', file.size);
+    }
+
+    stream.pipe(res);
+  }
+
+  /**
+   * Access checks shared by the file and its thumbnail: a session that can
+   * see the owning batch or inspection, or a signed download URL
+   */
+  private async assertCanServe(req: Request, category: string, fileId: string): Promise<void> {
+    if (!FileAccessService.isValidFileRef(category, fileId)) {
+      throw new AppError(404, 'File not found');
+    }
+
+    if (!FileAccessService.hasDownloadSignature(category, fileId, req.query)) {
+      if (!req.user) {
+        throw new AppError(401, 'Authentication or a signed URL is required');
+      }
+      await FileAccessService.assertCanRead(req.user, category, fileId);
+    }
+
+    // Pending uploads have not been checked yet; quarantined ones never are served
+    const record = await FileRegistryService.getRecord(fileId);
+    if (record && record.status !== 'stored') {
+      throw new AppError(404, 'File not found');
     }
   }
 
@@ -23,7 +94,11 @@ export class FileUploadController {
    */
   generatePresignedUrl = async (req: Request, res: Response): Promise<void> => {
     try {
-      const { filename, mimeType, category } = req.body;
+      if (!req.user) {
+        throw new AppError(401, 'Authentication required');
+      }
+
+      const { filename, mimeType, category, size } = req.body;
 
       if (!filename || !mimeType || !category) {
         res.status(400).json({
@@ -77,50 +152,57 @@ export class FileUploadController {
         return;
       }
 
-      // Generate unique file ID and path
+      // Generate unique file ID and storage key
       const fileId = uuidv4();
-      const fileExtension = path.extname(filename);
-      const storedFilename = `${fileId}${fileExtension}`;
-      const categoryDir = path.join(this.uploadDir, category);
-      
-      // Ensure category directory exists
-      await fs.mkdir(categoryDir, { recursive: true });
-      
-      const filePath = path.join(categoryDir, storedFilename);
-      const uploadUrl = `/api/files/upload/${category}/${fileId}`;
+      const key = StorageService.keyFor(category, fileId, filename);
+
+      // Signed for this file ID, category, type and size only
+      const { uploadUrl, uploadMethod, uploadHeaders, maxSize, expiresAt } = FileAccessService.createUploadUrl({
+        fileId,
+        category,
+        filename,
+        mimeType,
+        size: size === undefined ? undefined : Number(size),
+      });
       const accessUrl = `/api/files/${category}/${fileId}`;
 
+      // Record the uploader now; the upload request carries no session
+      await FileRegistryService.registerUpload({ fileId, key, category, filename, mimeType, user: req.user });
+
       res.status(200).json({
         success: true,
         data: {
           fileId,
           uploadUrl,
+          uploadMethod,
+          uploadHeaders,
+          // Direct uploads to object storage are checked once the client calls this
+          completeUrl: uploadMethod === 'PUT' ? `/api/files/upload/${category}/${fileId}/complete` : undefined,
           accessUrl,
-          expiresAt: new Date(Date.now() + 60 * 60 * 1000), // 1 hour
+          maxSize,
+          expiresAt,
           metadata: {
             id: fileId,
             filename,
             mimeType,
             category,
-            storedPath: filePath,
+            key,
           },
         },
       });
     } catch (error) {
-      console.error('Error generating presigned URL:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to generate upload URL',
-      });
+      this.sendError(res, error, 'Failed to generate upload URL');
     }
   };
 
   /**
-   * Handle file upload using presigned URL
+   * Handle file upload using presigned URL; the signature has been checked
+   * by verifyUploadUrl
    */
   uploadFile = async (req: Request, res: Response): Promise<void> => {
     try {
       const { category, fileId } = req.params;
+      const grant = res.locals.uploadGrant as UploadGrant;
       
       if (!req.file) {
         res.status(400).json({
@@ -130,109 +212,245 @@ export class FileUploadController {
         return;
       }
 
-      const categoryDir = path.join(this.uploadDir, category);
-      const fileExtension = path.extname(req.file.originalname);
-      const storedFilename = `${fileId}${fileExtension}`;
-      const filePath = path.join(categoryDir, storedFilename);
+      const rejection =
+        req.file.mimetype !== grant.mimeType
+          ? { status: 400, error: 'File type does not match the upload URL' }
+          : req.file.size > grant.maxSize
+            ? { status: 413, error: 'File exceeds the size allowed by the upload URL' }
+            : !(await this.claimUpload(category, fileId))
+              ? { status: 409, error: 'Upload URL has already been used' }
+              : null;
 
-      // Move uploaded file to final location
-      await fs.rename(req.file.path, filePath);
+      if (rejection) {
+        await fs.unlink(req.file.path).catch(() => undefined);
+        res.status(rejection.status).json({
+          success: false,
+          error: rejection.error,
+        });
+        return;
+      }
 
-      res.status(200).json({
-        success: true,
-        data: {
+      // Check and move the uploaded file from the temp directory into storage
+      let body: Buffer;
+      try {
+        body = await fs.readFile(req.file.path);
+      } finally {
+        await fs.unlink(req.file.path).catch(() => undefined);
+      }
+
+      let processed;
+      try {
+        processed = await UploadProcessingService.process({
           fileId,
+          category,
           filename: req.file.originalname,
-          url: `/api/files/${category}/${fileId}`,
-          size: req.file.size,
-          mimeType: req.file.mimetype,
-          uploadedAt: new Date(),
-        },
+          mimeType: grant.mimeType,
+          body,
+        });
+      } catch (error) {
+        await FileRegistryService.releaseUpload(fileId);
+        throw error;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: processed,
       });
     } catch (error) {
-      console.error('Error uploading file:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to upload file',
-      });
+      if (req.file) {
+        await fs.unlink(req.file.path).catch(() => undefined);
+      }
+      this.sendError(res, error, 'Failed to upload file');
     }
   };
 
   /**
-   * Serve uploaded files
+   * Check a file the client PUT straight into object storage. Until this is
+   * called the upload stays pending and cannot be served or attached.
    */
-  getFile = async (req: Request, res: Response): Promise<void> => {
+  completeUpload = async (req: Request, res: Response): Promise<void> => {
     try {
       const { category, fileId } = req.params;
-      
-      const categoryDir = path.join(this.uploadDir, category);
-      const files = await fs.readdir(categoryDir);
-      const matchingFile = files.find(file => file.startsWith(fileId));
 
-      if (!matchingFile) {
-        res.status(404).json({
-          success: false,
-          error: 'File not found',
-        });
-        return;
+      if (!req.user) {
+        throw new AppError(401, 'Authentication required');
+      }
+      if (!FileAccessService.isValidFileRef(category, fileId)) {
+        throw new AppError(404, 'Upload not found');
       }
 
-      const filePath = path.join(categoryDir, matchingFile);
-      
-      // Check if file exists
+      const record = await FileRegistryService.getRecord(fileId);
+      if (!record || record.category !== category) {
+        throw new AppError(404, 'Upload not found');
+      }
+      if (req.user.role !== 'admin' && record.uploadedBy !== req.user.userId) {
+        throw new AppError(403, 'Only the uploader can complete this upload');
+      }
+      if (!(await FileRegistryService.claimUpload(fileId))) {
+        throw new AppError(409, 'Upload has already been completed');
+      }
+
+      let processed;
       try {
-        await fs.access(filePath);
-      } catch {
-        res.status(404).json({
-          success: false,
-          error: 'File not found',
+        const object = await StorageService.findFile(category, fileId);
+        if (!object) {
+          throw new AppError(404, 'Nothing has been uploaded to this URL yet');
+        }
+
+        const driver = StorageService.getDriver();
+        if (object.size > config.files.maxFileSize) {
+          await driver.delete(object.key);
+          throw new AppError(413, 'File exceeds the size allowed by the upload URL');
+        }
+
+        const chunks: Buffer[] = [];
+        for await (const chunk of await driver.read(object.key)) {
+          chunks.push(chunk as Buffer);
+        }
+
+        processed = await UploadProcessingService.process({
+          fileId,
+          category,
+          filename: record.filename,
+          mimeType: record.mimeType,
+          body: Buffer.concat(chunks),
+          sourceKey: object.key,
         });
-        return;
+      } catch (error) {
+        await FileRegistryService.releaseUpload(fileId);
+        throw error;
       }
 
-      // Set appropriate headers and send file
-      res.sendFile(path.resolve(filePath));
+      res.status(200).json({
+        success: true,
+        data: processed,
+      });
     } catch (error) {
-      console.error('Error serving file:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to serve file',
+      this.sendError(res, error, 'Failed to complete upload');
+    }
+  };
+
+  /**
+   * Claim the upload's pending record before touching storage, so only one
+   * request per upload URL gets to store bytes. URLs issued before the
+   * registry existed have no record and are only checked against storage.
+   */
+  private async claimUpload(category: string, fileId: string): Promise<boolean> {
+    if (await FileRegistryService.claimUpload(fileId)) {
+      return true;
+    }
+    if (await FileRegistryService.getRecord(fileId)) {
+      return false;
+    }
+    return (await StorageService.findFile(category, fileId)) === null;
+  }
+
+  /**
+   * Serve uploaded files to users who can see the owning batch or
+   * inspection, or to holders of a signed download URL
+   */
+  getFile = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { category, fileId } = req.params;
+
+      await this.assertCanServe(req, category, fileId);
+
+      const file = await StorageService.findFile(category, fileId);
+      if (!file) {
+        throw new AppError(404, 'File not found');
+      }
+
+      await this.sendObject(req, res, file);
+    } catch (error) {
+      this.sendError(res, error, 'Failed to serve file');
+    }
+  };
+
+  /**
+   * Serve the preview generated for an uploaded photo, under the same
+   * access rules as the photo itself
+   */
+  getThumbnail = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { category, fileId } = req.params;
+
+      await this.assertCanServe(req, category, fileId);
+
+      const record = await FileRegistryService.getRecord(fileId);
+      const thumbnail = record?.thumbnailKey ? await StorageService.getDriver().head(record.thumbnailKey) : null;
+      if (!thumbnail) {
+        throw new AppError(404, 'Thumbnail not found');
+      }
+
+      await this.sendObject(req, res, { ...thumbnail, contentType: 'image/jpeg' });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to serve thumbnail');
+    }
+  };
+
+  /**
+   * Issue a short-lived signed URL for a file the user can read, e.g. to
+   * share a lab report or embed it where no session is sent
+   */
+  getDownloadUrl = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { category, fileId } = req.params;
+
+      if (!req.user) {
+        throw new AppError(401, 'Authentication required');
+      }
+      if (!FileAccessService.isValidFileRef(category, fileId)) {
+        throw new AppError(404, 'File not found');
+      }
+
+      await FileAccessService.assertCanRead(req.user, category, fileId);
+      if (!(await StorageService.findFile(category, fileId))) {
+        throw new AppError(404, 'File not found');
+      }
+
+      res.status(200).json({
+        success: true,
+        data: FileAccessService.createDownloadUrl(category, fileId),
       });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to generate download URL');
     }
   };
 
   /**
-   * Delete uploaded file
+   * Delete an uploaded file that is no longer attached to anything
    */
   deleteFile = async (req: Request, res: Response): Promise<void> => {
     try {
       const { category, fileId } = req.params;
-      
-      const categoryDir = path.join(this.uploadDir, category);
-      const files = await fs.readdir(categoryDir);
-      const matchingFile = files.find(file => file.startsWith(fileId));
 
-      if (!matchingFile) {
-        res.status(404).json({
-          success: false,
-          error: 'File not found',
-        });
-        return;
+      if (!req.user) {
+        throw new AppError(401, 'Authentication required');
+      }
+      if (!FileAccessService.isValidFileRef(category, fileId)) {
+        throw new AppError(404, 'File not found');
+      }
+
+      const file = await StorageService.findFile(category, fileId);
+      if (!file) {
+        throw new AppError(404, 'File not found');
       }
 
-      const filePath = path.join(categoryDir, matchingFile);
-      await fs.unlink(filePath);
+      await FileAccessService.assertCanRead(req.user, category, fileId);
+      await FileAccessService.assertCanDelete(req.user, category, fileId);
+      const record = await FileRegistryService.getRecord(fileId);
+      await StorageService.getDriver().delete(file.key);
+      if (record?.thumbnailKey) {
+        await StorageService.getDriver().delete(record.thumbnailKey);
+      }
+      await FileRegistryService.forget(fileId);
 
       res.status(200).json({
         success: true,
         message: 'File deleted successfully',
       });
     } catch (error) {
-      console.error('Error deleting file:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to delete file',
-      });
+      this.sendError(res, error, 'Failed to delete file');
     }
   };
 }
\ No newline at end of file
@@ -0,0 +1,82 @@
+import { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler.middleware.js';
+import { AppError } from '../middleware/errorHandler.middleware.js';
+import { NotificationService } from '../services/notification.service.js';
+import type { NotificationQuery } from '../validators/schemas.js';
+
+export class NotificationController {
+  /**
+   * List the current user's notifications
+   * GET /api/notifications
+   */
+  static getNotifications = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const response = await NotificationService.listNotifications({
+      ...(req.query as unknown as NotificationQuery),
+      userId: req.user.userId,
+    });
+
+    res.json({
+      success: true,
+      data: response,
+    });
+  });
+
+  /**
+   * Count the current user's unread notifications
+   * GET /api/notifications/unread-count
+   */
+  static getUnreadCount = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const count = await NotificationService.getUnreadCount(req.user.userId);
+
+    res.json({
+      success: true,
+      data: { count },
+    });
+  });
+
+  /**
+   * Mark a notification as read
+   * POST /api/notifications/:id/read
+   */
+  static markAsRead = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const notification = await NotificationService.markAsRead({
+      id: req.params.id,
+      userId: req.user.userId,
+    });
+
+    res.json({
+      success: true,
+      data: notification,
+    });
+  });
+
+  /**
+   * Mark all of the current user's notifications as read
+   * POST /api/notifications/read-all
+   */
+  static markAllAsRead = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const updated = await NotificationService.markAllAsRead(req.user.userId);
+
+    res.json({
+      success: true,
+      message: `${updated} notification(s) marked as read`,
+      data: { updated },
+    });
+  });
+}
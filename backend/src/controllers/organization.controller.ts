@@ -0,0 +1,232 @@
+import { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler.middleware.js';
+import { AppError } from '../middleware/errorHandler.middleware.js';
+import { OrganizationService } from '../services/organization.service.js';
+
+export class OrganizationController {
+  /**
+   * List and search organizations
+   * GET /api/organizations
+   */
+  static getOrganizations = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const response = await OrganizationService.listOrganizations({
+      ...(req.query as Record<string, unknown>),
+      user: req.user,
+    });
+
+    res.json({
+      success: true,
+      data: response,
+    });
+  });
+
+  /**
+   * Get a single organization
+   * GET /api/organizations/:id
+   */
+  static getOrganization = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const organization = await OrganizationService.getOrganization({
+      id: req.params.id,
+      user: req.user,
+    });
+
+    res.json({
+      success: true,
+      data: organization,
+    });
+  });
+
+  /**
+   * Create an organization
+   * POST /api/organizations
+   */
+  static createOrganization = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const organization = await OrganizationService.createOrganization({
+      payload: req.body,
+      user: req.user,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Organization created',
+      data: organization,
+    });
+  });
+
+  /**
+   * Update an organization's details or issuer DID
+   * PATCH /api/organizations/:id
+   */
+  static updateOrganization = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const organization = await OrganizationService.updateOrganization({
+      id: req.params.id,
+      payload: req.body,
+      user: req.user,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      message: 'Organization updated',
+      data: organization,
+    });
+  });
+
+  /**
+   * List an organization's members
+   * GET /api/organizations/:id/members
+   */
+  static getMembers = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const members = await OrganizationService.listMembers({
+      id: req.params.id,
+      user: req.user,
+    });
+
+    res.json({
+      success: true,
+      data: members,
+    });
+  });
+
+  /**
+   * Add an existing user to an organization
+   * POST /api/organizations/:id/members
+   */
+  static addMember = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const member = await OrganizationService.addMember({
+      id: req.params.id,
+      email: req.body.email,
+      role: req.body.role,
+      user: req.user,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Member added',
+      data: member,
+    });
+  });
+
+  /**
+   * Change a member's role in the organization
+   * PATCH /api/organizations/:id/members/:userId
+   */
+  static updateMember = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const member = await OrganizationService.updateMember({
+      id: req.params.id,
+      memberId: req.params.userId,
+      role: req.body.role,
+      user: req.user,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      message: 'Member updated',
+      data: member,
+    });
+  });
+
+  /**
+   * Remove a member from the organization
+   * DELETE /api/organizations/:id/members/:userId
+   */
+  static removeMember = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    await OrganizationService.removeMember({
+      id: req.params.id,
+      memberId: req.params.userId,
+      user: req.user,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      message: 'Member removed',
+    });
+  });
+
+  /**
+   * Get the organization's issuer DID, DID document and keys
+   * GET /api/organizations/:id/issuer
+   */
+  static getIssuer = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const issuer = await OrganizationService.getIssuer({
+      id: req.params.id,
+      user: req.user,
+    });
+
+    res.json({
+      success: true,
+      data: issuer,
+    });
+  });
+
+  /**
+   * Rotate the signing key of the organization's issuer DID
+   * POST /api/organizations/:id/issuer/rotate
+   */
+  static rotateIssuerKey = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const { key, previous } = await OrganizationService.rotateIssuerKey({
+      id: req.params.id,
+      user: req.user,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Issuer key rotated successfully',
+      data: {
+        key,
+        previousKeyId: previous?.keyId,
+      },
+    });
+  });
+}
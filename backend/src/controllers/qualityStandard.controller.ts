@@ -0,0 +1,115 @@
+import { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler.middleware.js';
+import { AppError } from '../middleware/errorHandler.middleware.js';
+import { QualityStandardService } from '../services/qualityStandard.service.js';
+import type { QualityStandardQuery } from '../validators/schemas.js';
+
+export class QualityStandardController {
+  /**
+   * List quality standard versions
+   * GET /api/standards
+   */
+  static getStandards = asyncHandler(async (req: Request, res: Response) => {
+    const response = await QualityStandardService.listStandards(req.query as unknown as QualityStandardQuery);
+
+    res.json({
+      success: true,
+      data: response,
+    });
+  });
+
+  /**
+   * Get the standard version currently in effect for a product type
+   * GET /api/standards/current/:productType
+   */
+  static getCurrentStandard = asyncHandler(async (req: Request, res: Response) => {
+    const standard = await QualityStandardService.getEffectiveStandard(req.params.productType);
+
+    res.json({
+      success: true,
+      data: standard,
+    });
+  });
+
+  /**
+   * Get a quality standard version
+   * GET /api/standards/:id
+   */
+  static getStandardById = asyncHandler(async (req: Request, res: Response) => {
+    const standard = await QualityStandardService.getStandardById(req.params.id);
+
+    res.json({
+      success: true,
+      data: standard,
+    });
+  });
+
+  /**
+   * Create a new version of a product's quality standard
+   * POST /api/standards
+   */
+  static createStandard = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const standard = await QualityStandardService.createStandard({
+      payload: req.body,
+      user: req.user,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `Version ${standard.version} of the ${standard.productType} standard created`,
+      data: standard,
+    });
+  });
+
+  /**
+   * Update a standard version that has not taken effect yet
+   * PUT /api/standards/:id
+   */
+  static updateStandard = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const standard = await QualityStandardService.updateStandard({
+      id: req.params.id,
+      payload: req.body,
+      user: req.user,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      message: 'Quality standard updated',
+      data: standard,
+    });
+  });
+
+  /**
+   * Delete a standard version that has not taken effect yet
+   * DELETE /api/standards/:id
+   */
+  static deleteStandard = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    await QualityStandardService.deleteStandard({
+      id: req.params.id,
+      user: req.user,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      message: 'Quality standard deleted',
+    });
+  });
+}
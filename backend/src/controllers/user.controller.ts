@@ -0,0 +1,149 @@
+import { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler.middleware.js';
+import { AppError } from '../middleware/errorHandler.middleware.js';
+import { UserService } from '../services/user.service.js';
+import type { UserQuery } from '../validators/schemas.js';
+
+export class UserController {
+  /**
+   * List and search users
+   * GET /api/users
+   */
+  static getUsers = asyncHandler(async (req: Request, res: Response) => {
+    const response = await UserService.listUsers(req.query as unknown as UserQuery);
+
+    res.json({
+      success: true,
+      data: response,
+    });
+  });
+
+  /**
+   * Get a single user
+   * GET /api/users/:id
+   */
+  static getUser = asyncHandler(async (req: Request, res: Response) => {
+    const user = await UserService.getUser(req.params.id);
+
+    res.json({
+      success: true,
+      data: user,
+    });
+  });
+
+  /**
+   * Create a user with any role
+   * POST /api/users
+   */
+  static createUser = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const user = await UserService.createUser({
+      payload: req.body,
+      user: req.user,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'User created',
+      data: user,
+    });
+  });
+
+  /**
+   * Change a user's role
+   * PATCH /api/users/:id/role
+   */
+  static changeRole = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const user = await UserService.changeRole({
+      id: req.params.id,
+      role: req.body.role,
+      user: req.user,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      message: 'Role updated',
+      data: user,
+    });
+  });
+
+  /**
+   * Activate or deactivate a user
+   * PATCH /api/users/:id/status
+   */
+  static setStatus = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const user = await UserService.setActive({
+      id: req.params.id,
+      isActive: req.body.isActive,
+      user: req.user,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      message: user.isActive ? 'User activated' : 'User deactivated',
+      data: user,
+    });
+  });
+
+  /**
+   * Sign a user out of every session
+   * POST /api/users/:id/logout
+   */
+  static forceLogout = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    await UserService.forceLogout({
+      id: req.params.id,
+      user: req.user,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      message: 'User signed out of all sessions',
+    });
+  });
+
+  /**
+   * Lift a lockout from failed sign-in attempts
+   * POST /api/users/:id/unlock
+   */
+  static unlockUser = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const user = await UserService.unlock({
+      id: req.params.id,
+      user: req.user,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      message: 'User unlocked',
+      data: user,
+    });
+  });
+}
@@ -3,6 +3,8 @@ import { asyncHandler } from '../middleware/errorHandler.middleware.js';
 import { AppError } from '../middleware/errorHandler.middleware.js';
 import { injiClient } from '../services/injiClient.service.js';
 import { VCService } from '../services/vc.service.js';
+import { StatusListService } from '../services/statusList.service.js';
+import type { IssuanceJobQuery } from '../validators/schemas.js';
 
 export class VCController {
   /**
@@ -53,9 +55,13 @@ export class VCController {
    * GET /api/vc/jobs/:jobId
    */
   static getJobStatus = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
     const { jobId } = req.params;
 
-    const job = await VCService.getJobStatus({ jobId });
+    const job = await VCService.getJobStatus({ jobId, user: req.user });
 
     res.json({
       success: true,
@@ -65,7 +71,12 @@ export class VCController {
         inspectionId: job.inspectionId,
         status: job.status,
         attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        nextRunAt: job.nextRunAt,
         lastError: job.lastError,
+        errorHistory: job.errorHistory,
+        deadLetteredAt: job.deadLetteredAt,
+        cancelledAt: job.cancelledAt,
         result: job.result,
         createdAt: job.createdAt,
         updatedAt: job.updatedAt,
@@ -73,14 +84,97 @@ export class VCController {
     });
   });
 
+  /**
+   * List issuance jobs
+   * GET /api/vc/jobs
+   */
+  static listJobs = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const response = await VCService.listJobs({ ...(req.query as unknown as IssuanceJobQuery), user: req.user });
+
+    res.json({
+      success: true,
+      data: response,
+    });
+  });
+
+  /**
+   * Retry a failed, dead-lettered or cancelled issuance job
+   * POST /api/vc/jobs/:jobId/retry
+   */
+  static retryJob = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const job = await VCService.retryJob({
+      jobId: req.params.jobId,
+      user: req.user,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      message: 'Issuance job requeued',
+      data: job,
+    });
+  });
+
+  /**
+   * Cancel a pending issuance job
+   * POST /api/vc/jobs/:jobId/cancel
+   */
+  static cancelJob = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const job = await VCService.cancelJob({
+      jobId: req.params.jobId,
+      user: req.user,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      message: 'Issuance job cancelled',
+      data: job,
+    });
+  });
+
+  /**
+   * Get the status reported by issuance workers
+   * GET /api/vc/worker/status
+   */
+  static getWorkerStatus = asyncHandler(async (_req: Request, res: Response) => {
+    const workers = await VCService.getWorkerStatus();
+
+    res.json({
+      success: true,
+      data: {
+        workers,
+        running: workers.filter((worker) => worker.isRunning && !worker.stale).length,
+      },
+    });
+  });
+
   /**
    * Get certificate by ID
    * GET /api/vc/certificates/:id
    */
   static getCertificate = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
     const { id } = req.params;
 
-    const certificate = await VCService.getCertificate({ id });
+    const certificate = await VCService.getCertificate({ id, user: req.user });
 
     res.json({
       success: true,
@@ -110,9 +204,13 @@ export class VCController {
    * GET /api/vc/certificates/batch/:batchId
    */
   static getCertificateByBatch = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
     const { batchId } = req.params;
 
-    const certificate = await VCService.getCertificateByBatch({ batchId });
+    const certificate = await VCService.getCertificateByBatch({ batchId, user: req.user });
 
     res.json({
       success: true,
@@ -260,8 +358,12 @@ export class VCController {
    * Get VC statistics
    * GET /api/vc/stats
    */
-  static getVCStats = asyncHandler(async (_req: Request, res: Response) => {
-    const stats = await VCService.getVCStats();
+  static getVCStats = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+      throw new AppError(401, 'Authentication required');
+    }
+
+    const stats = await VCService.getVCStats({ user: req.user });
 
     res.json({
       success: true,
@@ -279,4 +381,14 @@ export class VCController {
       },
     });
   });
+
+  /**
+   * Get a signed Bitstring Status List credential
+   * GET /api/vc/status/:listId
+   */
+  static getStatusList = asyncHandler(async (req: Request, res: Response) => {
+    const credential = await StatusListService.getStatusListCredential(req.params.listId);
+
+    res.type('application/vc+ld+json').send(JSON.stringify(credential));
+  });
 }
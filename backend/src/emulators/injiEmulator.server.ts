@@ -0,0 +1,356 @@
+import express, { Application, NextFunction, Request, Response } from 'express';
+import axios from 'axios';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { nanoid } from 'nanoid';
+import config from '../config/config.js';
+import { LocalIssuer } from '../services/localIssuer.service.js';
+
+/**
+ * Local stand-in for the Inji Certify/Verify API.
+ *
+ * Implements the endpoints InjiClient calls (/v1/credentials/issue|verify|{id},
+ * /v1/wallet/push), persists issued credentials to a JSON file, sends
+ * HMAC-signed webhooks and can inject failures so the client's retry and
+ * error handling can be exercised offline.
+ */
+
+export type FailureMode = 'none' | 'timeout' | 'error' | 'malformed';
+
+export interface FailureSettings {
+  mode: FailureMode;
+  // Probability (0..1) that a request fails; ignored while `remaining` is set
+  rate: number;
+  // Fail exactly the next N requests, then stop
+  remaining?: number;
+  status: number;
+  timeoutDelayMs: number;
+}
+
+interface StoredCredential {
+  id: string;
+  credential: Record<string, unknown>;
+  status: 'issued' | 'revoked' | 'expired';
+  issuedAt: string;
+  updatedAt: string;
+}
+
+interface EmulatorState {
+  signingKey: string;
+  credentials: Record<string, StoredCredential>;
+}
+
+export interface InjiEmulatorOptions {
+  port?: number;
+  dataFile?: string;
+  issuerDid?: string;
+  apiKey?: string;
+  webhookUrl?: string;
+  webhookSecret?: string;
+  webhookDelayMs?: number;
+  failures?: Partial<FailureSettings>;
+}
+
+const FAILURE_MODES: FailureMode[] = ['none', 'timeout', 'error', 'malformed'];
+
+/**
+ * JSON-file backed credential store. The emulator's signing key lives in the
+ * same file so credentials keep verifying across restarts.
+ */
+class CredentialStore {
+  private state: EmulatorState;
+
+  constructor(private readonly file: string) {
+    this.state = this.load();
+  }
+
+  get signingKey(): crypto.KeyObject {
+    return crypto.createPrivateKey(this.state.signingKey);
+  }
+
+  get(id: string): StoredCredential | undefined {
+    return this.state.credentials[id];
+  }
+
+  put(entry: StoredCredential): void {
+    this.state.credentials[entry.id] = entry;
+    this.save();
+  }
+
+  count(): number {
+    return Object.keys(this.state.credentials).length;
+  }
+
+  private load(): EmulatorState {
+    if (fs.existsSync(this.file)) {
+      return JSON.parse(fs.readFileSync(this.file, 'utf8')) as EmulatorState;
+    }
+
+    const { privateKey } = crypto.generateKeyPairSync('ed25519');
+    const state: EmulatorState = {
+      signingKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+      credentials: {},
+    };
+    this.state = state;
+    this.save();
+    return state;
+  }
+
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const tmpFile = `${this.file}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(this.state, null, 2), { mode: 0o600 });
+    fs.renameSync(tmpFile, this.file);
+  }
+}
+
+export const createInjiEmulator = (options: InjiEmulatorOptions = {}) => {
+  const settings = config.features.injiEmulator;
+  const port = options.port ?? settings.port;
+  const baseUrl = `http://localhost:${port}`;
+  const apiKey = options.apiKey ?? config.features.inji.apiKey;
+  const webhookUrl = options.webhookUrl ?? settings.webhookUrl;
+  const webhookSecret = options.webhookSecret ?? config.features.inji.webhookSecret;
+  const webhookDelayMs = options.webhookDelayMs ?? settings.webhookDelayMs;
+
+  const failures: FailureSettings = {
+    mode: FAILURE_MODES.includes(settings.failureMode as FailureMode)
+      ? (settings.failureMode as FailureMode)
+      : 'none',
+    rate: settings.failureRate,
+    status: settings.failureStatus,
+    timeoutDelayMs: settings.timeoutDelayMs,
+    ...options.failures,
+  };
+
+  const store = new CredentialStore(path.resolve(process.cwd(), options.dataFile ?? settings.dataFile));
+  const issuerDid = options.issuerDid ?? config.features.inji.issuerDid ?? 'did:example:inji-emulator';
+  const issuer = new LocalIssuer({
+    did: issuerDid,
+    verificationMethod: `${issuerDid}#key-1`,
+    privateKey: store.signingKey,
+  });
+
+  /**
+   * Deliver a webhook signed with HMAC-SHA256 over the raw JSON body
+   */
+  const sendWebhook = (vcId: string, status: StoredCredential['status']) => {
+    if (!webhookUrl) {
+      return;
+    }
+    if (!webhookSecret) {
+      console.warn('[InjiEmulator] INJI_WEBHOOK_SECRET not set, skipping webhook');
+      return;
+    }
+
+    const body = JSON.stringify({ vcId, status, timestamp: new Date().toISOString() });
+    const signature = crypto.createHmac('sha256', webhookSecret).update(body).digest('hex');
+
+    setTimeout(() => {
+      axios
+        .post(webhookUrl, body, {
+          timeout: 10000,
+          headers: {
+            'Content-Type': 'application/json',
+            'x-inji-signature': `sha256=${signature}`,
+          },
+        })
+        .then(() => console.log(`[InjiEmulator] Webhook delivered: ${vcId} ${status}`))
+        .catch((error) => console.warn(`[InjiEmulator] Webhook delivery failed: ${error.message}`));
+    }, webhookDelayMs).unref();
+  };
+
+  const requireApiKey = (req: Request, res: Response, next: NextFunction) => {
+    if (apiKey && req.get('authorization') !== `Bearer ${apiKey}`) {
+      res.status(401).json({ error: 'Invalid API key' });
+      return;
+    }
+    next();
+  };
+
+  const injectFailures = (_req: Request, res: Response, next: NextFunction) => {
+    if (failures.mode === 'none') {
+      next();
+      return;
+    }
+
+    const fail = failures.remaining !== undefined ? failures.remaining > 0 : Math.random() < failures.rate;
+    if (!fail) {
+      next();
+      return;
+    }
+    if (failures.remaining !== undefined) {
+      failures.remaining--;
+    }
+
+    switch (failures.mode) {
+      case 'timeout': {
+        const timer = setTimeout(() => {
+          if (!res.headersSent) {
+            res.status(504).json({ error: 'Injected timeout' });
+          }
+        }, failures.timeoutDelayMs);
+        res.on('close', () => clearTimeout(timer));
+        return;
+      }
+      case 'error':
+        res.status(failures.status).json({ error: 'Injected failure' });
+        return;
+      case 'malformed':
+        res.status(200).type('application/json').send('{"id": "vc_truncated", "credential": {');
+        return;
+    }
+  };
+
+  const findByReference = (reference?: string): StoredCredential | undefined => {
+    if (!reference) {
+      return undefined;
+    }
+    return store.get(reference.split('/').pop() || '');
+  };
+
+  const app: Application = express();
+  app.use(express.json({ limit: '5mb' }));
+
+  // Emulator controls (not part of the Inji API)
+  app.get('/__emulator/failures', (_req, res) => {
+    res.json(failures);
+  });
+
+  app.put('/__emulator/failures', (req, res) => {
+    const { mode, rate, remaining, status, timeoutDelayMs } = req.body || {};
+
+    if (mode !== undefined && !FAILURE_MODES.includes(mode)) {
+      res.status(400).json({ error: `mode must be one of ${FAILURE_MODES.join(', ')}` });
+      return;
+    }
+
+    failures.mode = mode ?? failures.mode;
+    failures.rate = rate ?? failures.rate;
+    failures.remaining = remaining === null ? undefined : remaining ?? failures.remaining;
+    failures.status = status ?? failures.status;
+    failures.timeoutDelayMs = timeoutDelayMs ?? failures.timeoutDelayMs;
+
+    res.json(failures);
+  });
+
+  app.post('/__emulator/credentials/:id/:status(revoke|expire)', (req, res) => {
+    const entry = store.get(req.params.id);
+    if (!entry) {
+      res.status(404).json({ error: 'Credential not found' });
+      return;
+    }
+
+    entry.status = req.params.status === 'revoke' ? 'revoked' : 'expired';
+    entry.updatedAt = new Date().toISOString();
+    store.put(entry);
+    sendWebhook(entry.id, entry.status);
+
+    res.json({ id: entry.id, status: entry.status });
+  });
+
+  app.get('/health', (_req, res) => {
+    res.json({ status: 'ok', issuer: issuerDid, credentials: store.count() });
+  });
+
+  app.use('/v1', requireApiKey, injectFailures);
+
+  app.post('/v1/credentials/issue', async (req, res, next) => {
+    try {
+      const credential = req.body?.credential;
+      if (!credential || typeof credential !== 'object' || !credential.credentialSubject) {
+        res.status(400).json({ error: 'credential.credentialSubject is required' });
+        return;
+      }
+
+      const vcId = `vc_${nanoid()}`;
+      const url = `${baseUrl}/v1/credentials/${vcId}`;
+      const signed = await issuer.signCredential({
+        ...credential,
+        id: url,
+        issuer: issuerDid,
+        issuanceDate: credential.issuanceDate || new Date().toISOString(),
+      });
+
+      const now = new Date().toISOString();
+      store.put({ id: vcId, credential: signed, status: 'issued', issuedAt: now, updatedAt: now });
+      sendWebhook(vcId, 'issued');
+
+      res.status(201).json({ id: vcId, url, credential: signed });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post('/v1/credentials/verify', async (req, res, next) => {
+    try {
+      const entry = findByReference(req.body?.credentialUrl);
+      const credential = req.body?.credential || entry?.credential;
+      if (!credential) {
+        res.status(400).json({ error: 'credential or a known credentialUrl is required' });
+        return;
+      }
+
+      const stored = entry || findByReference(credential.id);
+      const signature = await issuer.verifyCredential(credential);
+      const revoked = stored?.status === 'revoked';
+      const expired = Boolean(credential.expirationDate && new Date(credential.expirationDate) < new Date());
+
+      res.json({
+        valid: signature.valid && !revoked && !expired,
+        signatureValid: signature.valid,
+        revoked,
+        issuer: credential.issuer,
+        issuanceDate: credential.issuanceDate,
+        expirationDate: credential.expirationDate,
+        credentialSubject: credential.credentialSubject || {},
+        details: signature.valid ? (revoked ? 'Credential revoked' : expired ? 'Credential expired' : 'Credential verified') : signature.reason,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get('/v1/credentials/:id', (req, res) => {
+    const entry = store.get(req.params.id);
+    if (!entry) {
+      res.status(404).json({ error: 'Credential not found' });
+      return;
+    }
+
+    res.json({ id: entry.id, status: entry.status, credential: entry.credential });
+  });
+
+  app.post('/v1/wallet/push', (req, res) => {
+    if (!req.body?.userId || !req.body?.credential) {
+      res.status(400).json({ error: 'userId and credential are required' });
+      return;
+    }
+
+    res.json({ success: true, walletId: req.body.walletId || `wallet_${nanoid()}` });
+  });
+
+  app.use((_req, res) => {
+    res.status(404).json({ error: 'Not found' });
+  });
+
+  app.use((error: Error, _req: Request, res: Response, _next: NextFunction) => {
+    console.error('[InjiEmulator] Request failed:', error);
+    res.status(500).json({ error: error.message });
+  });
+
+  return { app, port, failures };
+};
+
+// Auto-start if this file is run directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const { app, port, failures } = createInjiEmulator();
+
+  app.listen(port, () => {
+    console.log(`🧪 Inji emulator listening on http://localhost:${port}`);
+    console.log(`   Failure injection: ${failures.mode} (rate ${failures.rate})`);
+  });
+}
+
+export default createInjiEmulator;
@@ -1,7 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { JWTService } from '../utils/jwt.util.js';
 import { User } from '../models/user.model.js';
-import { UserRole } from '../types/index.js';
+import { SessionService } from '../services/session.service.js';
+import { OrganizationRole, UserRole } from '../types/index.js';
 
 // Extend Express Request type
 declare global {
@@ -12,6 +13,9 @@ declare global {
         email: string;
         role: UserRole;
         name: string;
+        organizationId?: string;
+        organizationRole?: OrganizationRole;
+        sessionId?: string;
       };
       token?: string;
     }
@@ -67,11 +71,23 @@ export const authenticate = async (
       return;
     }
 
+    // Revoking a session cuts off its access token too, not only its refresh token
+    if (decoded.sid && !(await SessionService.isActive(decoded.sid))) {
+      res.status(401).json({
+        success: false,
+        message: 'Session has been revoked',
+      });
+      return;
+    }
+
     req.user = {
       userId: user._id.toString(),
       email: user.email,
       role: user.role,
       name: user.name,
+      organizationId: user.organizationId,
+      organizationRole: user.organizationRole,
+      sessionId: decoded.sid,
     };
     req.token = token;
 
@@ -129,13 +145,16 @@ export const optionalAuthenticate = async (
       const decoded = JWTService.verifyAccessToken(token);
 
       const user = await User.findById(decoded.userId).select('+isActive');
+      const sessionActive = !decoded.sid || (await SessionService.isActive(decoded.sid));
 
-      if (user && user.isActive) {
+      if (user && user.isActive && sessionActive) {
         req.user = {
           userId: user._id.toString(),
           email: user.email,
           role: user.role,
           name: user.name,
+          organizationId: user.organizationId,
+          organizationRole: user.organizationRole,
         };
         req.token = token;
       }
@@ -1,9 +1,13 @@
+import { Request, Response, NextFunction } from 'express';
 import multer from 'multer';
+import config from '../config/config.js';
+import { AppError } from './errorHandler.middleware.js';
+import { FileAccessService } from '../services/fileAccess.service.js';
 
 const upload = multer({
   dest: 'uploads/temp',
   limits: {
-    fileSize: 50 * 1024 * 1024,
+    fileSize: config.files.maxFileSize,
   },
   fileFilter: (_req, file, cb) => {
     const allowedMimeTypes = [
@@ -30,3 +34,28 @@ const upload = multer({
 
 export const singleFileUpload = upload.single('file');
 
+/**
+ * Checks the signature of an upload URL before any of the body is stored,
+ * and leaves the grant in `res.locals.uploadGrant` for the handler
+ */
+export const verifyUploadUrl = (req: Request, res: Response, next: NextFunction): void => {
+  const { category, fileId } = req.params;
+
+  if (!FileAccessService.isValidFileRef(category, fileId)) {
+    res.status(404).json({
+      success: false,
+      error: 'File not found',
+    });
+    return;
+  }
+
+  try {
+    res.locals.uploadGrant = FileAccessService.verifyUploadUrl(category, fileId, req.query);
+    next();
+  } catch (error) {
+    res.status(error instanceof AppError ? error.statusCode : 403).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Invalid upload URL',
+    });
+  }
+};
@@ -0,0 +1,61 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IAuditCheckpoint {
+  sequence: number;
+  hash: string;
+  verificationMethod: string;
+  signature: string;
+  createdAt: Date;
+}
+
+export interface IAuditCheckpointDocument extends IAuditCheckpoint, Document {
+  id: string;
+}
+
+/**
+ * Signed record of the audit chain head. Once published, entries up to the
+ * checkpoint cannot be rewritten or truncated without the signature failing
+ * to match.
+ */
+const auditCheckpointSchema = new Schema<IAuditCheckpointDocument>(
+  {
+    sequence: {
+      type: Number,
+      required: true,
+      unique: true,
+    },
+    hash: {
+      type: String,
+      required: true,
+    },
+    verificationMethod: {
+      type: String,
+      required: true,
+    },
+    // Base64url Ed25519 signature over the JCS form of { sequence, hash, createdAt }
+    signature: {
+      type: String,
+      required: true,
+    },
+    createdAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: false,
+    toJSON: {
+      transform: function (_doc, ret) {
+        const { _id, __v, ...checkpointObj } = ret;
+        void __v;
+        return { ...checkpointObj, id: _id.toString() };
+      },
+    },
+  }
+);
+
+export const AuditCheckpoint = mongoose.model<IAuditCheckpointDocument>(
+  'AuditCheckpoint',
+  auditCheckpointSchema
+);
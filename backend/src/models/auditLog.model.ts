@@ -1,70 +1,117 @@
-import mongoose, { Schema, Document } from 'mongoose';
+import mongoose, { Schema, Document, Query, SchemaDefinition } from 'mongoose';
 import { IAuditLog } from '../types/index.js';
 
 export interface IAuditLogDocument extends IAuditLog, Document {
   id: string;
 }
 
-const auditLogSchema = new Schema<IAuditLogDocument>(
-  {
-    userId: {
-      type: String,
-      required: [true, 'User ID is required'],
-      ref: 'User',
-      index: true,
-    },
-    userName: {
-      type: String,
-      required: [true, 'User name is required'],
-      trim: true,
-    },
-    action: {
-      type: String,
-      required: [true, 'Action is required'],
-      trim: true,
-      index: true,
-    },
-    resource: {
-      type: String,
-      required: [true, 'Resource is required'],
-      trim: true,
-      index: true,
-    },
-    resourceId: {
-      type: String,
-      required: [true, 'Resource ID is required'],
-      index: true,
-    },
-    details: {
-      type: Schema.Types.Mixed,
-      default: {},
-    },
-    ipAddress: {
-      type: String,
-      trim: true,
-    },
-    userAgent: {
-      type: String,
-      trim: true,
-    },
-    timestamp: {
-      type: Date,
-      required: true,
-      default: Date.now,
-    },
+/**
+ * Fields shared by the live and archive collections. Entries are chained:
+ * each carries its position, the hash of the entry before it and its own hash.
+ */
+export const auditLogFields: SchemaDefinition = {
+  sequence: {
+    type: Number,
   },
-  {
-    timestamps: false,
-    toJSON: {
-      virtuals: true,
-      transform: function (_doc, ret) {
-        const { _id, __v, ...auditObj } = ret;
-        void __v;
-        return { ...auditObj, id: _id.toString() };
-      },
-    },
+  prevHash: {
+    type: String,
+  },
+  hash: {
+    type: String,
+  },
+  userId: {
+    type: String,
+    required: [true, 'User ID is required'],
+    ref: 'User',
+    index: true,
+  },
+  userName: {
+    type: String,
+    required: [true, 'User name is required'],
+    trim: true,
+  },
+  action: {
+    type: String,
+    required: [true, 'Action is required'],
+    trim: true,
+    index: true,
+  },
+  resource: {
+    type: String,
+    required: [true, 'Resource is required'],
+    trim: true,
+    index: true,
+  },
+  resourceId: {
+    type: String,
+    required: [true, 'Resource ID is required'],
+    index: true,
+  },
+  details: {
+    type: Schema.Types.Mixed,
+    default: {},
+  },
+  ipAddress: {
+    type: String,
+    trim: true,
+  },
+  userAgent: {
+    type: String,
+    trim: true,
+  },
+  timestamp: {
+    type: Date,
+    required: true,
+    default: Date.now,
+  },
+};
+
+const MUTATING_QUERIES = [
+  'updateOne',
+  'updateMany',
+  'findOneAndUpdate',
+  'findOneAndReplace',
+  'findOneAndDelete',
+  'replaceOne',
+  'deleteOne',
+  'deleteMany',
+] as const;
+
+/**
+ * Reject edits and deletes. Archival moves entries out of the live
+ * collection with the `auditArchival` query option.
+ */
+export const makeAppendOnly = (schema: Schema) => {
+  for (const operation of MUTATING_QUERIES) {
+    schema.pre(operation, { document: false, query: true }, function (this: Query<unknown, unknown>) {
+      if (!this.getOptions().auditArchival) {
+        throw new Error('Audit log entries are append-only');
+      }
+    });
   }
-);
+
+  schema.pre('save', function () {
+    if (!this.isNew) {
+      throw new Error('Audit log entries are append-only');
+    }
+  });
+
+  schema.pre('deleteOne', { document: true, query: false }, function () {
+    throw new Error('Audit log entries are append-only');
+  });
+};
+
+const auditLogSchema = new Schema<IAuditLogDocument>(auditLogFields, {
+  timestamps: false,
+  toJSON: {
+    virtuals: true,
+    transform: function (_doc, ret) {
+      const { _id, __v, ...auditObj } = ret;
+      void __v;
+      return { ...auditObj, id: _id.toString() };
+    },
+  },
+});
 
 // Indexes for efficient querying
 auditLogSchema.index({ userId: 1, timestamp: -1 });
@@ -72,8 +119,16 @@ auditLogSchema.index({ resource: 1, resourceId: 1, timestamp: -1 });
 auditLogSchema.index({ action: 1, timestamp: -1 });
 auditLogSchema.index({ timestamp: -1 });
 
-// TTL index to auto-delete old logs after 2 years
-auditLogSchema.index({ timestamp: 1 }, { expireAfterSeconds: 2 * 365 * 24 * 60 * 60 });
+// One entry per chain position; entries written before chaining have none
+auditLogSchema.index(
+  { sequence: 1 },
+  { unique: true, partialFilterExpression: { sequence: { $exists: true } } }
+);
+
+// Old entries are moved to the archive collection rather than expired
+// (see AuditChainService.archiveExpiredEntries)
+
+makeAppendOnly(auditLogSchema);
 
 // Virtual for user
 auditLogSchema.virtual('user', {
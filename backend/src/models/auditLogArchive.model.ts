@@ -0,0 +1,44 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IAuditLog } from '../types/index.js';
+import { auditLogFields, makeAppendOnly } from './auditLog.model.js';
+
+export interface IAuditLogArchiveDocument extends IAuditLog, Document {
+  id: string;
+  archivedAt: Date;
+}
+
+// Entries past the live retention period, kept with their chain fields intact
+const auditLogArchiveSchema = new Schema<IAuditLogArchiveDocument>(
+  {
+    ...auditLogFields,
+    archivedAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: false,
+    toJSON: {
+      transform: function (_doc, ret) {
+        const { _id, __v, ...auditObj } = ret;
+        void __v;
+        return { ...auditObj, id: _id.toString() };
+      },
+    },
+  }
+);
+
+auditLogArchiveSchema.index(
+  { sequence: 1 },
+  { unique: true, partialFilterExpression: { sequence: { $exists: true } } }
+);
+auditLogArchiveSchema.index({ resource: 1, resourceId: 1, timestamp: -1 });
+
+makeAppendOnly(auditLogArchiveSchema);
+
+export const AuditLogArchive = mongoose.model<IAuditLogArchiveDocument>(
+  'AuditLogArchive',
+  auditLogArchiveSchema,
+  'auditlogarchives'
+);
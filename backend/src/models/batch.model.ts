@@ -87,6 +87,10 @@ const batchSchema = new Schema<IBatchDocument>(
       required: [true, 'Farmer name is required'],
       trim: true,
     },
+    organizationId: {
+      type: String,
+      ref: 'Organization',
+    },
     productType: {
       type: String,
       required: [true, 'Product type is required'],
@@ -179,6 +183,7 @@ const batchSchema = new Schema<IBatchDocument>(
 
 // Indexes for efficient querying
 batchSchema.index({ farmerId: 1, status: 1 });
+batchSchema.index({ organizationId: 1, status: 1 });
 batchSchema.index({ status: 1, createdAt: -1 });
 batchSchema.index({ productType: 1, productName: 1 });
 batchSchema.index({ 'location.region': 1 });
@@ -0,0 +1,102 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IBatchAssignment } from '../types/index.js';
+import { ACTIVE_ASSIGNMENT_STATUSES } from '../utils/assignmentSchedule.util.js';
+
+export interface IBatchAssignmentDocument extends IBatchAssignment, Document {
+  id: string;
+}
+
+/**
+ * Hands a submitted batch to a QA inspector with a scheduled visit date.
+ * A batch has at most one pending or accepted assignment; reassigning closes
+ * the previous one as `reassigned` and keeps it for history.
+ */
+const batchAssignmentSchema = new Schema<IBatchAssignmentDocument>(
+  {
+    batchId: {
+      type: String,
+      required: [true, 'Batch ID is required'],
+      ref: 'Batch',
+      index: true,
+    },
+    organizationId: {
+      type: String,
+      ref: 'Organization',
+    },
+    inspectorId: {
+      type: String,
+      required: [true, 'Inspector ID is required'],
+      ref: 'User',
+    },
+    inspectorName: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    assignedBy: {
+      type: String,
+      required: true,
+      ref: 'User',
+    },
+    assignedByName: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'accepted', 'declined', 'reassigned', 'completed'],
+      default: 'pending',
+      index: true,
+    },
+    scheduledFor: {
+      type: Date,
+      required: [true, 'Scheduled date is required'],
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Notes cannot exceed 1000 characters'],
+    },
+    declineReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Decline reason cannot exceed 500 characters'],
+    },
+    respondedAt: {
+      type: Date,
+    },
+    inspectionId: {
+      type: String,
+      ref: 'Inspection',
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (_doc, ret) {
+        const { _id, __v, ...assignmentObj } = ret;
+        void __v;
+        return { ...assignmentObj, id: _id.toString() };
+      },
+    },
+  }
+);
+
+// Indexes
+batchAssignmentSchema.index({ inspectorId: 1, status: 1, scheduledFor: 1 });
+batchAssignmentSchema.index({ batchId: 1, status: 1 });
+batchAssignmentSchema.index({ organizationId: 1, status: 1, scheduledFor: 1 });
+// Enforces the single active assignment when two requests race
+batchAssignmentSchema.index(
+  { batchId: 1 },
+  { unique: true, partialFilterExpression: { status: { $in: ACTIVE_ASSIGNMENT_STATUSES } } }
+);
+
+export const BatchAssignment = mongoose.model<IBatchAssignmentDocument>(
+  'BatchAssignment',
+  batchAssignmentSchema
+);
@@ -7,6 +7,9 @@ export interface ICertificateDocument extends ICertificate, Document {
 
 const verifiableCredentialSchema = new Schema<IVerifiableCredential>(
   {
+    id: {
+      type: String,
+    },
     '@context': {
       type: [String],
       required: true,
@@ -28,6 +31,9 @@ const verifiableCredentialSchema = new Schema<IVerifiableCredential>(
     expirationDate: {
       type: String,
     },
+    credentialStatus: {
+      type: Schema.Types.Mixed,
+    },
     credentialSubject: {
       type: Schema.Types.Mixed,
       required: [true, 'Credential subject is required'],
@@ -47,6 +53,10 @@ const certificateSchema = new Schema<ICertificateDocument>(
       ref: 'Batch',
       unique: true,
     },
+    organizationId: {
+      type: String,
+      ref: 'Organization',
+    },
     vc: {
       type: verifiableCredentialSchema,
       required: [true, 'Verifiable Credential is required'],
@@ -66,6 +76,14 @@ const certificateSchema = new Schema<ICertificateDocument>(
       index: true,
       sparse: true, // Allow null values, useful for migration
     },
+    // Position of this credential in its revocation status list
+    statusListId: {
+      type: String,
+    },
+    statusListIndex: {
+      type: Number,
+      min: [0, 'Status list index cannot be negative'],
+    },
     qrCodeData: {
       type: String,
       required: [true, 'QR code data is required'],
@@ -118,6 +136,8 @@ const certificateSchema = new Schema<ICertificateDocument>(
   },
   {
     timestamps: true,
+    // Keep empty objects so the stored credential matches what was signed
+    minimize: false,
     toJSON: {
       virtuals: true,
       transform: function (_doc, ret) {
@@ -137,10 +157,17 @@ const certificateSchema = new Schema<ICertificateDocument>(
 // Indexes for efficient querying
 certificateSchema.index({ batchId: 1 });
 certificateSchema.index({ status: 1, issuedAt: -1 });
+certificateSchema.index({ organizationId: 1, status: 1 });
 certificateSchema.index({ issuedBy: 1, issuedAt: -1 });
 certificateSchema.index({ expiresAt: 1 });
 certificateSchema.index({ qrCodeData: 1 });
 certificateSchema.index({ createdAt: -1 });
+certificateSchema.index({ statusListId: 1, statusListIndex: 1 }, { sparse: true });
+// One certificate per issuance job, so a reclaimed job cannot issue twice
+certificateSchema.index(
+  { 'metadata.jobId': 1 },
+  { unique: true, partialFilterExpression: { 'metadata.jobId': { $exists: true } } }
+);
 
 // Pre-save middleware to check expiration
 certificateSchema.pre('save', function (next) {
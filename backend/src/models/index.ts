@@ -12,7 +12,29 @@ export { Notification } from './notification.model.js';
 export type { INotificationDocument } from './notification.model.js';
 export { AuditLog } from './auditLog.model.js';
 export type { IAuditLogDocument } from './auditLog.model.js';
+export { AuditLogArchive } from './auditLogArchive.model.js';
+export type { IAuditLogArchiveDocument } from './auditLogArchive.model.js';
+export { AuditCheckpoint } from './auditCheckpoint.model.js';
+export type { IAuditCheckpointDocument } from './auditCheckpoint.model.js';
 export { IssuanceJob } from './issuanceJob.model.js';
 export type { IIssuanceJobDocument } from './issuanceJob.model.js';
 export { Revocation } from './revocation.model.js';
 export type { IRevocationDocument } from './revocation.model.js';
+export { IssuerKey } from './issuerKey.model.js';
+export type { IIssuerKeyDocument } from './issuerKey.model.js';
+export { StatusList } from './statusList.model.js';
+export type { IStatusListDocument } from './statusList.model.js';
+export { WorkerHeartbeat } from './workerHeartbeat.model.js';
+export type { IWorkerHeartbeatDocument } from './workerHeartbeat.model.js';
+export { QualityStandard } from './qualityStandard.model.js';
+export type { IQualityStandardDocument } from './qualityStandard.model.js';
+export { Session } from './session.model.js';
+export type { ISessionDocument } from './session.model.js';
+export { LoginThrottle } from './loginThrottle.model.js';
+export type { ILoginThrottleDocument } from './loginThrottle.model.js';
+export { Organization } from './organization.model.js';
+export type { IOrganizationDocument } from './organization.model.js';
+export { BatchAssignment } from './batchAssignment.model.js';
+export type { IBatchAssignmentDocument } from './batchAssignment.model.js';
+export { StoredFile } from './storedFile.model.js';
+export type { IStoredFileDocument } from './storedFile.model.js';
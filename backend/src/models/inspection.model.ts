@@ -5,8 +5,13 @@ import {
   IQualityReading,
   IGeospatialData,
   IFileMetadata,
-  IInspectionOutcome
+  IGeofenceCheck,
+  IInspectionOutcome,
+  IInspectionEvaluation,
+  IEvaluationCheck,
+  IStandardSnapshot
 } from '../types/index.js';
+import { evaluateInspection } from '../utils/qualityEvaluation.util.js';
 
 export interface IInspectionDocument extends IInspection, Document {
   id: string;
@@ -115,6 +120,37 @@ const geospatialDataSchema = new Schema<IGeospatialData>(
   { _id: false }
 );
 
+const geofenceCheckSchema = new Schema<IGeofenceCheck>(
+  {
+    status: {
+      type: String,
+      enum: ['within', 'outside', 'low_accuracy', 'unavailable'],
+      required: true,
+    },
+    distanceMeters: {
+      type: Number,
+      min: 0,
+    },
+    accuracyMeters: {
+      type: Number,
+      min: 0,
+    },
+    radiusMeters: {
+      type: Number,
+      required: true,
+    },
+    maxAccuracyMeters: {
+      type: Number,
+      required: true,
+    },
+    checkedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
 const fileMetadataSchema = new Schema<IFileMetadata>(
   {
     id: {
@@ -130,6 +166,9 @@ const fileMetadataSchema = new Schema<IFileMetadata>(
       type: String,
       required: [true, 'File URL is required'],
     },
+    thumbnailUrl: {
+      type: String,
+    },
     size: {
       type: Number,
       required: [true, 'File size is required'],
@@ -167,6 +206,11 @@ const inspectionOutcomeSchema = new Schema<IInspectionOutcome>(
       trim: true,
       maxlength: [2000, 'Reasoning cannot exceed 2000 characters'],
     },
+    inspectorReasoning: {
+      type: String,
+      trim: true,
+      maxlength: [2000, 'Inspector reasoning cannot exceed 2000 characters'],
+    },
     recommendations: {
       type: [String],
       default: [],
@@ -192,6 +236,87 @@ const inspectionOutcomeSchema = new Schema<IInspectionOutcome>(
   { _id: false }
 );
 
+const evaluationCheckSchema = new Schema<IEvaluationCheck>(
+  {
+    source: {
+      type: String,
+      enum: ['reading', 'quality', 'required_reading', 'required_photo'],
+      required: true,
+    },
+    parameter: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    value: {
+      type: Schema.Types.Mixed,
+    },
+    unit: {
+      type: String,
+      trim: true,
+    },
+    min: {
+      type: Number,
+    },
+    max: {
+      type: Number,
+    },
+    status: {
+      type: String,
+      enum: ['pass', 'fail', 'not_evaluated'],
+      required: true,
+    },
+    reason: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+  },
+  { _id: false }
+);
+
+// Server-side evaluation trace recorded when the inspection is completed
+const inspectionEvaluationSchema = new Schema<IInspectionEvaluation>(
+  {
+    classification: {
+      type: String,
+      enum: ['pass', 'fail'],
+      required: true,
+    },
+    productType: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    standardId: {
+      type: String,
+      ref: 'QualityStandard',
+    },
+    standardVersion: {
+      type: Number,
+      required: true,
+    },
+    checks: {
+      type: [evaluationCheckSchema],
+      default: [],
+    },
+    requestedClassification: {
+      type: String,
+      enum: ['pass', 'fail', 'conditional_pass', 'requires_retest'],
+    },
+    evaluatedAt: {
+      type: Date,
+      required: true,
+    },
+    evaluatedBy: {
+      type: String,
+      required: true,
+      ref: 'User',
+    },
+  },
+  { _id: false }
+);
+
 const inspectionSchema = new Schema<IInspectionDocument>(
   {
     batchId: {
@@ -200,6 +325,10 @@ const inspectionSchema = new Schema<IInspectionDocument>(
       ref: 'Batch',
       index: true,
     },
+    organizationId: {
+      type: String,
+      ref: 'Organization',
+    },
     inspectorId: {
       type: String,
       required: [true, 'Inspector ID is required'],
@@ -229,6 +358,9 @@ const inspectionSchema = new Schema<IInspectionDocument>(
       type: geospatialDataSchema,
       required: [true, 'Geospatial data is required'],
     },
+    geofence: {
+      type: geofenceCheckSchema,
+    },
     photos: {
       type: [fileMetadataSchema],
       default: [],
@@ -266,6 +398,9 @@ const inspectionSchema = new Schema<IInspectionDocument>(
     outcome: {
       type: inspectionOutcomeSchema,
     },
+    evaluation: {
+      type: inspectionEvaluationSchema,
+    },
     draftSavedAt: {
       type: Date,
     },
@@ -294,9 +429,11 @@ const inspectionSchema = new Schema<IInspectionDocument>(
 inspectionSchema.index({ batchId: 1, createdAt: -1 });
 inspectionSchema.index({ inspectorId: 1, status: 1 });
 inspectionSchema.index({ status: 1, createdAt: -1 });
+inspectionSchema.index({ organizationId: 1, createdAt: -1 });
 inspectionSchema.index({ overallResult: 1 });
 inspectionSchema.index({ createdAt: -1 });
 inspectionSchema.index({ draftSavedAt: 1 });
+inspectionSchema.index({ 'geofence.status': 1 });
 
 // Pre-save middleware to calculate overall result and update draft timestamp
 inspectionSchema.pre('save', function (next) {
@@ -319,23 +456,15 @@ inspectionSchema.pre('save', function (next) {
   next();
 });
 
-// Method to validate quality readings against rules
+// Method to validate quality readings against the snapshotted standard
 inspectionSchema.methods.validateQualityReadings = function() {
-  const rules = this.validationRules || {};
-  
-  if (rules.maxMoisturePercent && this.qualityReadings.moisturePercent > rules.maxMoisturePercent) {
-    return false;
+  const standard = this.validationRules as IStandardSnapshot | undefined;
+  if (!standard?.parameters) {
+    return true;
   }
-  
-  if (rules.maxPesticidePPM && this.qualityReadings.pesticidePPM > rules.maxPesticidePPM) {
-    return false;
-  }
-  
-  if (rules.requiresOrganic && !this.qualityReadings.isOrganic) {
-    return false;
-  }
-  
-  return true;
+
+  const { readings, qualityReadings, photos } = this.toObject();
+  return evaluateInspection({ readings, qualityReadings, photos, standard }).classification === 'pass';
 };
 
 // Virtual for batch
@@ -1,19 +1,34 @@
-import mongoose, { Schema, Document } from 'mongoose';
+import mongoose, { Schema, Document, Model, UpdateWriteOpResult } from 'mongoose';
+
+export interface IIssuanceJobError {
+  attempt: number;
+  error: string;
+  workerId?: string;
+  occurredAt: Date;
+}
 
 export interface IIssuanceJob {
   batchId: string;
+  organizationId?: string;
   inspectionId?: string;
   certificateId?: string;
-  status: 'pending' | 'processing' | 'success' | 'failed';
+  status: 'pending' | 'processing' | 'success' | 'failed' | 'dead_letter' | 'cancelled';
   attempts: number;
   attemptCount: number;
   maxAttempts: number;
   workerId?: string;
+  nextRunAt?: Date;
+  leaseExpiresAt?: Date;
+  heartbeatAt?: Date;
+  deadLetteredAt?: Date;
+  cancelledAt?: Date;
+  cancelledBy?: string;
   lastError?: string;
+  errorHistory: IIssuanceJobError[];
   payload?: Record<string, any>;
   result?: {
-    vcId: string;
-    vcUrl: string;
+    vcId?: string;
+    vcUrl?: string;
     certificateId: string;
   };
   createdAt: Date;
@@ -22,9 +37,31 @@ export interface IIssuanceJob {
 
 export interface IIssuanceJobDocument extends IIssuanceJob, Document {
   id: string;
+  canRetry(): boolean;
+  retry(): Promise<IIssuanceJobDocument>;
+}
+
+export interface IssuanceBackoff {
+  baseMs: number;
+  maxMs: number;
+}
+
+export interface IIssuanceJobModel extends Model<IIssuanceJobDocument> {
+  findPendingJobs(limit?: number, leaseMs?: number): Promise<IIssuanceJobDocument[]>;
+  claimJob(jobId: string, workerId: string, leaseMs?: number): Promise<IIssuanceJobDocument | null>;
+  heartbeat(jobId: string, workerId: string, leaseMs?: number): Promise<boolean>;
+  markSuccess(
+    jobId: string,
+    result: NonNullable<IIssuanceJob['result']>,
+    workerId: string
+  ): Promise<IIssuanceJobDocument | null>;
+  markFailed(jobId: string, error: string, workerId: string, backoff?: IssuanceBackoff): Promise<IIssuanceJobDocument | null>;
+  deadLetterExpiredLeases(leaseMs?: number): Promise<UpdateWriteOpResult>;
+  requeueJob(jobId: string, error?: string): Promise<IIssuanceJobDocument | null>;
+  cancelJob(jobId: string, cancelledBy: string): Promise<IIssuanceJobDocument | null>;
 }
 
-const issuanceJobSchema = new Schema<IIssuanceJobDocument>(
+const issuanceJobSchema = new Schema<IIssuanceJobDocument, IIssuanceJobModel>(
   {
     batchId: {
       type: String,
@@ -32,6 +69,10 @@ const issuanceJobSchema = new Schema<IIssuanceJobDocument>(
       ref: 'Batch',
       index: true,
     },
+    organizationId: {
+      type: String,
+      ref: 'Organization',
+    },
     inspectionId: {
       type: String,
       ref: 'Inspection',
@@ -44,7 +85,7 @@ const issuanceJobSchema = new Schema<IIssuanceJobDocument>(
     },
     status: {
       type: String,
-      enum: ['pending', 'processing', 'success', 'failed'],
+      enum: ['pending', 'processing', 'success', 'failed', 'dead_letter', 'cancelled'],
       default: 'pending',
       required: true,
       index: true,
@@ -71,11 +112,45 @@ const issuanceJobSchema = new Schema<IIssuanceJobDocument>(
       type: String,
       trim: true,
     },
+    // Earliest time the job may be picked up again (exponential backoff)
+    nextRunAt: {
+      type: Date,
+      default: Date.now,
+    },
+    // A processing job whose lease has expired can be reclaimed by another worker
+    leaseExpiresAt: {
+      type: Date,
+    },
+    heartbeatAt: {
+      type: Date,
+    },
+    deadLetteredAt: {
+      type: Date,
+    },
+    cancelledAt: {
+      type: Date,
+    },
+    cancelledBy: {
+      type: String,
+      ref: 'User',
+    },
     lastError: {
       type: String,
       trim: true,
       maxlength: [1000, 'Error message cannot exceed 1000 characters'],
     },
+    errorHistory: {
+      type: [
+        {
+          _id: false,
+          attempt: { type: Number, required: true },
+          error: { type: String, required: true },
+          workerId: { type: String },
+          occurredAt: { type: Date, required: true, default: Date.now },
+        },
+      ],
+      default: [],
+    },
     payload: {
       type: Schema.Types.Mixed,
       default: {},
@@ -113,63 +188,157 @@ const issuanceJobSchema = new Schema<IIssuanceJobDocument>(
 // Indexes for efficient querying
 issuanceJobSchema.index({ status: 1, createdAt: 1 });
 issuanceJobSchema.index({ batchId: 1, status: 1 });
+issuanceJobSchema.index({ organizationId: 1, status: 1 });
 issuanceJobSchema.index({ status: 1, attempts: 1, createdAt: 1 });
+issuanceJobSchema.index({ status: 1, nextRunAt: 1 });
+issuanceJobSchema.index({ status: 1, leaseExpiresAt: 1 });
+issuanceJobSchema.index({ updatedAt: 1 });
 
 // TTL index to clean up old jobs (30 days)
 issuanceJobSchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
 
+const DEFAULT_LEASE_MS = 60 * 1000;
+const DEFAULT_BACKOFF = { baseMs: 5 * 1000, maxMs: 15 * 60 * 1000 };
+
+/**
+ * Processing jobs whose worker stopped renewing the lease
+ */
+const leaseExpiredFilter = (now: Date, leaseMs: number) => ({
+  status: 'processing',
+  $or: [
+    { leaseExpiresAt: { $lt: now } },
+    // Claimed before leases were tracked
+    { leaseExpiresAt: null, updatedAt: { $lt: new Date(now.getTime() - leaseMs) } },
+  ],
+});
+
+/**
+ * Pipeline expression appending an entry to errorHistory
+ */
+const appendErrorHistory = (error: string, workerId: unknown, now: Date) => ({
+  $concatArrays: [
+    { $ifNull: ['$errorHistory', []] },
+    [{ attempt: '$attempts', error: { $literal: error }, workerId, occurredAt: now }],
+  ],
+});
+
 // Static methods
-issuanceJobSchema.statics.findPendingJobs = function(limit = 10) {
-  return this.find({ 
-    status: 'pending',
-    $expr: { $lt: ['$attempts', '$maxAttempts'] }
+issuanceJobSchema.statics.findPendingJobs = function(limit = 10, leaseMs = DEFAULT_LEASE_MS) {
+  const now = new Date();
+
+  return this.find({
+    $expr: { $lt: ['$attempts', '$maxAttempts'] },
+    $or: [
+      { status: 'pending', nextRunAt: { $not: { $gt: now } } },
+      leaseExpiredFilter(now, leaseMs),
+    ],
   })
-  .sort({ createdAt: 1 })
+  .sort({ nextRunAt: 1, createdAt: 1 })
   .limit(limit);
 };
 
-issuanceJobSchema.statics.claimJob = function(jobId: string, workerId: string) {
+/**
+ * Atomically claim a due pending job, or reclaim one whose lease expired.
+ * Reclaiming records the lost attempt in errorHistory.
+ */
+issuanceJobSchema.statics.claimJob = function(jobId: string, workerId: string, leaseMs = DEFAULT_LEASE_MS) {
+  const now = new Date();
+
   return this.findOneAndUpdate(
-    { 
-      _id: jobId, 
-      status: 'pending' 
-    },
-    { 
-      status: 'processing',
-      workerId,
-      $inc: { attempts: 1 }
+    {
+      _id: jobId,
+      $expr: { $lt: ['$attempts', '$maxAttempts'] },
+      $or: [
+        { status: 'pending', nextRunAt: { $not: { $gt: now } } },
+        leaseExpiredFilter(now, leaseMs),
+      ],
     },
+    [
+      {
+        $set: {
+          errorHistory: {
+            $cond: {
+              if: { $eq: ['$status', 'processing'] },
+              then: appendErrorHistory('Lease expired before the job completed', '$workerId', now),
+              else: { $ifNull: ['$errorHistory', []] },
+            },
+          },
+          status: 'processing',
+          workerId: { $literal: workerId },
+          heartbeatAt: now,
+          leaseExpiresAt: new Date(now.getTime() + leaseMs),
+          attempts: { $add: ['$attempts', 1] },
+        },
+      },
+    ],
     { new: true }
   );
 };
 
-issuanceJobSchema.statics.markSuccess = function(jobId: string, result: any) {
-  return this.findByIdAndUpdate(
-    jobId,
+/**
+ * Extend the lease of a job this worker holds. Resolves to false if the lease was lost.
+ */
+issuanceJobSchema.statics.heartbeat = async function(jobId: string, workerId: string, leaseMs = DEFAULT_LEASE_MS) {
+  const now = new Date();
+  const result = await this.updateOne(
+    { _id: jobId, workerId, status: 'processing' },
+    { heartbeatAt: now, leaseExpiresAt: new Date(now.getTime() + leaseMs) }
+  );
+  return result.matchedCount === 1;
+};
+
+/**
+ * Complete a job this worker holds. Resolves to null if the lease was lost.
+ */
+issuanceJobSchema.statics.markSuccess = function(
+  jobId: string,
+  result: NonNullable<IIssuanceJob['result']>,
+  workerId: string
+) {
+  return this.findOneAndUpdate(
+    { _id: jobId, workerId, status: 'processing' },
     { 
       status: 'success',
       result,
-      lastError: undefined
+      lastError: undefined,
+      $unset: { leaseExpiresAt: 1 },
     },
     { new: true }
   );
 };
 
-issuanceJobSchema.statics.markFailed = function(jobId: string, error: string) {
+/**
+ * Record a failed attempt on a job this worker holds. The job is rescheduled with
+ * exponential backoff, or moved to the dead-letter state once maxAttempts is reached.
+ * Resolves to null if the lease was lost.
+ */
+issuanceJobSchema.statics.markFailed = function(
+  jobId: string,
+  error: string,
+  workerId: string,
+  backoff: IssuanceBackoff = DEFAULT_BACKOFF
+) {
+  const now = new Date();
+  const exhausted = { $gte: ['$attempts', '$maxAttempts'] };
+  const delayMs = {
+    $min: [
+      backoff.maxMs,
+      { $multiply: [backoff.baseMs, { $pow: [2, { $max: [{ $subtract: ['$attempts', 1] }, 0] }] }] },
+    ],
+  };
+
   return this.findOneAndUpdate(
-    { _id: jobId },
+    { _id: jobId, workerId, status: 'processing' },
     [
       {
         $set: {
-          status: {
-            $cond: {
-              if: { $gte: ['$attempts', '$maxAttempts'] },
-              then: 'failed',
-              else: 'pending'
-            }
-          },
-          lastError: error,
-          workerId: null
+          status: { $cond: { if: exhausted, then: 'dead_letter', else: 'pending' } },
+          nextRunAt: { $cond: { if: exhausted, then: '$nextRunAt', else: { $add: [now, delayMs] } } },
+          deadLetteredAt: { $cond: { if: exhausted, then: now, else: '$deadLetteredAt' } },
+          errorHistory: appendErrorHistory(error, { $literal: workerId }, now),
+          lastError: { $literal: error },
+          workerId: null,
+          leaseExpiresAt: null,
         }
       }
     ],
@@ -177,12 +346,58 @@ issuanceJobSchema.statics.markFailed = function(jobId: string, error: string) {
   );
 };
 
+/**
+ * Move processing jobs that lost their lease on the final attempt to the dead-letter state
+ */
+issuanceJobSchema.statics.deadLetterExpiredLeases = function(leaseMs = DEFAULT_LEASE_MS) {
+  const now = new Date();
+  const error = 'Lease expired before the job completed';
+
+  return this.updateMany(
+    {
+      ...leaseExpiredFilter(now, leaseMs),
+      $expr: { $gte: ['$attempts', '$maxAttempts'] },
+    },
+    [
+      {
+        $set: {
+          status: 'dead_letter',
+          deadLetteredAt: now,
+          errorHistory: appendErrorHistory(error, '$workerId', now),
+          lastError: error,
+          workerId: null,
+          leaseExpiresAt: null,
+        }
+      }
+    ]
+  );
+};
+
 issuanceJobSchema.statics.requeueJob = function(jobId: string, error?: string) {
   return this.findByIdAndUpdate(
     jobId,
     { 
       status: 'pending',
-      lastError: error
+      lastError: error,
+      nextRunAt: new Date(),
+      workerId: null,
+      leaseExpiresAt: null,
+    },
+    { new: true }
+  );
+};
+
+/**
+ * Cancel a job that no worker has claimed yet. Resolves to null if the job
+ * is no longer pending.
+ */
+issuanceJobSchema.statics.cancelJob = function(jobId: string, cancelledBy: string) {
+  return this.findOneAndUpdate(
+    { _id: jobId, status: 'pending' },
+    {
+      status: 'cancelled',
+      cancelledAt: new Date(),
+      cancelledBy,
     },
     { new: true }
   );
@@ -190,23 +405,35 @@ issuanceJobSchema.statics.requeueJob = function(jobId: string, error?: string) {
 
 // Instance methods
 issuanceJobSchema.methods.canRetry = function(): boolean {
-  return this.attempts < 3 && this.status === 'failed';
+  return this.status === 'failed' || this.status === 'dead_letter' || this.status === 'cancelled';
 };
 
+/**
+ * Manually retry a failed, dead-lettered or cancelled job with a fresh
+ * attempt budget. The error history is kept.
+ */
 issuanceJobSchema.methods.retry = function(): Promise<IIssuanceJobDocument> {
   if (!this.canRetry()) {
     throw new Error('Job cannot be retried');
   }
   
   this.status = 'pending';
+  this.attempts = 0;
+  this.nextRunAt = new Date();
+  this.deadLetteredAt = undefined;
+  this.cancelledAt = undefined;
+  this.cancelledBy = undefined;
+  this.workerId = undefined;
+  this.leaseExpiresAt = undefined;
   return this.save();
 };
 
 // Pre-save middleware
 issuanceJobSchema.pre('save', function(next) {
-  // Auto-fail jobs with too many attempts
-  if (this.attempts >= 3 && this.status !== 'failed') {
-    this.status = 'failed';
+  // Dead-letter queued jobs that have used up their attempts
+  if (this.status === 'pending' && this.attempts >= this.maxAttempts) {
+    this.status = 'dead_letter';
+    this.deadLetteredAt = new Date();
     if (!this.lastError) {
       this.lastError = 'Maximum retry attempts exceeded';
     }
@@ -226,8 +453,10 @@ issuanceJobSchema.virtual('statusDisplay').get(function() {
     case 'processing': return 'Processing';
     case 'success': return 'Completed';
     case 'failed': return 'Failed';
+    case 'dead_letter': return 'Dead Letter';
+    case 'cancelled': return 'Cancelled';
     default: return this.status;
   }
 });
 
-export const IssuanceJob = mongoose.model<IIssuanceJobDocument>('IssuanceJob', issuanceJobSchema);
\ No newline at end of file
+export const IssuanceJob = mongoose.model<IIssuanceJobDocument, IIssuanceJobModel>('IssuanceJob', issuanceJobSchema);
\ No newline at end of file
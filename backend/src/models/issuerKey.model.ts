@@ -0,0 +1,99 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IIssuerKey {
+  controller: string;
+  keyId: string;
+  type: 'Ed25519VerificationKey2020';
+  publicKeyMultibase: string;
+  privateKey?: string;
+  status: 'active' | 'retired' | 'revoked';
+  validFrom: Date;
+  validUntil?: Date;
+  revokedAt?: Date;
+  revocationReason?: string;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IIssuerKeyDocument extends IIssuerKey, Document {
+  id: string;
+}
+
+const issuerKeySchema = new Schema<IIssuerKeyDocument>(
+  {
+    controller: {
+      type: String,
+      required: [true, 'Controller DID is required'],
+      trim: true,
+      index: true,
+    },
+    keyId: {
+      type: String,
+      required: [true, 'Key ID is required'],
+      unique: true,
+      trim: true,
+    },
+    type: {
+      type: String,
+      enum: ['Ed25519VerificationKey2020'],
+      default: 'Ed25519VerificationKey2020',
+    },
+    publicKeyMultibase: {
+      type: String,
+      required: [true, 'Public key is required'],
+    },
+    privateKey: {
+      type: String,
+      select: false, // Encrypted PKCS#8 PEM, only loaded for signing
+    },
+    status: {
+      type: String,
+      enum: ['active', 'retired', 'revoked'],
+      default: 'active',
+      required: true,
+      index: true,
+    },
+    validFrom: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    validUntil: {
+      type: Date,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revocationReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Revocation reason cannot exceed 500 characters'],
+    },
+    createdBy: {
+      type: String,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: function (_doc, ret) {
+        const { _id, __v, privateKey, ...result } = ret;
+        void __v;
+        void privateKey;
+        return { ...result, id: _id?.toString() };
+      },
+    },
+  }
+);
+
+// Only one signing key may be active per DID
+issuerKeySchema.index(
+  { controller: 1 },
+  { unique: true, partialFilterExpression: { status: 'active' }, name: 'controller_active_unique' }
+);
+issuerKeySchema.index({ controller: 1, validFrom: 1 });
+
+export const IssuerKey = mongoose.model<IIssuerKeyDocument>('IssuerKey', issuerKeySchema);
@@ -0,0 +1,49 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ILoginThrottle {
+  ipAddress: string;
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil?: Date;
+  expiresAt: Date;
+}
+
+export interface ILoginThrottleDocument extends ILoginThrottle, Document {
+  id: string;
+}
+
+/**
+ * Failed sign-ins from one IP address, across all accounts. Removed by
+ * MongoDB once the failures and any lockout have expired.
+ */
+const loginThrottleSchema = new Schema<ILoginThrottleDocument>(
+  {
+    ipAddress: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    failures: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    lastFailureAt: {
+      type: Date,
+      required: true,
+    },
+    lockedUntil: {
+      type: Date,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+      index: { expires: 0 },
+    },
+  },
+  {
+    timestamps: false,
+  }
+);
+
+export const LoginThrottle = mongoose.model<ILoginThrottleDocument>('LoginThrottle', loginThrottleSchema);
@@ -1,11 +1,15 @@
-import mongoose, { Schema, Document } from 'mongoose';
+import mongoose, { Schema, Document, Model, UpdateWriteOpResult } from 'mongoose';
 import { INotification } from '../types/index.js';
 
 export interface INotificationDocument extends INotification, Document {
   id: string;
 }
 
-const notificationSchema = new Schema<INotificationDocument>(
+export interface INotificationModel extends Model<INotificationDocument> {
+  markAllAsRead(userId: string): Promise<UpdateWriteOpResult>;
+}
+
+const notificationSchema = new Schema<INotificationDocument, INotificationModel>(
   {
     userId: {
       type: String,
@@ -23,6 +27,8 @@ const notificationSchema = new Schema<INotificationDocument>(
         'action_required',
         'batch_approved',
         'batch_rejected',
+        'inspection_scheduled',
+        'security_alert',
       ],
       required: [true, 'Notification type is required'],
       index: true,
@@ -52,14 +58,18 @@ const notificationSchema = new Schema<INotificationDocument>(
       type: Schema.Types.Mixed,
       default: {},
     },
+    pendingPush: {
+      type: Boolean,
+    },
   },
   {
     timestamps: true,
     toJSON: {
       virtuals: true,
       transform: function (_doc, ret) {
-        const { _id, __v, ...notificationObj } = ret;
+        const { _id, __v, pendingPush, ...notificationObj } = ret;
         void __v;
+        void pendingPush;
         return { ...notificationObj, id: _id.toString() };
       },
     },
@@ -70,6 +80,7 @@ const notificationSchema = new Schema<INotificationDocument>(
 notificationSchema.index({ userId: 1, read: 1, createdAt: -1 });
 notificationSchema.index({ userId: 1, type: 1 });
 notificationSchema.index({ createdAt: -1 });
+notificationSchema.index({ createdAt: 1, pendingPush: 1 }, { partialFilterExpression: { pendingPush: true } });
 
 // TTL index to auto-delete read notifications after 90 days
 notificationSchema.index(
@@ -93,7 +104,7 @@ notificationSchema.statics.markAllAsRead = async function (userId: string) {
   return this.updateMany({ userId, read: false }, { read: true });
 };
 
-export const Notification = mongoose.model<INotificationDocument>(
+export const Notification = mongoose.model<INotificationDocument, INotificationModel>(
   'Notification',
   notificationSchema
 );
@@ -0,0 +1,76 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IOrganization } from '../types/index.js';
+
+export interface IOrganizationDocument extends IOrganization, Document {
+  id: string;
+}
+
+/**
+ * A certification body, cooperative or lab. Members are users whose
+ * `organizationId` points here; batches, inspections and certificates carry
+ * the certification body they belong to.
+ */
+const organizationSchema = new Schema<IOrganizationDocument>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      minlength: [2, 'Name must be at least 2 characters'],
+      maxlength: [120, 'Name cannot exceed 120 characters'],
+    },
+    slug: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+      trim: true,
+      match: [/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug may only contain lowercase letters, digits and hyphens'],
+    },
+    type: {
+      type: String,
+      enum: ['certification_body', 'cooperative', 'lab'],
+      required: [true, 'Organization type is required'],
+      index: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Description cannot exceed 500 characters'],
+    },
+    contactEmail: {
+      type: String,
+      lowercase: true,
+      trim: true,
+      match: [/^\S+@\S+\.\S+$/, 'Please provide a valid email address'],
+    },
+    issuerDid: {
+      type: String,
+      trim: true,
+      unique: true,
+      sparse: true,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+      index: true,
+    },
+    createdBy: {
+      type: String,
+      required: true,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (_doc, ret) {
+        const { _id, __v, ...organizationObj } = ret;
+        void __v;
+        return { ...organizationObj, id: _id.toString() };
+      },
+    },
+  }
+);
+
+export const Organization = mongoose.model<IOrganizationDocument>('Organization', organizationSchema);
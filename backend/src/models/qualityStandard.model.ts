@@ -0,0 +1,137 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { IQualityStandard, IStandardParameter } from '../types/index.js';
+
+export interface IQualityStandardDocument extends IQualityStandard, Document {
+  id: string;
+}
+
+export interface IQualityStandardModel extends Model<IQualityStandardDocument> {
+  findEffective(productType: string, at?: Date): Promise<IQualityStandardDocument | null>;
+}
+
+const standardParameterSchema = new Schema<IStandardParameter>(
+  {
+    key: {
+      type: String,
+      required: [true, 'Parameter key is required'],
+      trim: true,
+      lowercase: true,
+      match: [/^[a-z0-9_]+$/, 'Parameter key may only contain lowercase letters, digits and underscores'],
+    },
+    label: {
+      type: String,
+      required: [true, 'Parameter label is required'],
+      trim: true,
+      maxlength: [100, 'Parameter label cannot exceed 100 characters'],
+    },
+    unit: {
+      type: String,
+      required: [true, 'Parameter unit is required'],
+      trim: true,
+      maxlength: [20, 'Unit cannot exceed 20 characters'],
+    },
+    min: {
+      type: Number,
+    },
+    max: {
+      type: Number,
+    },
+    // Other names inspectors use for this parameter in free-form readings
+    aliases: {
+      type: [String],
+      default: [],
+    },
+  },
+  { _id: false }
+);
+
+const qualityStandardSchema = new Schema<IQualityStandardDocument, IQualityStandardModel>(
+  {
+    productType: {
+      type: String,
+      required: [true, 'Product type is required'],
+      trim: true,
+      lowercase: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Standard name is required'],
+      trim: true,
+      maxlength: [200, 'Standard name cannot exceed 200 characters'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Description cannot exceed 1000 characters'],
+    },
+    version: {
+      type: Number,
+      required: true,
+      min: [1, 'Version must be at least 1'],
+    },
+    effectiveFrom: {
+      type: Date,
+      required: [true, 'Effective date is required'],
+    },
+    parameters: {
+      type: [standardParameterSchema],
+      default: [],
+      validate: {
+        validator: function (arr: IStandardParameter[]) {
+          return new Set(arr.map((parameter) => parameter.key)).size === arr.length;
+        },
+        message: 'Parameter keys must be unique',
+      },
+    },
+    requiresOrganic: {
+      type: Boolean,
+      default: false,
+    },
+    requiredPhotos: {
+      type: [String],
+      default: [],
+    },
+    requiredReadings: {
+      type: [String],
+      default: [],
+    },
+    createdBy: {
+      type: String,
+      required: true,
+      ref: 'User',
+    },
+    updatedBy: {
+      type: String,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: function (_doc, ret) {
+        const { _id, __v, ...standardObj } = ret;
+        void __v;
+        return { ...standardObj, id: _id?.toString() };
+      },
+    },
+  }
+);
+
+qualityStandardSchema.index({ productType: 1, version: 1 }, { unique: true });
+qualityStandardSchema.index({ productType: 1, effectiveFrom: -1 });
+
+/**
+ * The version of a product's standard in effect at a point in time
+ */
+qualityStandardSchema.statics.findEffective = function (productType: string, at: Date = new Date()) {
+  return this.findOne({
+    productType: productType.trim().toLowerCase(),
+    effectiveFrom: { $lte: at },
+  }).sort({ effectiveFrom: -1, version: -1 });
+};
+
+export const QualityStandard = mongoose.model<IQualityStandardDocument, IQualityStandardModel>(
+  'QualityStandard',
+  qualityStandardSchema
+);
@@ -0,0 +1,79 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ISession {
+  userId: string;
+  tokenHash: string;
+  device: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+}
+
+export interface ISessionDocument extends ISession, Document {
+  id: string;
+}
+
+/**
+ * One signed-in device. The refresh token rotates on every use and only the
+ * hash of the current one is kept; its JWT carries the session id, so an
+ * older token from the same session identifies a replay.
+ */
+const sessionSchema = new Schema<ISessionDocument>(
+  {
+    userId: {
+      type: String,
+      required: true,
+      ref: 'User',
+      index: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    device: {
+      type: String,
+      required: true,
+    },
+    userAgent: {
+      type: String,
+      maxlength: 512,
+    },
+    ipAddress: {
+      type: String,
+    },
+    createdAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    lastUsedAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    // Matches the refresh token expiry; MongoDB removes the session after it
+    expiresAt: {
+      type: Date,
+      required: true,
+      index: { expires: 0 },
+    },
+  },
+  {
+    timestamps: false,
+    toJSON: {
+      transform: function (_doc, ret) {
+        const { _id, __v, tokenHash, ...sessionObj } = ret;
+        void __v;
+        void tokenHash;
+        return { ...sessionObj, id: _id.toString() };
+      },
+    },
+  }
+);
+
+sessionSchema.index({ userId: 1, lastUsedAt: -1 });
+
+export const Session = mongoose.model<ISessionDocument>('Session', sessionSchema);
@@ -0,0 +1,86 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IStatusList {
+  listId: string;
+  issuer: string;
+  statusPurpose: 'revocation';
+  size: number;
+  nextIndex: number;
+  bitstring: Buffer;
+  version: number;
+  credential?: Record<string, any>;
+  credentialVersion?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IStatusListDocument extends IStatusList, Document {
+  id: string;
+}
+
+const statusListSchema = new Schema<IStatusListDocument>(
+  {
+    listId: {
+      type: String,
+      required: [true, 'List ID is required'],
+      unique: true,
+      trim: true,
+    },
+    issuer: {
+      type: String,
+      required: [true, 'Issuer DID is required'],
+      trim: true,
+    },
+    statusPurpose: {
+      type: String,
+      enum: ['revocation'],
+      default: 'revocation',
+      required: true,
+    },
+    size: {
+      type: Number,
+      required: true,
+      min: [8, 'Status list must hold at least 8 entries'],
+    },
+    nextIndex: {
+      type: Number,
+      default: 0,
+      min: [0, 'Next index cannot be negative'],
+    },
+    bitstring: {
+      type: Buffer,
+      required: true,
+      select: false,
+    },
+    // Incremented on every bit change; used for optimistic concurrency
+    version: {
+      type: Number,
+      default: 0,
+    },
+    // Signed status list credential, reissued when the version moves on
+    credential: {
+      type: Schema.Types.Mixed,
+      select: false,
+    },
+    credentialVersion: {
+      type: Number,
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false,
+    toJSON: {
+      virtuals: true,
+      transform: function (_doc, ret) {
+        const { _id, __v, bitstring, ...result } = ret;
+        void __v;
+        void bitstring;
+        return { ...result, id: _id?.toString() };
+      },
+    },
+  }
+);
+
+statusListSchema.index({ issuer: 1, statusPurpose: 1, createdAt: -1 });
+
+export const StatusList = mongoose.model<IStatusListDocument>('StatusList', statusListSchema);
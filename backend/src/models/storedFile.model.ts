@@ -0,0 +1,198 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// `processing` while one request checks and stores the bytes of a pending upload
+export type StoredFileStatus = 'pending' | 'processing' | 'stored' | 'quarantined';
+
+export type StoredFileField = 'attachments' | 'photos' | 'labReports';
+
+export interface IStoredFileReference {
+  // A certificate pins the files its evidence digests point at
+  resource: 'batch' | 'inspection' | 'certificate';
+  resourceId: string;
+  field: StoredFileField;
+}
+
+// Kept from the EXIF block, which is stripped from stored photos
+export interface IStoredImage {
+  width?: number;
+  height?: number;
+  capturedAt?: Date;
+  latitude?: number;
+  longitude?: number;
+  altitude?: number;
+  // Original type of photos converted to JPEG, e.g. image/heic
+  convertedFrom?: string;
+}
+
+export interface IStoredFileScan {
+  scanner: string;
+  scannedAt: Date;
+  // Detected malware, for quarantined files
+  signature?: string;
+}
+
+export interface IStoredFile {
+  fileId: string;
+  // Key in the storage driver, category/fileId.ext
+  key: string;
+  category: string;
+  filename: string;
+  mimeType: string;
+  size?: number;
+  // Hex SHA-256 of the stored bytes
+  sha256?: string;
+  status: StoredFileStatus;
+  thumbnailKey?: string;
+  image?: IStoredImage;
+  scan?: IStoredFileScan;
+  uploadedBy: string;
+  organizationId?: string;
+  references: IStoredFileReference[];
+  // Set while nothing references the file; the sweeper deletes it once this is older than the grace period
+  unreferencedSince?: Date;
+  uploadedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IStoredFileDocument extends IStoredFile, Document {
+  id: string;
+}
+
+const referenceSchema = new Schema<IStoredFileReference>(
+  {
+    resource: {
+      type: String,
+      enum: ['batch', 'inspection', 'certificate'],
+      required: true,
+    },
+    resourceId: {
+      type: String,
+      required: true,
+    },
+    field: {
+      type: String,
+      enum: ['attachments', 'photos', 'labReports'],
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const imageSchema = new Schema<IStoredImage>(
+  {
+    width: Number,
+    height: Number,
+    capturedAt: Date,
+    latitude: Number,
+    longitude: Number,
+    altitude: Number,
+    convertedFrom: String,
+  },
+  { _id: false }
+);
+
+const scanSchema = new Schema<IStoredFileScan>(
+  {
+    scanner: {
+      type: String,
+      required: true,
+    },
+    scannedAt: {
+      type: Date,
+      required: true,
+    },
+    signature: String,
+  },
+  { _id: false }
+);
+
+/**
+ * One uploaded file. The record is created with the upload URL, completed
+ * when the bytes arrive, and tracks which batches, inspections and
+ * certificates use it.
+ */
+const storedFileSchema = new Schema<IStoredFileDocument>(
+  {
+    fileId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    key: {
+      type: String,
+      required: true,
+    },
+    category: {
+      type: String,
+      enum: ['photos', 'lab-reports', 'documents'],
+      required: true,
+    },
+    filename: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    mimeType: {
+      type: String,
+      required: true,
+    },
+    size: {
+      type: Number,
+      min: 0,
+    },
+    sha256: {
+      type: String,
+      match: /^[0-9a-f]{64}$/,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'processing', 'stored', 'quarantined'],
+      default: 'pending',
+    },
+    thumbnailKey: {
+      type: String,
+    },
+    image: {
+      type: imageSchema,
+    },
+    scan: {
+      type: scanSchema,
+    },
+    uploadedBy: {
+      type: String,
+      required: true,
+      ref: 'User',
+      index: true,
+    },
+    organizationId: {
+      type: String,
+      ref: 'Organization',
+    },
+    references: {
+      type: [referenceSchema],
+      default: [],
+    },
+    unreferencedSince: {
+      type: Date,
+      index: { sparse: true },
+    },
+    uploadedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (_doc, ret) {
+        const { _id, __v, ...fileObj } = ret;
+        void __v;
+        return { ...fileObj, id: _id.toString() };
+      },
+    },
+  }
+);
+
+storedFileSchema.index({ 'references.resource': 1, 'references.resourceId': 1 });
+
+export const StoredFile = mongoose.model<IStoredFileDocument>('StoredFile', storedFileSchema);
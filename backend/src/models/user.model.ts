@@ -46,6 +46,15 @@ const userSchema = new Schema<IUserDocument>(
       type: String,
       trim: true,
     },
+    organizationId: {
+      type: String,
+      ref: 'Organization',
+      index: { sparse: true },
+    },
+    organizationRole: {
+      type: String,
+      enum: ['owner', 'admin', 'member'],
+    },
     phone: {
       type: String,
       trim: true,
@@ -64,13 +73,20 @@ const userSchema = new Schema<IUserDocument>(
       type: Boolean,
       default: false,
     },
+    // SHA-256 digests of the emailed one-time tokens, never the tokens themselves
     verificationToken: {
       type: String,
       select: false,
+      index: { sparse: true },
+    },
+    verificationTokenExpires: {
+      type: Date,
+      select: false,
     },
     resetPasswordToken: {
       type: String,
       select: false,
+      index: { sparse: true },
     },
     resetPasswordExpires: {
       type: Date,
@@ -79,11 +95,57 @@ const userSchema = new Schema<IUserDocument>(
     lastLogin: {
       type: Date,
     },
-    refreshTokens: {
-      type: [String],
-      default: [],
+    // Consecutive failed sign-ins, see LoginProtectionService
+    failedLoginAttempts: {
+      type: Number,
+      default: 0,
       select: false,
     },
+    lastFailedLoginAt: {
+      type: Date,
+      select: false,
+    },
+    lockedUntil: {
+      type: Date,
+    },
+    twoFactor: {
+      enabled: {
+        type: Boolean,
+        default: false,
+      },
+      enabledAt: {
+        type: Date,
+      },
+      // Encrypted base32 TOTP secrets; pendingSecret awaits its first code
+      secret: {
+        type: String,
+        select: false,
+      },
+      pendingSecret: {
+        type: String,
+        select: false,
+      },
+      // SHA-256 digests of unused recovery codes
+      recoveryCodes: {
+        type: [String],
+        default: undefined,
+        select: false,
+      },
+      // Last accepted time step, so a code cannot be replayed
+      lastUsedStep: {
+        type: Number,
+        select: false,
+      },
+      // Identifies the outstanding login challenge and its failed attempts
+      challengeId: {
+        type: String,
+        select: false,
+      },
+      challengeAttempts: {
+        type: Number,
+        select: false,
+      },
+    },
   },
   {
     timestamps: true,
@@ -94,18 +156,26 @@ const userSchema = new Schema<IUserDocument>(
           _id,
           __v,
           password,
-          refreshTokens,
           verificationToken,
+          verificationTokenExpires,
           resetPasswordToken,
           resetPasswordExpires,
           ...userObj
         } = ret;
         void __v;
         void password;
-        void refreshTokens;
         void verificationToken;
+        void verificationTokenExpires;
         void resetPasswordToken;
         void resetPasswordExpires;
+        // Raw refresh tokens stored on accounts before device sessions existed
+        delete (userObj as Record<string, unknown>).refreshTokens;
+        if (userObj.twoFactor) {
+          userObj.twoFactor = {
+            enabled: !!userObj.twoFactor.enabled,
+            enabledAt: userObj.twoFactor.enabledAt,
+          };
+        }
         return { ...userObj, id: _id.toString() };
       },
     },
@@ -0,0 +1,84 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IWorkerHeartbeat {
+  workerId: string;
+  hostname: string;
+  pid: number;
+  isRunning: boolean;
+  activeJobs: number;
+  maxConcurrency: number;
+  pollInterval: number;
+  leaseMs: number;
+  startedAt: Date;
+  lastSeenAt: Date;
+}
+
+export interface IWorkerHeartbeatDocument extends IWorkerHeartbeat, Document {
+  id: string;
+}
+
+const workerHeartbeatSchema = new Schema<IWorkerHeartbeatDocument>(
+  {
+    workerId: {
+      type: String,
+      required: [true, 'Worker ID is required'],
+      unique: true,
+      trim: true,
+    },
+    hostname: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    pid: {
+      type: Number,
+      required: true,
+    },
+    isRunning: {
+      type: Boolean,
+      default: true,
+    },
+    activeJobs: {
+      type: Number,
+      default: 0,
+      min: [0, 'Active job count cannot be negative'],
+    },
+    maxConcurrency: {
+      type: Number,
+      required: true,
+    },
+    pollInterval: {
+      type: Number,
+      required: true,
+    },
+    leaseMs: {
+      type: Number,
+      required: true,
+    },
+    startedAt: {
+      type: Date,
+      required: true,
+    },
+    lastSeenAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: false,
+    toJSON: {
+      virtuals: true,
+      transform: function (_doc, ret) {
+        const { _id, __v, ...heartbeatObj } = ret;
+        void __v;
+        return { ...heartbeatObj, id: _id?.toString() };
+      },
+    },
+  }
+);
+
+// Workers that stopped reporting are removed after a day
+workerHeartbeatSchema.index({ lastSeenAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+export const WorkerHeartbeat = mongoose.model<IWorkerHeartbeatDocument>('WorkerHeartbeat', workerHeartbeatSchema);
@@ -0,0 +1,56 @@
+import { Router } from 'express';
+import { AssignmentController } from '../controllers/assignment.controller.js';
+import { authenticate, authorize } from '../middleware/auth.middleware.js';
+import { validateSchema, validateQuery } from '../validators/requestValidation.validator.js';
+import { validateObjectId } from '../validators/mongoValidation.validator.js';
+import {
+  createAssignmentSchema,
+  reassignAssignmentSchema,
+  declineAssignmentSchema,
+  assignmentQuerySchema,
+  eligibleInspectorsQuerySchema,
+} from '../validators/schemas.js';
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get('/',
+  authorize('qa_inspector', 'certifier', 'admin'),
+  validateQuery(assignmentQuerySchema),
+  AssignmentController.getAssignments
+);
+
+router.get('/inspectors',
+  authorize('certifier', 'admin'),
+  validateQuery(eligibleInspectorsQuerySchema),
+  AssignmentController.getEligibleInspectors
+);
+
+router.post('/',
+  authorize('certifier', 'admin'),
+  validateSchema(createAssignmentSchema),
+  AssignmentController.assign
+);
+
+router.post('/:id/reassign',
+  authorize('certifier', 'admin'),
+  validateObjectId('id'),
+  validateSchema(reassignAssignmentSchema),
+  AssignmentController.reassign
+);
+
+router.post('/:id/accept',
+  authorize('qa_inspector'),
+  validateObjectId('id'),
+  AssignmentController.accept
+);
+
+router.post('/:id/decline',
+  authorize('qa_inspector'),
+  validateObjectId('id'),
+  validateSchema(declineAssignmentSchema),
+  AssignmentController.decline
+);
+
+export default router;
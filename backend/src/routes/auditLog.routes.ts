@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { AuditLogController } from '../controllers/auditLog.controller.js';
+import { authenticate, authorize } from '../middleware/auth.middleware.js';
+import { validateQuery } from '../validators/requestValidation.validator.js';
+import { auditLogQuerySchema, auditLogExportQuerySchema } from '../validators/schemas.js';
+
+const router = Router();
+
+router.use(authenticate, authorize('admin'));
+
+router.get('/',
+  validateQuery(auditLogQuerySchema),
+  AuditLogController.getLogs
+);
+
+router.get('/facets',
+  AuditLogController.getFacets
+);
+
+router.get('/export',
+  validateQuery(auditLogExportQuerySchema),
+  AuditLogController.exportLogs
+);
+
+router.get('/verify',
+  AuditLogController.verifyChain
+);
+
+router.get('/checkpoints',
+  AuditLogController.getCheckpoints
+);
+
+router.post('/checkpoints',
+  AuditLogController.createCheckpoint
+);
+
+router.get('/timeline/:resource/:resourceId',
+  AuditLogController.getResourceTimeline
+);
+
+export default router;
@@ -2,12 +2,21 @@ import { Router } from 'express';
 import { AuthController } from '../controllers/auth.controller.js';
 import { authenticate } from '../middleware/auth.middleware.js';
 import { validateSchema } from '../validators/requestValidation.validator.js';
+import { validateObjectId } from '../validators/mongoValidation.validator.js';
 import {
   registerSchema,
   loginSchema,
   refreshTokenSchema,
   changePasswordSchema,
   updateProfileSchema,
+  verifyEmailSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  twoFactorChallengeSchema,
+  twoFactorLoginSchema,
+  twoFactorEnrollSchema,
+  twoFactorCodeSchema,
+  twoFactorDisableSchema,
 } from '../validators/schemas.js';
 
 const router = Router();
@@ -16,11 +25,26 @@ const router = Router();
 router.post('/register', validateSchema(registerSchema), AuthController.register);
 router.post('/login', validateSchema(loginSchema), AuthController.login);
 router.post('/refresh', validateSchema(refreshTokenSchema), AuthController.refreshToken);
+router.post('/2fa/verify', validateSchema(twoFactorLoginSchema), AuthController.verifyTwoFactorLogin);
+router.post('/2fa/enroll/setup', validateSchema(twoFactorChallengeSchema), AuthController.beginTwoFactorEnrollment);
+router.post('/2fa/enroll/confirm', validateSchema(twoFactorEnrollSchema), AuthController.completeTwoFactorEnrollment);
+router.post('/verify-email', validateSchema(verifyEmailSchema), AuthController.verifyEmail);
+router.post('/forgot-password', validateSchema(forgotPasswordSchema), AuthController.forgotPassword);
+router.post('/reset-password', validateSchema(resetPasswordSchema), AuthController.resetPassword);
 
 // Protected routes
 router.post('/logout', authenticate, AuthController.logout);
+router.post('/resend-verification', authenticate, AuthController.resendVerification);
 router.get('/profile', authenticate, AuthController.getProfile);
 router.put('/profile', authenticate, validateSchema(updateProfileSchema), AuthController.updateProfile);
 router.put('/change-password', authenticate, validateSchema(changePasswordSchema), AuthController.changePassword);
+router.get('/2fa', authenticate, AuthController.getTwoFactorStatus);
+router.post('/2fa/setup', authenticate, AuthController.beginTwoFactorSetup);
+router.post('/2fa/enable', authenticate, validateSchema(twoFactorCodeSchema), AuthController.enableTwoFactor);
+router.post('/2fa/disable', authenticate, validateSchema(twoFactorDisableSchema), AuthController.disableTwoFactor);
+router.post('/2fa/recovery-codes', authenticate, validateSchema(twoFactorCodeSchema), AuthController.regenerateRecoveryCodes);
+router.get('/sessions', authenticate, AuthController.listSessions);
+router.delete('/sessions', authenticate, AuthController.revokeOtherSessions);
+router.delete('/sessions/:id', authenticate, validateObjectId(), AuthController.revokeSession);
 
 export default router;
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { DIDController } from '../controllers/did.controller.js';
+import { authenticate, authorize } from '../middleware/auth.middleware.js';
+import { validateSchema } from '../validators/requestValidation.validator.js';
+import { validateObjectId } from '../validators/mongoValidation.validator.js';
+import { revokeIssuerKeySchema } from '../validators/schemas.js';
+
+const router = Router();
+
+router.use(authenticate, authorize('admin'));
+
+router.get('/keys', DIDController.getKeys);
+
+router.post('/keys/rotate', DIDController.rotateKey);
+
+router.post('/keys/:id/revoke',
+  validateObjectId('id'),
+  validateSchema(revokeIssuerKeySchema),
+  DIDController.revokeKey
+);
+
+export default router;
@@ -1,7 +1,7 @@
 import express from 'express';
-import { authenticate, authorize } from '../middleware/auth.middleware.js';
+import { authenticate, authorize, optionalAuthenticate } from '../middleware/auth.middleware.js';
 import { FileUploadController } from '../controllers/fileUpload.controller.js';
-import { singleFileUpload } from '../middleware/fileUpload.middleware.js';
+import { singleFileUpload, verifyUploadUrl } from '../middleware/fileUpload.middleware.js';
 
 const router = express.Router();
 const fileUploadController = new FileUploadController();
@@ -13,18 +13,39 @@ router.post('/generate-upload-url',
   fileUploadController.generatePresignedUrl
 );
 
-// Upload file using presigned URL  
+// Upload file using presigned URL; the signature is the credential
 router.post('/upload/:category/:fileId',
+  verifyUploadUrl,
   singleFileUpload,
   fileUploadController.uploadFile
 );
 
-// Get file
+// Check a file PUT directly into object storage
+router.post('/upload/:category/:fileId/complete',
+  authenticate,
+  authorize('qa_inspector', 'admin'),
+  fileUploadController.completeUpload
+);
+
+// Short-lived signed download URL
+router.get('/:category/:fileId/download-url',
+  authenticate,
+  fileUploadController.getDownloadUrl
+);
+
+// Photo thumbnail, under the same access rules as the photo
+router.get('/:category/:fileId/thumbnail',
+  optionalAuthenticate,
+  fileUploadController.getThumbnail
+);
+
+// Get file, with a session that can see its batch or inspection, or a signed URL
 router.get('/:category/:fileId',
+  optionalAuthenticate,
   fileUploadController.getFile
 );
 
-// Delete file
+// Delete a file, for its uploader or an admin, once nothing is attached to it
 router.delete('/:category/:fileId',
   authenticate,
   authorize('qa_inspector', 'admin'),
@@ -2,8 +2,15 @@ import { Router } from 'express';
 import authRoutes from './auth.routes.js';
 import batchRoutes from './batch.routes.js';
 import inspectionRoutes from './inspection.routes.js';
+import assignmentRoutes from './assignment.routes.js';
 import fileRoutes from './files.routes.js';
 import vcRoutes from './vc.routes.js';
+import didRoutes from './did.routes.js';
+import qualityStandardRoutes from './qualityStandard.routes.js';
+import notificationRoutes from './notification.routes.js';
+import auditLogRoutes from './auditLog.routes.js';
+import userRoutes from './user.routes.js';
+import organizationRoutes from './organization.routes.js';
 import healthRoutes from './health.routes.js';
 import { authenticate, authorize } from '../middleware/auth.middleware.js';
 import { VCController } from '../controllers/vc.controller.js';
@@ -14,8 +21,15 @@ const router = Router();
 router.use('/auth', authRoutes);
 router.use('/batches', batchRoutes);
 router.use('/inspections', inspectionRoutes);
+router.use('/assignments', assignmentRoutes);
 router.use('/files', fileRoutes);
 router.use('/vc', vcRoutes);
+router.use('/did', didRoutes);
+router.use('/standards', qualityStandardRoutes);
+router.use('/notifications', notificationRoutes);
+router.use('/audit-logs', auditLogRoutes);
+router.use('/users', userRoutes);
+router.use('/organizations', organizationRoutes);
 router.use('/health', healthRoutes);
 
 router.get(
@@ -6,6 +6,8 @@ import { validateObjectId } from '../validators/mongoValidation.validator.js';
 import {
   createInspectionSchema,
   updateInspectionSchema,
+  completeInspectionSchema,
+  saveInspectionDraftSchema,
   inspectionQuerySchema,
 } from '../validators/schemas.js';
 
@@ -40,6 +42,7 @@ router.put('/:id',
 router.post('/:id/complete',
   validateObjectId(),
   authorize('qa_inspector', 'admin'),
+  validateSchema(completeInspectionSchema),
   InspectionController.completeInspection
 );
 
@@ -47,6 +50,7 @@ router.post('/:id/complete',
 router.post('/:id/draft',
   validateObjectId(),
   authorize('qa_inspector', 'admin'),
+  validateSchema(saveInspectionDraftSchema),
   InspectionController.saveDraft
 );
 
@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { NotificationController } from '../controllers/notification.controller.js';
+import { authenticate } from '../middleware/auth.middleware.js';
+import { validateQuery } from '../validators/requestValidation.validator.js';
+import { validateObjectId } from '../validators/mongoValidation.validator.js';
+import { notificationQuerySchema } from '../validators/schemas.js';
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get('/',
+  validateQuery(notificationQuerySchema),
+  NotificationController.getNotifications
+);
+
+router.get('/unread-count',
+  NotificationController.getUnreadCount
+);
+
+router.post('/read-all',
+  NotificationController.markAllAsRead
+);
+
+router.post('/:id/read',
+  validateObjectId('id'),
+  NotificationController.markAsRead
+);
+
+export default router;
@@ -0,0 +1,75 @@
+import { Router } from 'express';
+import { OrganizationController } from '../controllers/organization.controller.js';
+import { authenticate, authorize } from '../middleware/auth.middleware.js';
+import { validateSchema, validateQuery } from '../validators/requestValidation.validator.js';
+import { validateObjectId } from '../validators/mongoValidation.validator.js';
+import {
+  createOrganizationSchema,
+  updateOrganizationSchema,
+  organizationQuerySchema,
+  addOrganizationMemberSchema,
+  updateOrganizationMemberSchema,
+} from '../validators/schemas.js';
+
+const router = Router();
+
+// Organization owners and admins manage their own organization; checked in the service
+router.use(authenticate);
+
+router.get('/',
+  validateQuery(organizationQuerySchema),
+  OrganizationController.getOrganizations
+);
+
+router.post('/',
+  authorize('admin'),
+  validateSchema(createOrganizationSchema),
+  OrganizationController.createOrganization
+);
+
+router.get('/:id',
+  validateObjectId('id'),
+  OrganizationController.getOrganization
+);
+
+router.patch('/:id',
+  validateObjectId('id'),
+  validateSchema(updateOrganizationSchema),
+  OrganizationController.updateOrganization
+);
+
+router.get('/:id/members',
+  validateObjectId('id'),
+  OrganizationController.getMembers
+);
+
+router.post('/:id/members',
+  validateObjectId('id'),
+  validateSchema(addOrganizationMemberSchema),
+  OrganizationController.addMember
+);
+
+router.patch('/:id/members/:userId',
+  validateObjectId('id'),
+  validateObjectId('userId'),
+  validateSchema(updateOrganizationMemberSchema),
+  OrganizationController.updateMember
+);
+
+router.delete('/:id/members/:userId',
+  validateObjectId('id'),
+  validateObjectId('userId'),
+  OrganizationController.removeMember
+);
+
+router.get('/:id/issuer',
+  validateObjectId('id'),
+  OrganizationController.getIssuer
+);
+
+router.post('/:id/issuer/rotate',
+  validateObjectId('id'),
+  OrganizationController.rotateIssuerKey
+);
+
+export default router;
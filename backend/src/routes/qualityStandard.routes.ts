@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import { QualityStandardController } from '../controllers/qualityStandard.controller.js';
+import { authenticate, authorize } from '../middleware/auth.middleware.js';
+import { validateSchema, validateQuery } from '../validators/requestValidation.validator.js';
+import { validateObjectId } from '../validators/mongoValidation.validator.js';
+import {
+  createQualityStandardSchema,
+  updateQualityStandardSchema,
+  qualityStandardQuerySchema,
+} from '../validators/schemas.js';
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get('/',
+  authorize('admin', 'certifier', 'qa_inspector'),
+  validateQuery(qualityStandardQuerySchema),
+  QualityStandardController.getStandards
+);
+
+router.get('/current/:productType',
+  QualityStandardController.getCurrentStandard
+);
+
+router.get('/:id',
+  validateObjectId('id'),
+  QualityStandardController.getStandardById
+);
+
+router.post('/',
+  authorize('admin'),
+  validateSchema(createQualityStandardSchema),
+  QualityStandardController.createStandard
+);
+
+router.put('/:id',
+  validateObjectId('id'),
+  authorize('admin'),
+  validateSchema(updateQualityStandardSchema),
+  QualityStandardController.updateStandard
+);
+
+router.delete('/:id',
+  validateObjectId('id'),
+  authorize('admin'),
+  QualityStandardController.deleteStandard
+);
+
+export default router;
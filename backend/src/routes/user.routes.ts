@@ -0,0 +1,54 @@
+import { Router } from 'express';
+import { UserController } from '../controllers/user.controller.js';
+import { authenticate, authorize } from '../middleware/auth.middleware.js';
+import { validateSchema, validateQuery } from '../validators/requestValidation.validator.js';
+import { validateObjectId } from '../validators/mongoValidation.validator.js';
+import {
+  createUserSchema,
+  updateUserRoleSchema,
+  updateUserStatusSchema,
+  userQuerySchema,
+} from '../validators/schemas.js';
+
+const router = Router();
+
+router.use(authenticate, authorize('admin'));
+
+router.get('/',
+  validateQuery(userQuerySchema),
+  UserController.getUsers
+);
+
+router.post('/',
+  validateSchema(createUserSchema),
+  UserController.createUser
+);
+
+router.get('/:id',
+  validateObjectId('id'),
+  UserController.getUser
+);
+
+router.patch('/:id/role',
+  validateObjectId('id'),
+  validateSchema(updateUserRoleSchema),
+  UserController.changeRole
+);
+
+router.patch('/:id/status',
+  validateObjectId('id'),
+  validateSchema(updateUserStatusSchema),
+  UserController.setStatus
+);
+
+router.post('/:id/logout',
+  validateObjectId('id'),
+  UserController.forceLogout
+);
+
+router.post('/:id/unlock',
+  validateObjectId('id'),
+  UserController.unlockUser
+);
+
+export default router;
@@ -1,12 +1,13 @@
 import { Router } from 'express';
 import { VCController } from '../controllers/vc.controller.js';
 import { authenticate, authorize } from '../middleware/auth.middleware.js';
-import { validateSchema } from '../validators/requestValidation.validator.js';
+import { validateSchema, validateQuery } from '../validators/requestValidation.validator.js';
 import { validateObjectId } from '../validators/mongoValidation.validator.js';
 import {
   issueVCSchema,
   verifyVCSchema,
   revokeCertificateSchema,
+  issuanceJobQuerySchema,
 } from '../validators/schemas.js';
 
 const router = Router();
@@ -20,6 +21,37 @@ router.post('/issue',
 );
 
 
+router.get('/jobs',
+  authenticate,
+  authorize('admin', 'certifier'),
+  validateQuery(issuanceJobQuerySchema),
+  VCController.listJobs
+);
+
+
+router.post('/jobs/:jobId/retry',
+  authenticate,
+  validateObjectId('jobId'),
+  authorize('admin', 'certifier'),
+  VCController.retryJob
+);
+
+
+router.post('/jobs/:jobId/cancel',
+  authenticate,
+  validateObjectId('jobId'),
+  authorize('admin', 'certifier'),
+  VCController.cancelJob
+);
+
+
+router.get('/worker/status',
+  authenticate,
+  authorize('admin', 'certifier'),
+  VCController.getWorkerStatus
+);
+
+
 router.get('/jobs/:jobId',
   authenticate,
   validateObjectId('jobId'),
@@ -65,6 +97,11 @@ router.post('/verify',
 );
 
 
+router.get('/status/:listId',
+  VCController.getStatusList
+);
+
+
 router.post('/webhook',
   VCController.handleWebhook
 );
@@ -0,0 +1,105 @@
+import database from '../config/database.config.js';
+import { Batch, Inspection, StoredFile } from '../models/index.js';
+import { FileRegistryService } from '../services/fileRegistry.service.js';
+import { StorageService } from '../services/storage.service.js';
+import { FileRef, batchFileRefs, inspectionFileRefs } from '../utils/fileEvidence.util.js';
+
+const dryRun = process.argv.includes('--dry-run');
+
+const CATEGORY_BY_FIELD: Record<FileRef['field'], string[]> = {
+  attachments: ['documents', 'photos', 'lab-reports'],
+  photos: ['photos'],
+  labReports: ['lab-reports', 'documents'],
+};
+
+/**
+ * Register files uploaded before the file registry existed: create their
+ * StoredFile records with a content hash, owned by whoever attached them,
+ * and link them to the batches and inspections that use them. Files on disk
+ * that nothing references are left alone. Safe to run more than once.
+ */
+const backfillFileRegistry = async () => {
+  try {
+    console.log(`🔁 Registering existing uploads${dryRun ? ' (dry run)' : ''}...\n`);
+
+    await database.connect();
+
+    let registered = 0;
+    let missing = 0;
+    let linked = 0;
+
+    const register = async (ref: FileRef, uploadedBy: string, organizationId?: string) => {
+      if (await StoredFile.exists({ fileId: ref.fileId })) {
+        return true;
+      }
+
+      for (const category of CATEGORY_BY_FIELD[ref.field]) {
+        const object = await StorageService.findFile(category, ref.fileId);
+        if (!object) {
+          continue;
+        }
+
+        if (!dryRun) {
+          const record = await StoredFile.create({
+            fileId: ref.fileId,
+            key: object.key,
+            category,
+            filename: object.key.split('/').pop(),
+            mimeType: object.contentType || 'application/octet-stream',
+            uploadedBy,
+            organizationId,
+            status: 'stored',
+          });
+          await FileRegistryService.ensureHashed(record);
+        }
+
+        registered++;
+        console.log(`   ${object.key} (${object.size} bytes)`);
+        return true;
+      }
+
+      missing++;
+      return false;
+    };
+
+    for await (const batch of Batch.find({ 'attachments.0': { $exists: true } }).cursor()) {
+      const refs = batchFileRefs(batch);
+      for (const ref of refs) {
+        await register(ref, batch.farmerId, batch.organizationId);
+      }
+      if (!dryRun) {
+        await FileRegistryService.syncReferences({ resource: 'batch', resourceId: batch.id }, refs);
+      }
+      linked++;
+    }
+
+    const inspections = Inspection.find({
+      $or: [{ 'photos.0': { $exists: true } }, { 'labReports.0': { $exists: true } }],
+    }).cursor();
+
+    for await (const inspection of inspections) {
+      const refs = inspectionFileRefs(inspection);
+      for (const ref of refs) {
+        await register(ref, inspection.inspectorId, inspection.organizationId);
+      }
+      if (!dryRun) {
+        await FileRegistryService.syncReferences({ resource: 'inspection', resourceId: inspection.id }, refs);
+      }
+      linked++;
+    }
+
+    console.log('\n✅ Backfill complete:\n');
+    console.log(`   Files registered:       ${registered}`);
+    console.log(`   Referenced but missing: ${missing}`);
+    console.log(`   Records linked:         ${linked}\n`);
+
+    await database.disconnect();
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Failed to backfill the file registry:', error);
+    await database.disconnect();
+    process.exit(1);
+  }
+};
+
+backfillFileRegistry();
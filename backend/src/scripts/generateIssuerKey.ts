@@ -0,0 +1,14 @@
+import crypto from 'crypto';
+import { ed25519PublicKeyToMultibase } from '../utils/multibase.util.js';
+
+const generateIssuerKey = () => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+  const pem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+  console.log('🔑 Generated Ed25519 issuer key\n');
+  console.log(`   publicKeyMultibase: ${ed25519PublicKeyToMultibase(publicKey)}\n`);
+  console.log('Add this to your environment (or save the PEM to VC_SIGNING_KEY_FILE):\n');
+  console.log(`VC_SIGNING_KEY="${pem.trim().replace(/\n/g, '\\n')}"`);
+};
+
+generateIssuerKey();
@@ -0,0 +1,70 @@
+import config from '../config/config.js';
+import { LocalStorageDriver, StorageService } from '../services/storage.service.js';
+
+const dryRun = process.argv.includes('--dry-run');
+const deleteSource = process.argv.includes('--delete');
+
+/**
+ * Copy files from the local uploads directory into the configured storage
+ * driver. Objects already present with the same size are skipped, so the
+ * command can be re-run after an interruption. Pass --delete to remove the
+ * local copy once it has been stored.
+ */
+const migrateUploads = async () => {
+  try {
+    const target = StorageService.getDriver();
+    if (target.name === 'local') {
+      throw new Error('STORAGE_DRIVER is local; set it to the destination driver before migrating');
+    }
+
+    console.log(`🔁 Copying ${config.storage.localDir} to ${target.name} storage${dryRun ? ' (dry run)' : ''}...\n`);
+
+    const source = new LocalStorageDriver(config.storage.localDir);
+
+    let scanned = 0;
+    let copied = 0;
+    let skipped = 0;
+    let deleted = 0;
+
+    for await (const object of source.list('')) {
+      // Multer's in-flight uploads
+      if (object.key.startsWith('temp/')) {
+        continue;
+      }
+      scanned++;
+
+      const existing = await target.head(object.key);
+      if (existing?.size === object.size) {
+        skipped++;
+      } else {
+        if (!dryRun) {
+          const chunks: Buffer[] = [];
+          for await (const chunk of await source.read(object.key)) {
+            chunks.push(chunk as Buffer);
+          }
+          await target.put(object.key, Buffer.concat(chunks), object.contentType || 'application/octet-stream');
+        }
+        copied++;
+        console.log(`   ${object.key} (${object.size} bytes)`);
+      }
+
+      if (deleteSource && !dryRun) {
+        await source.delete(object.key);
+        deleted++;
+      }
+    }
+
+    console.log('\n✅ Migration complete:\n');
+    console.log(`   Files scanned: ${scanned}`);
+    console.log(`   Files copied:  ${copied}`);
+    console.log(`   Already there: ${skipped}`);
+    console.log(`   Local deleted: ${deleted}\n`);
+
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Failed to migrate uploads:', error);
+    process.exit(1);
+  }
+};
+
+migrateUploads();
@@ -0,0 +1,73 @@
+import database from '../config/database.config.js';
+import { Certificate, Revocation } from '../models/index.js';
+import { hashCredential } from '../utils/jcs.util.js';
+
+const dryRun = process.argv.includes('--dry-run');
+
+/**
+ * Recompute vcHash with JCS canonicalization for existing certificates and
+ * the revocations that reference them. Safe to run more than once.
+ */
+const migrateVcHashes = async () => {
+  try {
+    console.log(`🔁 Recomputing vcHash values${dryRun ? ' (dry run)' : ''}...\n`);
+
+    await database.connect();
+
+    let scanned = 0;
+    let updatedCertificates = 0;
+    let updatedRevocations = 0;
+
+    const cursor = Certificate.find({}).cursor();
+
+    for await (const certificate of cursor) {
+      scanned++;
+
+      const vcHash = hashCredential(certificate.toObject().vc);
+      const previousHash = certificate.vcHash;
+
+      if (previousHash === vcHash) {
+        continue;
+      }
+
+      let qrCodeData = certificate.qrCodeData;
+      try {
+        const qrPayload = JSON.parse(qrCodeData);
+        if (qrPayload && typeof qrPayload === 'object' && 'hash' in qrPayload) {
+          qrCodeData = JSON.stringify({ ...qrPayload, hash: vcHash });
+        }
+      } catch {
+        // Leave non-JSON QR payloads untouched
+      }
+
+      const revocationFilter = previousHash
+        ? { $or: [{ certificateId: certificate.id }, { vcHash: previousHash }] }
+        : { certificateId: certificate.id };
+
+      if (dryRun) {
+        updatedRevocations += await Revocation.countDocuments(revocationFilter);
+      } else {
+        await Certificate.updateOne({ _id: certificate._id }, { $set: { vcHash, qrCodeData } });
+        const result = await Revocation.updateMany(revocationFilter, { $set: { vcHash } });
+        updatedRevocations += result.modifiedCount;
+      }
+
+      updatedCertificates++;
+      console.log(`   ${certificate.id}: ${previousHash ?? '(none)'} → ${vcHash}`);
+    }
+
+    console.log('\n✅ Migration complete:\n');
+    console.log(`   Certificates scanned: ${scanned}`);
+    console.log(`   Certificates updated: ${updatedCertificates}`);
+    console.log(`   Revocations updated:  ${updatedRevocations}\n`);
+
+    await database.disconnect();
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Failed to migrate vcHash values:', error);
+    await database.disconnect();
+    process.exit(1);
+  }
+};
+
+migrateVcHashes();
@@ -2,6 +2,7 @@ import database from '../config/database.config.js';
 import { User } from '../models/user.model.js';
 import { Batch } from '../models/batch.model.js';
 import { Inspection } from '../models/inspection.model.js';
+import { BatchAssignment } from '../models/batchAssignment.model.js';
 import config from '../config/config.js';
 
 const seedData = async () => {
@@ -16,6 +17,7 @@ const seedData = async () => {
     await User.deleteMany({});
     await Batch.deleteMany({});
     await Inspection.deleteMany({});
+    await BatchAssignment.deleteMany({});
     console.log('✅ Existing data cleared\n');
 
     // Create Admin User
@@ -374,6 +376,35 @@ const seedData = async () => {
     ]);
     console.log(`✅ Created ${inspections.length} sample inspections\n`);
 
+    // Create Sample Assignments
+    console.log('🗓️  Creating sample assignments...');
+    const visitDate = new Date();
+    visitDate.setUTCHours(0, 0, 0, 0);
+    visitDate.setUTCDate(visitDate.getUTCDate() + 2);
+    const assignments = await BatchAssignment.create([
+      {
+        batchId: batches[0]._id.toString(),
+        inspectorId: inspectors[0]._id.toString(),
+        inspectorName: inspectors[0].name,
+        assignedBy: admin._id.toString(),
+        assignedByName: admin.name,
+        status: 'accepted',
+        scheduledFor: new Date(),
+        respondedAt: new Date(),
+      },
+      {
+        batchId: batches[1]._id.toString(),
+        inspectorId: inspectors[0]._id.toString(),
+        inspectorName: inspectors[0].name,
+        assignedBy: admin._id.toString(),
+        assignedByName: admin.name,
+        status: 'pending',
+        scheduledFor: visitDate,
+        notes: 'Harvest is in cold storage; call the farmer on arrival.',
+      },
+    ]);
+    console.log(`✅ Created ${assignments.length} sample assignments\n`);
+
     // Summary
     console.log('═══════════════════════════════════════');
     console.log('✅ Database seeding completed!\n');
@@ -383,7 +414,8 @@ const seedData = async () => {
     console.log(`   • QA Inspectors: ${inspectors.length}`);
     console.log(`   • Certifiers: ${certifiers.length}`);
     console.log(`   • Batches: ${batches.length}`);
-    console.log(`   • Inspections: ${inspections.length}\n`);
+    console.log(`   • Inspections: ${inspections.length}`);
+    console.log(`   • Assignments: ${assignments.length}\n`);
 
     console.log('🔐 Login Credentials:\n');
     console.log('Admin:');
@@ -1,6 +1,11 @@
 import app from './app.js';
 import config from './config/config.js';
 import database from './config/database.config.js';
+import { initSocket } from './socket/io.js';
+import { jobProgressRelay } from './socket/jobProgressRelay.js';
+import { notificationRelay } from './socket/notificationRelay.js';
+import { auditMaintenance } from './services/auditChain.service.js';
+import { fileSweeper } from './services/fileRegistry.service.js';
 
 const PORT = config.port;
 
@@ -14,10 +19,20 @@ const start = async (): Promise<void> => {
       console.log(`🔗 API URL: http://localhost:${PORT}${config.apiPrefix}`);
     });
 
+    initSocket(server);
+    jobProgressRelay.start();
+    notificationRelay.start();
+    await auditMaintenance.start();
+    fileSweeper.start();
+
     const gracefulShutdown = async (signal: string) => {
       console.log(`\n${signal} received. Starting graceful shutdown...`);
 
       try {
+        jobProgressRelay.stop();
+        notificationRelay.stop();
+        auditMaintenance.stop();
+        fileSweeper.stop();
         await database.disconnect();
 
         server.close(() => {
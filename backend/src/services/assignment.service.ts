@@ -0,0 +1,412 @@
+import { Batch, BatchAssignment, User } from '../models/index.js';
+import type { IBatchAssignmentDocument, IBatchDocument, IUserDocument } from '../models/index.js';
+import { AuditLogService } from './auditLog.service.js';
+import { NotificationService } from './notification.service.js';
+import { AppError } from '../middleware/errorHandler.middleware.js';
+import { AssignmentStatus, IBatchAssignment, PaginatedResponse, UserRole } from '../types/index.js';
+import { inOrganizationScope, organizationFilter } from '../utils/organizationScope.util.js';
+import { ACTIVE_ASSIGNMENT_STATUSES, formatVisitDate, scheduleError } from '../utils/assignmentSchedule.util.js';
+
+interface AuthUser {
+    userId: string;
+    name: string;
+    role: UserRole;
+    organizationId?: string;
+}
+
+interface ListAssignmentsInput {
+    user: AuthUser;
+    page?: number;
+    limit?: number;
+    status?: AssignmentStatus;
+    batchId?: string;
+    inspectorId?: string;
+}
+
+interface EligibleInspectorsInput {
+    batchId: string;
+    user: AuthUser;
+}
+
+interface AssignInput {
+    batchId: string;
+    inspectorId: string;
+    scheduledFor: Date;
+    notes?: string;
+    user: AuthUser;
+    ipAddress?: string;
+    userAgent?: string | null;
+}
+
+interface ReassignInput {
+    id: string;
+    inspectorId: string;
+    scheduledFor: Date;
+    notes?: string;
+    user: AuthUser;
+    ipAddress?: string;
+    userAgent?: string | null;
+}
+
+interface RespondInput {
+    id: string;
+    reason?: string;
+    user: AuthUser;
+    ipAddress?: string;
+    userAgent?: string | null;
+}
+
+const ACTIVE_ASSIGNMENT_CONFLICT = 'Batch already has an active assignment; reassign it instead';
+
+const isDuplicateKeyError = (error: unknown) =>
+    typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+
+/**
+ * Create an assignment. A concurrent request that already gave the batch an
+ * active assignment surfaces as a conflict rather than a duplicate key error.
+ */
+const createAssignment = async (data: Partial<IBatchAssignment>): Promise<IBatchAssignmentDocument> => {
+    try {
+        return await BatchAssignment.create(data);
+    } catch (error) {
+        if (isDuplicateKeyError(error)) {
+            throw new AppError(409, ACTIVE_ASSIGNMENT_CONFLICT);
+        }
+        throw error;
+    }
+};
+
+const findBatchOrFail = async (batchId: string, user: AuthUser): Promise<IBatchDocument> => {
+    const batch = await Batch.findById(batchId);
+    if (!batch || !inOrganizationScope(user, batch.organizationId)) {
+        throw new AppError(404, 'Batch not found');
+    }
+    return batch;
+};
+
+const findAssignmentOrFail = async (id: string): Promise<IBatchAssignmentDocument> => {
+    const assignment = await BatchAssignment.findById(id);
+    if (!assignment) {
+        throw new AppError(404, 'Assignment not found');
+    }
+    return assignment;
+};
+
+const assertSchedulable = (scheduledFor: Date) => {
+    const error = scheduleError(scheduledFor);
+    if (error) {
+        throw new AppError(400, error);
+    }
+};
+
+/**
+ * Inspectors may only be assigned batches of their own organization;
+ * unaffiliated inspectors take unaffiliated batches
+ */
+const findEligibleInspectorOrFail = async (inspectorId: string, batch: IBatchDocument): Promise<IUserDocument> => {
+    const inspector = await User.findById(inspectorId);
+    if (!inspector || inspector.role !== 'qa_inspector' || !inspector.isActive) {
+        throw new AppError(400, 'Inspector not found');
+    }
+    if ((inspector.organizationId ?? null) !== (batch.organizationId ?? null)) {
+        throw new AppError(400, 'Inspector does not belong to the batch\'s certification body');
+    }
+    return inspector;
+};
+
+const notifyInspector = (assignment: IBatchAssignmentDocument, batch: IBatchDocument) =>
+    NotificationService.createNotification({
+        userId: assignment.inspectorId,
+        type: 'action_required',
+        title: 'New Inspection Assignment',
+        message: `You have been assigned to inspect ${batch.productName} (${batch.id}) on ${formatVisitDate(assignment.scheduledFor)}. Please accept or decline.`,
+        actionUrl: '/qa/inspections',
+        metadata: { assignmentId: assignment.id, batchId: batch.id },
+    });
+
+const notifyFarmer = (assignment: IBatchAssignmentDocument, batch: IBatchDocument, rescheduled: boolean) =>
+    NotificationService.createNotification({
+        userId: batch.farmerId,
+        type: 'inspection_scheduled',
+        title: rescheduled ? 'Inspection Rescheduled' : 'Inspection Scheduled',
+        message: `An inspection visit for your batch ${batch.productName} (${batch.id}) is scheduled for ${formatVisitDate(assignment.scheduledFor)}.`,
+        actionUrl: `/batches/${batch.id}`,
+        metadata: { batchId: batch.id, scheduledFor: assignment.scheduledFor },
+    });
+
+export class AssignmentService {
+    /**
+     * Inspectors see their own queue; certifiers and admins see the
+     * assignments of their organization
+     */
+    static async listAssignments(input: ListAssignmentsInput): Promise<PaginatedResponse<IBatchAssignmentDocument>> {
+        const { user, page = 1, limit = 20, status, batchId, inspectorId } = input;
+        const query: Record<string, unknown> = organizationFilter(user);
+
+        if (user.role === 'qa_inspector') {
+            query.inspectorId = user.userId;
+        } else if (inspectorId) {
+            query.inspectorId = inspectorId;
+        }
+        if (status) query.status = status;
+        if (batchId) query.batchId = batchId;
+
+        const skip = (page - 1) * limit;
+        const [assignments, total] = await Promise.all([
+            BatchAssignment.find(query)
+                .populate('batchId', 'productName productType quantity unit location farmerName status')
+                .sort({ scheduledFor: 1 })
+                .skip(skip)
+                .limit(limit),
+            BatchAssignment.countDocuments(query),
+        ]);
+
+        return {
+            data: assignments,
+            total,
+            page,
+            pageSize: limit,
+            totalPages: Math.ceil(total / limit),
+        };
+    }
+
+    static async listEligibleInspectors(input: EligibleInspectorsInput): Promise<IUserDocument[]> {
+        const batch = await findBatchOrFail(input.batchId, input.user);
+
+        return User.find({
+            role: 'qa_inspector',
+            isActive: true,
+            organizationId: batch.organizationId ?? null,
+        })
+            .select('name email organization')
+            .sort({ name: 1 });
+    }
+
+    static async assign(input: AssignInput): Promise<IBatchAssignmentDocument> {
+        const { batchId, inspectorId, scheduledFor, notes, user, ipAddress, userAgent } = input;
+
+        const batch = await findBatchOrFail(batchId, user);
+        if (batch.status !== 'submitted') {
+            throw new AppError(400, 'Only submitted batches can be assigned for inspection');
+        }
+        assertSchedulable(scheduledFor);
+
+        const active = await BatchAssignment.findOne({ batchId, status: { $in: ACTIVE_ASSIGNMENT_STATUSES } });
+        if (active) {
+            throw new AppError(409, ACTIVE_ASSIGNMENT_CONFLICT);
+        }
+
+        const inspector = await findEligibleInspectorOrFail(inspectorId, batch);
+
+        const assignment = await createAssignment({
+            batchId,
+            organizationId: batch.organizationId,
+            inspectorId: inspector.id,
+            inspectorName: inspector.name,
+            assignedBy: user.userId,
+            assignedByName: user.name,
+            scheduledFor,
+            notes,
+        });
+
+        await notifyInspector(assignment, batch);
+        await notifyFarmer(assignment, batch, false);
+
+        await AuditLogService.record({
+            userId: user.userId,
+            userName: user.name,
+            action: 'ASSIGNMENT_CREATED',
+            resource: 'assignment',
+            resourceId: assignment.id,
+            details: { batchId, inspectorId: inspector.id, scheduledFor },
+            ipAddress,
+            userAgent: userAgent ?? undefined,
+            timestamp: new Date(),
+        });
+
+        return assignment;
+    }
+
+    /**
+     * Hand the batch to another inspector or move the visit. The previous
+     * assignment is kept as `reassigned` unless it was already declined.
+     */
+    static async reassign(input: ReassignInput): Promise<IBatchAssignmentDocument> {
+        const { id, inspectorId, scheduledFor, notes, user, ipAddress, userAgent } = input;
+
+        const previous = await findAssignmentOrFail(id);
+        const batch = await findBatchOrFail(previous.batchId, user);
+
+        if (!['pending', 'accepted', 'declined'].includes(previous.status)) {
+            throw new AppError(400, `Cannot reassign a ${previous.status} assignment`);
+        }
+        if (previous.status === 'declined') {
+            const active = await BatchAssignment.findOne({
+                batchId: previous.batchId,
+                status: { $in: ACTIVE_ASSIGNMENT_STATUSES },
+            });
+            if (active) {
+                throw new AppError(409, ACTIVE_ASSIGNMENT_CONFLICT);
+            }
+        }
+        if (batch.status !== 'submitted') {
+            throw new AppError(400, 'Inspection has already started for this batch');
+        }
+        assertSchedulable(scheduledFor);
+
+        const inspector = await findEligibleInspectorOrFail(inspectorId, batch);
+        const previousStatus = previous.status;
+
+        if (previousStatus !== 'declined') {
+            previous.status = 'reassigned';
+            await previous.save();
+        }
+
+        const assignment = await createAssignment({
+            batchId: previous.batchId,
+            organizationId: batch.organizationId,
+            inspectorId: inspector.id,
+            inspectorName: inspector.name,
+            assignedBy: user.userId,
+            assignedByName: user.name,
+            scheduledFor,
+            notes: notes ?? previous.notes,
+        });
+
+        if (previousStatus !== 'declined' && previous.inspectorId !== inspector.id) {
+            await NotificationService.createNotification({
+                userId: previous.inspectorId,
+                type: 'action_required',
+                title: 'Assignment Withdrawn',
+                message: `Your inspection of ${batch.productName} (${batch.id}) has been reassigned to another inspector.`,
+                actionUrl: '/qa/inspections',
+                metadata: { assignmentId: previous.id, batchId: batch.id },
+            });
+        }
+        await notifyInspector(assignment, batch);
+        await notifyFarmer(assignment, batch, previous.scheduledFor.getTime() !== scheduledFor.getTime());
+
+        await AuditLogService.record({
+            userId: user.userId,
+            userName: user.name,
+            action: 'ASSIGNMENT_REASSIGNED',
+            resource: 'assignment',
+            resourceId: assignment.id,
+            details: {
+                batchId: previous.batchId,
+                previousAssignmentId: previous.id,
+                previousInspectorId: previous.inspectorId,
+                inspectorId: inspector.id,
+                scheduledFor,
+            },
+            ipAddress,
+            userAgent: userAgent ?? undefined,
+            timestamp: new Date(),
+        });
+
+        return assignment;
+    }
+
+    static async accept(input: RespondInput): Promise<IBatchAssignmentDocument> {
+        const { id, user, ipAddress, userAgent } = input;
+
+        const assignment = await findAssignmentOrFail(id);
+        if (assignment.inspectorId !== user.userId) {
+            throw new AppError(403, 'This assignment belongs to another inspector');
+        }
+        if (assignment.status !== 'pending') {
+            throw new AppError(400, `Cannot accept a ${assignment.status} assignment`);
+        }
+
+        assignment.status = 'accepted';
+        assignment.respondedAt = new Date();
+        await assignment.save();
+
+        await AuditLogService.record({
+            userId: user.userId,
+            userName: user.name,
+            action: 'ASSIGNMENT_ACCEPTED',
+            resource: 'assignment',
+            resourceId: assignment.id,
+            details: { batchId: assignment.batchId },
+            ipAddress,
+            userAgent: userAgent ?? undefined,
+            timestamp: new Date(),
+        });
+
+        return assignment;
+    }
+
+    /**
+     * Give the batch back; whoever assigned it is asked to reassign it
+     */
+    static async decline(input: RespondInput): Promise<IBatchAssignmentDocument> {
+        const { id, reason, user, ipAddress, userAgent } = input;
+
+        const assignment = await findAssignmentOrFail(id);
+        if (assignment.inspectorId !== user.userId) {
+            throw new AppError(403, 'This assignment belongs to another inspector');
+        }
+        if (!ACTIVE_ASSIGNMENT_STATUSES.includes(assignment.status)) {
+            throw new AppError(400, `Cannot decline a ${assignment.status} assignment`);
+        }
+
+        const batch = await Batch.findById(assignment.batchId);
+        if (batch && batch.status !== 'submitted') {
+            throw new AppError(400, 'Inspection has already started for this batch');
+        }
+
+        assignment.status = 'declined';
+        assignment.declineReason = reason;
+        assignment.respondedAt = new Date();
+        await assignment.save();
+
+        await NotificationService.createNotification({
+            userId: assignment.assignedBy,
+            type: 'action_required',
+            title: 'Assignment Declined',
+            message: `${user.name} declined the inspection of ${batch?.productName ?? 'a batch'} (${assignment.batchId}): ${reason}`,
+            actionUrl: '/inspections',
+            metadata: { assignmentId: assignment.id, batchId: assignment.batchId },
+        });
+
+        await AuditLogService.record({
+            userId: user.userId,
+            userName: user.name,
+            action: 'ASSIGNMENT_DECLINED',
+            resource: 'assignment',
+            resourceId: assignment.id,
+            details: { batchId: assignment.batchId, reason },
+            ipAddress,
+            userAgent: userAgent ?? undefined,
+            timestamp: new Date(),
+        });
+
+        return assignment;
+    }
+
+    /**
+     * Only the inspector holding the accepted assignment may start the
+     * inspection of a batch
+     */
+    static async assertCanInspect(batchId: string, user: AuthUser): Promise<void> {
+        const assignment = await BatchAssignment.findOne({
+            batchId,
+            status: { $in: ACTIVE_ASSIGNMENT_STATUSES },
+        });
+
+        if (!assignment || assignment.inspectorId !== user.userId) {
+            throw new AppError(403, 'Batch is not assigned to you');
+        }
+        if (assignment.status === 'pending') {
+            throw new AppError(400, 'Accept the assignment before starting the inspection');
+        }
+    }
+
+    static async markCompleted(batchId: string, inspectionId: string): Promise<void> {
+        await BatchAssignment.updateOne(
+            { batchId, status: 'accepted' },
+            { status: 'completed', inspectionId, completedAt: new Date() }
+        );
+    }
+}
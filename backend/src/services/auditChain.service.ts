@@ -0,0 +1,270 @@
+import crypto from 'crypto';
+import config from '../config/config.js';
+import { AuditLog, AuditLogArchive, AuditCheckpoint } from '../models/index.js';
+import type { IAuditCheckpointDocument } from '../models/index.js';
+import type { IAuditLog } from '../types/index.js';
+import { didService } from './did.service.js';
+import { canonicalize } from '../utils/jcs.util.js';
+import { createChainVerifier, ChainIssue, ChainedAuditEntry } from '../utils/auditChain.util.js';
+
+export interface CheckpointResult {
+    sequence: number;
+    createdAt: Date;
+    status: 'valid' | 'invalid_signature' | 'hash_mismatch' | 'missing_entry';
+}
+
+export interface ChainVerificationReport {
+    valid: boolean;
+    checkedEntries: number;
+    headSequence: number;
+    headHash: string;
+    // Entries written before the log was chained, which cannot be verified
+    unchainedEntries: number;
+    issues: ChainIssue[];
+    issueCount: number;
+    checkpoints: CheckpointResult[];
+    verifiedAt: Date;
+}
+
+const ARCHIVE_BATCH_SIZE = 500;
+
+// Name Mongo gave the former two-year TTL index on AuditLog.timestamp
+const LEGACY_TTL_INDEX = 'timestamp_1';
+
+const checkpointPayload = (checkpoint: { sequence: number; hash: string; createdAt: Date }) =>
+    Buffer.from(
+        canonicalize({
+            sequence: checkpoint.sequence,
+            hash: checkpoint.hash,
+            createdAt: checkpoint.createdAt.toISOString(),
+        })
+    );
+
+// Entries written since chaining was introduced always carry their link fields
+type ChainedAuditDocument = IAuditLog & Required<Pick<IAuditLog, 'sequence' | 'prevHash' | 'hash'>>;
+
+const toChainedEntry = (doc: ChainedAuditDocument): ChainedAuditEntry => ({
+    sequence: doc.sequence,
+    prevHash: doc.prevHash,
+    hash: doc.hash,
+    userId: doc.userId,
+    userName: doc.userName,
+    action: doc.action,
+    resource: doc.resource,
+    resourceId: doc.resourceId,
+    details: doc.details,
+    ipAddress: doc.ipAddress,
+    userAgent: doc.userAgent,
+    timestamp: doc.timestamp,
+});
+
+export class AuditChainService {
+    /**
+     * Walk the whole chain, archive first, and check every link, hash and
+     * signed checkpoint
+     */
+    static async verifyChain(): Promise<ChainVerificationReport> {
+        const checkpoints = await AuditCheckpoint.find().sort({ sequence: 1 });
+        const verifier = createChainVerifier(checkpoints.map((checkpoint) => checkpoint.sequence));
+        const chained = { sequence: { $exists: true } };
+        let checkedEntries = 0;
+
+        // Archived entries always precede live ones in the chain
+        for (const collection of [AuditLogArchive, AuditLog] as const) {
+            const cursor = (collection as typeof AuditLog).find(chained).sort({ sequence: 1 }).lean().cursor();
+            for await (const doc of cursor) {
+                verifier.check(toChainedEntry(doc as ChainedAuditDocument));
+                checkedEntries++;
+            }
+        }
+
+        const checkpointResults: CheckpointResult[] = [];
+        for (const checkpoint of checkpoints) {
+            checkpointResults.push({
+                sequence: checkpoint.sequence,
+                createdAt: checkpoint.createdAt,
+                status: await AuditChainService.checkCheckpoint(checkpoint, verifier.hashAt(checkpoint.sequence)),
+            });
+        }
+
+        const [liveUnchained, archivedUnchained] = await Promise.all([
+            AuditLog.countDocuments({ sequence: { $exists: false } }),
+            AuditLogArchive.countDocuments({ sequence: { $exists: false } }),
+        ]);
+
+        return {
+            valid: verifier.issueCount === 0 && checkpointResults.every((result) => result.status === 'valid'),
+            checkedEntries,
+            headSequence: verifier.headSequence,
+            headHash: verifier.headHash,
+            unchainedEntries: liveUnchained + archivedUnchained,
+            issues: verifier.issues,
+            issueCount: verifier.issueCount,
+            checkpoints: checkpointResults,
+            verifiedAt: new Date(),
+        };
+    }
+
+    /**
+     * Sign the current chain head, unless it is already checkpointed
+     */
+    static async createCheckpoint(): Promise<IAuditCheckpointDocument | null> {
+        const head = await AuditLog.findOne({ sequence: { $exists: true } })
+            .sort({ sequence: -1 })
+            .select('sequence hash')
+            .lean();
+
+        if (!head) {
+            return null;
+        }
+
+        const latest = await AuditCheckpoint.findOne().sort({ sequence: -1 });
+        if (latest && latest.sequence >= head.sequence!) {
+            return latest;
+        }
+
+        const { verificationMethod, privateKey } = await didService.getSigningKey();
+        const createdAt = new Date();
+        const signature = crypto
+            .sign(null, checkpointPayload({ sequence: head.sequence!, hash: head.hash!, createdAt }), privateKey)
+            .toString('base64url');
+
+        try {
+            return await AuditCheckpoint.create({
+                sequence: head.sequence,
+                hash: head.hash,
+                verificationMethod,
+                signature,
+                createdAt,
+            });
+        } catch (error) {
+            // Another server instance checkpointed the same head
+            if ((error as { code?: number }).code === 11000) {
+                return AuditCheckpoint.findOne({ sequence: head.sequence });
+            }
+            throw error;
+        }
+    }
+
+    static async listCheckpoints(limit = 50): Promise<IAuditCheckpointDocument[]> {
+        return AuditCheckpoint.find().sort({ sequence: -1 }).limit(limit);
+    }
+
+    /**
+     * Move entries past the retention period to the archive collection.
+     * Chained entries move as a prefix of the chain, so the archive never
+     * holds an entry that is newer than one still live.
+     */
+    static async archiveExpiredEntries(): Promise<number> {
+        const cutoff = new Date(Date.now() - config.auditLog.retentionDays * 24 * 60 * 60 * 1000);
+
+        const lastExpired = await AuditLog.findOne({ sequence: { $exists: true }, timestamp: { $lt: cutoff } })
+            .sort({ sequence: -1 })
+            .select('sequence')
+            .lean();
+
+        const filters: Record<string, unknown>[] = [{ sequence: { $exists: false }, timestamp: { $lt: cutoff } }];
+        if (lastExpired) {
+            filters.push({ sequence: { $lte: lastExpired.sequence } });
+        }
+
+        let archived = 0;
+        for (const filter of filters) {
+            for (;;) {
+                const batch = await AuditLog.find(filter).sort({ sequence: 1, timestamp: 1 }).limit(ARCHIVE_BATCH_SIZE).lean();
+                if (batch.length === 0) {
+                    break;
+                }
+
+                try {
+                    await AuditLogArchive.insertMany(
+                        batch.map((doc) => ({ ...doc, archivedAt: new Date() })),
+                        { ordered: false }
+                    );
+                } catch (error) {
+                    // Copies left by an interrupted run are already archived
+                    const writeErrors = (error as { writeErrors?: Array<{ code?: number; err?: { code?: number } }> }).writeErrors;
+                    if (!writeErrors || writeErrors.some((writeError) => (writeError.code ?? writeError.err?.code) !== 11000)) {
+                        throw error;
+                    }
+                }
+
+                await AuditLog.deleteMany({ _id: { $in: batch.map((doc) => doc._id) } }).setOptions({ auditArchival: true });
+                archived += batch.length;
+            }
+        }
+
+        return archived;
+    }
+
+    /**
+     * Drop the TTL index older deployments created, which would otherwise
+     * keep deleting entries instead of letting them be archived
+     */
+    static async dropLegacyTtlIndex(): Promise<void> {
+        const indexes = await AuditLog.collection.indexes();
+        const ttlIndex = indexes.find((index) => index.name === LEGACY_TTL_INDEX && index.expireAfterSeconds !== undefined);
+
+        if (ttlIndex) {
+            await AuditLog.collection.dropIndex(LEGACY_TTL_INDEX);
+            console.log('[AuditChain] Dropped legacy audit log TTL index');
+        }
+    }
+
+    private static async checkCheckpoint(
+        checkpoint: IAuditCheckpointDocument,
+        entryHash: string | undefined
+    ): Promise<CheckpointResult['status']> {
+        const publicKey = await didService.resolveVerificationMethod(checkpoint.verificationMethod, checkpoint.createdAt);
+        const signatureValid =
+            !!publicKey &&
+            crypto.verify(null, checkpointPayload(checkpoint), publicKey, Buffer.from(checkpoint.signature, 'base64url'));
+
+        if (!signatureValid) {
+            return 'invalid_signature';
+        }
+        if (entryHash === undefined) {
+            return 'missing_entry';
+        }
+        return entryHash === checkpoint.hash ? 'valid' : 'hash_mismatch';
+    }
+}
+
+/**
+ * Periodic checkpointing and archival, run by the API server
+ */
+class AuditMaintenance {
+    private timers: NodeJS.Timeout[] = [];
+
+    async start(): Promise<void> {
+        if (this.timers.length > 0) {
+            return;
+        }
+
+        try {
+            await AuditChainService.dropLegacyTtlIndex();
+        } catch (error) {
+            console.error('[AuditChain] Failed to drop legacy TTL index:', error);
+        }
+
+        this.timers.push(
+            setInterval(() => {
+                AuditChainService.createCheckpoint().catch((error) =>
+                    console.error('[AuditChain] Checkpoint failed:', error)
+                );
+            }, config.auditLog.checkpointIntervalMs),
+            setInterval(() => {
+                AuditChainService.archiveExpiredEntries().catch((error) =>
+                    console.error('[AuditChain] Archival failed:', error)
+                );
+            }, config.auditLog.archiveIntervalMs)
+        );
+    }
+
+    stop(): void {
+        this.timers.forEach((timer) => clearInterval(timer));
+        this.timers = [];
+    }
+}
+
+export const auditMaintenance = new AuditMaintenance();
@@ -0,0 +1,276 @@
+import { AuditLog, AuditLogArchive } from '../models/index.js';
+import type { IAuditLogDocument } from '../models/index.js';
+import { PaginatedResponse, UserRole } from '../types/index.js';
+import { toCsvRow } from '../utils/csv.util.js';
+import { GENESIS_HASH, computeAuditEntryHash, normalizeAuditDetails } from '../utils/auditChain.util.js';
+
+interface AuthUser {
+    userId: string;
+    name: string;
+    role: UserRole;
+}
+
+interface RecordAuditInput {
+    userId: string;
+    userName: string;
+    action: string;
+    resource: string;
+    resourceId: string;
+    details?: Record<string, unknown>;
+    ipAddress?: string;
+    userAgent?: string;
+    timestamp?: Date;
+}
+
+interface AuditLogFilters {
+    userId?: string;
+    action?: string;
+    resource?: string;
+    resourceId?: string;
+    from?: Date;
+    to?: Date;
+}
+
+interface ListAuditLogsInput extends AuditLogFilters {
+    page?: number;
+    limit?: number;
+}
+
+interface ExportAuditLogsInput {
+    filters: AuditLogFilters;
+    format: 'csv' | 'jsonl';
+    user: AuthUser;
+    ipAddress?: string;
+    userAgent?: string | null;
+}
+
+const MAX_APPEND_ATTEMPTS = 5;
+
+const CSV_COLUMNS = [
+    'sequence',
+    'hash',
+    'prevHash',
+    'timestamp',
+    'action',
+    'resource',
+    'resourceId',
+    'userId',
+    'userName',
+    'ipAddress',
+    'userAgent',
+    'details',
+] as const;
+
+const buildFilter = (filters: AuditLogFilters) => {
+    const query: Record<string, unknown> = {};
+
+    if (filters.userId) query.userId = filters.userId;
+    if (filters.action) query.action = filters.action;
+    if (filters.resource) query.resource = filters.resource;
+    if (filters.resourceId) query.resourceId = filters.resourceId;
+
+    if (filters.from || filters.to) {
+        const timestamp: Record<string, Date> = {};
+        if (filters.from) timestamp.$gte = filters.from;
+        if (filters.to) timestamp.$lte = filters.to;
+        query.timestamp = timestamp;
+    }
+
+    return query;
+};
+
+/**
+ * The filter applied to the archive, leaving out chained entries that are
+ * still live; an interrupted archival run leaves copies in both collections
+ * until the next run removes them from the live one
+ */
+const archivedOnly = async (query: Record<string, unknown>): Promise<Record<string, unknown>> => {
+    const firstLive = await AuditLog.findOne({ sequence: { $exists: true } }).sort({ sequence: 1 }).select('sequence').lean();
+    if (!firstLive) {
+        return query;
+    }
+    return { $and: [query, { $or: [{ sequence: { $lt: firstLive.sequence } }, { sequence: { $exists: false } }] }] };
+};
+
+const isDuplicateKeyError = (error: unknown) =>
+    typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+
+// Appends from this process run one at a time so they do not race each
+// other for the next sequence number
+let appendQueue: Promise<unknown> = Promise.resolve();
+
+const getChainHead = async (): Promise<{ sequence: number; hash: string } | null> => {
+    const chained = { sequence: { $exists: true } };
+    const head =
+        (await AuditLog.findOne(chained).sort({ sequence: -1 }).select('sequence hash').lean()) ||
+        (await AuditLogArchive.findOne(chained).sort({ sequence: -1 }).select('sequence hash').lean());
+
+    return head ? { sequence: head.sequence!, hash: head.hash! } : null;
+};
+
+const appendEntry = async (input: RecordAuditInput): Promise<IAuditLogDocument> => {
+    for (let attempt = 1; ; attempt++) {
+        const head = await getChainHead();
+
+        const entry = new AuditLog({
+            ...input,
+            details: normalizeAuditDetails(input.details),
+            timestamp: input.timestamp ?? new Date(),
+            sequence: (head?.sequence ?? 0) + 1,
+            prevHash: head?.hash ?? GENESIS_HASH,
+        });
+        // Hash the values as cast by the schema (trimmed strings, dates)
+        entry.hash = computeAuditEntryHash({
+            sequence: entry.sequence!,
+            prevHash: entry.prevHash!,
+            timestamp: entry.timestamp,
+            userId: entry.userId,
+            userName: entry.userName,
+            action: entry.action,
+            resource: entry.resource,
+            resourceId: entry.resourceId,
+            details: entry.details,
+            ipAddress: entry.ipAddress,
+            userAgent: entry.userAgent,
+        });
+
+        try {
+            return await entry.save();
+        } catch (error) {
+            // Another process appended at this sequence first
+            if (!isDuplicateKeyError(error) || attempt >= MAX_APPEND_ATTEMPTS) {
+                throw error;
+            }
+        }
+    }
+};
+
+export class AuditLogService {
+    /**
+     * Append an entry to the hash-chained audit log
+     */
+    static async record(input: RecordAuditInput): Promise<IAuditLogDocument> {
+        const append = appendQueue.then(() => appendEntry(input));
+        appendQueue = append.catch(() => undefined);
+        return append;
+    }
+
+    /**
+     * Matching entries, newest first. Live entries come first, then archived
+     * ones, which are all older.
+     */
+    static async listLogs(input: ListAuditLogsInput): Promise<PaginatedResponse<IAuditLogDocument>> {
+        const { page = 1, limit = 50, ...filters } = input;
+        const query = buildFilter(filters);
+        const archiveQuery = await archivedOnly(query);
+        const skip = (page - 1) * limit;
+
+        const [liveTotal, archivedTotal] = await Promise.all([
+            AuditLog.countDocuments(query),
+            AuditLogArchive.countDocuments(archiveQuery),
+        ]);
+
+        const live = skip < liveTotal ? await AuditLog.find(query).sort({ timestamp: -1 }).skip(skip).limit(limit) : [];
+        const archived =
+            live.length < limit
+                ? await AuditLogArchive.find(archiveQuery)
+                      .sort({ timestamp: -1 })
+                      .skip(Math.max(0, skip - liveTotal))
+                      .limit(limit - live.length)
+                : [];
+        const total = liveTotal + archivedTotal;
+
+        return {
+            data: [...live, ...archived],
+            total,
+            page,
+            pageSize: limit,
+            totalPages: Math.ceil(total / limit),
+        };
+    }
+
+    /**
+     * Every entry for one resource, archived ones included, oldest first
+     */
+    static async getResourceTimeline(resource: string, resourceId: string): Promise<IAuditLogDocument[]> {
+        const [archived, live] = await Promise.all([
+            AuditLogArchive.find({ resource, resourceId }).sort({ timestamp: 1 }).limit(1000),
+            AuditLog.find({ resource, resourceId }).sort({ timestamp: 1 }).limit(1000),
+        ]);
+
+        // An interrupted archival run can leave an entry in both collections
+        const liveIds = new Set(live.map((entry) => String(entry._id)));
+        return [...archived.filter((entry) => !liveIds.has(String(entry._id))), ...live].slice(-1000);
+    }
+
+    /**
+     * Distinct actions and resources, for building filters
+     */
+    static async getFacets(): Promise<{ actions: string[]; resources: string[] }> {
+        const [actions, resources, archivedActions, archivedResources] = await Promise.all([
+            AuditLog.distinct('action'),
+            AuditLog.distinct('resource'),
+            AuditLogArchive.distinct('action'),
+            AuditLogArchive.distinct('resource'),
+        ]);
+
+        return {
+            actions: [...new Set([...actions, ...archivedActions] as string[])].sort(),
+            resources: [...new Set([...resources, ...archivedResources] as string[])].sort(),
+        };
+    }
+
+    /**
+     * Stream matching entries, archived ones included, oldest first, as CSV or
+     * JSON Lines. The export itself is recorded before any data is returned.
+     */
+    static async *exportLogs(input: ExportAuditLogsInput): AsyncGenerator<string> {
+        const { filters, format, user, ipAddress, userAgent } = input;
+
+        await AuditLogService.record({
+            userId: user.userId,
+            userName: user.name,
+            action: 'AUDIT_LOG_EXPORTED',
+            resource: 'audit_log',
+            resourceId: 'export',
+            details: { format, filters },
+            ipAddress,
+            userAgent: userAgent ?? undefined,
+            timestamp: new Date(),
+        });
+
+        if (format === 'csv') {
+            yield toCsvRow([...CSV_COLUMNS]);
+        }
+
+        const query = buildFilter(filters);
+        const archiveQuery = await archivedOnly(query);
+
+        // Archived entries always precede live ones in the chain
+        for (const [collection, collectionQuery] of [
+            [AuditLogArchive, archiveQuery],
+            [AuditLog, query],
+        ] as const) {
+            const cursor = (collection as typeof AuditLog)
+                .find(collectionQuery)
+                .sort({ sequence: 1, timestamp: 1 })
+                .lean()
+                .cursor();
+
+            // Runs when the consumer stops early too, e.g. after the client disconnects
+            try {
+                for await (const log of cursor) {
+                    if (format === 'csv') {
+                        yield toCsvRow(CSV_COLUMNS.map((column) => (log as Record<string, unknown>)[column]));
+                    } else {
+                        const { _id, __v, ...entry } = log as Record<string, unknown>;
+                        void __v;
+                        yield `${JSON.stringify({ id: String(_id), ...entry })}\n`;
+                    }
+                }
+            } finally {
+                await cursor.close();
+            }
+        }
+    }
+}
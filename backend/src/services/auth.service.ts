@@ -1,7 +1,15 @@
 import { User } from '../models/user.model.js';
-import { AuditLog } from '../models/auditLog.model.js';
+import { AuditLogService } from './auditLog.service.js';
+import { MailService } from './mail.service.js';
+import { TwoFactorService, TwoFactorChallenge, SecondFactor } from './twoFactor.service.js';
+import { SessionService, SessionTokens } from './session.service.js';
+import { LoginProtectionService } from './loginProtection.service.js';
+import type { IUserDocument } from '../models/index.js';
 import { JWTService } from '../utils/jwt.util.js';
+import { createOneTimeToken, hashToken } from '../utils/token.util.js';
 import { AppError } from '../middleware/errorHandler.middleware.js';
+import { disconnectUser } from '../socket/io.js';
+import config from '../config/config.js';
 
 interface RegisterInput {
     email: string;
@@ -41,6 +49,57 @@ interface ChangePasswordInput {
     userAgent?: string | null;
 }
 
+interface TwoFactorLoginInput extends SecondFactor {
+    challengeToken: string;
+    ipAddress?: string;
+    userAgent?: string | null;
+}
+
+interface TwoFactorEnrollmentInput {
+    challengeToken: string;
+    code: string;
+    ipAddress?: string;
+    userAgent?: string | null;
+}
+
+/**
+ * Either a session, or a challenge that must be completed to get one
+ */
+export type AuthResult =
+    | { user: IUserDocument; tokens: SessionTokens; challenge?: undefined }
+    | { user: IUserDocument; challenge: TwoFactorChallenge; tokens?: undefined };
+
+interface VerifyEmailInput {
+    token: string;
+    ipAddress?: string;
+    userAgent?: string | null;
+}
+
+interface ResendVerificationInput {
+    userId: string;
+    ipAddress?: string;
+    userAgent?: string | null;
+}
+
+interface ForgotPasswordInput {
+    email: string;
+    ipAddress?: string;
+    userAgent?: string | null;
+}
+
+interface ResetPasswordInput {
+    token: string;
+    password: string;
+    ipAddress?: string;
+    userAgent?: string | null;
+}
+
+interface RefreshTokenInput {
+    refreshToken: string;
+    ipAddress?: string;
+    userAgent?: string | null;
+}
+
 interface LogoutInput {
     userId: string;
     refreshToken?: string;
@@ -49,8 +108,54 @@ interface LogoutInput {
     userAgent?: string | null;
 }
 
+/**
+ * Send a verification link; a mail failure must not undo the registration,
+ * since the link can be requested again
+ */
+const sendVerificationEmail = async (email: string, name: string, token: string) => {
+    try {
+        await MailService.sendVerificationEmail(email, name, token);
+    } catch (error) {
+        console.error('Failed to send verification email:', error);
+    }
+};
+
+const issueVerificationToken = () => {
+    const { token, hash } = createOneTimeToken();
+    const expires = new Date(Date.now() + config.auth.verificationTokenTtlHours * 60 * 60 * 1000);
+    return { token, hash, expires };
+};
+
+/**
+ * Open a device session for a fully authenticated user
+ */
+const startSession = async (
+    user: IUserDocument,
+    context: { ipAddress?: string; userAgent?: string | null },
+    details?: Record<string, unknown>
+) => {
+    const tokens = await SessionService.create(user, context);
+
+    user.lastLogin = new Date();
+    await user.save();
+
+    await AuditLogService.record({
+        userId: user._id.toString(),
+        userName: user.name,
+        action: 'USER_LOGIN',
+        resource: 'user',
+        resourceId: user._id.toString(),
+        details,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent ?? undefined,
+        timestamp: new Date(),
+    });
+
+    return tokens;
+};
+
 export class AuthService {
-    static async register(input: RegisterInput) {
+    static async register(input: RegisterInput): Promise<AuthResult> {
         const existingUser = await User.findOne({ email: input.email });
         if (existingUser) {
             throw new AppError(409, 'User with this email already exists');
@@ -72,16 +177,18 @@ export class AuthService {
             isVerified: false,
         });
 
-        const tokens = JWTService.generateTokenPair(
-            user._id.toString(),
-            user.email,
-            user.role
-        );
+        const verification = issueVerificationToken();
+        user.verificationToken = verification.hash;
+        user.verificationTokenExpires = verification.expires;
 
-        user.refreshTokens = JWTService.addRefreshToken(user.refreshTokens, tokens.refreshToken);
+        // Roles that require two-factor enroll before receiving any tokens
+        const challengePurpose = TwoFactorService.challengePurposeFor(user);
+        const tokens = challengePurpose ? undefined : await SessionService.create(user, input);
         await user.save();
 
-        await AuditLog.create({
+        await sendVerificationEmail(user.email, user.name, verification.token);
+
+        await AuditLogService.record({
             userId: user._id.toString(),
             userName: user.name,
             action: 'USER_REGISTERED',
@@ -93,98 +200,274 @@ export class AuthService {
             timestamp: new Date(),
         });
 
-        return { user, tokens };
+        if (challengePurpose) {
+            return { user, challenge: await TwoFactorService.createChallenge(user, challengePurpose) };
+        }
+
+        return { user, tokens: tokens! };
     }
 
-    static async login(input: LoginInput) {
-        const user = await User.findOne({
-            email: input.email,
-            isActive: true,
-        }).select('+password +refreshTokens');
+    static async login(input: LoginInput): Promise<AuthResult> {
+        const user = await User.findOne({ email: input.email }).select(
+            '+password +failedLoginAttempts +lastFailedLoginAt'
+        );
 
-        if (!user) {
+        await LoginProtectionService.assertCanAttempt(user, input.ipAddress);
+
+        if (!user || !user.isActive) {
+            await LoginProtectionService.recordFailure(
+                input.email,
+                user,
+                user ? 'inactive_account' : 'unknown_account',
+                input
+            );
             throw new AppError(401, 'Invalid email or password');
         }
 
         const isPasswordValid = await user.comparePassword(input.password);
         if (!isPasswordValid) {
+            await LoginProtectionService.recordFailure(input.email, user, 'invalid_password', input);
             throw new AppError(401, 'Invalid email or password');
         }
 
-        const tokens = JWTService.generateTokenPair(
-            user._id.toString(),
-            user.email,
-            user.role
-        );
+        await LoginProtectionService.recordSuccess(user);
 
-        user.refreshTokens.push(tokens.refreshToken);
-        if (user.refreshTokens.length > 5) {
-            user.refreshTokens = user.refreshTokens.slice(-5);
+        const challengePurpose = TwoFactorService.challengePurposeFor(user);
+        if (challengePurpose) {
+            return { user, challenge: await TwoFactorService.createChallenge(user, challengePurpose) };
         }
-        user.lastLogin = new Date();
-        await user.save();
 
-        await AuditLog.create({
-            userId: user._id.toString(),
-            userName: user.name,
-            action: 'USER_LOGIN',
-            resource: 'user',
-            resourceId: user._id.toString(),
-            ipAddress: input.ipAddress,
-            userAgent: input.userAgent ?? undefined,
-            timestamp: new Date(),
+        const tokens = await startSession(user, input);
+
+        return { user, tokens };
+    }
+
+    /**
+     * Second login step: exchange a challenge and a TOTP or recovery code for tokens
+     */
+    static async completeTwoFactorLogin(input: TwoFactorLoginInput): Promise<AuthResult> {
+        const challenged = await TwoFactorService.resolveChallenge(input.challengeToken, 'verify');
+        await TwoFactorService.verifyChallenge(challenged, input, input);
+
+        const user = await User.findById(challenged._id);
+        if (!user) {
+            throw new AppError(404, 'User not found');
+        }
+
+        const tokens = await startSession(user, input, {
+            secondFactor: input.code ? 'totp' : 'recovery_code',
         });
 
         return { user, tokens };
     }
 
-    static async refreshToken(refreshToken: string) {
-        if (!refreshToken) {
+    /**
+     * Secret for a user who must enroll before their first sign-in completes
+     */
+    static async beginTwoFactorEnrollment(challengeToken: string) {
+        const user = await TwoFactorService.resolveChallenge(challengeToken, 'enroll');
+        return TwoFactorService.beginSetup(user._id.toString());
+    }
+
+    /**
+     * Confirm enrollment from a login challenge and sign the user in
+     */
+    static async completeTwoFactorEnrollment(input: TwoFactorEnrollmentInput) {
+        const challenged = await TwoFactorService.resolveChallenge(input.challengeToken, 'enroll');
+        const recoveryCodes = await TwoFactorService.enable(challenged._id.toString(), input.code, input);
+        await TwoFactorService.consumeChallenge(challenged);
+
+        const user = await User.findById(challenged._id);
+        if (!user) {
+            throw new AppError(404, 'User not found');
+        }
+
+        const tokens = await startSession(user, input, { secondFactor: 'enrollment' });
+
+        return { user, tokens, recoveryCodes };
+    }
+
+    /**
+     * Rotate a device session's refresh token
+     */
+    static async refreshToken(input: RefreshTokenInput) {
+        if (!input.refreshToken) {
             throw new AppError(400, 'Refresh token is required');
         }
 
         let decoded;
         try {
-            decoded = JWTService.verifyRefreshToken(refreshToken);
+            decoded = JWTService.verifyRefreshToken(input.refreshToken);
         } catch {
             throw new AppError(401, 'Invalid or expired refresh token');
         }
 
-        const user = await User.findById(decoded.userId).select('+refreshTokens');
+        const user = await User.findById(decoded.userId);
 
         if (!user || !user.isActive) {
             throw new AppError(401, 'Invalid refresh token');
         }
-
-        if (!user.refreshTokens.includes(refreshToken)) {
-            throw new AppError(401, 'Refresh token has been revoked');
+        // Enrollment is enforced at sign-in, so a user whose role now requires it has to sign in again
+        if (TwoFactorService.isRequiredFor(user.role) && !user.twoFactor?.enabled) {
+            throw new AppError(401, 'Two-factor authentication must be set up; please sign in again');
         }
 
-        user.refreshTokens = user.refreshTokens.filter(
-            (token) => token !== refreshToken
+        const tokens = await SessionService.rotate(input.refreshToken, user, input);
+
+        return { tokens };
+    }
+
+    /**
+     * Confirm an email address with the token from the verification link
+     */
+    static async verifyEmail(input: VerifyEmailInput) {
+        // Clearing the token in the same update makes it single-use
+        const user = await User.findOneAndUpdate(
+            {
+                verificationToken: hashToken(input.token),
+                verificationTokenExpires: { $gt: new Date() },
+            },
+            {
+                $set: { isVerified: true },
+                $unset: { verificationToken: 1, verificationTokenExpires: 1 },
+            },
+            { new: true }
         );
 
-        const tokens = JWTService.generateTokenPair(
-            user._id.toString(),
-            user.email,
-            user.role
+        if (!user) {
+            throw new AppError(400, 'Invalid or expired verification link');
+        }
+
+        await AuditLogService.record({
+            userId: user._id.toString(),
+            userName: user.name,
+            action: 'EMAIL_VERIFIED',
+            resource: 'user',
+            resourceId: user._id.toString(),
+            details: { email: user.email },
+            ipAddress: input.ipAddress,
+            userAgent: input.userAgent ?? undefined,
+            timestamp: new Date(),
+        });
+
+        return user;
+    }
+
+    /**
+     * Send a fresh verification link, replacing any earlier one
+     */
+    static async resendVerification(input: ResendVerificationInput) {
+        const user = await User.findById(input.userId);
+
+        if (!user) {
+            throw new AppError(404, 'User not found');
+        }
+        if (user.isVerified) {
+            throw new AppError(409, 'Email address is already verified');
+        }
+
+        const verification = issueVerificationToken();
+        user.verificationToken = verification.hash;
+        user.verificationTokenExpires = verification.expires;
+        await user.save();
+
+        await MailService.sendVerificationEmail(user.email, user.name, verification.token);
+
+        await AuditLogService.record({
+            userId: user._id.toString(),
+            userName: user.name,
+            action: 'EMAIL_VERIFICATION_SENT',
+            resource: 'user',
+            resourceId: user._id.toString(),
+            ipAddress: input.ipAddress,
+            userAgent: input.userAgent ?? undefined,
+            timestamp: new Date(),
+        });
+    }
+
+    /**
+     * Email a password reset link. Completes silently for unknown or inactive
+     * addresses, so the response does not reveal which accounts exist.
+     */
+    static async requestPasswordReset(input: ForgotPasswordInput) {
+        const user = await User.findOne({ email: input.email.toLowerCase(), isActive: true });
+
+        if (!user) {
+            return;
+        }
+
+        const { token, hash } = createOneTimeToken();
+        user.resetPasswordToken = hash;
+        user.resetPasswordExpires = new Date(Date.now() + config.auth.passwordResetTtlMinutes * 60 * 1000);
+        await user.save();
+
+        try {
+            await MailService.sendPasswordResetEmail(user.email, user.name, token);
+        } catch (error) {
+            console.error('Failed to send password reset email:', error);
+        }
+
+        await AuditLogService.record({
+            userId: user._id.toString(),
+            userName: user.name,
+            action: 'PASSWORD_RESET_REQUESTED',
+            resource: 'user',
+            resourceId: user._id.toString(),
+            ipAddress: input.ipAddress,
+            userAgent: input.userAgent ?? undefined,
+            timestamp: new Date(),
+        });
+    }
+
+    /**
+     * Set a new password with the token from a reset link and sign the user
+     * out everywhere
+     */
+    static async resetPassword(input: ResetPasswordInput) {
+        // Claim the token atomically so it cannot be used twice
+        const claimed = await User.findOneAndUpdate(
+            {
+                resetPasswordToken: hashToken(input.token),
+                resetPasswordExpires: { $gt: new Date() },
+                isActive: true,
+            },
+            { $unset: { resetPasswordToken: 1, resetPasswordExpires: 1 } }
         );
 
-        user.refreshTokens.push(tokens.refreshToken);
+        if (!claimed) {
+            throw new AppError(400, 'Invalid or expired password reset link');
+        }
+
+        const user = await User.findById(claimed._id).select('+password');
+        if (!user) {
+            throw new AppError(400, 'Invalid or expired password reset link');
+        }
+
+        user.password = input.password;
+        // Receiving the link proves control of the address
+        user.isVerified = true;
         await user.save();
+        await SessionService.revokeAll(user._id.toString());
+        disconnectUser(user._id.toString());
 
-        return { tokens };
+        await AuditLogService.record({
+            userId: user._id.toString(),
+            userName: user.name,
+            action: 'PASSWORD_RESET',
+            resource: 'user',
+            resourceId: user._id.toString(),
+            ipAddress: input.ipAddress,
+            userAgent: input.userAgent ?? undefined,
+            timestamp: new Date(),
+        });
     }
 
     static async logout(input: LogoutInput) {
-        const user = await User.findById(input.userId).select('+refreshTokens');
-
-        if (user && input.refreshToken) {
-            user.refreshTokens = JWTService.removeRefreshToken(user.refreshTokens, input.refreshToken);
-            await user.save();
+        if (input.refreshToken) {
+            await SessionService.revokeByToken(input.userId, input.refreshToken);
         }
 
-        await AuditLog.create({
+        await AuditLogService.record({
             userId: input.userId,
             userName: input.userName,
             action: 'USER_LOGOUT',
@@ -215,13 +498,14 @@ export class AuthService {
 
         if (input.name !== undefined) user.name = input.name;
         if (input.avatar !== undefined) user.avatar = input.avatar;
-        if (input.organization !== undefined) user.organization = input.organization;
+        // Members show their organization's name
+        if (input.organization !== undefined && !user.organizationId) user.organization = input.organization;
         if (input.phone !== undefined) user.phone = input.phone;
         if (input.address !== undefined) user.address = input.address;
 
         await user.save();
 
-        await AuditLog.create({
+        await AuditLogService.record({
             userId: input.userId,
             userName: user.name,
             action: 'PROFILE_UPDATED',
@@ -249,9 +533,7 @@ export class AuthService {
     }
 
     static async changePassword(input: ChangePasswordInput) {
-        const user = await User.findById(input.userId).select(
-            '+password +refreshTokens'
-        );
+        const user = await User.findById(input.userId).select('+password');
 
         if (!user) {
             throw new AppError(404, 'User not found');
@@ -263,11 +545,12 @@ export class AuthService {
         }
 
         user.password = input.newPassword;
-        user.refreshTokens = [];
 
         await user.save();
 
-        await AuditLog.create({
+        await SessionService.revokeAll(input.userId);
+
+        await AuditLogService.record({
             userId: input.userId,
             userName: user.name,
             action: 'PASSWORD_CHANGED',
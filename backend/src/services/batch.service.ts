@@ -1,13 +1,21 @@
+import type { FilterQuery } from 'mongoose';
 import { Batch } from '../models/batch.model.js';
-import { Notification } from '../models/notification.model.js';
-import { AuditLog } from '../models/auditLog.model.js';
+import type { IBatchDocument } from '../models/batch.model.js';
+import { AuditLogService } from './auditLog.service.js';
+import { NotificationService } from './notification.service.js';
+import { OrganizationService } from './organization.service.js';
+import { FileRegistryService } from './fileRegistry.service.js';
+import { emitBatchStatus } from '../socket/events.js';
 import { AppError } from '../middleware/errorHandler.middleware.js';
 import { PaginatedResponse, UserRole } from '../types/index.js';
+import { inOrganizationScope, organizationFilter } from '../utils/organizationScope.util.js';
+import { batchFileRefs } from '../utils/fileEvidence.util.js';
 
 interface AuthUser {
   userId: string;
   name: string;
   role: UserRole;
+  organizationId?: string;
 }
 
 interface CreateBatchInput {
@@ -61,6 +69,10 @@ interface GetBatchStatsInput {
 
 export class BatchService {
   static async createBatch(input: CreateBatchInput) {
+    if (input.data.organizationId) {
+      await OrganizationService.getCertificationBody(input.data.organizationId);
+    }
+
     const batchData = {
       ...input.data,
       farmerId: input.user.userId,
@@ -68,9 +80,12 @@ export class BatchService {
       status: 'draft',
     };
 
+    await FileRegistryService.assertCanAttach(input.user, batchFileRefs(batchData));
+
     const batch = await Batch.create(batchData);
+    await FileRegistryService.syncReferences({ resource: 'batch', resourceId: batch.id }, batchFileRefs(batch));
 
-    await AuditLog.create({
+    await AuditLogService.record({
       userId: input.user.userId,
       userName: input.user.name,
       action: 'BATCH_CREATED',
@@ -95,7 +110,7 @@ export class BatchService {
       search,
     } = input;
 
-    const query: any = {};
+    const query: FilterQuery<IBatchDocument> = organizationFilter(input.user);
 
     if (input.user.role === 'farmer') {
       query.farmerId = input.user.userId;
@@ -140,8 +155,8 @@ export class BatchService {
 
     if (
       input.user &&
-      input.user.role === 'farmer' &&
-      batch.farmerId !== input.user.userId
+      ((input.user.role === 'farmer' && batch.farmerId !== input.user.userId) ||
+        !inOrganizationScope(input.user, batch.organizationId))
     ) {
       throw new AppError(403, 'Access denied');
     }
@@ -163,14 +178,33 @@ export class BatchService {
       throw new AppError(403, 'Access denied');
     }
 
+    if (!inOrganizationScope(input.user, batch.organizationId)) {
+      throw new AppError(403, 'Access denied');
+    }
+
     if (input.user.role === 'farmer' && batch.status !== 'draft') {
       throw new AppError(400, 'Cannot edit submitted batch');
     }
 
+    if (input.payload.organizationId && input.payload.organizationId !== batch.organizationId) {
+      await OrganizationService.getCertificationBody(input.payload.organizationId);
+    }
+
+    if (input.payload.attachments) {
+      await FileRegistryService.assertCanAttach(input.user, batchFileRefs(input.payload), {
+        resource: 'batch',
+        resourceId: batch.id,
+      });
+    }
+
     Object.assign(batch, input.payload);
     await batch.save();
 
-    await AuditLog.create({
+    if (input.payload.attachments) {
+      await FileRegistryService.syncReferences({ resource: 'batch', resourceId: batch.id }, batchFileRefs(batch));
+    }
+
+    await AuditLogService.record({
       userId: input.user.userId,
       userName: input.user.name,
       action: 'BATCH_UPDATED',
@@ -204,16 +238,24 @@ export class BatchService {
     batch.submittedAt = new Date();
     await batch.save();
 
-    await Notification.create({
+    emitBatchStatus({
+      batchId: batch._id.toString(),
+      organizationId: batch.organizationId,
+      farmerId: batch.farmerId,
+      productName: batch.productName,
+      status: 'submitted',
+      previousStatus: 'draft',
+    });
+
+    await NotificationService.createNotification({
       userId: input.user.userId,
       type: 'batch_submitted',
       title: 'New Batch Submitted',
       message: `Batch ${batch.productName} has been submitted for inspection`,
-      read: false,
       actionUrl: `/batches/${batch._id}`,
     });
 
-    await AuditLog.create({
+    await AuditLogService.record({
       userId: input.user.userId,
       userName: input.user.name,
       action: 'BATCH_SUBMITTED',
@@ -246,8 +288,10 @@ export class BatchService {
     }
 
     await batch.deleteOne();
+    // Its attachments become orphans and are swept after the grace period
+    await FileRegistryService.syncReferences({ resource: 'batch', resourceId: batch.id }, []);
 
-    await AuditLog.create({
+    await AuditLogService.record({
       userId: input.user.userId,
       userName: input.user.name,
       action: 'BATCH_DELETED',
@@ -260,7 +304,7 @@ export class BatchService {
   }
 
   static async getBatchStats(input: GetBatchStatsInput) {
-    const query: any = {};
+    const query: FilterQuery<IBatchDocument> = organizationFilter(input.user);
 
     if (input.user.role === 'farmer') {
       query.farmerId = input.user.userId;
@@ -0,0 +1,319 @@
+import crypto, { KeyObject } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { IssuerKey } from '../models/index.js';
+import { AuditLogService } from './auditLog.service.js';
+import type { IIssuerKeyDocument } from '../models/index.js';
+import config from '../config/config.js';
+import { AppError } from '../middleware/errorHandler.middleware.js';
+import { encryptData, decryptData } from '../utils/encryption.util.js';
+import {
+  ed25519PublicKeyToMultibase,
+  ed25519PublicKeyFromMultibase,
+} from '../utils/multibase.util.js';
+import { UserRole } from '../types/index.js';
+
+export const VERIFICATION_KEY_TYPE = 'Ed25519VerificationKey2020';
+
+export interface SigningKey {
+  verificationMethod: string;
+  privateKey: KeyObject;
+}
+
+export interface DidVerificationMethod {
+  id: string;
+  type: string;
+  controller: string;
+  publicKeyMultibase: string;
+  validFrom: string;
+  validUntil?: string;
+  revoked?: string;
+}
+
+export interface DidDocument {
+  '@context': string[];
+  id: string;
+  verificationMethod: DidVerificationMethod[];
+  assertionMethod: string[];
+}
+
+interface AuthUser {
+  userId: string;
+  name: string;
+  role: UserRole;
+}
+
+interface RotateKeyInput {
+  user: AuthUser;
+  did?: string;
+  ipAddress?: string;
+  userAgent?: string | null;
+}
+
+interface RevokeKeyInput {
+  id: string;
+  reason?: string;
+  user: AuthUser;
+  ipAddress?: string;
+  userAgent?: string | null;
+}
+
+/**
+ * Read a pre-provisioned signing key (VC_SIGNING_KEY or VC_SIGNING_KEY_FILE).
+ * It is imported as the first key of the configured issuer DID.
+ */
+const loadConfiguredKey = (): KeyObject | null => {
+  const { signingKey, signingKeyFile } = config.features.vc;
+
+  if (signingKey) {
+    return crypto.createPrivateKey(signingKey.replace(/\\n/g, '\n'));
+  }
+
+  const keyPath = path.resolve(process.cwd(), signingKeyFile);
+  if (fs.existsSync(keyPath)) {
+    return crypto.createPrivateKey(fs.readFileSync(keyPath, 'utf8'));
+  }
+
+  return null;
+};
+
+const isDuplicateKeyError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+
+/**
+ * Manages the issuer's Ed25519 keys and publishes them as a did:web DID document.
+ * Rotated-out keys stay in the document with their validity window so that
+ * credentials signed before a rotation keep verifying.
+ */
+class DIDService {
+  /**
+   * DID of the default issuer
+   */
+  getIssuerDid(): string {
+    return config.features.vc.issuerDid;
+  }
+
+  /**
+   * Whether a DID is one this backend issues under
+   */
+  async isKnownIssuer(did: string): Promise<boolean> {
+    if (!did) {
+      return false;
+    }
+    if (did === this.getIssuerDid()) {
+      return true;
+    }
+    return Boolean(await IssuerKey.exists({ controller: did }));
+  }
+
+  /**
+   * Build the DID document for a DID, or null if no keys exist for it
+   */
+  async getDidDocument(did: string = this.getIssuerDid()): Promise<DidDocument | null> {
+    if (did === this.getIssuerDid()) {
+      await this.ensureActiveKey(did);
+    }
+
+    const keys = await IssuerKey.find({ controller: did }).sort({ validFrom: 1 });
+    if (!keys.length) {
+      return null;
+    }
+
+    return {
+      '@context': [
+        'https://www.w3.org/ns/did/v1',
+        'https://w3id.org/security/suites/ed25519-2020/v1',
+      ],
+      id: did,
+      verificationMethod: keys.map((key) => this.toVerificationMethod(key)),
+      assertionMethod: keys.filter((key) => key.status !== 'revoked').map((key) => key.keyId),
+    };
+  }
+
+  /**
+   * Active signing key for a DID, creating one if none is active
+   */
+  async getSigningKey(did: string = this.getIssuerDid()): Promise<SigningKey> {
+    const key = await this.ensureActiveKey(did);
+
+    return {
+      verificationMethod: key.keyId,
+      privateKey: crypto.createPrivateKey(decryptData(key.privateKey!)),
+    };
+  }
+
+  /**
+   * Resolve a verification method to its public key, honoring the key's
+   * validity window at the time the proof was created
+   */
+  async resolveVerificationMethod(verificationMethod: string, at: Date = new Date()): Promise<KeyObject | null> {
+    const key = await IssuerKey.findOne({ keyId: verificationMethod });
+
+    if (!key || key.status === 'revoked' || Number.isNaN(at.getTime())) {
+      return null;
+    }
+    if (at < key.validFrom || (key.validUntil && at > key.validUntil)) {
+      return null;
+    }
+
+    return ed25519PublicKeyFromMultibase(key.publicKeyMultibase);
+  }
+
+  /**
+   * List all keys for a DID, newest first
+   */
+  async listKeys(did: string = this.getIssuerDid()) {
+    return IssuerKey.find({ controller: did }).sort({ validFrom: -1 });
+  }
+
+  /**
+   * Retire the active key and start signing with a freshly generated one
+   */
+  async rotateKey(input: RotateKeyInput) {
+    const { user, ipAddress, userAgent } = input;
+    const did = input.did || this.getIssuerDid();
+    const now = new Date();
+
+    const previous = await IssuerKey.findOneAndUpdate(
+      { controller: did, status: 'active' },
+      { status: 'retired', validUntil: now },
+      { new: true }
+    );
+
+    const key = await this.createKey(did, crypto.generateKeyPairSync('ed25519').privateKey, {
+      createdBy: user.userId,
+      validFrom: now,
+    });
+
+    await AuditLogService.record({
+      userId: user.userId,
+      userName: user.name,
+      action: 'ISSUER_KEY_ROTATED',
+      resource: 'IssuerKey',
+      resourceId: key.id,
+      details: {
+        did,
+        keyId: key.keyId,
+        previousKeyId: previous?.keyId,
+      },
+      ipAddress,
+      userAgent: userAgent ?? undefined,
+      timestamp: new Date(),
+    });
+
+    return { key, previous };
+  }
+
+  /**
+   * Revoke a compromised key. Credentials signed with it stop verifying.
+   */
+  async revokeKey(input: RevokeKeyInput) {
+    const { id, reason, user, ipAddress, userAgent } = input;
+
+    const key = await IssuerKey.findById(id);
+    if (!key) {
+      throw new AppError(404, 'Issuer key not found');
+    }
+
+    if (key.status === 'revoked') {
+      throw new AppError(409, 'Issuer key is already revoked');
+    }
+
+    const now = new Date();
+    key.status = 'revoked';
+    key.revokedAt = now;
+    key.revocationReason = reason;
+    key.validUntil = key.validUntil ?? now;
+    await key.save();
+
+    await AuditLogService.record({
+      userId: user.userId,
+      userName: user.name,
+      action: 'ISSUER_KEY_REVOKED',
+      resource: 'IssuerKey',
+      resourceId: key.id,
+      details: {
+        did: key.controller,
+        keyId: key.keyId,
+        reason,
+      },
+      ipAddress,
+      userAgent: userAgent ?? undefined,
+      timestamp: new Date(),
+    });
+
+    return key;
+  }
+
+  /**
+   * Return the active key for a DID. The first key of the configured issuer
+   * imports VC_SIGNING_KEY when set; otherwise a new key is generated.
+   */
+  private async ensureActiveKey(did: string): Promise<IIssuerKeyDocument> {
+    const active = await IssuerKey.findOne({ controller: did, status: 'active' }).select('+privateKey');
+    if (active) {
+      return active;
+    }
+
+    const isFirstKey = !(await IssuerKey.exists({ controller: did }));
+    const configuredKey = isFirstKey && did === this.getIssuerDid() ? loadConfiguredKey() : null;
+    const configuredKeyId = config.features.vc.verificationMethod;
+
+    try {
+      return await this.createKey(did, configuredKey || crypto.generateKeyPairSync('ed25519').privateKey, {
+        keyId: configuredKey && configuredKeyId?.startsWith(`${did}#`) ? configuredKeyId : undefined,
+        // A pre-provisioned key may already have signed credentials before it was imported
+        validFrom: configuredKey ? new Date(0) : undefined,
+      });
+    } catch (error) {
+      // Another process created the active key concurrently
+      if (isDuplicateKeyError(error)) {
+        const created = await IssuerKey.findOne({ controller: did, status: 'active' }).select('+privateKey');
+        if (created) {
+          return created;
+        }
+      }
+      throw error;
+    }
+  }
+
+  private async createKey(
+    did: string,
+    privateKey: KeyObject,
+    options: { keyId?: string; createdBy?: string; validFrom?: Date } = {}
+  ): Promise<IIssuerKeyDocument> {
+    if (privateKey.asymmetricKeyType !== 'ed25519') {
+      throw new Error('Issuer signing key must be an Ed25519 key');
+    }
+
+    const publicKeyMultibase = ed25519PublicKeyToMultibase(crypto.createPublicKey(privateKey));
+
+    return IssuerKey.create({
+      controller: did,
+      // Named after the key itself, so concurrent rotations never pick the same ID
+      keyId: options.keyId || `${did}#${publicKeyMultibase}`,
+      type: VERIFICATION_KEY_TYPE,
+      publicKeyMultibase,
+      privateKey: encryptData(privateKey.export({ type: 'pkcs8', format: 'pem' }).toString()),
+      status: 'active',
+      validFrom: options.validFrom || new Date(),
+      createdBy: options.createdBy,
+    });
+  }
+
+  private toVerificationMethod(key: IIssuerKeyDocument): DidVerificationMethod {
+    return {
+      id: key.keyId,
+      type: key.type,
+      controller: key.controller,
+      publicKeyMultibase: key.publicKeyMultibase,
+      validFrom: key.validFrom.toISOString(),
+      ...(key.validUntil && { validUntil: key.validUntil.toISOString() }),
+      ...(key.revokedAt && { revoked: key.revokedAt.toISOString() }),
+    };
+  }
+}
+
+// Export singleton instance
+export const didService = new DIDService();
+export default didService;
@@ -0,0 +1,236 @@
+import { Batch, Inspection } from '../models/index.js';
+import type { IBatchDocument } from '../models/index.js';
+import config from '../config/config.js';
+import { AppError } from '../middleware/errorHandler.middleware.js';
+import { UserRole } from '../types/index.js';
+import { inOrganizationScope } from '../utils/organizationScope.util.js';
+import { StorageService } from './storage.service.js';
+import { FileRegistryService } from './fileRegistry.service.js';
+import { UploadGrant, signDownload, signUpload, verifyDownload, verifyUpload } from '../utils/signedUrl.util.js';
+
+export const FILE_CATEGORIES = ['photos', 'lab-reports', 'documents'];
+
+interface AuthUser {
+    userId: string;
+    role: UserRole;
+    organizationId?: string;
+}
+
+interface CreateUploadUrlInput {
+    fileId: string;
+    category: string;
+    filename: string;
+    mimeType: string;
+    // Size declared by the client; the URL will not accept a larger file
+    size?: number;
+}
+
+type SignedQuery = Record<string, unknown>;
+
+export interface UploadTarget {
+    uploadUrl: string;
+    // POST multipart form to the API, or PUT the raw file to object storage
+    uploadMethod: 'POST' | 'PUT';
+    // Headers the client must send unchanged with a PUT
+    uploadHeaders?: Record<string, string>;
+    maxSize: number;
+    expiresAt: Date;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+const canReadBatch = (user: AuthUser, batch: IBatchDocument) =>
+    batch.farmerId === user.userId ||
+    ((user.role === 'qa_inspector' || user.role === 'certifier') && inOrganizationScope(user, batch.organizationId));
+
+/**
+ * A batch and an inspection that list the file, by ID or by its URL
+ */
+const findHolders = async (category: string, fileId: string) => {
+    const urlPattern = { $regex: `/files/${escapeRegex(category)}/${escapeRegex(fileId)}(\\?|$)` };
+
+    const [batch, inspection] = await Promise.all([
+        Batch.findOne({
+            $or: [{ 'attachments.id': fileId }, { 'attachments.url': urlPattern }],
+        }),
+        Inspection.findOne({
+            $or: [
+                { 'photos.id': fileId },
+                { 'labReports.id': fileId },
+                { 'photos.url': urlPattern },
+                { 'labReports.url': urlPattern },
+            ],
+        }),
+    ]);
+
+    return { batch, inspection };
+};
+
+export class FileAccessService {
+    /**
+     * Guards the storage path: only known categories and generated file IDs
+     */
+    static isValidFileRef(category: string, fileId: string): boolean {
+        return FILE_CATEGORIES.includes(category) && UUID_PATTERN.test(fileId);
+    }
+
+    /**
+     * Where the client sends the file: straight to object storage when the
+     * driver can presign, otherwise to the API's signed upload route
+     */
+    static createUploadUrl(input: CreateUploadUrlInput): UploadTarget {
+        const { fileId, category, filename, mimeType, size } = input;
+        const limit = config.files.maxFileSize;
+
+        if (size !== undefined && size > limit) {
+            throw new AppError(413, `File exceeds the maximum size of ${Math.floor(limit / (1024 * 1024))} MB`);
+        }
+
+        const driver = StorageService.getDriver();
+        if (driver.presignPut) {
+            const expiresIn = config.files.uploadUrlTtlSeconds;
+            return {
+                // Content type and length are signed, so S3 rejects any other file
+                uploadUrl: driver.presignPut(StorageService.keyFor(category, fileId, filename), {
+                    contentType: mimeType,
+                    contentLength: size,
+                    expiresIn,
+                }),
+                uploadMethod: 'PUT',
+                uploadHeaders: { 'Content-Type': mimeType },
+                maxSize: size || limit,
+                expiresAt: new Date((nowInSeconds() + expiresIn) * 1000),
+            };
+        }
+
+        const grant: UploadGrant = {
+            fileId,
+            category,
+            mimeType,
+            maxSize: size || limit,
+            expires: nowInSeconds() + config.files.uploadUrlTtlSeconds,
+        };
+        const query = new URLSearchParams({
+            mimeType,
+            maxSize: String(grant.maxSize),
+            expires: String(grant.expires),
+            signature: signUpload(grant, config.files.urlSecret),
+        });
+
+        return {
+            uploadUrl: `/api/files/upload/${category}/${fileId}?${query}`,
+            uploadMethod: 'POST',
+            maxSize: grant.maxSize,
+            expiresAt: new Date(grant.expires * 1000),
+        };
+    }
+
+    /**
+     * The grant carried by a signed upload URL, if the signature holds
+     */
+    static verifyUploadUrl(category: string, fileId: string, query: SignedQuery): UploadGrant {
+        const grant: UploadGrant = {
+            fileId,
+            category,
+            mimeType: String(query.mimeType ?? ''),
+            maxSize: Number(query.maxSize),
+            expires: Number(query.expires),
+        };
+
+        const error = verifyUpload(grant, String(query.signature ?? ''), config.files.urlSecret);
+        if (error) {
+            throw new AppError(403, error);
+        }
+
+        return grant;
+    }
+
+    static createDownloadUrl(category: string, fileId: string): { url: string; expiresAt: Date } {
+        const expires = nowInSeconds() + config.files.downloadUrlTtlSeconds;
+        const signature = signDownload({ fileId, category, expires }, config.files.urlSecret);
+        const query = new URLSearchParams({ expires: String(expires), signature });
+
+        return {
+            url: `/api/files/${category}/${fileId}?${query}`,
+            expiresAt: new Date(expires * 1000),
+        };
+    }
+
+    /**
+     * Whether the request carries a download signature; one that is present
+     * but invalid or expired is rejected rather than ignored
+     */
+    static hasDownloadSignature(category: string, fileId: string, query: SignedQuery): boolean {
+        if (query.signature === undefined) {
+            return false;
+        }
+
+        const error = verifyDownload(
+            { fileId, category, expires: Number(query.expires) },
+            String(query.signature),
+            config.files.urlSecret
+        );
+        if (error) {
+            throw new AppError(403, error);
+        }
+
+        return true;
+    }
+
+    /**
+     * Files are readable by whoever can see the batch or inspection they are
+     * attached to, and by the user who uploaded them. Files not yet attached
+     * to anything are otherwise only reachable by admins or through a signed URL.
+     */
+    static async assertCanRead(user: AuthUser, category: string, fileId: string): Promise<void> {
+        if (user.role === 'admin' || (await FileRegistryService.isUploader(user, fileId))) {
+            return;
+        }
+
+        const { batch, inspection } = await findHolders(category, fileId);
+        if (batch && canReadBatch(user, batch)) {
+            return;
+        }
+
+        if (inspection) {
+            if (inspection.inspectorId === user.userId) {
+                return;
+            }
+            const inspectedBatch = await Batch.findById(inspection.batchId);
+            if (inspectedBatch && canReadBatch(user, inspectedBatch)) {
+                return;
+            }
+        }
+
+        if (!batch && !inspection) {
+            throw new AppError(404, 'File not found');
+        }
+        throw new AppError(403, 'Access denied');
+    }
+
+    /**
+     * Only the uploader or an admin deletes a file, and only once nothing
+     * uses it any more. An attached file is removed from its batch or
+     * inspection first, so evidence behind issued certificates stays intact.
+     */
+    static async assertCanDelete(user: AuthUser, category: string, fileId: string): Promise<void> {
+        const record = await FileRegistryService.getRecord(fileId);
+
+        if (user.role !== 'admin' && record?.uploadedBy !== user.userId) {
+            throw new AppError(403, 'Only the uploader can delete this file');
+        }
+
+        if (record?.references.some((ref) => ref.resource === 'certificate')) {
+            throw new AppError(409, 'File is evidence for an issued certificate and cannot be deleted');
+        }
+
+        const { batch, inspection } = await findHolders(category, fileId);
+        if (batch || inspection || (record && record.references.length > 0)) {
+            throw new AppError(409, 'File is still attached and cannot be deleted');
+        }
+    }
+}
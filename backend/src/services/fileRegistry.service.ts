@@ -0,0 +1,306 @@
+import crypto from 'crypto';
+import { StoredFile } from '../models/index.js';
+import type { IStoredFileDocument } from '../models/index.js';
+import type { IStoredFile, IStoredFileReference, IStoredFileScan } from '../models/storedFile.model.js';
+import config from '../config/config.js';
+import { AppError } from '../middleware/errorHandler.middleware.js';
+import { UserRole } from '../types/index.js';
+import { EvidenceDigest, FileRef, buildEvidence } from '../utils/fileEvidence.util.js';
+import { StorageService } from './storage.service.js';
+
+interface AuthUser {
+    userId: string;
+    role: UserRole;
+    organizationId?: string;
+}
+
+interface RegisterUploadInput {
+    fileId: string;
+    key: string;
+    category: string;
+    filename: string;
+    mimeType: string;
+    user: AuthUser;
+}
+
+type RecordUploadInput = Pick<IStoredFile, 'key' | 'filename' | 'mimeType' | 'size' | 'sha256'> &
+    Partial<Pick<IStoredFile, 'thumbnailKey' | 'image' | 'scan'>>;
+
+interface ResourceRef {
+    resource: IStoredFileReference['resource'];
+    resourceId: string;
+}
+
+// Orphans removed per sweep, so one run never holds the server for long
+const SWEEP_BATCH_SIZE = 500;
+
+export class FileRegistryService {
+    /**
+     * Record a file when its upload URL is issued, so the uploader is known
+     * even though the upload itself only carries the URL signature
+     */
+    static async registerUpload(input: RegisterUploadInput): Promise<IStoredFileDocument> {
+        return StoredFile.create({
+            fileId: input.fileId,
+            key: input.key,
+            category: input.category,
+            filename: input.filename,
+            mimeType: input.mimeType,
+            uploadedBy: input.user.userId,
+            organizationId: input.user.organizationId,
+            status: 'pending',
+            unreferencedSince: new Date(),
+        });
+    }
+
+    static async getRecord(fileId: string): Promise<IStoredFileDocument | null> {
+        return StoredFile.findOne({ fileId });
+    }
+
+    /**
+     * Take a pending upload for processing. Only one request can claim it,
+     * so concurrent uploads to the same URL cannot overwrite each other.
+     */
+    static async claimUpload(fileId: string): Promise<IStoredFileDocument | null> {
+        return StoredFile.findOneAndUpdate(
+            { fileId, status: 'pending' },
+            { $set: { status: 'processing' } },
+            { new: true }
+        );
+    }
+
+    /**
+     * Return a claimed upload that failed processing to pending, so it can be retried
+     */
+    static async releaseUpload(fileId: string): Promise<void> {
+        await StoredFile.updateOne({ fileId, status: 'processing' }, { $set: { status: 'pending' } });
+    }
+
+    /**
+     * Complete the record once the processed bytes are in storage
+     */
+    static async recordUpload(fileId: string, details: RecordUploadInput): Promise<void> {
+        await StoredFile.updateOne(
+            { fileId },
+            { $set: { ...details, status: 'stored', uploadedAt: new Date() } }
+        );
+    }
+
+    static async quarantine(fileId: string, key: string, scan: IStoredFileScan): Promise<void> {
+        await StoredFile.updateOne({ fileId }, { $set: { key, scan, status: 'quarantined' } });
+    }
+
+    static async isUploader(user: AuthUser, fileId: string): Promise<boolean> {
+        return (await StoredFile.exists({ fileId, uploadedBy: user.userId })) !== null;
+    }
+
+    /**
+     * Only the uploader may attach a file, so a file ID seen elsewhere cannot
+     * be used to gain read access through another batch or inspection.
+     * Files the resource already references, and files uploaded before the
+     * registry existed, are let through.
+     */
+    static async assertCanAttach(user: AuthUser, refs: FileRef[], target?: ResourceRef): Promise<void> {
+        if (refs.length === 0) {
+            return;
+        }
+
+        const records = await StoredFile.find({ fileId: { $in: refs.map((ref) => ref.fileId) } });
+
+        const quarantined = records.filter((record) => record.status === 'quarantined');
+        if (quarantined.length > 0) {
+            throw new AppError(422, `Quarantined files cannot be attached: ${quarantined.map((record) => record.fileId).join(', ')}`);
+        }
+
+        const pending = records.filter((record) => record.status === 'pending' || record.status === 'processing');
+        if (pending.length > 0) {
+            throw new AppError(409, `Uploads have not completed: ${pending.map((record) => record.fileId).join(', ')}`);
+        }
+
+        const foreign = records.filter(
+            (record) =>
+                user.role !== 'admin' &&
+                record.uploadedBy !== user.userId &&
+                !record.references.some(
+                    (ref) => ref.resource === target?.resource && ref.resourceId === target?.resourceId
+                )
+        );
+
+        if (foreign.length > 0) {
+            throw new AppError(403, `Files uploaded by another user cannot be attached: ${foreign.map((record) => record.fileId).join(', ')}`);
+        }
+    }
+
+    /**
+     * Replace the references a batch or inspection holds with the files it
+     * lists now. Files it no longer lists start their orphan grace period
+     * unless something else, such as a certificate, still references them.
+     */
+    static async syncReferences(target: ResourceRef, refs: FileRef[]): Promise<void> {
+        const now = new Date();
+        const owner = { resource: target.resource, resourceId: target.resourceId };
+
+        const previous = await StoredFile.find({ references: { $elemMatch: owner } }).select('fileId');
+        if (previous.length > 0) {
+            await StoredFile.updateMany(
+                { fileId: { $in: previous.map((record) => record.fileId) } },
+                { $pull: { references: owner } }
+            );
+        }
+
+        const fieldsByFile = new Map<string, Set<FileRef['field']>>();
+        for (const ref of refs) {
+            fieldsByFile.set(ref.fileId, (fieldsByFile.get(ref.fileId) || new Set()).add(ref.field));
+        }
+
+        for (const [fileId, fields] of fieldsByFile) {
+            await StoredFile.updateOne(
+                { fileId },
+                {
+                    $push: { references: { $each: [...fields].map((field) => ({ ...owner, field })) } },
+                    $unset: { unreferencedSince: 1 },
+                }
+            );
+        }
+
+        const released = previous.map((record) => record.fileId).filter((fileId) => !fieldsByFile.has(fileId));
+        if (released.length > 0) {
+            await StoredFile.updateMany(
+                { fileId: { $in: released }, references: { $size: 0 }, unreferencedSince: { $exists: false } },
+                { $set: { unreferencedSince: now } }
+            );
+        }
+    }
+
+    /**
+     * Hash a stored file registered without one, such as files from before
+     * the registry existed
+     */
+    static async ensureHashed(record: IStoredFileDocument): Promise<IStoredFileDocument> {
+        if (record.sha256 || record.status !== 'stored') {
+            return record;
+        }
+
+        const driver = StorageService.getDriver();
+        const object = await driver.head(record.key);
+        if (!object) {
+            return record;
+        }
+
+        const hash = crypto.createHash('sha256');
+        for await (const chunk of await driver.read(record.key)) {
+            hash.update(chunk as Buffer);
+        }
+
+        record.sha256 = hash.digest('hex');
+        record.size = object.size;
+        record.uploadedAt = record.uploadedAt || object.lastModified || new Date();
+        await record.save();
+
+        return record;
+    }
+
+    /**
+     * SHA-256 digests of the files a certificate is based on
+     */
+    static async evidenceFor(refs: FileRef[]): Promise<EvidenceDigest[]> {
+        if (refs.length === 0) {
+            return [];
+        }
+
+        const records = await StoredFile.find({ fileId: { $in: refs.map((ref) => ref.fileId) } });
+        const hashed = await Promise.all(records.map((record) => FileRegistryService.ensureHashed(record)));
+
+        return buildEvidence(refs, hashed);
+    }
+
+    /**
+     * Keep the files behind a certificate's evidence digests for as long as
+     * the certificate exists, whatever later happens to its batch or
+     * inspection. Pinned files are never swept or deleted.
+     */
+    static async pinEvidence(certificateId: string, refs: FileRef[]): Promise<void> {
+        for (const ref of refs) {
+            await StoredFile.updateOne(
+                { fileId: ref.fileId },
+                {
+                    $addToSet: { references: { resource: 'certificate', resourceId: certificateId, field: ref.field } },
+                    $unset: { unreferencedSince: 1 },
+                }
+            );
+        }
+    }
+
+    static async forget(fileId: string): Promise<void> {
+        await StoredFile.deleteOne({ fileId });
+    }
+
+    /**
+     * Delete files that nothing has referenced for the grace period, including
+     * upload URLs that were issued but never used. Quarantined files are kept
+     * for an admin to review.
+     */
+    static async sweepOrphans(now = new Date()): Promise<number> {
+        const cutoff = new Date(now.getTime() - config.files.orphanGraceHours * 60 * 60 * 1000);
+        const orphans = await StoredFile.find({
+            unreferencedSince: { $lte: cutoff },
+            references: { $size: 0 },
+            status: { $ne: 'quarantined' },
+        }).limit(SWEEP_BATCH_SIZE);
+
+        const driver = StorageService.getDriver();
+        let deleted = 0;
+
+        for (const orphan of orphans) {
+            // Claim the record first; a file referenced in the meantime is kept
+            const claimed = await StoredFile.deleteOne({ _id: orphan._id, references: { $size: 0 } });
+            if (claimed.deletedCount === 0) {
+                continue;
+            }
+
+            try {
+                await driver.delete(orphan.key);
+                if (orphan.thumbnailKey) {
+                    await driver.delete(orphan.thumbnailKey);
+                }
+                deleted++;
+            } catch (error) {
+                console.error(`[FileSweeper] Failed to delete ${orphan.key}:`, error);
+            }
+        }
+
+        return deleted;
+    }
+}
+
+/**
+ * Periodic removal of unreferenced uploads, run by the API server
+ */
+class FileSweeper {
+    private timer: NodeJS.Timeout | null = null;
+
+    start(): void {
+        if (this.timer) {
+            return;
+        }
+
+        this.timer = setInterval(() => {
+            FileRegistryService.sweepOrphans()
+                .then((deleted) => {
+                    if (deleted > 0) {
+                        console.log(`[FileSweeper] Deleted ${deleted} unreferenced file(s)`);
+                    }
+                })
+                .catch((error) => console.error('[FileSweeper] Sweep failed:', error));
+        }, config.files.sweepIntervalMs);
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+}
+
+export const fileSweeper = new FileSweeper();
@@ -2,6 +2,7 @@ import axios, { AxiosInstance, AxiosError } from 'axios';
 import crypto from 'crypto';
 import { nanoid } from 'nanoid';
 import config from '../config/config.js';
+import { localIssuer } from './localIssuer.service.js';
 
 export interface VCPayload {
   credentialSubject: Record<string, any>;
@@ -9,6 +10,7 @@ export interface VCPayload {
   type?: string[];
   '@context'?: string[];
   expirationDate?: string;
+  credentialStatus?: Record<string, any>;
   [key: string]: any;
 }
 
@@ -74,7 +76,7 @@ class InjiClient {
 
     this.httpClient = axios.create({
       baseURL: config.features.inji.apiUrl,
-      timeout: 30000,
+      timeout: config.features.inji.timeoutMs,
       headers: {
         'Content-Type': 'application/json',
         ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
@@ -118,16 +120,19 @@ class InjiClient {
 
     try {
       const response = await this._retryOperation(async () => {
-        return await this.httpClient.post('/v1/credentials/issue', {
+        const response = await this.httpClient.post('/v1/credentials/issue', {
           credential: {
             '@context': payload['@context'] || ['https://www.w3.org/2018/credentials/v1'],
             type: payload.type || ['VerifiableCredential', 'AgricultureQualityCertificate'],
             issuer: payload.issuer || this.issuerDid,
             issuanceDate: new Date().toISOString(),
             expirationDate: payload.expirationDate,
+            credentialStatus: payload.credentialStatus,
             credentialSubject: payload.credentialSubject,
           },
         });
+        this._assertResponse(response.data?.id && response.data?.credential, 'issue', response.data);
+        return response;
       });
 
       return {
@@ -151,10 +156,12 @@ class InjiClient {
 
     try {
       const response = await this._retryOperation(async () => {
-        return await this.httpClient.post('/v1/credentials/verify', {
+        const response = await this.httpClient.post('/v1/credentials/verify', {
           credential: request.vcJson,
           credentialUrl: request.vcUrl,
         });
+        this._assertResponse(typeof response.data?.valid === 'boolean', 'verify', response.data);
+        return response;
       });
 
       const result = response.data;
@@ -184,7 +191,9 @@ class InjiClient {
 
     try {
       const response = await this._retryOperation(async () => {
-        return await this.httpClient.get(`/v1/credentials/${vcId}`);
+        const response = await this.httpClient.get(`/v1/credentials/${vcId}`);
+        this._assertResponse(response.data?.credential, 'get', response.data);
+        return response;
       });
 
       return response.data.credential;
@@ -265,6 +274,16 @@ class InjiClient {
     }
   }
 
+  /**
+   * Reject responses that are not the JSON shape we expect (e.g. truncated bodies,
+   * which axios passes through as strings)
+   */
+  private _assertResponse(condition: unknown, operation: string, data: unknown): void {
+    if (!condition) {
+      throw new InjiClientError(`Malformed ${operation} response from Inji API`, 502, data);
+    }
+  }
+
   /**
    * Retry operation with exponential backoff
    */
@@ -291,28 +310,28 @@ class InjiClient {
     throw lastError!;
   }
 
-  // Mock implementations for development/testing
-  private _mockIssueVC(payload: VCPayload): IssueVCResponse {
+  // Mock implementations for development/testing.
+  // Issued credentials are signed by the local Ed25519 issuer so they verify offline.
+  private async _mockIssueVC(payload: VCPayload): Promise<IssueVCResponse> {
+    if (!payload.credentialSubject) {
+      throw new InjiClientError('credentialSubject is required', 400);
+    }
+
     const vcId = `vc_mock_${nanoid()}`;
-    const vcJson = {
+    const vcJson = await localIssuer.signCredential({
       '@context': payload['@context'] || ['https://www.w3.org/2018/credentials/v1'],
       type: payload.type || ['VerifiableCredential', 'AgricultureQualityCertificate'],
       id: `https://api.agriqcert.com/credentials/${vcId}`,
-      issuer: payload.issuer || this.issuerDid,
+      // An organization's own DID is signed for locally too; otherwise the local issuer's
+      issuer: payload.issuer && payload.issuer !== config.features.inji.issuerDid ? payload.issuer : localIssuer.did,
       issuanceDate: new Date().toISOString(),
       expirationDate: payload.expirationDate,
+      credentialStatus: payload.credentialStatus,
       credentialSubject: {
         ...payload.credentialSubject,
         id: payload.credentialSubject.id || `did:example:${nanoid()}`,
       },
-      proof: {
-        type: 'Ed25519Signature2020',
-        created: new Date().toISOString(),
-        verificationMethod: `${this.issuerDid}#key-1`,
-        proofPurpose: 'assertionMethod',
-        proofValue: 'mock_signature_' + nanoid(),
-      },
-    };
+    });
 
     console.log(`[InjiClient] Mock issued VC: ${vcId}`);
 
@@ -1,14 +1,26 @@
+import type { FilterQuery } from 'mongoose';
 import { Inspection } from '../models/inspection.model.js';
+import type { IInspectionDocument } from '../models/inspection.model.js';
 import { Batch } from '../models/batch.model.js';
-import { AuditLog } from '../models/auditLog.model.js';
-import { Notification } from '../models/notification.model.js';
+import { AuditLogService } from './auditLog.service.js';
 import { AppError } from '../middleware/errorHandler.middleware.js';
-import { PaginatedResponse, UserRole } from '../types/index.js';
+import { IBatch, IFileMetadata, IGeofenceCheck, IGeospatialData, IInspectionOutcome, IInspectionReading, IStandardSnapshot, PaginatedResponse, UserRole } from '../types/index.js';
+import config from '../config/config.js';
+import { evaluateInspection } from '../utils/qualityEvaluation.util.js';
+import { QualityStandardService } from './qualityStandard.service.js';
+import { NotificationService } from './notification.service.js';
+import { AssignmentService } from './assignment.service.js';
+import { FileRegistryService } from './fileRegistry.service.js';
+import { emitBatchStatus, emitInspectionCompleted } from '../socket/events.js';
+import { inOrganizationScope, organizationFilter } from '../utils/organizationScope.util.js';
+import { inspectionFileRefs } from '../utils/fileEvidence.util.js';
+import { checkGeofence, describeGeofence } from '../utils/geofence.util.js';
 
 interface AuthUser {
     userId: string;
     name: string;
     role: UserRole;
+    organizationId?: string;
 }
 
 interface CreateInspectionInput {
@@ -58,7 +70,12 @@ interface CompleteInspectionInput {
 
 interface SaveDraftInput {
     id: string;
-    draftData: any;
+    draftData: {
+        readings?: IInspectionReading[];
+        notes?: string;
+        photos?: IFileMetadata[];
+        labReports?: IFileMetadata[];
+    };
     user: AuthUser;
 }
 
@@ -66,6 +83,33 @@ interface GetValidationRulesInput {
     batchId: string;
 }
 
+const changesFiles = (data: { photos?: unknown; labReports?: unknown }) => data.photos !== undefined || data.labReports !== undefined;
+
+// Device location as sent by the client
+interface GeolocationInput {
+    latitude: number;
+    longitude: number;
+    accuracy: number;
+    timestamp: string | Date;
+}
+
+const toGeospatialData = (geolocation: GeolocationInput, previous?: Partial<IGeospatialData>): IGeospatialData => ({
+    isoCode: previous?.isoCode || 'US',
+    region: previous?.region || 'California',
+    latitude: geolocation.latitude,
+    longitude: geolocation.longitude,
+    accuracy: geolocation.accuracy,
+    timestamp: new Date(geolocation.timestamp),
+});
+
+interface GeofenceAudit {
+    inspectionId: string;
+    batchId: string;
+    user: AuthUser;
+    ipAddress?: string;
+    userAgent?: string | null;
+}
+
 export class InspectionService {
     static async createInspection(
         input: CreateInspectionInput
@@ -80,10 +124,18 @@ export class InspectionService {
             throw new AppError(404, 'Batch not found');
         }
 
+        if (!inOrganizationScope(user, batch.organizationId)) {
+            throw new AppError(403, 'Batch is submitted to another organization');
+        }
+
         if (batch.status !== 'submitted') {
             throw new AppError(400, 'Batch must be submitted before inspection can begin');
         }
 
+        if (user.role === 'qa_inspector') {
+            await AssignmentService.assertCanInspect(batchId, user);
+        }
+
         const existingInspection = await Inspection.findOne({
             batchId,
             status: { $in: ['pending', 'in_progress'] },
@@ -95,28 +147,52 @@ export class InspectionService {
             return { inspection: existingInspection, alreadyExists: true };
         }
 
+        const standard = await QualityStandardService.getEffectiveStandard(batch.productType);
+
+        await FileRegistryService.assertCanAttach(user, inspectionFileRefs(inspectionData));
+
+        const geospatialData = inspectionData.geolocation ? toGeospatialData(inspectionData.geolocation) : undefined;
+        const geofence = InspectionService.checkLocation(batch.location, geospatialData);
+        InspectionService.assertOnSite(geofence);
+
         const inspection = await Inspection.create({
             ...inspectionData,
             batchId,
+            organizationId: batch.organizationId,
+            validationRules: QualityStandardService.toSnapshot(standard),
             inspectorId: user.userId,
             inspectorName: user.name,
             status: 'in_progress',
             startedAt: new Date(),
-            geospatialData: inspectionData.geolocation
-                ? {
-                    latitude: inspectionData.geolocation.latitude,
-                    longitude: inspectionData.geolocation.longitude,
-                    accuracy: inspectionData.geolocation.accuracy,
-                    timestamp: new Date(inspectionData.geolocation.timestamp),
-                    isoCode: 'US',
-                    region: 'California',
-                }
-                : undefined,
+            geospatialData,
+            geofence,
+        });
+
+        await InspectionService.recordGeofenceFlag(geofence, {
+            inspectionId: inspection.id,
+            batchId,
+            user,
+            ipAddress,
+            userAgent,
         });
 
+        await FileRegistryService.syncReferences(
+            { resource: 'inspection', resourceId: inspection.id },
+            inspectionFileRefs(inspection)
+        );
+
         await Batch.findByIdAndUpdate(batchId, { status: 'inspecting' });
 
-        await Notification.create({
+        emitBatchStatus({
+            batchId,
+            organizationId: batch.organizationId,
+            farmerId: batch.farmerId,
+            productName: batch.productName,
+            status: 'inspecting',
+            previousStatus: batch.status,
+        });
+
+        await NotificationService.createNotification({
             userId: batch.farmerId,
             type: 'inspection_complete',
             title: 'Inspection Started',
@@ -124,7 +200,7 @@ export class InspectionService {
             actionUrl: `/batches/${batchId}`,
         });
 
-        await AuditLog.create({
+        await AuditLogService.record({
             userId: user.userId,
             userName: user.name,
             action: 'INSPECTION_CREATED',
@@ -144,7 +220,7 @@ export class InspectionService {
     ): Promise<PaginatedResponse<any>> {
         const { user, page = 1, limit = 10, status, batchId, inspectorId } = input;
 
-        const filter: any = {};
+        const filter: FilterQuery<IInspectionDocument> = organizationFilter(user);
 
         if (user.role === 'qa_inspector') {
             filter.inspectorId = user.userId;
@@ -193,7 +269,7 @@ export class InspectionService {
             (user.role === 'farmer' && (inspection as any).batchId?.farmerId === user.userId) ||
             ['certifier', 'verifier'].includes(user.role);
 
-        if (!canAccess) {
+        if (!canAccess || !inOrganizationScope(user, inspection.organizationId)) {
             throw new AppError(403, 'Not authorized to view this inspection');
         }
 
@@ -216,17 +292,56 @@ export class InspectionService {
             throw new AppError(400, 'Cannot update completed inspection');
         }
 
+        // Completion goes through completeInspection, which evaluates the readings
+        delete updateData.status;
         if (inspection.status === 'pending') {
             updateData.status = 'in_progress';
         }
 
+        if (changesFiles(updateData)) {
+            await FileRegistryService.assertCanAttach(user, inspectionFileRefs(updateData), {
+                resource: 'inspection',
+                resourceId: id,
+            });
+        }
+
+        // A new device location is checked against the farm again
+        delete updateData.geospatialData;
+        delete updateData.geofence;
+        let geofence: IGeofenceCheck | undefined;
+        if (updateData.geolocation) {
+            const batch = await Batch.findById(inspection.batchId);
+            updateData.geospatialData = toGeospatialData(updateData.geolocation, inspection.toObject().geospatialData);
+            geofence = InspectionService.checkLocation(batch?.location, updateData.geospatialData);
+            InspectionService.assertOnSite(geofence);
+            updateData.geofence = geofence;
+        }
+        delete updateData.geolocation;
+
         const updatedInspection = await Inspection.findByIdAndUpdate(
             id,
             { ...updateData, updatedAt: new Date() },
             { new: true, runValidators: true }
         ).populate('batchId', 'productName productType farmerName');
 
-        await AuditLog.create({
+        if (updatedInspection && changesFiles(updateData)) {
+            await FileRegistryService.syncReferences(
+                { resource: 'inspection', resourceId: id },
+                inspectionFileRefs(updatedInspection)
+            );
+        }
+
+        if (geofence) {
+            await InspectionService.recordGeofenceFlag(geofence, {
+                inspectionId: id,
+                batchId: inspection.batchId,
+                user,
+                ipAddress,
+                userAgent,
+            });
+        }
+
+        await AuditLogService.record({
             userId: user.userId,
             userName: user.name,
             action: 'INSPECTION_UPDATED',
@@ -258,39 +373,122 @@ export class InspectionService {
             throw new AppError(400, 'Inspection already completed');
         }
 
-        const inspectionPassed =
-            overallResult === 'pass' || passed === true;
+        const batch = await Batch.findById(inspection.batchId);
+        const stored = inspection.toObject();
+
+        // Evaluate against the standard version snapshotted when the inspection started
+        let standard = stored.validationRules as IStandardSnapshot | undefined;
+        if (!standard?.parameters) {
+            if (!batch) {
+                throw new AppError(404, 'Batch not found');
+            }
+            standard = QualityStandardService.toSnapshot(
+                await QualityStandardService.getEffectiveStandard(batch.productType)
+            );
+        }
+        const productType = standard.productType;
+
+        // Inspections started before the check existed are checked now
+        const geofence =
+            (stored.geofence as IGeofenceCheck | undefined) ||
+            InspectionService.checkLocation(batch?.location, stored.geospatialData);
+        InspectionService.assertOnSite(geofence);
+
+        const evaluation = evaluateInspection({
+            readings: readings || stored.readings,
+            qualityReadings: { ...stored.qualityReadings, isOrganic: InspectionService.isOrganicBatch(batch) },
+            photos: stored.photos,
+            standard,
+        });
+
+        // The client may downgrade a computed pass, but never upgrade a computed fail
+        const requestedClassification: IInspectionOutcome['classification'] | undefined =
+            outcome?.classification ||
+            (overallResult === 'pass' || passed === true
+                ? 'pass'
+                : overallResult === 'fail' || passed === false
+                    ? 'fail'
+                    : undefined);
+
+        const failedChecks = evaluation.checks.filter((check) => check.status === 'fail');
+
+        if (
+            evaluation.classification === 'fail' &&
+            (requestedClassification === 'pass' || requestedClassification === 'conditional_pass')
+        ) {
+            await AuditLogService.record({
+                userId: user.userId,
+                userName: user.name,
+                action: 'INSPECTION_OVERRIDE_REJECTED',
+                resource: 'inspection',
+                resourceId: id,
+                details: {
+                    batchId: inspection.batchId,
+                    requestedClassification,
+                    failedChecks: failedChecks.map((check) => check.parameter),
+                },
+                ipAddress,
+                userAgent: userAgent ?? undefined,
+                timestamp: new Date(),
+            });
+
+            throw new AppError(
+                400,
+                `Inspection does not meet the ${productType} standard and cannot be marked as ${requestedClassification}: ` +
+                failedChecks.map((check) => `${check.parameter} (${check.reason})`).join('; ')
+            );
+        }
+
+        const classification =
+            evaluation.classification === 'fail' ? 'fail' : requestedClassification || 'pass';
+        const inspectionPassed = classification === 'pass';
+
+        const reasoning =
+            evaluation.classification === 'fail'
+                ? `Failed checks: ${failedChecks.map((check) => `${check.parameter}: ${check.reason}`).join('; ')}`
+                : classification === 'pass'
+                    ? 'All quality parameters meet required standards'
+                    : `Classified as ${classification} by the inspector`;
 
         const updatedInspection = await Inspection.findByIdAndUpdate(
             id,
             {
                 status: 'completed',
-                overallResult: overallResult || (inspectionPassed ? 'pass' : 'fail'),
-                outcome:
-                    outcome || {
-                        classification: inspectionPassed ? 'pass' : 'fail',
-                        reasoning: inspectionPassed
-                            ? 'All quality parameters meet required standards'
-                            : 'One or more parameters failed',
-                        followUpRequired: !inspectionPassed,
-                        complianceNotes: comments || notes || '',
-                    },
+                overallResult: inspectionPassed ? 'pass' : 'fail',
+                outcome: {
+                    classification,
+                    reasoning: reasoning.slice(0, 2000),
+                    inspectorReasoning: outcome?.reasoning,
+                    recommendations: outcome?.recommendations || [],
+                    followUpRequired: outcome?.followUpRequired ?? !inspectionPassed,
+                    complianceNotes: outcome?.complianceNotes || comments || notes || '',
+                },
+                validationRules: standard,
+                evaluation: {
+                    classification: evaluation.classification,
+                    productType,
+                    standardId: standard.standardId,
+                    standardVersion: standard.version,
+                    checks: evaluation.checks,
+                    requestedClassification,
+                    evaluatedAt: new Date(),
+                    evaluatedBy: user.userId,
+                },
+                geofence,
                 notes: notes || comments,
-                readings: readings || inspection.readings,
+                readings: evaluation.readings,
                 completedAt: new Date(),
             },
             { new: true, runValidators: true }
         );
 
-        const newBatchStatus = inspectionPassed ? 'approved' : 'rejected';
-        const batch = await Batch.findByIdAndUpdate(
-            inspection.batchId,
-            { status: newBatchStatus },
-            { new: true }
-        );
+        await AssignmentService.markCompleted(inspection.batchId, id);
 
+        const newBatchStatus = inspectionPassed ? 'approved' : 'rejected';
         if (batch) {
-            await Notification.create({
+            await Batch.findByIdAndUpdate(batch._id, { status: newBatchStatus });
+
+            await NotificationService.createNotification({
                 userId: batch.farmerId,
                 type: inspectionPassed ? 'batch_approved' : 'batch_rejected',
                 title: `Inspection ${inspectionPassed ? 'Approved' : 'Rejected'}`,
@@ -300,7 +498,7 @@ export class InspectionService {
             });
 
             if (inspectionPassed) {
-                await Notification.create({
+                await NotificationService.createNotification({
                     userId: 'system',
                     type: 'action_required',
                     title: 'Batch Ready for Certification',
@@ -308,15 +506,38 @@ export class InspectionService {
                     actionUrl: `/batches/${batch._id}`,
                 });
             }
+
+            emitBatchStatus({
+                batchId: batch._id.toString(),
+                organizationId: batch.organizationId,
+                farmerId: batch.farmerId,
+                productName: batch.productName,
+                status: newBatchStatus,
+                previousStatus: batch.status,
+            });
+            emitInspectionCompleted({
+                inspectionId: id,
+                batchId: batch._id.toString(),
+                organizationId: batch.organizationId,
+                farmerId: batch.farmerId,
+                inspectorId: inspection.inspectorId,
+                classification,
+            });
         }
 
-        await AuditLog.create({
+        await AuditLogService.record({
             userId: user.userId,
             userName: user.name,
             action: 'INSPECTION_COMPLETED',
             resource: 'inspection',
             resourceId: id,
-            details: { passed, batchId: inspection.batchId },
+            details: {
+                batchId: inspection.batchId,
+                classification,
+                evaluatedClassification: evaluation.classification,
+                failedChecks: failedChecks.map((check) => check.parameter),
+                geofence: geofence.status,
+            },
             ipAddress,
             userAgent: userAgent ?? undefined,
             timestamp: new Date(),
@@ -346,24 +567,103 @@ export class InspectionService {
             throw new AppError(400, 'Cannot save draft for completed inspection');
         }
 
-        if (inspection.status === 'pending') {
-            draftData.status = 'in_progress';
-        }
+        // Only the fields a draft may change are copied; the rest are server-owned
+        const { readings, notes, photos, labReports } = draftData;
+        const draftSavedAt = new Date();
+        const update = {
+            ...(readings !== undefined && { readings }),
+            ...(notes !== undefined && { notes }),
+            ...(photos !== undefined && { photos }),
+            ...(labReports !== undefined && { labReports }),
+            ...(inspection.status === 'pending' && { status: 'in_progress' }),
+            draftSavedAt,
+        };
 
-        draftData.draftSavedAt = new Date();
+        if (changesFiles(draftData)) {
+            await FileRegistryService.assertCanAttach(user, inspectionFileRefs(draftData), {
+                resource: 'inspection',
+                resourceId: id,
+            });
+        }
 
         const updatedInspection = await Inspection.findByIdAndUpdate(
             id,
-            draftData,
+            update,
             { new: true, runValidators: true }
         );
 
+        if (updatedInspection && changesFiles(draftData)) {
+            await FileRegistryService.syncReferences(
+                { resource: 'inspection', resourceId: id },
+                inspectionFileRefs(updatedInspection)
+            );
+        }
+
         return {
             inspection: updatedInspection,
-            savedAt: draftData.draftSavedAt,
+            savedAt: draftSavedAt,
         };
     }
 
+    /**
+     * Organic status is declared in the batch's certification standards
+     */
+    private static isOrganicBatch(batch: Pick<IBatch, 'metadata'> | null): boolean {
+        const standards = batch?.metadata?.certificationStandards;
+        return Array.isArray(standards) && standards.includes('organic');
+    }
+
+    /**
+     * Distance between the inspector's device and the batch's farm location
+     */
+    private static checkLocation(
+        site: { latitude: number; longitude: number } | undefined,
+        geospatialData: IGeospatialData | undefined
+    ): IGeofenceCheck {
+        const { maxAccuracyMeters, geofenceRadiusMeters } = config.features.geolocation;
+        return checkGeofence({
+            device: geospatialData,
+            site,
+            radiusMeters: geofenceRadiusMeters,
+            maxAccuracyMeters,
+        });
+    }
+
+    /**
+     * With GEOFENCE_MODE=reject, an inspection not shown to be on the farm
+     * is refused; otherwise it is only flagged
+     */
+    private static assertOnSite(geofence: IGeofenceCheck): void {
+        if (config.features.geolocation.geofenceMode === 'reject' && geofence.status !== 'within') {
+            throw new AppError(422, `Inspection must be recorded on the farm: ${describeGeofence(geofence)}`);
+        }
+    }
+
+    private static async recordGeofenceFlag(geofence: IGeofenceCheck, audit: GeofenceAudit): Promise<void> {
+        if (geofence.status === 'within') {
+            return;
+        }
+
+        await AuditLogService.record({
+            userId: audit.user.userId,
+            userName: audit.user.name,
+            action: 'INSPECTION_GEOFENCE_FLAGGED',
+            resource: 'inspection',
+            resourceId: audit.inspectionId,
+            details: {
+                batchId: audit.batchId,
+                status: geofence.status,
+                distanceMeters: geofence.distanceMeters,
+                accuracyMeters: geofence.accuracyMeters,
+                radiusMeters: geofence.radiusMeters,
+                reason: describeGeofence(geofence),
+            },
+            ipAddress: audit.ipAddress,
+            userAgent: audit.userAgent ?? undefined,
+            timestamp: new Date(),
+        });
+    }
+
     static async getValidationRules(input: GetValidationRulesInput) {
         const { batchId } = input;
 
@@ -372,52 +672,14 @@ export class InspectionService {
             throw new AppError(404, 'Batch not found');
         }
 
-        const rules = {
-            grains: {
-                maxMoisturePercent: 14,
-                maxPesticidePPM: 0.1,
-                requiresOrganic: false,
-                temperatureRange: { min: 10, max: 25 },
-                requiredPhotos: ['sample', 'storage_conditions'],
-                requiredReadings: ['moisture', 'temperature', 'visual_inspection'],
-            },
-            fruits: {
-                maxMoisturePercent: 85,
-                maxPesticidePPM: 0.05,
-                requiresOrganic: true,
-                temperatureRange: { min: 2, max: 8 },
-                requiredPhotos: ['fruit_quality', 'packaging'],
-                requiredReadings: ['brix', 'firmness', 'color', 'visual_inspection'],
-            },
-            vegetables: {
-                maxMoisturePercent: 90,
-                maxPesticidePPM: 0.1,
-                requiresOrganic: false,
-                temperatureRange: { min: 0, max: 10 },
-                requiredPhotos: ['vegetable_quality', 'freshness'],
-                requiredReadings: ['freshness', 'size', 'visual_inspection'],
-            },
-            organic: {
-                maxMoisturePercent: 15,
-                maxPesticidePPM: 0,
-                requiresOrganic: true,
-                temperatureRange: { min: 10, max: 20 },
-                requiredPhotos: ['organic_certification', 'sample'],
-                requiredReadings: ['organic_verification', 'visual_inspection'],
-            },
-        } as const;
-
-        const productTypeRules =
-            rules[(batch as any).productType as keyof typeof rules] || rules.grains;
+        const standard = await QualityStandardService.getEffectiveStandard(batch.productType);
 
         return {
-            rules: productTypeRules,
+            rules: QualityStandardService.toSnapshot(standard),
             batchInfo: {
-                productType: (batch as any).productType,
-                productName: (batch as any).productName,
-                isOrganic: Array.isArray((batch as any).metadata?.certificationStandards)
-                    ? (batch as any).metadata.certificationStandards.includes('organic')
-                    : false,
+                productType: batch.productType,
+                productName: batch.productName,
+                isOrganic: InspectionService.isOrganicBatch(batch),
             },
         };
     }
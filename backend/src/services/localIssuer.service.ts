@@ -0,0 +1,200 @@
+import crypto, { KeyObject } from 'crypto';
+import config from '../config/config.js';
+import { canonicalize } from '../utils/jcs.util.js';
+import { toMultibase, fromMultibase } from '../utils/multibase.util.js';
+import { didService } from './did.service.js';
+import type { SigningKey } from './did.service.js';
+
+export const PROOF_TYPE = 'DataIntegrityProof';
+// Ed25519 over the JCS (RFC 8785) form of the proof options and the document
+export const CRYPTOSUITE = 'eddsa-jcs-2022';
+// Proofs issued before the cryptosuite was named; the signed data is the same
+const LEGACY_PROOF_TYPE = 'Ed25519Signature2020';
+
+const CREDENTIALS_V1_CONTEXT = 'https://www.w3.org/2018/credentials/v1';
+const DATA_INTEGRITY_CONTEXT = 'https://w3id.org/security/data-integrity/v2';
+
+export interface CredentialProof {
+  type: string;
+  cryptosuite?: string;
+  created: string;
+  verificationMethod: string;
+  proofPurpose: string;
+  proofValue?: string;
+  [key: string]: any;
+}
+
+export interface SignatureCheck {
+  valid: boolean;
+  verificationMethod?: string;
+  reason?: string;
+}
+
+/**
+ * Where the issuer gets its signing key and resolves verification methods from
+ */
+export interface IssuerKeySource {
+  getSigningKey(did: string): Promise<SigningKey>;
+  resolveVerificationMethod(verificationMethod: string, at?: Date): Promise<KeyObject | null>;
+}
+
+interface LocalIssuerOptions {
+  did?: string;
+  keySource?: IssuerKeySource;
+  verificationMethod?: string;
+  privateKey?: KeyObject;
+}
+
+/**
+ * Key source backed by a single in-memory key
+ */
+const staticKeySource = (verificationMethod: string, privateKey: KeyObject): IssuerKeySource => {
+  if (privateKey.asymmetricKeyType !== 'ed25519') {
+    throw new Error('Issuer signing key must be an Ed25519 key');
+  }
+  const publicKey = crypto.createPublicKey(privateKey);
+
+  return {
+    getSigningKey: async () => ({ verificationMethod, privateKey }),
+    resolveVerificationMethod: async (vm) => (vm === verificationMethod ? publicKey : null),
+  };
+};
+
+/**
+ * VC 1.1 credentials need the Data Integrity context for the proof terms;
+ * VC 2.0 includes them
+ */
+const withDataIntegrityContext = (context: unknown): unknown =>
+  Array.isArray(context) && context.includes(CREDENTIALS_V1_CONTEXT) && !context.includes(DATA_INTEGRITY_CONTEXT)
+    ? [...context, DATA_INTEGRITY_CONTEXT]
+    : context;
+
+/**
+ * Hash input for a Data Integrity proof: sha256(proof options) || sha256(document)
+ */
+const proofHashData = (credential: Record<string, any>, proofOptions: Record<string, any>): Buffer => {
+  const proofHash = crypto.createHash('sha256').update(canonicalize(proofOptions)).digest();
+  const documentHash = crypto.createHash('sha256').update(canonicalize(credential)).digest();
+  return Buffer.concat([proofHash, documentHash]);
+};
+
+export class LocalIssuer {
+  readonly did: string;
+  private keySource: IssuerKeySource;
+
+  constructor(options: LocalIssuerOptions = {}) {
+    this.did = options.did || config.features.vc.issuerDid;
+    this.keySource = options.privateKey
+      ? staticKeySource(options.verificationMethod || `${this.did}#key-1`, options.privateKey)
+      : options.keySource || didService;
+  }
+
+  /**
+   * Sign a credential, returning a copy with an eddsa-jcs-2022 Data Integrity proof.
+   * The credential is normalized to plain JSON first so that the signed form
+   * is exactly what gets stored and serialized. The signing key is the
+   * active key of the credential's issuer DID.
+   */
+  async signCredential(credential: Record<string, any>): Promise<Record<string, any>> {
+    const unsigned = JSON.parse(JSON.stringify(credential));
+    delete unsigned.proof;
+    if (unsigned['@context'] !== undefined) {
+      unsigned['@context'] = withDataIntegrityContext(unsigned['@context']);
+    }
+
+    const issuerId = typeof unsigned.issuer === 'object' ? unsigned.issuer?.id : unsigned.issuer;
+    const { verificationMethod, privateKey } = await this.keySource.getSigningKey(issuerId || this.did);
+
+    const proofOptions: CredentialProof = {
+      type: PROOF_TYPE,
+      cryptosuite: CRYPTOSUITE,
+      created: new Date().toISOString(),
+      verificationMethod,
+      proofPurpose: 'assertionMethod',
+      // The proof configuration carries the document's context (eddsa-jcs-2022)
+      ...(unsigned['@context'] !== undefined && { '@context': unsigned['@context'] }),
+    };
+
+    const signature = crypto.sign(null, proofHashData(unsigned, proofOptions), privateKey);
+
+    return {
+      ...unsigned,
+      proof: {
+        ...proofOptions,
+        proofValue: toMultibase(signature),
+      },
+    };
+  }
+
+  /**
+   * Verify a credential's eddsa-jcs-2022 Data Integrity proof, or a proof
+   * issued before the cryptosuite was named (labelled Ed25519Signature2020).
+   * The key is resolved from the issuer's DID document and must have been
+   * valid when the proof was created.
+   */
+  async verifyCredential(credential: Record<string, any>): Promise<SignatureCheck> {
+    const { proof, ...unsigned } = credential;
+
+    if (!proof || typeof proof !== 'object') {
+      return { valid: false, reason: 'Missing proof' };
+    }
+
+    const { proofValue, ...proofOptions } = proof as CredentialProof;
+
+    if (proofOptions.type === PROOF_TYPE) {
+      if (proofOptions.cryptosuite !== CRYPTOSUITE) {
+        return { valid: false, reason: `Unsupported cryptosuite: ${proofOptions.cryptosuite}` };
+      }
+      if (
+        proofOptions['@context'] !== undefined &&
+        (unsigned['@context'] === undefined ||
+          canonicalize(proofOptions['@context']) !== canonicalize(unsigned['@context']))
+      ) {
+        return { valid: false, reason: 'Proof context does not match the credential' };
+      }
+    } else if (proofOptions.type !== LEGACY_PROOF_TYPE) {
+      return { valid: false, reason: `Unsupported proof type: ${proofOptions.type}` };
+    }
+    if (proofOptions.proofPurpose !== 'assertionMethod') {
+      return { valid: false, reason: 'Proof purpose must be assertionMethod' };
+    }
+    if (!proofOptions.verificationMethod || !proofValue) {
+      return { valid: false, reason: 'Proof is missing verificationMethod or proofValue' };
+    }
+
+    const controller = String(proofOptions.verificationMethod).split('#')[0];
+    const issuerId = typeof unsigned.issuer === 'object' ? unsigned.issuer?.id : unsigned.issuer;
+    if (controller !== issuerId) {
+      return { valid: false, reason: 'Verification method is not controlled by the issuer' };
+    }
+
+    const publicKey = await this.keySource.resolveVerificationMethod(
+      proofOptions.verificationMethod,
+      new Date(proofOptions.created)
+    );
+    if (!publicKey) {
+      return { valid: false, reason: `Unknown verification method: ${proofOptions.verificationMethod}` };
+    }
+
+    try {
+      const valid = crypto.verify(
+        null,
+        proofHashData(unsigned, proofOptions),
+        publicKey,
+        fromMultibase(proofValue)
+      );
+      return valid
+        ? { valid: true, verificationMethod: proofOptions.verificationMethod }
+        : { valid: false, reason: 'Signature does not match credential' };
+    } catch (error) {
+      return {
+        valid: false,
+        reason: `Signature check failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+}
+
+// Export singleton instance
+export const localIssuer = new LocalIssuer();
+export default localIssuer;
@@ -0,0 +1,240 @@
+import { User, LoginThrottle } from '../models/index.js';
+import type { IUserDocument } from '../models/index.js';
+import { AuditLogService } from './auditLog.service.js';
+import { NotificationService } from './notification.service.js';
+import { MailService } from './mail.service.js';
+import { AppError } from '../middleware/errorHandler.middleware.js';
+import { ThrottlePolicy, formatWait, secondsUntilAllowed } from '../utils/loginThrottle.util.js';
+import config from '../config/config.js';
+
+interface RequestContext {
+    ipAddress?: string;
+    userAgent?: string | null;
+}
+
+export type LoginFailureReason = 'unknown_account' | 'inactive_account' | 'invalid_password';
+
+const policy = (maxFailures: number): ThrottlePolicy => ({
+    windowMinutes: config.auth.loginProtection.windowMinutes,
+    delayAfterFailures: config.auth.loginProtection.delayAfterFailures,
+    maxDelaySeconds: config.auth.loginProtection.maxDelaySeconds,
+    lockoutMinutes: config.auth.loginProtection.lockoutMinutes,
+    maxFailures,
+});
+
+const accountPolicy = () => policy(config.auth.loginProtection.maxAccountFailures);
+const ipPolicy = () => policy(config.auth.loginProtection.maxIpFailures);
+
+const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000);
+
+/**
+ * Aggregation expression for the next failure count, starting again from 1
+ * when the previous failure is outside the window, so it updates atomically
+ */
+const nextFailureCount = (countField: string, lastFailureField: string, throttle: ThrottlePolicy) => ({
+    $cond: [
+        { $lt: [{ $ifNull: [`$${lastFailureField}`, new Date(0)] }, minutesFromNow(-throttle.windowMinutes)] },
+        1,
+        { $add: [{ $ifNull: [`$${countField}`, 0] }, 1] },
+    ],
+});
+
+const rejectAttempt = (waitSeconds: number, locked: boolean): never => {
+    throw new AppError(
+        429,
+        locked
+            ? `Too many failed sign-in attempts. Try again in ${formatWait(waitSeconds)}.`
+            : `Please wait ${formatWait(waitSeconds)} before trying again.`
+    );
+};
+
+export class LoginProtectionService {
+    /**
+     * Refuse a sign-in attempt, before the password is checked, while the
+     * account or the address is locked or inside its progressive delay
+     */
+    static async assertCanAttempt(user: IUserDocument | null, ipAddress?: string): Promise<void> {
+        if (ipAddress) {
+            const throttle = await LoginThrottle.findOne({ ipAddress });
+            if (throttle) {
+                const wait = secondsUntilAllowed(throttle, ipPolicy());
+                if (wait > 0) {
+                    rejectAttempt(wait, !!throttle.lockedUntil && throttle.lockedUntil > new Date());
+                }
+            }
+        }
+
+        if (user) {
+            const state = {
+                failures: user.failedLoginAttempts,
+                lastFailureAt: user.lastFailedLoginAt,
+                lockedUntil: user.lockedUntil,
+            };
+            const wait = secondsUntilAllowed(state, accountPolicy());
+            if (wait > 0) {
+                rejectAttempt(wait, !!user.lockedUntil && user.lockedUntil > new Date());
+            }
+        }
+    }
+
+    /**
+     * Count a failed sign-in against the address and, if it exists, the
+     * account, locking either one that reaches its limit
+     */
+    static async recordFailure(
+        email: string,
+        user: IUserDocument | null,
+        reason: LoginFailureReason,
+        context: RequestContext
+    ): Promise<void> {
+        const now = new Date();
+        let accountFailures: number | undefined;
+        let ipFailures: number | undefined;
+
+        if (context.ipAddress) {
+            ipFailures = await LoginProtectionService.recordIpFailure(context.ipAddress, now);
+        }
+
+        if (user) {
+            accountFailures = await LoginProtectionService.recordAccountFailure(user, now, context);
+        }
+
+        await AuditLogService.record({
+            userId: user ? user._id.toString() : 'anonymous',
+            userName: user ? user.name : email,
+            action: 'USER_LOGIN_FAILED',
+            resource: 'user',
+            resourceId: user ? user._id.toString() : email,
+            details: {
+                email,
+                reason,
+                role: user?.role,
+                accountFailures,
+                ipFailures,
+            },
+            ipAddress: context.ipAddress,
+            userAgent: context.userAgent ?? undefined,
+            timestamp: now,
+        });
+    }
+
+    /**
+     * Clear the account's failures after a correct password. The address
+     * counter is left to expire, so one valid account cannot reset it.
+     */
+    static async recordSuccess(user: IUserDocument): Promise<void> {
+        if (!user.failedLoginAttempts && !user.lockedUntil) {
+            return;
+        }
+        await User.updateOne(
+            { _id: user._id },
+            { $set: { failedLoginAttempts: 0 }, $unset: { lastFailedLoginAt: 1, lockedUntil: 1 } }
+        );
+    }
+
+    /**
+     * Lift an account lockout and its failure count
+     */
+    static async unlockAccount(userId: string): Promise<IUserDocument | null> {
+        return User.findByIdAndUpdate(
+            userId,
+            { $set: { failedLoginAttempts: 0 }, $unset: { lastFailedLoginAt: 1, lockedUntil: 1 } },
+            { new: true }
+        );
+    }
+
+    private static async recordIpFailure(ipAddress: string, now: Date): Promise<number> {
+        const throttle = ipPolicy();
+        const updated = await LoginThrottle.findOneAndUpdate(
+            { ipAddress },
+            [
+                { $set: { failures: nextFailureCount('failures', 'lastFailureAt', throttle), lastFailureAt: now } },
+                { $set: { expiresAt: { $max: ['$lockedUntil', minutesFromNow(throttle.windowMinutes)] } } },
+            ],
+            { upsert: true, new: true }
+        );
+
+        if (updated && updated.failures >= throttle.maxFailures) {
+            const lockedUntil = minutesFromNow(throttle.lockoutMinutes);
+            await LoginThrottle.updateOne(
+                { _id: updated._id },
+                { $set: { lockedUntil, expiresAt: lockedUntil, failures: 0 } }
+            );
+            console.warn(`[LoginProtection] Locked sign-in from ${ipAddress} until ${lockedUntil.toISOString()}`);
+        }
+
+        return updated?.failures ?? 1;
+    }
+
+    private static async recordAccountFailure(user: IUserDocument, now: Date, context: RequestContext): Promise<number> {
+        const throttle = accountPolicy();
+        const updated = await User.findOneAndUpdate(
+            { _id: user._id },
+            [
+                {
+                    $set: {
+                        failedLoginAttempts: nextFailureCount('failedLoginAttempts', 'lastFailedLoginAt', throttle),
+                        lastFailedLoginAt: now,
+                    },
+                },
+            ],
+            { new: true }
+        ).select('+failedLoginAttempts');
+
+        const failures = updated?.failedLoginAttempts ?? 1;
+        if (failures < throttle.maxFailures) {
+            return failures;
+        }
+
+        // Conditional, so concurrent failures at the limit notify only once
+        const lockedUntil = minutesFromNow(throttle.lockoutMinutes);
+        const locked = await User.updateOne(
+            {
+                _id: user._id,
+                $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lte: now } }],
+            },
+            { $set: { lockedUntil, failedLoginAttempts: 0 } }
+        );
+        if (locked.modifiedCount === 1) {
+            await LoginProtectionService.notifyLocked(user, lockedUntil, failures, context);
+        }
+
+        return failures;
+    }
+
+    private static async notifyLocked(
+        user: IUserDocument,
+        lockedUntil: Date,
+        failures: number,
+        context: RequestContext
+    ): Promise<void> {
+        await AuditLogService.record({
+            userId: user._id.toString(),
+            userName: user.name,
+            action: 'USER_LOCKED',
+            resource: 'user',
+            resourceId: user._id.toString(),
+            details: { failures, lockedUntil },
+            ipAddress: context.ipAddress,
+            userAgent: context.userAgent ?? undefined,
+            timestamp: new Date(),
+        });
+
+        await NotificationService.createNotification({
+            userId: user._id.toString(),
+            type: 'security_alert',
+            title: 'Account temporarily locked',
+            message: `Sign-in was locked until ${lockedUntil.toUTCString()} after ${failures} failed password attempts${
+                context.ipAddress ? ` (most recently from ${context.ipAddress})` : ''
+            }. If this was not you, reset your password.`,
+            actionUrl: '/profile',
+            metadata: { lockedUntil, failures, ipAddress: context.ipAddress },
+        });
+
+        try {
+            await MailService.sendAccountLockedEmail(user.email, user.name, lockedUntil, context.ipAddress);
+        } catch (error) {
+            console.error('Failed to send account locked email:', error);
+        }
+    }
+}
@@ -0,0 +1,156 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import nodemailer from 'nodemailer';
+import config from '../config/config.js';
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+}
+
+/**
+ * Delivers a fully addressed message. Selected by MAIL_TRANSPORT; other
+ * transports can be installed with MailService.setTransport.
+ */
+export interface MailTransport {
+    send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Prints messages to stdout, for local development
+ */
+class ConsoleTransport implements MailTransport {
+    async send(message: MailMessage & { from: string }): Promise<void> {
+        console.log(
+            `[Mail] To: ${message.to}\n[Mail] Subject: ${message.subject}\n${message.text}\n[Mail] ----`
+        );
+    }
+}
+
+/**
+ * Writes each message as an .eml file that mail clients can open
+ */
+class FileTransport implements MailTransport {
+    constructor(private readonly directory: string) {}
+
+    async send(message: MailMessage & { from: string }): Promise<void> {
+        await fs.mkdir(this.directory, { recursive: true });
+
+        const date = new Date();
+        const filename = `${date.toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(4).toString('hex')}.eml`;
+        const content = [
+            `From: ${message.from}`,
+            `To: ${message.to}`,
+            `Subject: ${message.subject}`,
+            `Date: ${date.toUTCString()}`,
+            'MIME-Version: 1.0',
+            'Content-Type: text/plain; charset=utf-8',
+            '',
+            message.text,
+        ].join('\r\n');
+
+        await fs.writeFile(path.join(this.directory, filename), content, 'utf8');
+    }
+}
+
+class SmtpTransport implements MailTransport {
+    private readonly transporter = nodemailer.createTransport({
+        host: config.mail.smtp.host,
+        port: config.mail.smtp.port,
+        secure: config.mail.smtp.secure,
+        auth: config.mail.smtp.user
+            ? { user: config.mail.smtp.user, pass: config.mail.smtp.password }
+            : undefined,
+    });
+
+    async send(message: MailMessage & { from: string }): Promise<void> {
+        await this.transporter.sendMail(message);
+    }
+}
+
+const createTransport = (): MailTransport => {
+    switch (config.mail.transport) {
+        case 'smtp':
+            if (!config.mail.smtp.host) {
+                throw new Error('SMTP_HOST is required when MAIL_TRANSPORT is smtp');
+            }
+            return new SmtpTransport();
+        case 'file':
+            return new FileTransport(config.mail.outboxDir);
+        case 'console':
+            return new ConsoleTransport();
+        default:
+            throw new Error(`Unknown MAIL_TRANSPORT: ${config.mail.transport}`);
+    }
+};
+
+const appLink = (pathname: string, token: string) =>
+    `${config.appUrl.replace(/\/$/, '')}${pathname}?token=${encodeURIComponent(token)}`;
+
+export class MailService {
+    private static transport: MailTransport | null = null;
+
+    static setTransport(transport: MailTransport): void {
+        MailService.transport = transport;
+    }
+
+    static async send(message: MailMessage): Promise<void> {
+        if (!MailService.transport) {
+            MailService.transport = createTransport();
+        }
+        await MailService.transport.send({ ...message, from: config.mail.from });
+    }
+
+    static async sendVerificationEmail(to: string, name: string, token: string): Promise<void> {
+        await MailService.send({
+            to,
+            subject: 'Verify your AgriQCert email address',
+            text: [
+                `Hello ${name},`,
+                '',
+                'Please confirm your email address by opening the link below:',
+                appLink('/verify-email', token),
+                '',
+                `The link expires in ${config.auth.verificationTokenTtlHours} hours.`,
+                "If you did not create an AgriQCert account, you can ignore this email.",
+            ].join('\n'),
+        });
+    }
+
+    static async sendPasswordResetEmail(to: string, name: string, token: string): Promise<void> {
+        await MailService.send({
+            to,
+            subject: 'Reset your AgriQCert password',
+            text: [
+                `Hello ${name},`,
+                '',
+                'A password reset was requested for your account. Choose a new password here:',
+                appLink('/reset-password', token),
+                '',
+                `The link expires in ${config.auth.passwordResetTtlMinutes} minutes and can be used once.`,
+                'If you did not request a reset, you can ignore this email; your password is unchanged.',
+            ].join('\n'),
+        });
+    }
+
+    static async sendAccountLockedEmail(to: string, name: string, lockedUntil: Date, ipAddress?: string): Promise<void> {
+        await MailService.send({
+            to,
+            subject: 'Your AgriQCert account has been temporarily locked',
+            text: [
+                `Hello ${name},`,
+                '',
+                `Sign-in to your account was locked after repeated failed password attempts${
+                    ipAddress ? ` (most recently from ${ipAddress})` : ''
+                }.`,
+                `You can try again after ${lockedUntil.toUTCString()}.`,
+                '',
+                'If this was not you, someone may be trying to guess your password. You can reset it from the sign-in page:',
+                `${config.appUrl.replace(/\/$/, '')}/login`,
+                'An administrator can also unlock your account.',
+            ].join('\n'),
+        });
+    }
+}
@@ -0,0 +1,107 @@
+import { Notification } from '../models/index.js';
+import type { INotificationDocument } from '../models/index.js';
+import { AppError } from '../middleware/errorHandler.middleware.js';
+import { emitToUser, hasSocketServer } from '../socket/io.js';
+import { NotificationType, PaginatedResponse } from '../types/index.js';
+
+interface CreateNotificationInput {
+    userId: string;
+    type: NotificationType;
+    title: string;
+    message: string;
+    actionUrl?: string;
+    metadata?: Record<string, unknown>;
+}
+
+interface ListNotificationsInput {
+    userId: string;
+    page?: number;
+    limit?: number;
+    unreadOnly?: boolean;
+    type?: NotificationType;
+}
+
+interface MarkAsReadInput {
+    id: string;
+    userId: string;
+}
+
+export class NotificationService {
+    /**
+     * Store a notification and push it to the recipient's open sockets. Outside
+     * the API server it is left for the notification relay to push.
+     */
+    static async createNotification(input: CreateNotificationInput): Promise<INotificationDocument> {
+        if (!hasSocketServer()) {
+            return Notification.create({ ...input, pendingPush: true });
+        }
+
+        const notification = await Notification.create(input);
+
+        emitToUser(input.userId, 'notification:new', notification.toJSON());
+
+        return notification;
+    }
+
+    static async listNotifications(
+        input: ListNotificationsInput
+    ): Promise<PaginatedResponse<INotificationDocument> & { unreadCount: number }> {
+        const { userId, page = 1, limit = 20, unreadOnly, type } = input;
+
+        const query: Record<string, unknown> = { userId };
+        if (unreadOnly) {
+            query.read = false;
+        }
+        if (type) {
+            query.type = type;
+        }
+
+        const skip = (page - 1) * limit;
+
+        const [notifications, total, unreadCount] = await Promise.all([
+            Notification.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit),
+            Notification.countDocuments(query),
+            Notification.countDocuments({ userId, read: false }),
+        ]);
+
+        return {
+            data: notifications,
+            total,
+            page,
+            pageSize: limit,
+            totalPages: Math.ceil(total / limit),
+            unreadCount,
+        };
+    }
+
+    static async getUnreadCount(userId: string): Promise<number> {
+        return Notification.countDocuments({ userId, read: false });
+    }
+
+    static async markAsRead(input: MarkAsReadInput): Promise<INotificationDocument> {
+        const notification = await Notification.findOneAndUpdate(
+            { _id: input.id, userId: input.userId },
+            { read: true },
+            { new: true }
+        );
+
+        // Other users' notifications are reported as missing rather than forbidden
+        if (!notification) {
+            throw new AppError(404, 'Notification not found');
+        }
+
+        emitToUser(input.userId, 'notification:read', { id: notification.id });
+
+        return notification;
+    }
+
+    static async markAllAsRead(userId: string): Promise<number> {
+        const result = await Notification.markAllAsRead(userId);
+
+        if (result.modifiedCount > 0) {
+            emitToUser(userId, 'notification:read', { all: true });
+        }
+
+        return result.modifiedCount;
+    }
+}
@@ -0,0 +1,486 @@
+import { IssuerKey, Organization, User } from '../models/index.js';
+import type { IOrganizationDocument, IUserDocument } from '../models/index.js';
+import { AuditLogService } from './auditLog.service.js';
+import { didService } from './did.service.js';
+import { AppError } from '../middleware/errorHandler.middleware.js';
+import { disconnectUser } from '../socket/io.js';
+import { OrganizationRole, OrganizationType, PaginatedResponse, UserRole } from '../types/index.js';
+
+interface AuthUser {
+    userId: string;
+    name: string;
+    role: UserRole;
+    organizationId?: string;
+    organizationRole?: OrganizationRole;
+}
+
+interface ListOrganizationsInput {
+    user: AuthUser;
+    page?: number;
+    limit?: number;
+    type?: OrganizationType;
+    isActive?: boolean;
+    search?: string;
+}
+
+interface OrganizationInput {
+    id: string;
+    user: AuthUser;
+}
+
+interface CreateOrganizationInput {
+    payload: {
+        name: string;
+        slug?: string;
+        type: OrganizationType;
+        description?: string;
+        contactEmail?: string;
+        issuerDid?: string;
+    };
+    user: AuthUser;
+    ipAddress?: string;
+    userAgent?: string | null;
+}
+
+interface UpdateOrganizationInput extends OrganizationInput {
+    payload: {
+        name?: string;
+        description?: string;
+        contactEmail?: string;
+        issuerDid?: string | null;
+        isActive?: boolean;
+    };
+    ipAddress?: string;
+    userAgent?: string | null;
+}
+
+interface AddMemberInput extends OrganizationInput {
+    email: string;
+    role: OrganizationRole;
+    ipAddress?: string;
+    userAgent?: string | null;
+}
+
+interface MemberActionInput extends OrganizationInput {
+    memberId: string;
+    ipAddress?: string;
+    userAgent?: string | null;
+}
+
+interface UpdateMemberInput extends MemberActionInput {
+    role: OrganizationRole;
+}
+
+interface IssuerKeyInput extends OrganizationInput {
+    ipAddress?: string;
+    userAgent?: string | null;
+}
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const slugify = (name: string) =>
+    name
+        .normalize('NFKD')
+        .toLowerCase()
+        .replace(/[^a-z0-9\s-]/g, '')
+        .trim()
+        .replace(/[\s-]+/g, '-')
+        .replace(/^-|-$/g, '');
+
+const findOrganizationOrFail = async (id: string): Promise<IOrganizationDocument> => {
+    const organization = await Organization.findById(id);
+    if (!organization) {
+        throw new AppError(404, 'Organization not found');
+    }
+    return organization;
+};
+
+const isMember = (user: AuthUser, organization: IOrganizationDocument) =>
+    user.organizationId === organization.id;
+
+/**
+ * Platform admins manage every organization; owners and admins manage their own
+ */
+const assertCanManage = (user: AuthUser, organization: IOrganizationDocument) => {
+    if (user.role === 'admin') {
+        return;
+    }
+    if (!isMember(user, organization) || (user.organizationRole !== 'owner' && user.organizationRole !== 'admin')) {
+        throw new AppError(403, 'Access denied');
+    }
+};
+
+/**
+ * Only owners and platform admins can hand out or take away ownership
+ */
+const assertCanGrant = (user: AuthUser, ...roles: (OrganizationRole | undefined)[]) => {
+    if (roles.includes('owner') && user.role !== 'admin' && user.organizationRole !== 'owner') {
+        throw new AppError(403, 'Only an owner can manage owners');
+    }
+};
+
+/**
+ * Refuse a change that would leave an organization without an owner
+ */
+const assertNotLastOwner = async (member: IUserDocument) => {
+    if (member.organizationRole !== 'owner') {
+        return;
+    }
+
+    const otherOwners = await User.countDocuments({
+        organizationId: member.organizationId,
+        organizationRole: 'owner',
+        _id: { $ne: member._id },
+    });
+    if (otherOwners === 0) {
+        throw new AppError(409, 'An organization must keep at least one owner');
+    }
+};
+
+/**
+ * An issuer DID belongs to one organization and never to the platform itself,
+ * whose DID signs for organizations without their own. A DID that already has
+ * signing keys is never handed out again, so a new holder cannot sign with a
+ * key that another organization's credentials verify against.
+ */
+const assertIssuerDidAvailable = async (issuerDid: string, organizationId?: string) => {
+    if (issuerDid === didService.getIssuerDid()) {
+        throw new AppError(409, 'The platform issuer DID cannot be assigned to an organization');
+    }
+
+    const taken = await Organization.exists({ issuerDid, _id: { $ne: organizationId } });
+    if (taken) {
+        throw new AppError(409, 'Issuer DID is already used by another organization');
+    }
+
+    if (await IssuerKey.exists({ controller: issuerDid })) {
+        throw new AppError(409, 'Issuer DID already has signing keys and cannot be assigned');
+    }
+};
+
+const findMemberOrFail = async (organization: IOrganizationDocument, memberId: string): Promise<IUserDocument> => {
+    const member = await User.findOne({ _id: memberId, organizationId: organization.id });
+    if (!member) {
+        throw new AppError(404, 'Member not found');
+    }
+    return member;
+};
+
+export class OrganizationService {
+    /**
+     * List organizations. Everyone can browse active ones, for example to
+     * pick a certification body; only admins see deactivated ones.
+     */
+    static async listOrganizations(input: ListOrganizationsInput): Promise<PaginatedResponse<IOrganizationDocument>> {
+        const { user, page = 1, limit = 20, type, isActive, search } = input;
+        const query: Record<string, unknown> = {};
+
+        if (type) query.type = type;
+        if (user.role !== 'admin') {
+            query.isActive = true;
+        } else if (isActive !== undefined) {
+            query.isActive = isActive;
+        }
+        if (search) {
+            const pattern = new RegExp(escapeRegex(search), 'i');
+            query.$or = [{ name: pattern }, { slug: pattern }];
+        }
+
+        const skip = (page - 1) * limit;
+        const [organizations, total] = await Promise.all([
+            Organization.find(query).sort({ name: 1 }).skip(skip).limit(limit),
+            Organization.countDocuments(query),
+        ]);
+
+        return {
+            data: organizations,
+            total,
+            page,
+            pageSize: limit,
+            totalPages: Math.ceil(total / limit),
+        };
+    }
+
+    static async getOrganization(input: OrganizationInput): Promise<IOrganizationDocument> {
+        const organization = await findOrganizationOrFail(input.id);
+
+        if (!organization.isActive && input.user.role !== 'admin' && !isMember(input.user, organization)) {
+            throw new AppError(404, 'Organization not found');
+        }
+
+        return organization;
+    }
+
+    /**
+     * Active certification body a batch can be submitted to
+     */
+    static async getCertificationBody(id: string): Promise<IOrganizationDocument> {
+        const organization = await Organization.findById(id);
+        if (!organization || !organization.isActive || organization.type !== 'certification_body') {
+            throw new AppError(400, 'Certification body not found');
+        }
+        return organization;
+    }
+
+    /**
+     * Organization publishing the given did:web document path, if any
+     */
+    static async getBySlug(slug: string): Promise<IOrganizationDocument | null> {
+        return Organization.findOne({ slug: slug.toLowerCase(), isActive: true });
+    }
+
+    static async createOrganization(input: CreateOrganizationInput): Promise<IOrganizationDocument> {
+        const { payload, user, ipAddress, userAgent } = input;
+
+        const slug = payload.slug || slugify(payload.name);
+        if (!slug) {
+            throw new AppError(400, 'A slug is required for this name');
+        }
+        if (await Organization.exists({ slug })) {
+            throw new AppError(409, 'An organization with this slug already exists');
+        }
+        if (payload.issuerDid) {
+            await assertIssuerDidAvailable(payload.issuerDid);
+        }
+
+        const organization = await Organization.create({
+            ...payload,
+            slug,
+            isActive: true,
+            createdBy: user.userId,
+        });
+
+        if (organization.issuerDid) {
+            // Provision a key now so the DID document resolves before the first certificate
+            await didService.getSigningKey(organization.issuerDid);
+        }
+
+        await AuditLogService.record({
+            userId: user.userId,
+            userName: user.name,
+            action: 'ORGANIZATION_CREATED',
+            resource: 'organization',
+            resourceId: organization.id,
+            details: { name: organization.name, slug, type: organization.type, issuerDid: organization.issuerDid },
+            ipAddress,
+            userAgent: userAgent ?? undefined,
+            timestamp: new Date(),
+        });
+
+        return organization;
+    }
+
+    static async updateOrganization(input: UpdateOrganizationInput): Promise<IOrganizationDocument> {
+        const { id, payload, user, ipAddress, userAgent } = input;
+
+        const organization = await findOrganizationOrFail(id);
+        assertCanManage(user, organization);
+
+        if (payload.isActive !== undefined && user.role !== 'admin') {
+            throw new AppError(403, 'Only an admin can activate or deactivate an organization');
+        }
+
+        const { issuerDid, ...fields } = payload;
+        const previousIssuerDid = organization.issuerDid;
+        const changesIssuerDid = issuerDid !== undefined && (issuerDid ?? undefined) !== previousIssuerDid;
+
+        // Credentials verify against whatever key the DID resolves to, so only platform admins assign one
+        if (changesIssuerDid && user.role !== 'admin') {
+            throw new AppError(403, 'Only an admin can change the issuer DID');
+        }
+
+        if (changesIssuerDid && issuerDid) {
+            await assertIssuerDidAvailable(issuerDid, organization.id);
+            organization.issuerDid = issuerDid;
+        } else if (changesIssuerDid) {
+            organization.issuerDid = undefined;
+        }
+        Object.assign(organization, fields);
+        await organization.save();
+
+        if (organization.issuerDid && organization.issuerDid !== previousIssuerDid) {
+            await didService.getSigningKey(organization.issuerDid);
+        }
+
+        if (fields.name) {
+            await User.updateMany({ organizationId: organization.id }, { organization: organization.name });
+        }
+
+        await AuditLogService.record({
+            userId: user.userId,
+            userName: user.name,
+            action: 'ORGANIZATION_UPDATED',
+            resource: 'organization',
+            resourceId: organization.id,
+            details: {
+                updatedFields: Object.keys(payload),
+                ...(changesIssuerDid && { previousIssuerDid, issuerDid: organization.issuerDid }),
+            },
+            ipAddress,
+            userAgent: userAgent ?? undefined,
+            timestamp: new Date(),
+        });
+
+        return organization;
+    }
+
+    /**
+     * Members of an organization, visible to its own members and to admins
+     */
+    static async listMembers(input: OrganizationInput): Promise<IUserDocument[]> {
+        const organization = await findOrganizationOrFail(input.id);
+
+        if (input.user.role !== 'admin' && !isMember(input.user, organization)) {
+            throw new AppError(403, 'Access denied');
+        }
+
+        return User.find({ organizationId: organization.id }).sort({ organizationRole: 1, name: 1 });
+    }
+
+    /**
+     * Add an existing account to the organization. A user belongs to at most
+     * one organization at a time. The account holder is not asked, so only
+     * platform admins may do this.
+     */
+    static async addMember(input: AddMemberInput): Promise<IUserDocument> {
+        const { id, email, role, user, ipAddress, userAgent } = input;
+
+        if (user.role !== 'admin') {
+            throw new AppError(403, 'Only an admin can add an existing account to an organization');
+        }
+
+        const organization = await findOrganizationOrFail(id);
+
+        const member = await User.findOne({ email: email.toLowerCase() });
+        if (!member) {
+            throw new AppError(404, 'User not found');
+        }
+        if (member.organizationId) {
+            throw new AppError(
+                409,
+                member.organizationId === organization.id
+                    ? 'User is already a member of this organization'
+                    : 'User already belongs to another organization'
+            );
+        }
+
+        member.organizationId = organization.id;
+        member.organizationRole = role;
+        member.organization = organization.name;
+        await member.save();
+        // Socket rooms are joined by organization at connection time
+        disconnectUser(member.id);
+
+        await AuditLogService.record({
+            userId: user.userId,
+            userName: user.name,
+            action: 'ORGANIZATION_MEMBER_ADDED',
+            resource: 'organization',
+            resourceId: organization.id,
+            details: { memberId: member.id, email: member.email, role },
+            ipAddress,
+            userAgent: userAgent ?? undefined,
+            timestamp: new Date(),
+        });
+
+        return member;
+    }
+
+    static async updateMember(input: UpdateMemberInput): Promise<IUserDocument> {
+        const { id, memberId, role, user, ipAddress, userAgent } = input;
+
+        const organization = await findOrganizationOrFail(id);
+        assertCanManage(user, organization);
+
+        const member = await findMemberOrFail(organization, memberId);
+        const previousRole = member.organizationRole;
+        if (previousRole === role) {
+            return member;
+        }
+
+        assertCanGrant(user, role, previousRole);
+        if (role !== 'owner') {
+            await assertNotLastOwner(member);
+        }
+
+        member.organizationRole = role;
+        await member.save();
+
+        await AuditLogService.record({
+            userId: user.userId,
+            userName: user.name,
+            action: 'ORGANIZATION_MEMBER_UPDATED',
+            resource: 'organization',
+            resourceId: organization.id,
+            details: { memberId: member.id, email: member.email, previousRole, role },
+            ipAddress,
+            userAgent: userAgent ?? undefined,
+            timestamp: new Date(),
+        });
+
+        return member;
+    }
+
+    static async removeMember(input: MemberActionInput): Promise<void> {
+        const { id, memberId, user, ipAddress, userAgent } = input;
+
+        const organization = await findOrganizationOrFail(id);
+        assertCanManage(user, organization);
+
+        const member = await findMemberOrFail(organization, memberId);
+        assertCanGrant(user, member.organizationRole);
+        await assertNotLastOwner(member);
+
+        await User.updateOne(
+            { _id: member._id },
+            { $unset: { organizationId: 1, organizationRole: 1, organization: 1 } }
+        );
+        disconnectUser(member.id);
+
+        await AuditLogService.record({
+            userId: user.userId,
+            userName: user.name,
+            action: 'ORGANIZATION_MEMBER_REMOVED',
+            resource: 'organization',
+            resourceId: organization.id,
+            details: { memberId: member.id, email: member.email, role: member.organizationRole },
+            ipAddress,
+            userAgent: userAgent ?? undefined,
+            timestamp: new Date(),
+        });
+    }
+
+    /**
+     * The organization's issuer DID with its document and keys
+     */
+    static async getIssuer(input: OrganizationInput) {
+        const organization = await findOrganizationOrFail(input.id);
+        assertCanManage(input.user, organization);
+
+        if (!organization.issuerDid) {
+            return { did: null, document: null, keys: [] };
+        }
+
+        const [document, keys] = await Promise.all([
+            didService.getDidDocument(organization.issuerDid),
+            didService.listKeys(organization.issuerDid),
+        ]);
+
+        return { did: organization.issuerDid, document, keys };
+    }
+
+    static async rotateIssuerKey(input: IssuerKeyInput) {
+        const { id, user, ipAddress, userAgent } = input;
+
+        const organization = await findOrganizationOrFail(id);
+        assertCanManage(user, organization);
+
+        if (!organization.issuerDid) {
+            throw new AppError(400, 'Organization has no issuer DID of its own');
+        }
+
+        return didService.rotateKey({ did: organization.issuerDid, user, ipAddress, userAgent });
+    }
+}
+
+export default OrganizationService;
@@ -0,0 +1,359 @@
+import type { FilterQuery } from 'mongoose';
+import { QualityStandard } from '../models/index.js';
+import { AuditLogService } from './auditLog.service.js';
+import type { IQualityStandardDocument } from '../models/index.js';
+import { AppError } from '../middleware/errorHandler.middleware.js';
+import { IStandardParameter, IStandardSnapshot, PaginatedResponse, UserRole } from '../types/index.js';
+
+interface AuthUser {
+    userId: string;
+    name: string;
+    role: UserRole;
+}
+
+interface StandardPayload {
+    name: string;
+    description?: string;
+    effectiveFrom?: Date;
+    parameters: Array<Omit<IStandardParameter, 'aliases'> & { aliases?: string[] }>;
+    requiresOrganic?: boolean;
+    requiredPhotos?: string[];
+    requiredReadings?: string[];
+}
+
+interface ListStandardsInput {
+    productType?: string;
+    page?: number;
+    limit?: number;
+}
+
+interface CreateStandardInput {
+    payload: StandardPayload & { productType: string };
+    user: AuthUser;
+    ipAddress?: string;
+    userAgent?: string | null;
+}
+
+interface UpdateStandardInput {
+    id: string;
+    payload: Partial<StandardPayload>;
+    user: AuthUser;
+    ipAddress?: string;
+    userAgent?: string | null;
+}
+
+interface DeleteStandardInput {
+    id: string;
+    user: AuthUser;
+    ipAddress?: string;
+    userAgent?: string | null;
+}
+
+const MAX_VERSION_ATTEMPTS = 3;
+
+// Allowance for clock skew when a new version is meant to take effect immediately
+const EFFECTIVE_FROM_TOLERANCE_MS = 60 * 1000;
+
+// Applied to batches whose product type has no standard of its own
+const GENERAL_PRODUCT_TYPE = 'general';
+
+/**
+ * Standards created for any of these product types the collection lacks, so
+ * a fresh database can evaluate inspections before an admin has defined any.
+ */
+const DEFAULT_STANDARDS: Array<StandardPayload & { productType: string }> = [
+    {
+        productType: 'grains',
+        name: 'Grains quality standard',
+        parameters: [
+            { key: 'moisture', label: 'Moisture Content', unit: '%', max: 14 },
+            { key: 'pesticide', label: 'Pesticide Residue', unit: 'ppm', max: 0.1 },
+            { key: 'temperature', label: 'Storage Temperature', unit: '°C', min: 10, max: 25 },
+        ],
+        requiresOrganic: false,
+        requiredPhotos: ['sample', 'storage_conditions'],
+        requiredReadings: ['moisture', 'temperature', 'visual_inspection'],
+    },
+    {
+        productType: 'fruits',
+        name: 'Fruits quality standard',
+        parameters: [
+            { key: 'moisture', label: 'Moisture Content', unit: '%', max: 85 },
+            { key: 'pesticide', label: 'Pesticide Residue', unit: 'ppm', max: 0.05 },
+            { key: 'temperature', label: 'Storage Temperature', unit: '°C', min: 2, max: 8 },
+        ],
+        requiresOrganic: true,
+        requiredPhotos: ['fruit_quality', 'packaging'],
+        requiredReadings: ['brix', 'firmness', 'color', 'visual_inspection'],
+    },
+    {
+        productType: 'vegetables',
+        name: 'Vegetables quality standard',
+        parameters: [
+            { key: 'moisture', label: 'Moisture Content', unit: '%', max: 90 },
+            { key: 'pesticide', label: 'Pesticide Residue', unit: 'ppm', max: 0.1 },
+            { key: 'temperature', label: 'Storage Temperature', unit: '°C', min: 0, max: 10 },
+        ],
+        requiresOrganic: false,
+        requiredPhotos: ['vegetable_quality', 'freshness'],
+        requiredReadings: ['freshness', 'size', 'visual_inspection'],
+    },
+    {
+        productType: 'organic',
+        name: 'Organic produce standard',
+        parameters: [
+            { key: 'moisture', label: 'Moisture Content', unit: '%', max: 15 },
+            { key: 'pesticide', label: 'Pesticide Residue', unit: 'ppm', max: 0 },
+            { key: 'temperature', label: 'Storage Temperature', unit: '°C', min: 10, max: 20 },
+        ],
+        requiresOrganic: true,
+        requiredPhotos: ['organic_certification', 'sample'],
+        requiredReadings: ['organic_verification', 'visual_inspection'],
+    },
+    {
+        productType: GENERAL_PRODUCT_TYPE,
+        name: 'General produce standard',
+        description: 'Used for product types without a standard of their own',
+        parameters: [
+            { key: 'moisture', label: 'Moisture Content', unit: '%' },
+            { key: 'pesticide', label: 'Pesticide Residue', unit: 'ppm', max: 0.1 },
+            { key: 'temperature', label: 'Storage Temperature', unit: '°C' },
+        ],
+        requiresOrganic: false,
+        requiredPhotos: [],
+        requiredReadings: [],
+    },
+];
+
+const isDuplicateKeyError = (error: unknown): boolean =>
+    typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+
+const normalizeProductType = (productType: string): string => productType.trim().toLowerCase();
+
+/**
+ * Versioned, per-product quality standards. A version is immutable once it
+ * takes effect; changing thresholds means creating a new version, so
+ * inspections keep a snapshot of exactly what they were evaluated against.
+ */
+export class QualityStandardService {
+    /**
+     * Get the standard version in effect for a product type, or the general
+     * standard when the product type has none
+     */
+    static async getEffectiveStandard(productType: string, at: Date = new Date()): Promise<IQualityStandardDocument> {
+        await QualityStandardService.ensureDefaultStandards();
+
+        const standard =
+            (await QualityStandard.findEffective(productType, at)) ||
+            (await QualityStandard.findEffective(GENERAL_PRODUCT_TYPE, at));
+        if (!standard) {
+            throw new AppError(404, `No quality standard is defined for product type "${productType}"`);
+        }
+        return standard;
+    }
+
+    /**
+     * Copy of a standard version to store on an inspection
+     */
+    static toSnapshot(standard: IQualityStandardDocument): IStandardSnapshot {
+        const { parameters, requiredPhotos, requiredReadings } = standard.toObject();
+
+        return {
+            standardId: standard.id,
+            productType: standard.productType,
+            name: standard.name,
+            version: standard.version,
+            effectiveFrom: standard.effectiveFrom,
+            parameters,
+            requiresOrganic: standard.requiresOrganic,
+            requiredPhotos,
+            requiredReadings,
+        };
+    }
+
+    static async listStandards(input: ListStandardsInput): Promise<PaginatedResponse<Record<string, unknown>>> {
+        const { productType, page = 1, limit = 20 } = input;
+
+        await QualityStandardService.ensureDefaultStandards();
+
+        const query: FilterQuery<IQualityStandardDocument> = {};
+        if (productType) query.productType = normalizeProductType(productType);
+
+        const [standards, total] = await Promise.all([
+            QualityStandard.find(query)
+                .sort({ productType: 1, version: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit),
+            QualityStandard.countDocuments(query),
+        ]);
+
+        const now = new Date();
+        const effectiveIds = new Set<string>();
+        for (const type of new Set(standards.map((standard) => standard.productType))) {
+            const effective = await QualityStandard.findEffective(type, now);
+            if (effective) effectiveIds.add(effective.id);
+        }
+
+        return {
+            data: standards.map((standard) => ({
+                ...standard.toJSON(),
+                state: effectiveIds.has(standard.id)
+                    ? 'effective'
+                    : standard.effectiveFrom > now
+                        ? 'scheduled'
+                        : 'superseded',
+            })),
+            total,
+            page,
+            pageSize: limit,
+            totalPages: Math.ceil(total / limit),
+        };
+    }
+
+    static async getStandardById(id: string) {
+        const standard = await QualityStandard.findById(id);
+        if (!standard) {
+            throw new AppError(404, 'Quality standard not found');
+        }
+        return standard;
+    }
+
+    /**
+     * Create the next version of a product's standard
+     */
+    static async createStandard(input: CreateStandardInput) {
+        const { payload, user, ipAddress, userAgent } = input;
+        const productType = normalizeProductType(payload.productType);
+        const effectiveFrom = payload.effectiveFrom ?? new Date();
+
+        if (effectiveFrom.getTime() < Date.now() - EFFECTIVE_FROM_TOLERANCE_MS) {
+            throw new AppError(400, 'Effective date cannot be in the past');
+        }
+
+        let standard: IQualityStandardDocument | undefined;
+        for (let attempt = 0; attempt < MAX_VERSION_ATTEMPTS && !standard; attempt++) {
+            const latest = await QualityStandard.findOne({ productType }).sort({ version: -1 });
+
+            try {
+                standard = await QualityStandard.create({
+                    ...payload,
+                    productType,
+                    effectiveFrom,
+                    version: (latest?.version ?? 0) + 1,
+                    createdBy: user.userId,
+                });
+            } catch (error) {
+                // Another admin created a version concurrently
+                if (!isDuplicateKeyError(error)) {
+                    throw error;
+                }
+            }
+        }
+
+        if (!standard) {
+            throw new AppError(409, 'Could not allocate a version number, please try again');
+        }
+
+        await AuditLogService.record({
+            userId: user.userId,
+            userName: user.name,
+            action: 'QUALITY_STANDARD_CREATED',
+            resource: 'quality_standard',
+            resourceId: standard.id,
+            details: { productType, version: standard.version, effectiveFrom },
+            ipAddress,
+            userAgent: userAgent ?? undefined,
+            timestamp: new Date(),
+        });
+
+        return standard;
+    }
+
+    /**
+     * Edit a version that has not taken effect yet
+     */
+    static async updateStandard(input: UpdateStandardInput) {
+        const { id, payload, user, ipAddress, userAgent } = input;
+
+        const standard = await QualityStandardService.getStandardById(id);
+        QualityStandardService.assertScheduled(standard);
+
+        if (payload.effectiveFrom && payload.effectiveFrom.getTime() < Date.now() - EFFECTIVE_FROM_TOLERANCE_MS) {
+            throw new AppError(400, 'Effective date cannot be in the past');
+        }
+
+        standard.set({ ...payload, updatedBy: user.userId });
+        await standard.save();
+
+        await AuditLogService.record({
+            userId: user.userId,
+            userName: user.name,
+            action: 'QUALITY_STANDARD_UPDATED',
+            resource: 'quality_standard',
+            resourceId: standard.id,
+            details: { productType: standard.productType, version: standard.version, updatedFields: Object.keys(payload) },
+            ipAddress,
+            userAgent: userAgent ?? undefined,
+            timestamp: new Date(),
+        });
+
+        return standard;
+    }
+
+    /**
+     * Delete a version that has not taken effect yet
+     */
+    static async deleteStandard(input: DeleteStandardInput) {
+        const { id, user, ipAddress, userAgent } = input;
+
+        const standard = await QualityStandardService.getStandardById(id);
+        QualityStandardService.assertScheduled(standard);
+
+        await standard.deleteOne();
+
+        await AuditLogService.record({
+            userId: user.userId,
+            userName: user.name,
+            action: 'QUALITY_STANDARD_DELETED',
+            resource: 'quality_standard',
+            resourceId: id,
+            details: { productType: standard.productType, version: standard.version },
+            ipAddress,
+            userAgent: userAgent ?? undefined,
+            timestamp: new Date(),
+        });
+    }
+
+    private static assertScheduled(standard: IQualityStandardDocument): void {
+        if (standard.effectiveFrom <= new Date()) {
+            throw new AppError(409, 'Standards already in effect cannot be changed; create a new version instead');
+        }
+    }
+
+    private static async ensureDefaultStandards(): Promise<void> {
+        const existing = new Set<string>(await QualityStandard.distinct('productType'));
+        const missing = DEFAULT_STANDARDS.filter((standard) => !existing.has(standard.productType));
+        if (missing.length === 0) {
+            return;
+        }
+
+        try {
+            await QualityStandard.insertMany(
+                missing.map((standard) => ({
+                    ...standard,
+                    version: 1,
+                    effectiveFrom: new Date(0),
+                    createdBy: 'system',
+                })),
+                { ordered: false }
+            );
+        } catch (error) {
+            // Another process seeded the defaults concurrently
+            if (!isDuplicateKeyError(error)) {
+                throw error;
+            }
+        }
+    }
+}
+
+export default QualityStandardService;
@@ -0,0 +1,127 @@
+import net from 'net';
+import config from '../config/config.js';
+
+export interface ScanResult {
+    clean: boolean;
+    // Name of the detected malware, when not clean
+    signature?: string;
+}
+
+/**
+ * Checks uploaded bytes for malware. Selected by MALWARE_SCANNER; other
+ * scanners can be installed with ScannerService.setScanner.
+ */
+export interface MalwareScanner {
+    readonly name: string;
+    scan(body: Buffer): Promise<ScanResult>;
+}
+
+/**
+ * Accepts everything, for deployments without a scanner
+ */
+class NoopScanner implements MalwareScanner {
+    readonly name = 'none';
+
+    async scan(): Promise<ScanResult> {
+        return { clean: true };
+    }
+}
+
+interface ClamAvOptions {
+    host: string;
+    port: number;
+    socketPath?: string;
+    timeoutMs: number;
+}
+
+// clamd's default StreamMaxLength is 25 MB; chunks well below that
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Interprets clamd's reply to INSTREAM, e.g. `stream: OK` or
+ * `stream: Eicar-Test-Signature FOUND`
+ */
+export const parseClamdReply = (reply: string): ScanResult => {
+    const message = reply.replace(/\0/g, '').trim();
+
+    if (/^stream: OK$/.test(message)) {
+        return { clean: true };
+    }
+
+    const found = /^stream: (.+) FOUND$/.exec(message);
+    if (found) {
+        return { clean: false, signature: found[1] };
+    }
+
+    throw new Error(`ClamAV scan failed: ${message || 'empty reply'}`);
+};
+
+/**
+ * Streams the file to a clamd daemon with the INSTREAM command
+ */
+export class ClamAvScanner implements MalwareScanner {
+    readonly name = 'clamav';
+
+    constructor(private readonly options: ClamAvOptions) {}
+
+    scan(body: Buffer): Promise<ScanResult> {
+        return new Promise((resolve, reject) => {
+            const socket = this.options.socketPath
+                ? net.createConnection(this.options.socketPath)
+                : net.createConnection(this.options.port, this.options.host);
+            const replies: Buffer[] = [];
+
+            socket.setTimeout(this.options.timeoutMs, () => {
+                socket.destroy(new Error(`ClamAV did not answer within ${this.options.timeoutMs} ms`));
+            });
+            socket.on('error', reject);
+            socket.on('data', (chunk) => replies.push(chunk));
+            socket.on('end', () => {
+                try {
+                    resolve(parseClamdReply(Buffer.concat(replies).toString('utf8')));
+                } catch (error) {
+                    reject(error);
+                }
+            });
+
+            socket.on('connect', () => {
+                socket.write('zINSTREAM\0');
+                for (let offset = 0; offset < body.length; offset += CHUNK_SIZE) {
+                    const chunk = body.subarray(offset, offset + CHUNK_SIZE);
+                    const length = Buffer.alloc(4);
+                    length.writeUInt32BE(chunk.length);
+                    socket.write(length);
+                    socket.write(chunk);
+                }
+                // A zero-length chunk ends the stream
+                socket.end(Buffer.alloc(4));
+            });
+        });
+    }
+}
+
+const createScanner = (): MalwareScanner => {
+    switch (config.scanner.driver) {
+        case 'clamav':
+            return new ClamAvScanner(config.scanner.clamav);
+        case 'none':
+            return new NoopScanner();
+        default:
+            throw new Error(`Unknown MALWARE_SCANNER: ${config.scanner.driver}`);
+    }
+};
+
+export class ScannerService {
+    private static scanner: MalwareScanner | null = null;
+
+    static setScanner(scanner: MalwareScanner): void {
+        ScannerService.scanner = scanner;
+    }
+
+    static getScanner(): MalwareScanner {
+        if (!ScannerService.scanner) {
+            ScannerService.scanner = createScanner();
+        }
+        return ScannerService.scanner;
+    }
+}
@@ -0,0 +1,230 @@
+import mongoose from 'mongoose';
+import { Session } from '../models/index.js';
+import type { ISessionDocument, IUserDocument } from '../models/index.js';
+import { AuditLogService } from './auditLog.service.js';
+import { AppError } from '../middleware/errorHandler.middleware.js';
+import { JWTService } from '../utils/jwt.util.js';
+import { hashToken } from '../utils/token.util.js';
+import { describeUserAgent } from '../utils/userAgent.util.js';
+import { disconnectSession } from '../socket/io.js';
+import config from '../config/config.js';
+
+interface RequestContext {
+    ipAddress?: string;
+    userAgent?: string | null;
+}
+
+interface ActorContext extends RequestContext {
+    userId: string;
+    userName: string;
+}
+
+export type SessionTokens = ReturnType<typeof JWTService.generateTokenPair>;
+
+export interface SessionSummary {
+    id: string;
+    device: string;
+    userAgent?: string;
+    ipAddress?: string;
+    createdAt: Date;
+    lastUsedAt: Date;
+    expiresAt: Date;
+    current: boolean;
+}
+
+const refreshExpiry = (refreshToken: string): Date =>
+    JWTService.getTokenExpiration(refreshToken) ?? new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+
+const recordAudit = async (
+    actor: ActorContext,
+    action: string,
+    resourceId: string,
+    details?: Record<string, unknown>
+) => {
+    await AuditLogService.record({
+        userId: actor.userId,
+        userName: actor.userName,
+        action,
+        resource: 'session',
+        resourceId,
+        details,
+        ipAddress: actor.ipAddress,
+        userAgent: actor.userAgent ?? undefined,
+        timestamp: new Date(),
+    });
+};
+
+export class SessionService {
+    /**
+     * Open a session for a signed-in user and issue its first token pair.
+     * The least recently used sessions beyond the per-user limit are closed.
+     */
+    static async create(user: IUserDocument, context: RequestContext): Promise<SessionTokens> {
+        const sessionId = new mongoose.Types.ObjectId();
+        const tokens = JWTService.generateTokenPair(
+            user._id.toString(),
+            user.email,
+            user.role,
+            sessionId.toString()
+        );
+
+        await Session.create({
+            _id: sessionId,
+            userId: user._id.toString(),
+            tokenHash: hashToken(tokens.refreshToken),
+            device: describeUserAgent(context.userAgent),
+            userAgent: context.userAgent?.slice(0, 512) ?? undefined,
+            ipAddress: context.ipAddress,
+            expiresAt: refreshExpiry(tokens.refreshToken),
+        });
+
+        const stale = await Session.find({ userId: user._id.toString() })
+            .sort({ lastUsedAt: -1 })
+            .skip(config.auth.maxSessionsPerUser)
+            .select('_id');
+        if (stale.length > 0) {
+            await Session.deleteMany({ _id: { $in: stale.map((session) => session._id) } });
+            stale.forEach((session) => disconnectSession(session._id.toString()));
+        }
+
+        return tokens;
+    }
+
+    /**
+     * Exchange a refresh token for a new pair. Presenting a token that has
+     * already been rotated means it was copied, so the whole session is
+     * closed and both holders have to sign in again.
+     */
+    static async rotate(
+        refreshToken: string,
+        user: IUserDocument,
+        context: RequestContext
+    ): Promise<SessionTokens> {
+        const decoded = JWTService.decodeToken(refreshToken);
+        if (!decoded?.sid || !mongoose.isValidObjectId(decoded.sid)) {
+            throw new AppError(401, 'Refresh token has been revoked');
+        }
+
+        const session = await Session.findOne({ _id: decoded.sid, userId: user._id.toString() }).select(
+            '+tokenHash'
+        );
+        if (!session) {
+            throw new AppError(401, 'Refresh token has been revoked');
+        }
+
+        const presentedHash = hashToken(refreshToken);
+        const tokens = JWTService.generateTokenPair(
+            user._id.toString(),
+            user.email,
+            user.role,
+            session._id.toString()
+        );
+
+        // Conditional on the presented hash, so two refreshes with the same token cannot both win
+        const result =
+            session.tokenHash === presentedHash
+                ? await Session.updateOne(
+                      { _id: session._id, tokenHash: presentedHash },
+                      {
+                          $set: {
+                              tokenHash: hashToken(tokens.refreshToken),
+                              lastUsedAt: new Date(),
+                              ipAddress: context.ipAddress,
+                              expiresAt: refreshExpiry(tokens.refreshToken),
+                          },
+                      }
+                  )
+                : null;
+
+        if (!result || result.modifiedCount !== 1) {
+            await Session.deleteOne({ _id: session._id });
+            disconnectSession(session._id.toString());
+            await recordAudit(
+                { userId: user._id.toString(), userName: user.name, ...context },
+                'REFRESH_TOKEN_REUSE_DETECTED',
+                session._id.toString(),
+                { device: session.device, sessionIpAddress: session.ipAddress }
+            );
+            throw new AppError(401, 'Refresh token has already been used. Please sign in again.');
+        }
+
+        return tokens;
+    }
+
+    static async list(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+        const sessions = await Session.find({ userId }).sort({ lastUsedAt: -1 });
+
+        return sessions.map((session: ISessionDocument) => ({
+            id: session._id.toString(),
+            device: session.device,
+            userAgent: session.userAgent,
+            ipAddress: session.ipAddress,
+            createdAt: session.createdAt,
+            lastUsedAt: session.lastUsedAt,
+            expiresAt: session.expiresAt,
+            current: session._id.toString() === currentSessionId,
+        }));
+    }
+
+    /**
+     * Whether an access token's session is still open
+     */
+    static async isActive(sessionId: string): Promise<boolean> {
+        if (!mongoose.isValidObjectId(sessionId)) {
+            return false;
+        }
+        return !!(await Session.exists({ _id: sessionId }));
+    }
+
+    /**
+     * Close one of the actor's own sessions. Its access token stops working
+     * immediately.
+     */
+    static async revoke(sessionId: string, actor: ActorContext): Promise<void> {
+        const session = await Session.findOneAndDelete({ _id: sessionId, userId: actor.userId });
+        if (!session) {
+            throw new AppError(404, 'Session not found');
+        }
+        disconnectSession(sessionId);
+
+        await recordAudit(actor, 'SESSION_REVOKED', sessionId, { device: session.device });
+    }
+
+    /**
+     * Close every session of the actor except the one making the request
+     */
+    static async revokeOthers(currentSessionId: string | undefined, actor: ActorContext): Promise<number> {
+        const closed = await SessionService.revokeAll(actor.userId, currentSessionId);
+        await recordAudit(actor, 'SESSIONS_REVOKED', actor.userId, { count: closed });
+
+        return closed;
+    }
+
+    /**
+     * Close the session a refresh token belongs to, if it is still current
+     */
+    static async revokeByToken(userId: string, refreshToken: string): Promise<void> {
+        await Session.deleteOne({ userId, tokenHash: hashToken(refreshToken) });
+    }
+
+    /**
+     * Close sessions without auditing; callers record their own action.
+     * Returns how many were closed.
+     */
+    static async revokeAll(userId: string, exceptSessionId?: string): Promise<number> {
+        const filter: Record<string, unknown> = { userId };
+        if (exceptSessionId) {
+            filter._id = { $ne: exceptSessionId };
+        }
+
+        const sessions = await Session.find(filter).select('_id');
+        if (sessions.length === 0) {
+            return 0;
+        }
+
+        await Session.deleteMany({ _id: { $in: sessions.map((session) => session._id) } });
+        sessions.forEach((session) => disconnectSession(session._id.toString()));
+
+        return sessions.length;
+    }
+}
@@ -0,0 +1,211 @@
+import { nanoid } from 'nanoid';
+import { StatusList } from '../models/index.js';
+import config from '../config/config.js';
+import { AppError } from '../middleware/errorHandler.middleware.js';
+import { localIssuer, PROOF_TYPE } from './localIssuer.service.js';
+import { createBitstring, getBit, setBit, encodeBitstring } from '../utils/bitstring.util.js';
+
+export const STATUS_ENTRY_TYPE = 'BitstringStatusListEntry';
+export const STATUS_PURPOSE = 'revocation';
+
+const MAX_UPDATE_ATTEMPTS = 5;
+
+export interface CredentialStatusEntry {
+    id: string;
+    type: typeof STATUS_ENTRY_TYPE;
+    statusPurpose: typeof STATUS_PURPOSE;
+    statusListIndex: string;
+    statusListCredential: string;
+}
+
+export interface StatusAllocation {
+    listId: string;
+    index: number;
+    credentialStatus: CredentialStatusEntry;
+}
+
+export interface CredentialStatusCheck {
+    checked: boolean;
+    revoked: boolean;
+    error?: string;
+}
+
+interface SetStatusInput {
+    listId: string;
+    index: number;
+    revoked: boolean;
+}
+
+/**
+ * W3C Bitstring Status List: each issued credential gets a bit in a
+ * GZIP-compressed list that is published as a signed credential.
+ */
+export class StatusListService {
+    static getStatusListUrl(listId: string): string {
+        return `${config.features.vc.statusListBaseUrl.replace(/\/$/, '')}/${listId}`;
+    }
+
+    /**
+     * Reserve the next free index in the issuer's current status list,
+     * starting a new list when the current one is full
+     */
+    static async allocateEntry(issuer: string = localIssuer.did): Promise<StatusAllocation> {
+        const list = await StatusList.findOneAndUpdate(
+            {
+                issuer,
+                statusPurpose: STATUS_PURPOSE,
+                $expr: { $lt: ['$nextIndex', '$size'] },
+            },
+            { $inc: { nextIndex: 1 } },
+            { sort: { createdAt: -1 }, new: false }
+        );
+
+        if (list) {
+            return StatusListService.toAllocation(list.listId, list.nextIndex);
+        }
+
+        const size = config.features.vc.statusListSize;
+        const created = await StatusList.create({
+            listId: nanoid(12),
+            issuer,
+            statusPurpose: STATUS_PURPOSE,
+            size,
+            nextIndex: 1,
+            bitstring: createBitstring(size),
+        });
+
+        return StatusListService.toAllocation(created.listId, 0);
+    }
+
+    /**
+     * Set or clear the revocation bit for a credential
+     */
+    static async setStatus(input: SetStatusInput): Promise<void> {
+        const { listId, index, revoked } = input;
+
+        for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+            const list = await StatusList.findOne({ listId }).select('+bitstring');
+            if (!list) {
+                throw new AppError(404, 'Status list not found');
+            }
+
+            if (getBit(list.bitstring, index) === revoked) {
+                return;
+            }
+
+            const result = await StatusList.updateOne(
+                { _id: list._id, version: list.version },
+                {
+                    $set: { bitstring: setBit(list.bitstring, index, revoked) },
+                    $inc: { version: 1 },
+                }
+            );
+
+            if (result.modifiedCount === 1) {
+                return;
+            }
+        }
+
+        throw new Error(`Could not update status list ${listId} after ${MAX_UPDATE_ATTEMPTS} attempts`);
+    }
+
+    static async isRevoked(listId: string, index: number): Promise<boolean> {
+        const list = await StatusList.findOne({ listId }).select('+bitstring');
+        if (!list) {
+            throw new AppError(404, 'Status list not found');
+        }
+
+        return getBit(list.bitstring, index);
+    }
+
+    /**
+     * Get the signed BitstringStatusListCredential for a list.
+     * The signed copy is cached and reissued whenever a bit changes.
+     */
+    static async getStatusListCredential(listId: string): Promise<Record<string, any>> {
+        const list = await StatusList.findOne({ listId }).select('+bitstring +credential');
+        if (!list) {
+            throw new AppError(404, 'Status list not found');
+        }
+
+        // Credentials cached before the proof suite changed are re-signed
+        if (list.credential && list.credentialVersion === list.version && list.credential.proof?.type === PROOF_TYPE) {
+            return list.credential;
+        }
+
+        const url = StatusListService.getStatusListUrl(listId);
+        const credential = await localIssuer.signCredential({
+            '@context': ['https://www.w3.org/ns/credentials/v2'],
+            id: url,
+            type: ['VerifiableCredential', 'BitstringStatusListCredential'],
+            issuer: list.issuer,
+            validFrom: new Date().toISOString(),
+            credentialSubject: {
+                id: `${url}#list`,
+                type: 'BitstringStatusList',
+                statusPurpose: list.statusPurpose,
+                encodedList: encodeBitstring(list.bitstring),
+            },
+        });
+
+        // Only cache if no bit changed while signing
+        await StatusList.updateOne(
+            { _id: list._id, version: list.version },
+            { $set: { credential, credentialVersion: list.version } }
+        );
+
+        return credential;
+    }
+
+    /**
+     * Read the revocation bit referenced by a credential's credentialStatus.
+     * Only status lists published by this backend are resolved.
+     */
+    static async checkCredentialStatus(vcJson: Record<string, any>): Promise<CredentialStatusCheck> {
+        const entries = ([] as Partial<CredentialStatusEntry>[]).concat(vcJson.credentialStatus || []);
+        const entry = entries.find(
+            (status) => status?.type === STATUS_ENTRY_TYPE && status?.statusPurpose === STATUS_PURPOSE
+        );
+
+        if (!entry) {
+            return { checked: false, revoked: false };
+        }
+
+        const prefix = StatusListService.getStatusListUrl('');
+        const listUrl = String(entry.statusListCredential || '');
+        const index = Number(entry.statusListIndex);
+
+        if (!listUrl.startsWith(prefix) || !Number.isInteger(index) || index < 0) {
+            return { checked: false, revoked: false, error: 'Unsupported credential status entry' };
+        }
+
+        try {
+            const revoked = await StatusListService.isRevoked(listUrl.slice(prefix.length), index);
+            return { checked: true, revoked };
+        } catch (error) {
+            return {
+                checked: false,
+                revoked: false,
+                error: `Status list check failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            };
+        }
+    }
+
+    private static toAllocation(listId: string, index: number): StatusAllocation {
+        const statusListCredential = StatusListService.getStatusListUrl(listId);
+
+        return {
+            listId,
+            index,
+            credentialStatus: {
+                id: `${statusListCredential}#${index}`,
+                type: STATUS_ENTRY_TYPE,
+                statusPurpose: STATUS_PURPOSE,
+                statusListIndex: String(index),
+                statusListCredential,
+            },
+        };
+    }
+}
+
+export default StatusListService;
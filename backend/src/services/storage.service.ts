@@ -0,0 +1,320 @@
+import fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import config from '../config/config.js';
+import { ByteRange } from '../utils/httpRange.util.js';
+import { presignUrl, signRequest, uriEncode } from '../utils/sigv4.util.js';
+
+export interface StoredObject {
+    // category/fileId.ext
+    key: string;
+    size: number;
+    contentType?: string;
+    lastModified?: Date;
+}
+
+export interface StorageDriver {
+    readonly name: string;
+    put(key: string, body: Buffer, contentType: string): Promise<void>;
+    head(key: string): Promise<StoredObject | null>;
+    read(key: string, range?: ByteRange): Promise<Readable>;
+    delete(key: string): Promise<void>;
+    list(prefix: string): AsyncIterable<StoredObject>;
+    // Direct-to-storage URLs; drivers without them are served through the API
+    presignPut?(key: string, options: { contentType: string; contentLength?: number; expiresIn: number }): string;
+    presignGet?(key: string, options: { expiresIn: number }): string;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.heic': 'image/heic',
+    '.heif': 'image/heif',
+    '.pdf': 'application/pdf',
+    '.doc': 'application/msword',
+    '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    '.csv': 'text/csv',
+    '.xls': 'application/vnd.ms-excel',
+    '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+const contentTypeFor = (key: string): string | undefined => CONTENT_TYPES[path.extname(key).toLowerCase()];
+
+/**
+ * Files under a directory on this machine (UPLOAD_DIR)
+ */
+export class LocalStorageDriver implements StorageDriver {
+    readonly name = 'local';
+    private readonly root: string;
+
+    constructor(root: string) {
+        this.root = path.resolve(root);
+    }
+
+    private resolve(key: string): string {
+        const filePath = path.resolve(this.root, key);
+        if (!filePath.startsWith(this.root + path.sep)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+        return filePath;
+    }
+
+    async put(key: string, body: Buffer): Promise<void> {
+        const filePath = this.resolve(key);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, body);
+    }
+
+    async head(key: string): Promise<StoredObject | null> {
+        try {
+            const stats = await fs.stat(this.resolve(key));
+            return stats.isFile()
+                ? { key, size: stats.size, contentType: contentTypeFor(key), lastModified: stats.mtime }
+                : null;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async read(key: string, range?: ByteRange): Promise<Readable> {
+        return createReadStream(this.resolve(key), range ? { start: range.start, end: range.end } : undefined);
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.rm(this.resolve(key), { force: true });
+    }
+
+    async *list(prefix: string): AsyncIterable<StoredObject> {
+        // Only walk the directory the prefix points into
+        const directory = prefix.includes('/') ? path.posix.dirname(prefix) : '';
+
+        for (const key of await this.walk(directory)) {
+            if (key.startsWith(prefix)) {
+                const object = await this.head(key);
+                if (object) yield object;
+            }
+        }
+    }
+
+    private async walk(directory: string): Promise<string[]> {
+        let entries;
+        try {
+            entries = await fs.readdir(path.join(this.root, directory), { withFileTypes: true });
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+
+        const keys: string[] = [];
+        for (const entry of entries) {
+            const key = directory ? `${directory}/${entry.name}` : entry.name;
+            if (entry.isDirectory()) {
+                keys.push(...(await this.walk(key)));
+            } else if (entry.isFile() && !entry.name.startsWith('.')) {
+                keys.push(key);
+            }
+        }
+        return keys.sort();
+    }
+}
+
+interface S3Options {
+    endpoint?: string;
+    region: string;
+    bucket: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    forcePathStyle: boolean;
+}
+
+const xmlValues = (xml: string, tag: string): string[] =>
+    [...xml.matchAll(new RegExp(`<${tag}>([^<]*)</${tag}>`, 'g'))].map((match) =>
+        match[1].replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+    );
+
+/**
+ * Amazon S3 or an S3-compatible service such as MinIO, spoken to directly
+ * over HTTPS with Signature Version 4
+ */
+export class S3StorageDriver implements StorageDriver {
+    readonly name = 's3';
+
+    constructor(private readonly options: S3Options) {}
+
+    private get credentials() {
+        return {
+            accessKeyId: this.options.accessKeyId,
+            secretAccessKey: this.options.secretAccessKey,
+            region: this.options.region,
+        };
+    }
+
+    private url(key = ''): URL {
+        const encodedKey = key.split('/').map(uriEncode).join('/');
+        const endpoint = new URL(this.options.endpoint || `https://s3.${this.options.region}.amazonaws.com`);
+
+        if (this.options.forcePathStyle) {
+            return new URL(`${endpoint.origin}/${this.options.bucket}/${encodedKey}`);
+        }
+        return new URL(`${endpoint.protocol}//${this.options.bucket}.${endpoint.host}/${encodedKey}`);
+    }
+
+    private async send(
+        method: string,
+        url: URL,
+        headers: Record<string, string> = {},
+        body?: Buffer
+    ): Promise<Response> {
+        const payloadHash = crypto.createHash('sha256').update(body ?? '').digest('hex');
+        const signedHeaders = signRequest({ method, url, headers, payloadHash }, this.credentials);
+
+        return fetch(url, { method, headers: signedHeaders, body: body ? new Uint8Array(body) : undefined });
+    }
+
+    private async fail(response: Response, action: string): Promise<never> {
+        const detail = xmlValues(await response.text(), 'Code')[0];
+        throw new Error(`S3 ${action} failed with ${response.status}${detail ? ` (${detail})` : ''}`);
+    }
+
+    async put(key: string, body: Buffer, contentType: string): Promise<void> {
+        const response = await this.send('PUT', this.url(key), { 'content-type': contentType }, body);
+        if (!response.ok) {
+            await this.fail(response, `PUT ${key}`);
+        }
+    }
+
+    async head(key: string): Promise<StoredObject | null> {
+        const response = await this.send('HEAD', this.url(key));
+        if (response.status === 404) {
+            return null;
+        }
+        if (!response.ok) {
+            await this.fail(response, `HEAD ${key}`);
+        }
+
+        const lastModified = response.headers.get('last-modified');
+        return {
+            key,
+            size: parseInt(response.headers.get('content-length') || '0', 10),
+            contentType: response.headers.get('content-type') || contentTypeFor(key),
+            lastModified: lastModified ? new Date(lastModified) : undefined,
+        };
+    }
+
+    async read(key: string, range?: ByteRange): Promise<Readable> {
+        const headers: Record<string, string> = range ? { range: `bytes=${range.start}-${range.end}` } : {};
+        const response = await this.send('GET', this.url(key), headers);
+        if (!response.ok || !response.body) {
+            await this.fail(response, `GET ${key}`);
+        }
+        return Readable.fromWeb(response.body as WebReadableStream);
+    }
+
+    async delete(key: string): Promise<void> {
+        const response = await this.send('DELETE', this.url(key));
+        if (!response.ok && response.status !== 404) {
+            await this.fail(response, `DELETE ${key}`);
+        }
+    }
+
+    async *list(prefix: string): AsyncIterable<StoredObject> {
+        let continuationToken: string | undefined;
+
+        do {
+            const url = this.url();
+            url.searchParams.set('list-type', '2');
+            url.searchParams.set('prefix', prefix);
+            if (continuationToken) {
+                url.searchParams.set('continuation-token', continuationToken);
+            }
+
+            const response = await this.send('GET', url);
+            if (!response.ok) {
+                await this.fail(response, `LIST ${prefix}`);
+            }
+
+            const xml = await response.text();
+            for (const [, contents] of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+                yield {
+                    key: xmlValues(contents, 'Key')[0],
+                    size: parseInt(xmlValues(contents, 'Size')[0] || '0', 10),
+                    lastModified: new Date(xmlValues(contents, 'LastModified')[0]),
+                };
+            }
+
+            continuationToken = xmlValues(xml, 'IsTruncated')[0] === 'true'
+                ? xmlValues(xml, 'NextContinuationToken')[0]
+                : undefined;
+        } while (continuationToken);
+    }
+
+    presignPut(key: string, options: { contentType: string; contentLength?: number; expiresIn: number }): string {
+        const headers: Record<string, string> = { 'content-type': options.contentType };
+        if (options.contentLength !== undefined) {
+            headers['content-length'] = String(options.contentLength);
+        }
+        return presignUrl({ method: 'PUT', url: this.url(key), headers, expiresIn: options.expiresIn }, this.credentials);
+    }
+
+    presignGet(key: string, options: { expiresIn: number }): string {
+        return presignUrl({ method: 'GET', url: this.url(key), expiresIn: options.expiresIn }, this.credentials);
+    }
+}
+
+const createDriver = (): StorageDriver => {
+    switch (config.storage.driver) {
+        case 's3': {
+            const { bucket, accessKeyId, secretAccessKey, ...s3 } = config.storage.s3;
+            if (!bucket || !accessKeyId || !secretAccessKey) {
+                throw new Error('S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required when STORAGE_DRIVER is s3');
+            }
+            return new S3StorageDriver({ ...s3, bucket, accessKeyId, secretAccessKey });
+        }
+        case 'local':
+            return new LocalStorageDriver(config.storage.localDir);
+        default:
+            throw new Error(`Unknown STORAGE_DRIVER: ${config.storage.driver}`);
+    }
+};
+
+export class StorageService {
+    private static driver: StorageDriver | null = null;
+
+    static setDriver(driver: StorageDriver): void {
+        StorageService.driver = driver;
+    }
+
+    static getDriver(): StorageDriver {
+        if (!StorageService.driver) {
+            StorageService.driver = createDriver();
+        }
+        return StorageService.driver;
+    }
+
+    static keyFor(category: string, fileId: string, filename: string): string {
+        return `${category}/${fileId}${path.extname(filename).toLowerCase()}`;
+    }
+
+    /**
+     * The stored object for a file ID, whatever its extension
+     */
+    static async findFile(category: string, fileId: string): Promise<StoredObject | null> {
+        const driver = StorageService.getDriver();
+
+        for await (const object of driver.list(`${category}/${fileId}`)) {
+            if (path.posix.parse(object.key).name === fileId) {
+                return driver.head(object.key);
+            }
+        }
+        return null;
+    }
+}
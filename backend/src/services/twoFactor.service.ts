@@ -0,0 +1,349 @@
+import { nanoid } from 'nanoid';
+import { User } from '../models/index.js';
+import type { IUserDocument } from '../models/index.js';
+import { AuditLogService } from './auditLog.service.js';
+import { AppError } from '../middleware/errorHandler.middleware.js';
+import { JWTService, MfaChallengePurpose } from '../utils/jwt.util.js';
+import { encryptData, decryptData } from '../utils/encryption.util.js';
+import { hashToken } from '../utils/token.util.js';
+import {
+    buildOtpauthUri,
+    generateRecoveryCodes,
+    generateTotpSecret,
+    normalizeRecoveryCode,
+    verifyTotp,
+} from '../utils/totp.util.js';
+import config from '../config/config.js';
+import { UserRole } from '../types/index.js';
+
+interface RequestContext {
+    ipAddress?: string;
+    userAgent?: string | null;
+}
+
+export interface TwoFactorChallenge {
+    challengeToken: string;
+    purpose: MfaChallengePurpose;
+}
+
+export interface TwoFactorSetup {
+    secret: string;
+    otpauthUri: string;
+}
+
+export interface SecondFactor {
+    code?: string;
+    recoveryCode?: string;
+}
+
+const SECRET_FIELDS = [
+    '+twoFactor.secret',
+    '+twoFactor.pendingSecret',
+    '+twoFactor.recoveryCodes',
+    '+twoFactor.lastUsedStep',
+    '+twoFactor.challengeId',
+    '+twoFactor.challengeAttempts',
+].join(' ');
+
+const findWithSecrets = async (userId: string, extraFields = ''): Promise<IUserDocument> => {
+    const user = await User.findById(userId).select(`${SECRET_FIELDS} ${extraFields}`.trim());
+    if (!user) {
+        throw new AppError(404, 'User not found');
+    }
+    return user;
+};
+
+const recordAudit = async (user: IUserDocument, action: string, context: RequestContext, details?: Record<string, unknown>) => {
+    await AuditLogService.record({
+        userId: user._id.toString(),
+        userName: user.name,
+        action,
+        resource: 'user',
+        resourceId: user._id.toString(),
+        details,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent ?? undefined,
+        timestamp: new Date(),
+    });
+};
+
+export class TwoFactorService {
+    static isRequiredFor(role: UserRole): boolean {
+        return config.auth.twoFactor.requiredRoles.includes(role);
+    }
+
+    /**
+     * Whether signing in needs a second step, and which one
+     */
+    static challengePurposeFor(user: IUserDocument): MfaChallengePurpose | null {
+        if (user.twoFactor?.enabled) {
+            return 'verify';
+        }
+        return TwoFactorService.isRequiredFor(user.role) ? 'enroll' : null;
+    }
+
+    /**
+     * Start a login challenge. Issuing a new one invalidates any earlier one.
+     */
+    static async createChallenge(user: IUserDocument, purpose: MfaChallengePurpose): Promise<TwoFactorChallenge> {
+        const challengeId = nanoid();
+
+        await User.updateOne(
+            { _id: user._id },
+            { $set: { 'twoFactor.challengeId': challengeId, 'twoFactor.challengeAttempts': 0 } }
+        );
+
+        return {
+            challengeToken: JWTService.generateMfaChallengeToken(user._id.toString(), purpose, challengeId),
+            purpose,
+        };
+    }
+
+    /**
+     * Load the user behind a challenge that is still outstanding
+     */
+    static async resolveChallenge(challengeToken: string, purpose: MfaChallengePurpose): Promise<IUserDocument> {
+        let payload;
+        try {
+            payload = JWTService.verifyMfaChallengeToken(challengeToken);
+        } catch {
+            throw new AppError(401, 'Two-factor challenge is invalid or has expired. Please sign in again.');
+        }
+
+        if (payload.purpose !== purpose) {
+            throw new AppError(400, 'Two-factor challenge does not match this step');
+        }
+
+        const user = await findWithSecrets(payload.userId);
+        if (!user.isActive || user.twoFactor?.challengeId !== payload.challengeId) {
+            throw new AppError(401, 'Two-factor challenge is invalid or has expired. Please sign in again.');
+        }
+
+        return user;
+    }
+
+    /**
+     * Mark a challenge as used, so its token cannot be exchanged again
+     */
+    static async consumeChallenge(user: IUserDocument): Promise<void> {
+        await User.updateOne(
+            { _id: user._id },
+            { $unset: { 'twoFactor.challengeId': 1, 'twoFactor.challengeAttempts': 1 } }
+        );
+    }
+
+    /**
+     * Check a TOTP or recovery code for a login challenge. Repeated failures
+     * end the challenge, so the password has to be entered again.
+     */
+    static async verifyChallenge(user: IUserDocument, factor: SecondFactor, context: RequestContext): Promise<void> {
+        const accepted = await TwoFactorService.checkSecondFactor(user, factor, context);
+
+        if (!accepted) {
+            const attempts = (user.twoFactor?.challengeAttempts ?? 0) + 1;
+            const exhausted = attempts >= config.auth.twoFactor.maxChallengeAttempts;
+
+            await User.updateOne(
+                { _id: user._id },
+                exhausted
+                    ? { $unset: { 'twoFactor.challengeId': 1, 'twoFactor.challengeAttempts': 1 } }
+                    : { $set: { 'twoFactor.challengeAttempts': attempts } }
+            );
+            await recordAudit(user, 'TWO_FACTOR_FAILED', context, { attempts });
+
+            throw new AppError(
+                401,
+                exhausted ? 'Too many invalid codes. Please sign in again.' : 'Invalid authentication code'
+            );
+        }
+
+        await TwoFactorService.consumeChallenge(user);
+    }
+
+    /**
+     * Generate a secret to enroll; it only takes effect once a code from it is confirmed
+     */
+    static async beginSetup(userId: string): Promise<TwoFactorSetup> {
+        const user = await findWithSecrets(userId);
+        if (user.twoFactor?.enabled) {
+            throw new AppError(409, 'Two-factor authentication is already enabled');
+        }
+
+        const secret = generateTotpSecret();
+        await User.updateOne({ _id: user._id }, { $set: { 'twoFactor.pendingSecret': encryptData(secret) } });
+
+        return {
+            secret,
+            otpauthUri: buildOtpauthUri(secret, user.email, config.auth.twoFactor.issuer),
+        };
+    }
+
+    /**
+     * Confirm the pending secret with a code from the app and return the
+     * recovery codes, which are shown only this once
+     */
+    static async enable(userId: string, code: string, context: RequestContext): Promise<string[]> {
+        const user = await findWithSecrets(userId);
+        if (user.twoFactor?.enabled) {
+            throw new AppError(409, 'Two-factor authentication is already enabled');
+        }
+        if (!user.twoFactor?.pendingSecret) {
+            throw new AppError(400, 'Start two-factor setup before confirming it');
+        }
+
+        const secret = decryptData(user.twoFactor.pendingSecret);
+        const step = verifyTotp(secret, code);
+        if (step === null) {
+            throw new AppError(400, 'Invalid authentication code');
+        }
+
+        const recoveryCodes = generateRecoveryCodes();
+        await User.updateOne(
+            { _id: user._id },
+            {
+                $set: {
+                    'twoFactor.enabled': true,
+                    'twoFactor.enabledAt': new Date(),
+                    'twoFactor.secret': user.twoFactor.pendingSecret,
+                    'twoFactor.recoveryCodes': recoveryCodes.map((recoveryCode) =>
+                        hashToken(normalizeRecoveryCode(recoveryCode))
+                    ),
+                    'twoFactor.lastUsedStep': step,
+                },
+                $unset: { 'twoFactor.pendingSecret': 1 },
+            }
+        );
+
+        await recordAudit(user, 'TWO_FACTOR_ENABLED', context);
+
+        return recoveryCodes;
+    }
+
+    /**
+     * Turn two-factor off; requires the password and a current code, and is
+     * refused for roles that must use it
+     */
+    static async disable(userId: string, password: string, factor: SecondFactor, context: RequestContext): Promise<void> {
+        const user = await findWithSecrets(userId, '+password');
+
+        if (TwoFactorService.isRequiredFor(user.role)) {
+            throw new AppError(403, 'Two-factor authentication is required for your role');
+        }
+        if (!user.twoFactor?.enabled) {
+            throw new AppError(400, 'Two-factor authentication is not enabled');
+        }
+        if (!(await user.comparePassword(password))) {
+            throw new AppError(401, 'Password is incorrect');
+        }
+        if (!(await TwoFactorService.checkSecondFactor(user, factor, context))) {
+            throw new AppError(401, 'Invalid authentication code');
+        }
+
+        await User.updateOne(
+            { _id: user._id },
+            {
+                $set: { 'twoFactor.enabled': false },
+                $unset: {
+                    'twoFactor.enabledAt': 1,
+                    'twoFactor.secret': 1,
+                    'twoFactor.recoveryCodes': 1,
+                    'twoFactor.lastUsedStep': 1,
+                },
+            }
+        );
+
+        await recordAudit(user, 'TWO_FACTOR_DISABLED', context);
+    }
+
+    /**
+     * Replace all recovery codes after checking a current TOTP code
+     */
+    static async regenerateRecoveryCodes(userId: string, code: string, context: RequestContext): Promise<string[]> {
+        const user = await findWithSecrets(userId);
+
+        if (!user.twoFactor?.enabled) {
+            throw new AppError(400, 'Two-factor authentication is not enabled');
+        }
+        if (!(await TwoFactorService.checkSecondFactor(user, { code }, context))) {
+            throw new AppError(401, 'Invalid authentication code');
+        }
+
+        const recoveryCodes = generateRecoveryCodes();
+        await User.updateOne(
+            { _id: user._id },
+            {
+                $set: {
+                    'twoFactor.recoveryCodes': recoveryCodes.map((recoveryCode) =>
+                        hashToken(normalizeRecoveryCode(recoveryCode))
+                    ),
+                },
+            }
+        );
+
+        await recordAudit(user, 'TWO_FACTOR_RECOVERY_CODES_REGENERATED', context);
+
+        return recoveryCodes;
+    }
+
+    static async getStatus(userId: string) {
+        const user = await findWithSecrets(userId);
+
+        return {
+            enabled: !!user.twoFactor?.enabled,
+            enabledAt: user.twoFactor?.enabledAt,
+            required: TwoFactorService.isRequiredFor(user.role),
+            recoveryCodesRemaining: user.twoFactor?.recoveryCodes?.length ?? 0,
+        };
+    }
+
+    /**
+     * Accept a TOTP code newer than the last one used, or consume a recovery code
+     */
+    private static async checkSecondFactor(
+        user: IUserDocument,
+        factor: SecondFactor,
+        context: RequestContext
+    ): Promise<boolean> {
+        if (!user.twoFactor?.enabled || !user.twoFactor.secret) {
+            return false;
+        }
+
+        if (factor.code) {
+            const step = verifyTotp(decryptData(user.twoFactor.secret), factor.code);
+            if (step === null) {
+                return false;
+            }
+
+            // Conditional on the last step, so concurrent requests cannot both use the code
+            const result = await User.updateOne(
+                {
+                    _id: user._id,
+                    $or: [
+                        { 'twoFactor.lastUsedStep': { $exists: false } },
+                        { 'twoFactor.lastUsedStep': { $lt: step } },
+                    ],
+                },
+                { $set: { 'twoFactor.lastUsedStep': step } }
+            );
+            return result.modifiedCount === 1;
+        }
+
+        if (factor.recoveryCode) {
+            const digest = hashToken(normalizeRecoveryCode(factor.recoveryCode));
+            const result = await User.updateOne(
+                { _id: user._id, 'twoFactor.recoveryCodes': digest },
+                { $pull: { 'twoFactor.recoveryCodes': digest } }
+            );
+            if (result.modifiedCount !== 1) {
+                return false;
+            }
+
+            await recordAudit(user, 'TWO_FACTOR_RECOVERY_CODE_USED', context, {
+                remaining: (user.twoFactor.recoveryCodes?.length ?? 1) - 1,
+            });
+            return true;
+        }
+
+        return false;
+    }
+}
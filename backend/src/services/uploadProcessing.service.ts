@@ -0,0 +1,170 @@
+import crypto from 'crypto';
+import path from 'path';
+import { User } from '../models/index.js';
+import { AppError } from '../middleware/errorHandler.middleware.js';
+import { SNIFF_BYTES, matchesDeclaredType } from '../utils/fileSniff.util.js';
+import { CaptureMetadata, createThumbnail, normalizeImage } from '../utils/image.util.js';
+import { AuditLogService } from './auditLog.service.js';
+import { FileRegistryService } from './fileRegistry.service.js';
+import { ScannerService } from './scanner.service.js';
+import { StorageService } from './storage.service.js';
+
+interface ProcessUploadInput {
+    fileId: string;
+    category: string;
+    filename: string;
+    // Type the upload URL was issued for
+    mimeType: string;
+    body: Buffer;
+    // Where a direct-to-storage upload put the raw bytes; replaced by the processed file
+    sourceKey?: string;
+}
+
+export interface ProcessedUpload {
+    fileId: string;
+    filename: string;
+    url: string;
+    thumbnailUrl?: string;
+    size: number;
+    mimeType: string;
+    sha256: string;
+    capture?: CaptureMetadata;
+    uploadedAt: Date;
+}
+
+const IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/heic', 'image/heif'];
+
+const thumbnailKeyFor = (fileId: string) => `thumbnails/${fileId}.jpg`;
+
+export class UploadProcessingService {
+    /**
+     * Everything an upload goes through before it can be served: the bytes
+     * must match the declared type, pass the malware scan, and photos are
+     * re-encoded without EXIF (HEIC becoming JPEG) and given a thumbnail
+     */
+    static async process(input: ProcessUploadInput): Promise<ProcessedUpload> {
+        const { fileId, category, body, sourceKey } = input;
+        const driver = StorageService.getDriver();
+
+        if (!matchesDeclaredType(body.subarray(0, SNIFF_BYTES), input.mimeType)) {
+            if (sourceKey) {
+                await driver.delete(sourceKey);
+            }
+            throw new AppError(415, `File content is not ${input.mimeType}`);
+        }
+
+        const scanner = ScannerService.getScanner();
+        let result;
+        try {
+            result = await scanner.scan(body);
+        } catch (error) {
+            // Fail closed: an unscanned file is never stored as clean
+            console.error(`[Upload] Malware scan of ${fileId} failed:`, error);
+            throw new AppError(503, 'Malware scanner unavailable, please retry the upload');
+        }
+        const scan = { scanner: scanner.name, scannedAt: new Date(), signature: result.signature };
+
+        if (!result.clean) {
+            await UploadProcessingService.quarantine(input, scan);
+            throw new AppError(422, 'File was flagged by the malware scanner and has been quarantined');
+        }
+
+        let stored = { body, mimeType: input.mimeType, filename: input.filename };
+        let image;
+        let thumbnailKey: string | undefined;
+
+        if (IMAGE_TYPES.includes(input.mimeType)) {
+            let normalized;
+            try {
+                normalized = await normalizeImage(body, input.mimeType);
+            } catch (error) {
+                console.error(`[Upload] Could not decode image ${fileId}:`, error);
+                if (sourceKey) {
+                    await driver.delete(sourceKey);
+                }
+                throw new AppError(415, 'Image could not be decoded');
+            }
+
+            const { name } = path.parse(input.filename);
+            stored = { body: normalized.body, mimeType: normalized.mimeType, filename: `${name}${normalized.extension}` };
+            image = {
+                width: normalized.width,
+                height: normalized.height,
+                ...normalized.capture,
+                convertedFrom: normalized.convertedFrom,
+            };
+
+            thumbnailKey = thumbnailKeyFor(fileId);
+            await driver.put(thumbnailKey, await createThumbnail(normalized.body), 'image/jpeg');
+        }
+
+        const key = StorageService.keyFor(category, fileId, stored.filename);
+        const sha256 = crypto.createHash('sha256').update(stored.body).digest('hex');
+
+        await driver.put(key, stored.body, stored.mimeType);
+        if (sourceKey && sourceKey !== key) {
+            await driver.delete(sourceKey);
+        }
+
+        await FileRegistryService.recordUpload(fileId, {
+            key,
+            filename: stored.filename,
+            mimeType: stored.mimeType,
+            size: stored.body.length,
+            sha256,
+            thumbnailKey,
+            image,
+            scan,
+        });
+
+        return {
+            fileId,
+            filename: stored.filename,
+            url: `/api/files/${category}/${fileId}`,
+            thumbnailUrl: thumbnailKey ? `/api/files/${category}/${fileId}/thumbnail` : undefined,
+            size: stored.body.length,
+            mimeType: stored.mimeType,
+            sha256,
+            capture: image && {
+                capturedAt: image.capturedAt,
+                latitude: image.latitude,
+                longitude: image.longitude,
+                altitude: image.altitude,
+            },
+            uploadedAt: new Date(),
+        };
+    }
+
+    /**
+     * Move flagged bytes out of the served key space, where only an admin
+     * can look at them
+     */
+    private static async quarantine(
+        input: ProcessUploadInput,
+        scan: { scanner: string; scannedAt: Date; signature?: string }
+    ): Promise<void> {
+        const driver = StorageService.getDriver();
+        const key = `quarantine/${StorageService.keyFor(input.category, input.fileId, input.filename)}`;
+
+        await driver.put(key, input.body, 'application/octet-stream');
+        if (input.sourceKey) {
+            await driver.delete(input.sourceKey);
+        }
+        await FileRegistryService.quarantine(input.fileId, key, scan);
+
+        const record = await FileRegistryService.getRecord(input.fileId);
+        const uploader = record ? await User.findById(record.uploadedBy).select('name') : null;
+
+        await AuditLogService.record({
+            userId: record?.uploadedBy || 'unknown',
+            userName: uploader?.name || 'Unknown uploader',
+            action: 'FILE_QUARANTINED',
+            resource: 'file',
+            resourceId: input.fileId,
+            details: { category: input.category, filename: input.filename, scanner: scan.scanner, signature: scan.signature },
+            timestamp: new Date(),
+        });
+
+        console.warn(`[Upload] Quarantined ${input.fileId}: ${scan.signature || 'flagged'} (${scan.scanner})`);
+    }
+}
@@ -0,0 +1,273 @@
+import { User } from '../models/index.js';
+import type { IUserDocument } from '../models/index.js';
+import { AuditLogService } from './auditLog.service.js';
+import { SessionService } from './session.service.js';
+import { LoginProtectionService } from './loginProtection.service.js';
+import { AppError } from '../middleware/errorHandler.middleware.js';
+import { disconnectUser } from '../socket/io.js';
+import { PaginatedResponse, UserRole } from '../types/index.js';
+
+interface AuthUser {
+    userId: string;
+    name: string;
+    role: UserRole;
+}
+
+interface ListUsersInput {
+    page?: number;
+    limit?: number;
+    role?: UserRole;
+    isActive?: boolean;
+    search?: string;
+}
+
+interface CreateUserInput {
+    payload: {
+        email: string;
+        password: string;
+        name: string;
+        role: UserRole;
+        organization?: string;
+        phone?: string;
+        address?: string;
+    };
+    user: AuthUser;
+    ipAddress?: string;
+    userAgent?: string | null;
+}
+
+interface UserActionInput {
+    id: string;
+    user: AuthUser;
+    ipAddress?: string;
+    userAgent?: string | null;
+}
+
+interface ChangeRoleInput extends UserActionInput {
+    role: UserRole;
+}
+
+interface SetActiveInput extends UserActionInput {
+    isActive: boolean;
+}
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const findUserOrFail = async (id: string): Promise<IUserDocument> => {
+    const user = await User.findById(id);
+    if (!user) {
+        throw new AppError(404, 'User not found');
+    }
+    return user;
+};
+
+/**
+ * Refuse a change that would leave no active admin to undo it
+ */
+const assertNotLastAdmin = async (target: IUserDocument) => {
+    if (target.role !== 'admin' || !target.isActive) {
+        return;
+    }
+
+    const otherAdmins = await User.countDocuments({ role: 'admin', isActive: true, _id: { $ne: target._id } });
+    if (otherAdmins === 0) {
+        throw new AppError(409, 'At least one active admin must remain');
+    }
+};
+
+/**
+ * Close every device session and open socket, so the user has to sign in again
+ */
+const revokeSessions = async (userId: string) => {
+    await SessionService.revokeAll(userId);
+    disconnectUser(userId);
+};
+
+export class UserService {
+    static async listUsers(input: ListUsersInput): Promise<PaginatedResponse<IUserDocument>> {
+        const { page = 1, limit = 20, role, isActive, search } = input;
+        const query: Record<string, unknown> = {};
+
+        if (role) query.role = role;
+        if (isActive !== undefined) query.isActive = isActive;
+        if (search) {
+            const pattern = new RegExp(escapeRegex(search), 'i');
+            query.$or = [{ name: pattern }, { email: pattern }, { organization: pattern }];
+        }
+
+        const skip = (page - 1) * limit;
+        const [users, total] = await Promise.all([
+            User.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit),
+            User.countDocuments(query),
+        ]);
+
+        return {
+            data: users,
+            total,
+            page,
+            pageSize: limit,
+            totalPages: Math.ceil(total / limit),
+        };
+    }
+
+    static async getUser(id: string): Promise<IUserDocument> {
+        return findUserOrFail(id);
+    }
+
+    /**
+     * Create an account with any role, including those self-registration
+     * does not allow
+     */
+    static async createUser(input: CreateUserInput): Promise<IUserDocument> {
+        const { payload, user, ipAddress, userAgent } = input;
+
+        const existingUser = await User.findOne({ email: payload.email });
+        if (existingUser) {
+            throw new AppError(409, 'User with this email already exists');
+        }
+
+        const created = await User.create({
+            ...payload,
+            isActive: true,
+            // The admin vouches for the address
+            isVerified: true,
+        });
+
+        await AuditLogService.record({
+            userId: user.userId,
+            userName: user.name,
+            action: 'USER_CREATED',
+            resource: 'user',
+            resourceId: created.id,
+            details: { email: created.email, role: created.role },
+            ipAddress,
+            userAgent: userAgent ?? undefined,
+            timestamp: new Date(),
+        });
+
+        return created;
+    }
+
+    static async changeRole(input: ChangeRoleInput): Promise<IUserDocument> {
+        const { id, role, user, ipAddress, userAgent } = input;
+
+        if (id === user.userId) {
+            throw new AppError(400, 'You cannot change your own role');
+        }
+
+        const target = await findUserOrFail(id);
+        const previousRole = target.role;
+        if (previousRole === role) {
+            return target;
+        }
+        if (role !== 'admin') {
+            await assertNotLastAdmin(target);
+        }
+
+        target.role = role;
+        await target.save();
+        // Tokens and socket rooms carry the role, and the new role may require two-factor enrollment at sign-in
+        await revokeSessions(id);
+
+        await AuditLogService.record({
+            userId: user.userId,
+            userName: user.name,
+            action: 'USER_ROLE_CHANGED',
+            resource: 'user',
+            resourceId: id,
+            details: { email: target.email, previousRole, role },
+            ipAddress,
+            userAgent: userAgent ?? undefined,
+            timestamp: new Date(),
+        });
+
+        return target;
+    }
+
+    /**
+     * Activate or deactivate an account. Deactivation takes effect on the
+     * user's next request and revokes their sessions.
+     */
+    static async setActive(input: SetActiveInput): Promise<IUserDocument> {
+        const { id, isActive, user, ipAddress, userAgent } = input;
+
+        if (id === user.userId && !isActive) {
+            throw new AppError(400, 'You cannot deactivate your own account');
+        }
+
+        const target = await findUserOrFail(id);
+        if (target.isActive === isActive) {
+            return target;
+        }
+        if (!isActive) {
+            await assertNotLastAdmin(target);
+        }
+
+        target.isActive = isActive;
+        await target.save();
+        if (!isActive) {
+            await revokeSessions(id);
+        }
+
+        await AuditLogService.record({
+            userId: user.userId,
+            userName: user.name,
+            action: isActive ? 'USER_ACTIVATED' : 'USER_DEACTIVATED',
+            resource: 'user',
+            resourceId: id,
+            details: { email: target.email },
+            ipAddress,
+            userAgent: userAgent ?? undefined,
+            timestamp: new Date(),
+        });
+
+        return target;
+    }
+
+    static async forceLogout(input: UserActionInput): Promise<void> {
+        const { id, user, ipAddress, userAgent } = input;
+
+        const target = await findUserOrFail(id);
+        await revokeSessions(id);
+
+        await AuditLogService.record({
+            userId: user.userId,
+            userName: user.name,
+            action: 'USER_SESSIONS_REVOKED',
+            resource: 'user',
+            resourceId: id,
+            details: { email: target.email },
+            ipAddress,
+            userAgent: userAgent ?? undefined,
+            timestamp: new Date(),
+        });
+    }
+
+    /**
+     * Lift a sign-in lockout caused by failed password attempts
+     */
+    static async unlock(input: UserActionInput): Promise<IUserDocument> {
+        const { id, user, ipAddress, userAgent } = input;
+
+        const target = await findUserOrFail(id);
+        const wasLocked = !!target.lockedUntil && target.lockedUntil > new Date();
+        const unlocked = await LoginProtectionService.unlockAccount(id);
+        if (!unlocked) {
+            throw new AppError(404, 'User not found');
+        }
+
+        await AuditLogService.record({
+            userId: user.userId,
+            userName: user.name,
+            action: 'USER_UNLOCKED',
+            resource: 'user',
+            resourceId: id,
+            details: { email: target.email, wasLocked },
+            ipAddress,
+            userAgent: userAgent ?? undefined,
+            timestamp: new Date(),
+        });
+
+        return unlocked;
+    }
+}
@@ -1,13 +1,20 @@
-import { IssuanceJob, Certificate, Revocation, Batch, Inspection, Notification } from '../models/index.js';
+import type { FilterQuery } from 'mongoose';
+import { IssuanceJob, Certificate, Revocation, Batch, Inspection, WorkerHeartbeat } from '../models/index.js';
+import type { IIssuanceJobDocument } from '../models/index.js';
 import { verifyService } from './verify.service.js';
+import { StatusListService } from './statusList.service.js';
+import { NotificationService } from './notification.service.js';
+import { AuditLogService } from './auditLog.service.js';
 import type { WebhookPayload } from './injiClient.service.js';
 import { AppError } from '../middleware/errorHandler.middleware.js';
-import { UserRole } from '../types/index.js';
+import { UserRole, PaginatedResponse } from '../types/index.js';
+import { inOrganizationScope, organizationFilter } from '../utils/organizationScope.util.js';
 
 interface AuthUser {
     userId: string;
     name: string;
     role: UserRole;
+    organizationId?: string;
 }
 
 interface IssueVCInput {
@@ -18,14 +25,34 @@ interface IssueVCInput {
 
 interface GetJobStatusInput {
     jobId: string;
+    user: AuthUser;
+}
+
+interface ListJobsInput {
+    user: AuthUser;
+    page?: number;
+    limit?: number;
+    status?: IIssuanceJobDocument['status'];
+    batchId?: string;
+    minAgeMinutes?: number;
+    maxAgeMinutes?: number;
+}
+
+interface ManageJobInput {
+    jobId: string;
+    user: AuthUser;
+    ipAddress?: string;
+    userAgent?: string | null;
 }
 
 interface GetCertificateInput {
     id: string;
+    user: AuthUser;
 }
 
 interface GetCertificateByBatchInput {
     batchId: string;
+    user: AuthUser;
 }
 
 interface GetFarmerCertificatesInput {
@@ -50,6 +77,10 @@ interface HandleWebhookInput {
     payload: WebhookPayload;
 }
 
+interface GetVCStatsInput {
+    user: AuthUser;
+}
+
 export class VCService {
     static async issueVC(input: IssueVCInput) {
         const { batchId, inspectionId, user } = input;
@@ -59,6 +90,10 @@ export class VCService {
             throw new AppError(404, 'Batch not found');
         }
 
+        if (!inOrganizationScope(user, batch.organizationId)) {
+            throw new AppError(403, 'Batch is submitted to another organization');
+        }
+
         let inspection = null;
         if (inspectionId) {
             inspection = await Inspection.findById(inspectionId);
@@ -94,6 +129,7 @@ export class VCService {
 
         const job = await IssuanceJob.create({
             batchId,
+            organizationId: batch.organizationId,
             inspectionId,
             status: 'pending',
             payload: {
@@ -114,13 +150,152 @@ export class VCService {
     }
 
     static async getJobStatus(input: GetJobStatusInput) {
-        const job = await IssuanceJob.findById(input.jobId);
+        const { jobId, user } = input;
+
+        const job = await IssuanceJob.findById(jobId);
+        if (!job) {
+            throw new AppError(404, 'Job not found');
+        }
+
+        if (!inOrganizationScope(user, job.organizationId)) {
+            throw new AppError(403, 'Job belongs to another organization');
+        }
+
+        if (user.role === 'farmer' && !(await Batch.exists({ _id: job.batchId, farmerId: user.userId }))) {
+            throw new AppError(403, 'Access denied');
+        }
+
+        return job;
+    }
+
+    /**
+     * List issuance jobs, newest first. Age bounds are in minutes since the job was queued.
+     */
+    static async listJobs(input: ListJobsInput): Promise<PaginatedResponse<Record<string, unknown>>> {
+        const { user, page = 1, limit = 20, status, batchId, minAgeMinutes, maxAgeMinutes } = input;
+
+        const query: FilterQuery<IIssuanceJobDocument> = organizationFilter(user);
+        if (status) query.status = status;
+        if (batchId) query.batchId = batchId;
+
+        const now = Date.now();
+        if (minAgeMinutes !== undefined || maxAgeMinutes !== undefined) {
+            const createdAt: { $lte?: Date; $gte?: Date } = {};
+            if (minAgeMinutes !== undefined) {
+                createdAt.$lte = new Date(now - minAgeMinutes * 60 * 1000);
+            }
+            if (maxAgeMinutes !== undefined) {
+                createdAt.$gte = new Date(now - maxAgeMinutes * 60 * 1000);
+            }
+            query.createdAt = createdAt;
+        }
+
+        const [jobs, total] = await Promise.all([
+            IssuanceJob.find(query)
+                .select('-payload')
+                .sort({ createdAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit),
+            IssuanceJob.countDocuments(query),
+        ]);
+
+        return {
+            data: jobs.map((job) => job.toJSON()),
+            total,
+            page,
+            pageSize: limit,
+            totalPages: Math.ceil(total / limit),
+        };
+    }
+
+    /**
+     * Requeue a failed, dead-lettered or cancelled job with a fresh attempt budget
+     */
+    static async retryJob(input: ManageJobInput) {
+        const { jobId, user, ipAddress, userAgent } = input;
+
+        const job = await IssuanceJob.findById(jobId);
         if (!job) {
             throw new AppError(404, 'Job not found');
         }
+
+        if (!inOrganizationScope(user, job.organizationId)) {
+            throw new AppError(403, 'Job belongs to another organization');
+        }
+
+        if (!job.canRetry()) {
+            throw new AppError(409, `Job cannot be retried while ${job.status}`);
+        }
+
+        const previousStatus = job.status;
+        await job.retry();
+
+        await AuditLogService.record({
+            userId: user.userId,
+            userName: user.name,
+            action: 'ISSUANCE_JOB_RETRIED',
+            resource: 'issuance_job',
+            resourceId: job.id,
+            details: { batchId: job.batchId, previousStatus, lastError: job.lastError },
+            ipAddress,
+            userAgent: userAgent ?? undefined,
+            timestamp: new Date(),
+        });
+
+        return job;
+    }
+
+    /**
+     * Cancel a job that is still waiting in the queue
+     */
+    static async cancelJob(input: ManageJobInput) {
+        const { jobId, user, ipAddress, userAgent } = input;
+
+        const existing = await IssuanceJob.findById(jobId);
+        if (!existing) {
+            throw new AppError(404, 'Job not found');
+        }
+
+        if (!inOrganizationScope(user, existing.organizationId)) {
+            throw new AppError(403, 'Job belongs to another organization');
+        }
+
+        const job = await IssuanceJob.cancelJob(jobId, user.userId);
+        if (!job) {
+            const current = await IssuanceJob.findById(jobId);
+            throw new AppError(409, `Only pending jobs can be cancelled (job is ${current?.status ?? existing.status})`);
+        }
+
+        await AuditLogService.record({
+            userId: user.userId,
+            userName: user.name,
+            action: 'ISSUANCE_JOB_CANCELLED',
+            resource: 'issuance_job',
+            resourceId: job.id,
+            details: { batchId: job.batchId, attempts: job.attempts },
+            ipAddress,
+            userAgent: userAgent ?? undefined,
+            timestamp: new Date(),
+        });
+
         return job;
     }
 
+    /**
+     * Status reported by issuance worker processes. A worker is considered
+     * stale once it misses three poll cycles plus one lease, since a cycle
+     * waits for its jobs to finish.
+     */
+    static async getWorkerStatus() {
+        const workers = await WorkerHeartbeat.find().sort({ lastSeenAt: -1 });
+        const now = Date.now();
+
+        return workers.map((worker) => ({
+            ...worker.toJSON(),
+            stale: now - worker.lastSeenAt.getTime() > worker.pollInterval * 3 + worker.leaseMs,
+        }));
+    }
+
     static async getCertificate(input: GetCertificateInput) {
         const certificate = await Certificate.findById(input.id)
             .populate('batchId', 'productType productName quantity unit farmerId farmerName')
@@ -130,6 +305,8 @@ export class VCService {
             throw new AppError(404, 'Certificate not found');
         }
 
+        VCService.assertCertificateAccess(certificate, input.user);
+
         return certificate;
     }
 
@@ -142,9 +319,28 @@ export class VCService {
             throw new AppError(404, 'Certificate not found for this batch');
         }
 
+        VCService.assertCertificateAccess(certificate, input.user);
+
         return certificate;
     }
 
+    /**
+     * Certificates are visible within the issuing organization, and to the farmer of the batch
+     */
+    private static assertCertificateAccess(
+        certificate: { organizationId?: string | null; batchId: unknown },
+        user: AuthUser
+    ): void {
+        if (!inOrganizationScope(user, certificate.organizationId)) {
+            throw new AppError(403, 'Certificate was issued by another organization');
+        }
+
+        const batch = certificate.batchId as { farmerId?: unknown } | null;
+        if (user.role === 'farmer' && String(batch?.farmerId) !== user.userId) {
+            throw new AppError(403, 'Access denied');
+        }
+    }
+
     static async getFarmerCertificates(input: GetFarmerCertificatesInput) {
         const batches = await Batch.find({
             farmerId: input.userId,
@@ -177,6 +373,10 @@ export class VCService {
             throw new AppError(404, 'Certificate not found');
         }
 
+        if (!inOrganizationScope(user, certificate.organizationId)) {
+            throw new AppError(403, 'Certificate was issued by another organization');
+        }
+
         if (certificate.revoked) {
             throw new AppError(409, 'Certificate is already revoked');
         }
@@ -188,6 +388,8 @@ export class VCService {
         certificate.revocationReason = reason;
         await certificate.save();
 
+        await VCService.flipStatusBit(certificate);
+
         const revocation = await Revocation.create({
             certificateId: certificate.id,
             providerVcId: certificate.providerVcId,
@@ -203,17 +405,17 @@ export class VCService {
 
         const batch = await Batch.findById(certificate.batchId);
         if (batch) {
-            await Notification.create({
+            await NotificationService.createNotification({
                 userId: batch.farmerId,
                 type: 'certificate_revoked',
                 title: 'Certificate Revoked',
                 message: `Your certificate for batch ${batch.id} (${batch.productName}) has been revoked. Reason: ${reason}`,
-                data: {
+                actionUrl: `/batches/${batch._id}`,
+                metadata: {
                     certificateId: certificate.id,
                     batchId: batch.id,
                     reason,
                 },
-                priority: 'high',
             });
         }
 
@@ -272,6 +474,8 @@ export class VCService {
             };
             await certificate.save();
 
+            await VCService.flipStatusBit(certificate);
+
             await Revocation.create({
                 certificateId: certificate.id,
                 providerVcId: certificate.providerVcId,
@@ -286,6 +490,21 @@ export class VCService {
         }
     }
 
+    /**
+     * Set the certificate's bit in its revocation status list
+     */
+    private static async flipStatusBit(certificate: { statusListId?: string; statusListIndex?: number }): Promise<void> {
+        if (!certificate.statusListId || certificate.statusListIndex === undefined) {
+            return;
+        }
+
+        await StatusListService.setStatus({
+            listId: certificate.statusListId,
+            index: certificate.statusListIndex,
+            revoked: true,
+        });
+    }
+
     private static async handleExpiredWebhook(payload: WebhookPayload): Promise<void> {
         const certificate = await Certificate.findOne({ providerVcId: payload.vcId });
         if (certificate) {
@@ -301,7 +520,8 @@ export class VCService {
         }
     }
 
-    static async getVCStats() {
+    static async getVCStats(input: GetVCStatsInput) {
+        const scope = organizationFilter(input.user);
         const [
             totalCertificates,
             activeCertificates,
@@ -310,12 +530,12 @@ export class VCService {
             pendingJobs,
             failedJobs,
         ] = await Promise.all([
-            Certificate.countDocuments(),
-            Certificate.countDocuments({ status: 'active', revoked: false }),
-            Certificate.countDocuments({ revoked: true }),
-            Certificate.countDocuments({ status: 'expired' }),
-            IssuanceJob.countDocuments({ status: 'pending' }),
-            IssuanceJob.countDocuments({ status: 'failed' }),
+            Certificate.countDocuments(scope),
+            Certificate.countDocuments({ ...scope, status: 'active', revoked: false }),
+            Certificate.countDocuments({ ...scope, revoked: true }),
+            Certificate.countDocuments({ ...scope, status: 'expired' }),
+            IssuanceJob.countDocuments({ ...scope, status: 'pending' }),
+            IssuanceJob.countDocuments({ ...scope, status: { $in: ['failed', 'dead_letter'] } }),
         ]);
 
         return {
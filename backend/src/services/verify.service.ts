@@ -1,8 +1,14 @@
-import crypto from 'crypto';
 import { injiClient } from './injiClient.service.js';
+import { localIssuer } from './localIssuer.service.js';
+import { didService } from './did.service.js';
+import { StatusListService } from './statusList.service.js';
 import { Certificate, Revocation } from '../models/index.js';
 import config from '../config/config.js';
+import { hashCredential } from '../utils/jcs.util.js';
+import type { FilterQuery } from 'mongoose';
 import type { VerifyVCResponse } from './injiClient.service.js';
+import type { SignatureCheck } from './localIssuer.service.js';
+import type { ICertificateDocument } from '../models/index.js';
 
 export interface VerifyRequest {
   vcJson?: Record<string, any>;
@@ -40,12 +46,15 @@ class VerifyService {
             vcUrl: vcUrl || undefined
           });
 
-          // Also check local revocation
+          // Also check local revocation and the status list
           const revocationResult = await this.checkRevocation(vcJson);
+          const statusResult = vcJson
+            ? await StatusListService.checkCredentialStatus(vcJson)
+            : { revoked: false };
 
           return {
             ...providerResult,
-            revoked: providerResult.revoked || revocationResult.revoked,
+            revoked: providerResult.revoked || revocationResult.revoked || statusResult.revoked,
             locallyVerified: false,
             revocationChecked: true,
             certificateId: revocationResult.certificateId,
@@ -88,26 +97,8 @@ class VerifyService {
       vcJson = request.vcJson;
     } else if (request.vcUrl) {
       vcUrl = request.vcUrl;
-      // In mock mode, simulate fetching VC from URL
-      if (config.features.inji.mockMode) {
-        // Create a mock VC based on the URL
-        vcJson = {
-          '@context': ['https://www.w3.org/2018/credentials/v1'],
-          type: ['VerifiableCredential', 'AgricultureQualityCertificate'],
-          issuer: 'did:example:agriqcert',
-          issuanceDate: new Date().toISOString(),
-          credentialSubject: {
-            id: 'did:agriqcert:mock-from-url',
-            type: 'MockCredentialFromURL'
-          },
-          proof: {
-            type: 'Ed25519Signature2020',
-            proofPurpose: 'assertionMethod',
-            verificationMethod: 'did:example:agriqcert#key-1',
-            proofValue: 'mock-signature-value-for-url-vc'
-          }
-        };
-      }
+      // Credentials issued by this backend can be verified from our stored copy
+      vcJson = await this.findStoredCredential({ vcUrl });
     } else if (request.qrPayload) {
       // Parse QR payload
       try {
@@ -117,26 +108,7 @@ class VerifyService {
         if (qrData.type === 'AgriQCert_Certificate' || qrData.type === 'AgriQCert') {
           if (qrData.url || qrData.vcUrl) {
             vcUrl = qrData.url || qrData.vcUrl;
-            // In mock mode, create VC from URL
-            if (config.features.inji.mockMode) {
-              vcJson = {
-                '@context': ['https://www.w3.org/2018/credentials/v1'],
-                type: ['VerifiableCredential', 'AgricultureQualityCertificate'],
-                issuer: 'did:example:agriqcert',
-                issuanceDate: new Date().toISOString(),
-                credentialSubject: {
-                  id: qrData.certId || 'did:agriqcert:qr-cert',
-                  batchId: qrData.batchId || qrData.certId,
-                  type: 'QRCredential'
-                },
-                proof: {
-                  type: 'Ed25519Signature2020',
-                  proofPurpose: 'assertionMethod',
-                  verificationMethod: 'did:example:agriqcert#key-1',
-                  proofValue: 'mock-signature-value-for-qr-vc'
-                }
-              };
-            }
+            vcJson = await this.findStoredCredential({ vcUrl: vcUrl!, providerVcId: qrData.id });
           }
         } else if (qrData.vc) {
           vcJson = qrData.vc;
@@ -156,6 +128,19 @@ class VerifyService {
     return { vcJson, vcUrl };
   }
 
+  /**
+   * Look up a credential issued by this backend by its URL or provider ID
+   */
+  private async findStoredCredential(query: { vcUrl: string; providerVcId?: string }): Promise<Record<string, any> | null> {
+    const conditions: FilterQuery<ICertificateDocument>[] = [{ vcUrl: query.vcUrl }];
+    if (query.providerVcId) {
+      conditions.push({ providerVcId: query.providerVcId });
+    }
+
+    const certificate = await Certificate.findOne({ $or: conditions });
+    return certificate ? certificate.toObject().vc : null;
+  }
+
   /**
    * Verify using Inji provider
    */
@@ -188,29 +173,38 @@ class VerifyService {
       };
     }
 
-    // Check revocation
+    // Check revocation, both in our records and in the credential's status list
     const revocationResult = await this.checkRevocation(vcJson);
+    const statusResult = await StatusListService.checkCredentialStatus(vcJson);
+    if (statusResult.error) {
+      errors.push(statusResult.error);
+    }
+    const revoked = revocationResult.revoked || statusResult.revoked;
 
     // Check expiration
     const isExpired = this.checkExpiration(vcJson);
 
-    // Verify signature (simplified for demo - in production would use cryptographic verification)
-    const signatureValid = this.verifySignatureLocally(vcJson);
+    // Verify the Ed25519 signature against the issuer's verification method
+    const signatureCheck = await this.verifySignatureLocally(vcJson);
+    const signatureValid = signatureCheck.valid;
+    if (!signatureCheck.valid && signatureCheck.reason) {
+      errors.push(signatureCheck.reason);
+    }
 
     // Validate issuer
-    const issuerValid = this.validateIssuer(vcJson);
+    const issuerValid = await this.validateIssuer(vcJson);
 
-    const valid = signatureValid && issuerValid && !isExpired && !revocationResult.revoked;
+    const valid = signatureValid && issuerValid && !isExpired && !revoked;
 
     return {
       valid,
       signatureValid,
-      revoked: revocationResult.revoked,
+      revoked,
       issuer: vcJson.issuer || '',
       issuanceDate: vcJson.issuanceDate || '',
       expirationDate: vcJson.expirationDate,
       credentialSubject: vcJson.credentialSubject || {},
-      details: this.buildVerificationDetails(valid, signatureValid, issuerValid, isExpired, revocationResult.revoked),
+      details: this.buildVerificationDetails(valid, signatureValid, issuerValid, isExpired, revoked),
       locallyVerified: true,
       revocationChecked: true,
       certificateId: revocationResult.certificateId,
@@ -262,11 +256,8 @@ class VerifyService {
       return { revoked: false };
     }
 
-    // Compute VC hash for revocation check
-    const vcHash = crypto
-      .createHash('sha256')
-      .update(JSON.stringify(vcJson))
-      .digest('hex');
+    // Compute VC hash for revocation check (JCS, so key order does not matter)
+    const vcHash = hashCredential(vcJson);
 
     try {
       // Check by VC hash
@@ -310,59 +301,23 @@ class VerifyService {
   }
 
   /**
-   * Simplified signature verification for local mode
+   * Cryptographic signature verification for local mode
    */
-  private verifySignatureLocally(vcJson: Record<string, any>): boolean {
-    // In a real implementation, this would:
-    // 1. Resolve the issuer DID to get public keys
-    // 2. Verify the proof using cryptographic libraries (e.g., jsonld-signatures)
-    // 3. Check proof purpose and verification method
-
-    // For demo purposes, we'll do basic checks
-    if (!vcJson.proof) {
-      return false;
-    }
-
-    const proof = vcJson.proof;
-
-    // Check proof structure
-    if (!proof.type || !proof.proofPurpose || !proof.verificationMethod) {
-      return false;
-    }
-
-    // Check that it's an assertion method
-    if (proof.proofPurpose !== 'assertionMethod') {
-      return false;
-    }
-
-    // In mock mode, accept any signature that looks valid
-    if (config.features.inji.mockMode && proof.proofValue && proof.proofValue.includes('mock')) {
-      return true;
-    }
-
-    // For real verification, implement proper signature checking here
-    // This is a simplified placeholder
-    return !!proof.proofValue;
+  private async verifySignatureLocally(vcJson: Record<string, any>): Promise<SignatureCheck> {
+    return localIssuer.verifyCredential(vcJson);
   }
 
   /**
-   * Validate issuer
+   * Validate issuer against the DID documents this backend publishes
    */
-  private validateIssuer(vcJson: Record<string, any>): boolean {
-    const issuer = vcJson.issuer;
+  private async validateIssuer(vcJson: Record<string, any>): Promise<boolean> {
+    const issuer = typeof vcJson.issuer === 'object' ? vcJson.issuer?.id : vcJson.issuer;
 
     if (!issuer) {
       return false;
     }
 
-    // Check if issuer is one of our known issuers
-    const knownIssuers = [
-      config.features.vc.issuerDid,
-      config.features.inji.issuerDid,
-      'did:example:agriqcert',
-    ];
-
-    return knownIssuers.includes(issuer);
+    return didService.isKnownIssuer(issuer);
   }
 
   /**
@@ -0,0 +1,75 @@
+import { emitToRooms, organizationRoleRoom, roleRoom, userRoom } from './io.js';
+import { BatchStatus, UserRole } from '../types/index.js';
+
+interface BatchStatusEvent {
+    batchId: string;
+    organizationId?: string;
+    farmerId: string;
+    productName: string;
+    status: BatchStatus;
+    previousStatus?: BatchStatus;
+}
+
+interface InspectionCompletedEvent {
+    inspectionId: string;
+    batchId: string;
+    organizationId?: string;
+    farmerId: string;
+    inspectorId: string;
+    classification: string;
+}
+
+interface JobProgressEvent {
+    jobId: string;
+    batchId: string;
+    organizationId?: string;
+    status: string;
+    attempts: number;
+    maxAttempts?: number;
+    nextRunAt?: Date;
+    lastError?: string;
+    certificateId?: string;
+    requestedBy?: string;
+}
+
+// Roles that act on a batch once it reaches each status, besides its farmer and admins
+const batchStatusAudience: Partial<Record<BatchStatus, UserRole[]>> = {
+    submitted: ['qa_inspector'],
+    inspecting: ['qa_inspector'],
+    approved: ['qa_inspector', 'certifier'],
+    rejected: ['qa_inspector', 'certifier'],
+    certified: ['certifier'],
+};
+
+/**
+ * Admins, and the given roles within the batch's own organization
+ */
+const staffRooms = (organizationId: string | undefined, roles: UserRole[]) => [
+    roleRoom('admin'),
+    ...roles.map((role) => organizationRoleRoom(organizationId, role)),
+];
+
+export const emitBatchStatus = (event: BatchStatusEvent) => {
+    emitToRooms(
+        [userRoom(event.farmerId), ...staffRooms(event.organizationId, batchStatusAudience[event.status] || [])],
+        'batch:status',
+        { ...event, changedAt: new Date() }
+    );
+};
+
+export const emitInspectionCompleted = (event: InspectionCompletedEvent) => {
+    emitToRooms(
+        [userRoom(event.farmerId), userRoom(event.inspectorId), ...staffRooms(event.organizationId, ['certifier'])],
+        'inspection:completed',
+        { ...event, completedAt: new Date() }
+    );
+};
+
+export const emitJobProgress = (event: JobProgressEvent) => {
+    const rooms = staffRooms(event.organizationId, ['certifier']);
+    if (event.requestedBy) {
+        rooms.push(userRoom(event.requestedBy));
+    }
+
+    emitToRooms(rooms, 'job:progress', event);
+};
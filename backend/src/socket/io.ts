@@ -1,4 +1,9 @@
 import { Server } from 'socket.io';
+import type { Socket } from 'socket.io';
+import { JWTService } from '../utils/jwt.util.js';
+import { User } from '../models/user.model.js';
+import { Session } from '../models/session.model.js';
+import { UserRole } from '../types/index.js';
 
 let ioInstance: Server | null = null;
 
@@ -19,6 +24,72 @@ const getAllowedOrigins = () => {
     return [];
 };
 
+interface SocketUser {
+    userId: string;
+    role: UserRole;
+    organizationId?: string;
+    sessionId?: string;
+}
+
+export const userRoom = (userId: string) => `user:${userId}`;
+export const roleRoom = (role: UserRole) => `role:${role}`;
+export const organizationRoom = (organizationId: string) => `org:${organizationId}`;
+// Users of one role within one organization; users outside any organization share `org:none`
+export const organizationRoleRoom = (organizationId: string | undefined, role: UserRole) =>
+    `org:${organizationId ?? 'none'}:role:${role}`;
+const sessionRoom = (sessionId: string) => `session:${sessionId}`;
+
+const getHandshakeToken = (socket: Socket): string | undefined => {
+    const authToken = socket.handshake.auth?.token;
+    if (typeof authToken === "string" && authToken) {
+        return authToken;
+    }
+
+    const authHeader = socket.handshake.headers.authorization;
+    if (authHeader && authHeader.startsWith("Bearer ")) {
+        return authHeader.substring(7);
+    }
+
+    const cookie = socket.handshake.headers.cookie
+        ?.split(";")
+        .map((part) => part.trim())
+        .find((part) => part.startsWith("agriqcert_access_token="));
+    return cookie ? decodeURIComponent(cookie.split("=").slice(1).join("=")) : undefined;
+};
+
+/**
+ * Accept only connections carrying a valid access token, and take the
+ * user's identity and rooms from the token rather than the client.
+ */
+const authenticateSocket = async (socket: Socket, next: (err?: Error) => void) => {
+    const token = getHandshakeToken(socket);
+    if (!token) {
+        return next(new Error("Access token is required"));
+    }
+
+    try {
+        const decoded = JWTService.verifyAccessToken(token);
+        const user = await User.findById(decoded.userId).select('+isActive');
+
+        if (!user || !user.isActive) {
+            return next(new Error("User not found or inactive"));
+        }
+        if (decoded.sid && !(await Session.exists({ _id: decoded.sid }))) {
+            return next(new Error("Session has been revoked"));
+        }
+
+        socket.data.user = {
+            userId: user._id.toString(),
+            role: user.role,
+            organizationId: user.organizationId,
+            sessionId: decoded.sid,
+        } satisfies SocketUser;
+        next();
+    } catch {
+        next(new Error("Invalid or expired token"));
+    }
+};
+
 export const initSocket = (httpServer: unknown) => {
     if (ioInstance) {
         return ioInstance;
@@ -38,17 +109,25 @@ export const initSocket = (httpServer: unknown) => {
         },
     });
 
+    ioInstance.use(authenticateSocket);
+
     ioInstance.on("connection", (socket) => {
-        const userId = socket.handshake.auth?.userId;
+        const user = socket.data.user as SocketUser;
 
         console.log("Socket client connected", {
             socketId: socket.id,
-            userId,
+            userId: user.userId,
             origin: socket.handshake.headers.origin,
         });
 
-        if (userId) {
-            socket.join(`user:${userId}`);
+        socket.join(userRoom(user.userId));
+        if (user.sessionId) {
+            socket.join(sessionRoom(user.sessionId));
+        }
+        socket.join(roleRoom(user.role));
+        socket.join(organizationRoleRoom(user.organizationId, user.role));
+        if (user.organizationId) {
+            socket.join(organizationRoom(user.organizationId));
         }
 
         socket.on("disconnect", (reason) => {
@@ -69,4 +148,49 @@ export const getIo = (): Server => {
     return ioInstance;
 };
 
+/**
+ * Whether this process runs the socket server
+ */
+export const hasSocketServer = (): boolean => ioInstance !== null;
+
+/**
+ * Emit an event to every socket of a user. A no-op in processes that do not
+ * run the socket server (e.g. the issuance worker).
+ */
+export const emitToUser = (userId: string, event: string, payload: unknown) => {
+    if (!ioInstance) {
+        return;
+    }
+    ioInstance.to(userRoom(userId)).emit(event, payload);
+};
+
+/**
+ * Emit an event once to every socket in any of the given rooms
+ */
+export const emitToRooms = (rooms: string[], event: string, payload: unknown) => {
+    if (!ioInstance || rooms.length === 0) {
+        return;
+    }
+    ioInstance.to(rooms).emit(event, payload);
+};
+
+/**
+ * Close every socket of a user, so they reconnect with their current role or
+ * are refused if their account is no longer active
+ */
+export const disconnectUser = (userId: string) => {
+    if (!ioInstance) {
+        return;
+    }
+    ioInstance.in(userRoom(userId)).disconnectSockets(true);
+};
 
+/**
+ * Close the sockets opened with one device session's tokens
+ */
+export const disconnectSession = (sessionId: string) => {
+    if (!ioInstance) {
+        return;
+    }
+    ioInstance.in(sessionRoom(sessionId)).disconnectSockets(true);
+};
@@ -0,0 +1,93 @@
+import config from '../config/config.js';
+import { IssuanceJob, Batch } from '../models/index.js';
+import { emitBatchStatus, emitJobProgress } from './events.js';
+
+/**
+ * Issuance workers run in their own processes without a socket server, so
+ * the API server polls for job changes and relays them to connected clients.
+ */
+class JobProgressRelay {
+  private timer: NodeJS.Timeout | null = null;
+  private cursor = new Date();
+  // Last relayed state of in-flight jobs, so lease heartbeats are not re-emitted
+  private processingStates = new Map<string, string>();
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.cursor = new Date();
+    this.schedule();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.relayChanges();
+      } catch (error) {
+        console.error('[JobProgressRelay] Failed to relay job changes:', error);
+      }
+
+      if (this.timer) {
+        this.schedule();
+      }
+    }, config.features.worker.progressRelayIntervalMs);
+  }
+
+  private async relayChanges(): Promise<void> {
+    const jobs = await IssuanceJob.find({ updatedAt: { $gt: this.cursor } })
+      .sort({ updatedAt: 1 })
+      .limit(100);
+
+    for (const job of jobs) {
+      this.cursor = job.updatedAt;
+
+      const state = `${job.status}:${job.attempts}`;
+      if (job.status === 'processing') {
+        if (this.processingStates.get(job.id) === state) {
+          continue;
+        }
+        this.processingStates.set(job.id, state);
+      } else {
+        this.processingStates.delete(job.id);
+      }
+
+      emitJobProgress({
+        jobId: job.id,
+        batchId: job.batchId,
+        organizationId: job.organizationId,
+        status: job.status,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        nextRunAt: job.nextRunAt,
+        lastError: job.lastError,
+        certificateId: job.result?.certificateId,
+        requestedBy: job.payload?.requestedBy,
+      });
+
+      if (job.status === 'success') {
+        const batch = await Batch.findById(job.batchId);
+        if (batch?.status === 'certified') {
+          emitBatchStatus({
+            batchId: batch._id.toString(),
+            organizationId: batch.organizationId,
+            farmerId: batch.farmerId,
+            productName: batch.productName,
+            status: 'certified',
+            previousStatus: 'approved',
+          });
+        }
+      }
+    }
+  }
+}
+
+export const jobProgressRelay = new JobProgressRelay();
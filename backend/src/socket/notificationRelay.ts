@@ -0,0 +1,64 @@
+import config from '../config/config.js';
+import { Notification } from '../models/index.js';
+import { emitToUser } from './io.js';
+
+/**
+ * Notifications created by issuance workers cannot be pushed where they are
+ * created, so the API server polls for them and pushes them to the recipients.
+ */
+class NotificationRelay {
+  private timer: NodeJS.Timeout | null = null;
+  // Older notifications are only listed, not pushed
+  private startedAt = new Date();
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.startedAt = new Date();
+    this.schedule();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.relayNotifications();
+      } catch (error) {
+        console.error('[NotificationRelay] Failed to relay notifications:', error);
+      }
+
+      if (this.timer) {
+        this.schedule();
+      }
+    }, config.features.worker.progressRelayIntervalMs);
+  }
+
+  private async relayNotifications(): Promise<void> {
+    const notifications = await Notification.find({ pendingPush: true, createdAt: { $gte: this.startedAt } })
+      .sort({ createdAt: 1 })
+      .limit(100);
+
+    if (notifications.length === 0) {
+      return;
+    }
+
+    for (const notification of notifications) {
+      emitToUser(notification.userId, 'notification:new', notification.toJSON());
+    }
+
+    await Notification.updateMany(
+      { _id: { $in: notifications.map((notification) => notification._id) } },
+      { $unset: { pendingPush: 1 } }
+    );
+  }
+}
+
+export const notificationRelay = new NotificationRelay();
@@ -1,22 +1,59 @@
 // User & Auth Types
 export type UserRole = 'farmer' | 'qa_inspector' | 'certifier' | 'admin' | 'verifier';
 
+export interface IUserTwoFactor {
+  enabled: boolean;
+  enabledAt?: Date;
+  secret?: string;
+  pendingSecret?: string;
+  recoveryCodes?: string[];
+  lastUsedStep?: number;
+  challengeId?: string;
+  challengeAttempts?: number;
+}
+
 export interface IUser {
   email: string;
   password: string;
   name: string;
   role: UserRole;
   avatar?: string;
+  // Display name; set from the organization for members
   organization?: string;
+  organizationId?: string;
+  organizationRole?: OrganizationRole;
   phone?: string;
   address?: string;
   isActive: boolean;
   isVerified: boolean;
   verificationToken?: string;
+  verificationTokenExpires?: Date;
   resetPasswordToken?: string;
   resetPasswordExpires?: Date;
   lastLogin?: Date;
-  refreshTokens: string[];
+  failedLoginAttempts?: number;
+  lastFailedLoginAt?: Date;
+  lockedUntil?: Date;
+  twoFactor?: IUserTwoFactor;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Organization Types
+export type OrganizationType = 'certification_body' | 'cooperative' | 'lab';
+
+export type OrganizationRole = 'owner' | 'admin' | 'member';
+
+export interface IOrganization {
+  name: string;
+  slug: string;
+  type: OrganizationType;
+  description?: string;
+  contactEmail?: string;
+  // Issuer DID for certificates this organization issues; the platform DID when unset
+  issuerDid?: string;
+  isActive: boolean;
+  createdBy: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -45,6 +82,8 @@ export interface IBatchAttachment {
 export interface IBatch {
   farmerId: string;
   farmerName: string;
+  // Certification body the batch is submitted to
+  organizationId?: string;
   productType: string;
   productName: string;
   quantity: number;
@@ -72,6 +111,27 @@ export interface IBatchDraft {
   expiresAt: Date;
 }
 
+// Assignment Types
+export type AssignmentStatus = 'pending' | 'accepted' | 'declined' | 'reassigned' | 'completed';
+
+export interface IBatchAssignment {
+  batchId: string;
+  organizationId?: string;
+  inspectorId: string;
+  inspectorName: string;
+  assignedBy: string;
+  assignedByName: string;
+  status: AssignmentStatus;
+  scheduledFor: Date;
+  notes?: string;
+  declineReason?: string;
+  respondedAt?: Date;
+  inspectionId?: string;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // Inspection Types
 export type InspectionStatus = 'pending' | 'in_progress' | 'completed' | 'failed';
 
@@ -105,6 +165,8 @@ export interface IFileMetadata {
   id: string;
   filename: string;
   url: string;
+  // Preview generated for photos
+  thumbnailUrl?: string;
   size: number;
   mimeType: string;
   uploadedAt: Date;
@@ -113,12 +175,78 @@ export interface IFileMetadata {
 
 export interface IInspectionOutcome {
   classification: 'pass' | 'fail' | 'conditional_pass' | 'requires_retest';
+  // Computed from the evaluation
   reasoning: string;
+  // The inspector's own explanation, kept apart from the computed reasoning
+  inspectorReasoning?: string;
   recommendations: string[];
   followUpRequired: boolean;
   complianceNotes: string;
 }
 
+// Quality Standard Types
+export interface IStandardParameter {
+  key: string;
+  label: string;
+  unit: string;
+  min?: number;
+  max?: number;
+  aliases: string[];
+}
+
+export interface IQualityStandard {
+  productType: string;
+  name: string;
+  description?: string;
+  version: number;
+  effectiveFrom: Date;
+  parameters: IStandardParameter[];
+  requiresOrganic: boolean;
+  requiredPhotos: string[];
+  requiredReadings: string[];
+  createdBy: string;
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Copy of a standard version stored on an inspection as `validationRules`
+export interface IStandardSnapshot {
+  standardId?: string;
+  productType: string;
+  name: string;
+  version: number;
+  effectiveFrom: Date;
+  parameters: IStandardParameter[];
+  requiresOrganic: boolean;
+  requiredPhotos: string[];
+  requiredReadings: string[];
+}
+
+export type EvaluationStatus = 'pass' | 'fail' | 'not_evaluated';
+
+export interface IEvaluationCheck {
+  source: 'reading' | 'quality' | 'required_reading' | 'required_photo';
+  parameter: string;
+  value?: number | string | boolean;
+  unit?: string;
+  min?: number;
+  max?: number;
+  status: EvaluationStatus;
+  reason: string;
+}
+
+export interface IInspectionEvaluation {
+  classification: 'pass' | 'fail';
+  productType: string;
+  standardId?: string;
+  standardVersion: number;
+  checks: IEvaluationCheck[];
+  requestedClassification?: IInspectionOutcome['classification'];
+  evaluatedAt: Date;
+  evaluatedBy: string;
+}
+
 export interface IGeoLocation {
   latitude: number;
   longitude: number;
@@ -126,20 +254,33 @@ export interface IGeoLocation {
   timestamp: Date;
 }
 
+// Distance between the inspector's device and the batch's farm location
+export interface IGeofenceCheck {
+  status: 'within' | 'outside' | 'low_accuracy' | 'unavailable';
+  distanceMeters?: number;
+  accuracyMeters?: number;
+  radiusMeters: number;
+  maxAccuracyMeters: number;
+  checkedAt: Date;
+}
+
 export interface IInspection {
   batchId: string;
+  organizationId?: string;
   inspectorId: string;
   inspectorName: string;
   status: InspectionStatus;
   readings: IInspectionReading[];
   qualityReadings: IQualityReading;
   geospatialData: IGeospatialData;
+  geofence?: IGeofenceCheck;
   photos: IFileMetadata[];
   labReports: IFileMetadata[];
   notes: string;
   completedAt?: Date;
   overallResult: 'pass' | 'fail' | 'pending';
   outcome?: IInspectionOutcome;
+  evaluation?: IInspectionEvaluation;
   draftSavedAt?: Date;
   validationRules?: Record<string, any>;
   createdAt: Date;
@@ -150,11 +291,19 @@ export interface IInspection {
 export type CertificateStatus = 'active' | 'revoked' | 'expired';
 
 export interface IVerifiableCredential {
+  id?: string;
   '@context': string[];
   type: string[];
   issuer: string;
   issuanceDate: string;
   expirationDate?: string;
+  credentialStatus?: {
+    id: string;
+    type: string;
+    statusPurpose: string;
+    statusListIndex: string;
+    statusListCredential: string;
+  };
   credentialSubject: {
     id: string;
     batchId: string;
@@ -171,16 +320,20 @@ export interface IVerifiableCredential {
     created: string;
     verificationMethod: string;
     proofPurpose: string;
+    proofValue?: string;
     jws?: string;
   };
 }
 
 export interface ICertificate {
   batchId: string;
+  organizationId?: string;
   vc: IVerifiableCredential;
   providerVcId?: string;
   vcUrl?: string;
   vcHash?: string;
+  statusListId?: string;
+  statusListIndex?: number;
   qrCodeData: string;
   qrCodeImage?: string;
   status: CertificateStatus;
@@ -204,7 +357,9 @@ export type NotificationType =
   | 'certificate_revoked' 
   | 'action_required'
   | 'batch_approved'
-  | 'batch_rejected';
+  | 'batch_rejected'
+  | 'inspection_scheduled'
+  | 'security_alert';
 
 export interface INotification {
   userId: string;
@@ -214,12 +369,17 @@ export interface INotification {
   read: boolean;
   actionUrl?: string;
   metadata?: Record<string, any>;
+  // Created in a process without a socket server; the API server still has to push it
+  pendingPush?: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
 // Audit Log Types
 export interface IAuditLog {
+  sequence?: number;
+  prevHash?: string;
+  hash?: string;
   userId: string;
   userName: string;
   action: string;
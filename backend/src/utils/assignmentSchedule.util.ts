@@ -0,0 +1,34 @@
+import { AssignmentStatus } from '../types/index.js';
+
+// Statuses that hold the batch; at most one assignment per batch is in one of these
+export const ACTIVE_ASSIGNMENT_STATUSES: AssignmentStatus[] = ['pending', 'accepted'];
+
+// Visits cannot be booked further ahead than this
+export const MAX_SCHEDULE_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Why a visit cannot be scheduled for the given date, or null if it can.
+ * Any time on the current (UTC) day is accepted.
+ */
+export const scheduleError = (scheduledFor: Date, now: Date = new Date()): string | null => {
+  if (Number.isNaN(scheduledFor.getTime())) {
+    return 'Invalid scheduled date';
+  }
+
+  const startOfToday = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  if (scheduledFor.getTime() < startOfToday) {
+    return 'Scheduled date cannot be in the past';
+  }
+  if (scheduledFor.getTime() > startOfToday + (MAX_SCHEDULE_DAYS + 1) * DAY_MS) {
+    return `Visits can be scheduled at most ${MAX_SCHEDULE_DAYS} days ahead`;
+  }
+
+  return null;
+};
+
+/**
+ * Calendar date of the visit as shown in notifications, e.g. 2026-03-14
+ */
+export const formatVisitDate = (scheduledFor: Date): string => scheduledFor.toISOString().slice(0, 10);
@@ -0,0 +1,155 @@
+import crypto from 'crypto';
+import { canonicalize } from './jcs.util.js';
+
+// prevHash of the first entry in the chain
+export const GENESIS_HASH = '0'.repeat(64);
+
+export interface ChainedAuditEntry {
+  sequence: number;
+  prevHash: string;
+  hash: string;
+  userId: string;
+  userName: string;
+  action: string;
+  resource: string;
+  resourceId: string;
+  details?: Record<string, unknown>;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  timestamp: Date;
+}
+
+export type ChainIssueType = 'gap' | 'broken_link' | 'modified' | 'duplicate';
+
+export interface ChainIssue {
+  type: ChainIssueType;
+  sequence: number;
+  expectedSequence?: number;
+  message: string;
+}
+
+/**
+ * Reduce details to their JSON form, so the stored value and the hashed value
+ * are identical (undefined dropped, dates and ObjectIds as strings).
+ */
+export const normalizeAuditDetails = (details?: Record<string, unknown>): Record<string, unknown> =>
+  JSON.parse(JSON.stringify(details ?? {}));
+
+/**
+ * SHA-256 (hex) over the JCS form of an entry's content and its predecessor's hash
+ */
+export const computeAuditEntryHash = (entry: Omit<ChainedAuditEntry, 'hash'>): string =>
+  crypto
+    .createHash('sha256')
+    .update(
+      canonicalize({
+        sequence: entry.sequence,
+        prevHash: entry.prevHash,
+        timestamp: new Date(entry.timestamp).toISOString(),
+        userId: entry.userId,
+        userName: entry.userName,
+        action: entry.action,
+        resource: entry.resource,
+        resourceId: entry.resourceId,
+        details: entry.details ?? {},
+        ipAddress: entry.ipAddress ?? null,
+        userAgent: entry.userAgent ?? null,
+      })
+    )
+    .digest('hex');
+
+// Recent hashes kept for recognising copies left by an interrupted archival run
+const RECENT_HASH_WINDOW = 2000;
+// Issues listed in a report; further ones are only counted
+const MAX_REPORTED_ISSUES = 100;
+
+/**
+ * Incremental verifier for entries fed in ascending sequence order. Each entry
+ * must follow its predecessor without a gap, link to its hash, and hash to
+ * the value stored with it. Hashes at the `retain` sequences (checkpoints)
+ * stay available through `hashAt`.
+ */
+export const createChainVerifier = (retain: Iterable<number> = []) => {
+  let expectedSequence = 1;
+  let previousHash = GENESIS_HASH;
+  const retained = new Set(retain);
+  const retainedHashes = new Map<number, string>();
+  const seenHashes = new Map<number, string>();
+  const issues: ChainIssue[] = [];
+  let issueCount = 0;
+
+  const report = (issue: ChainIssue) => {
+    issueCount++;
+    if (issues.length < MAX_REPORTED_ISSUES) {
+      issues.push(issue);
+    }
+  };
+
+  return {
+    check(entry: ChainedAuditEntry): void {
+      // An entry can exist in both the live and archive collections when
+      // archival was interrupted; identical copies are not an issue
+      if (entry.sequence < expectedSequence) {
+        if (seenHashes.get(entry.sequence) !== entry.hash) {
+          report({
+            type: 'duplicate',
+            sequence: entry.sequence,
+            message: `Sequence ${entry.sequence} appears more than once with different content`,
+          });
+        }
+        return;
+      }
+
+      if (entry.sequence !== expectedSequence) {
+        report({
+          type: 'gap',
+          sequence: entry.sequence,
+          expectedSequence,
+          message: `Entries ${expectedSequence} to ${entry.sequence - 1} are missing`,
+        });
+      } else if (entry.prevHash !== previousHash) {
+        report({
+          type: 'broken_link',
+          sequence: entry.sequence,
+          message: `Entry ${entry.sequence} does not link to the hash of entry ${entry.sequence - 1}`,
+        });
+      }
+
+      if (computeAuditEntryHash(entry) !== entry.hash) {
+        report({
+          type: 'modified',
+          sequence: entry.sequence,
+          message: `Entry ${entry.sequence} does not match its stored hash`,
+        });
+      }
+
+      seenHashes.set(entry.sequence, entry.hash);
+      seenHashes.delete(entry.sequence - RECENT_HASH_WINDOW);
+      if (retained.has(entry.sequence)) {
+        retainedHashes.set(entry.sequence, entry.hash);
+      }
+      expectedSequence = entry.sequence + 1;
+      previousHash = entry.hash;
+    },
+
+    get headSequence(): number {
+      return expectedSequence - 1;
+    },
+
+    get headHash(): string {
+      return previousHash;
+    },
+
+    hashAt(sequence: number): string | undefined {
+      return retainedHashes.get(sequence) ?? seenHashes.get(sequence);
+    },
+
+    get issues(): ChainIssue[] {
+      return issues;
+    },
+
+    get issueCount(): number {
+      return issueCount;
+    },
+  };
+};
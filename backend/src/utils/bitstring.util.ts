@@ -0,0 +1,43 @@
+import zlib from 'zlib';
+
+/**
+ * Bitstring helpers for W3C Bitstring Status List.
+ * Index 0 is the left-most (most significant) bit of the first byte.
+ */
+export const createBitstring = (size: number): Buffer => Buffer.alloc(Math.ceil(size / 8));
+
+export const getBit = (bitstring: Buffer, index: number): boolean => {
+  const byte = bitstring[Math.floor(index / 8)];
+  if (byte === undefined) {
+    throw new RangeError(`Status list index ${index} is out of range`);
+  }
+  return (byte & (0x80 >> index % 8)) !== 0;
+};
+
+/**
+ * Return a copy of the bitstring with the bit at index set to value
+ */
+export const setBit = (bitstring: Buffer, index: number, value: boolean): Buffer => {
+  const position = Math.floor(index / 8);
+  if (position >= bitstring.length) {
+    throw new RangeError(`Status list index ${index} is out of range`);
+  }
+
+  const updated = Buffer.from(bitstring);
+  const mask = 0x80 >> index % 8;
+  updated[position] = value ? updated[position] | mask : updated[position] & ~mask;
+  return updated;
+};
+
+/**
+ * GZIP-compress and multibase base64url-encode ('u' prefix) a bitstring
+ */
+export const encodeBitstring = (bitstring: Buffer): string =>
+  `u${zlib.gzipSync(bitstring).toString('base64url')}`;
+
+export const decodeBitstring = (encodedList: string): Buffer => {
+  if (!encodedList || encodedList[0] !== 'u') {
+    throw new Error('encodedList must be multibase base64url');
+  }
+  return zlib.gunzipSync(Buffer.from(encodedList.slice(1), 'base64url'));
+};
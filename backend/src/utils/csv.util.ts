@@ -0,0 +1,34 @@
+// Leading characters spreadsheet applications evaluate as formulas
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+/**
+ * Format a value as an RFC 4180 CSV field. Text that a spreadsheet would run
+ * as a formula is prefixed with a single quote, since exports are opened in
+ * Excel and the values come from user input.
+ */
+export const toCsvField = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+
+  if (typeof value === 'string' && FORMULA_PREFIXES.some((prefix) => text.startsWith(prefix))) {
+    text = `'${text}`;
+  }
+
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+
+  return text;
+};
+
+export const toCsvRow = (values: unknown[]): string => `${values.map(toCsvField).join(',')}\r\n`;
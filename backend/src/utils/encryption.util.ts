@@ -1,18 +1,22 @@
 import crypto from 'crypto';
 
-const secretKey = process.env.AES_SECRET;
-
-if (!secretKey) {
-  throw new Error('AES_SECRET not configured');
-}
-
 const algorithm = 'aes-256-gcm';
-const key = crypto.createHash('sha256').update(secretKey).digest();
 const ivLength = 12;
 
+// Resolved on first use so importing this module does not require AES_SECRET
+const getKey = (): Buffer => {
+  const secretKey = process.env.AES_SECRET;
+
+  if (!secretKey) {
+    throw new Error('AES_SECRET not configured');
+  }
+
+  return crypto.createHash('sha256').update(secretKey).digest();
+};
+
 export const encryptData = (data: string): string => {
   const iv = crypto.randomBytes(ivLength);
-  const cipher = crypto.createCipheriv(algorithm, key, iv);
+  const cipher = crypto.createCipheriv(algorithm, getKey(), iv);
   const encrypted = Buffer.concat([cipher.update(data, 'utf8'), cipher.final()]);
   const tag = cipher.getAuthTag();
   return Buffer.concat([iv, tag, encrypted]).toString('base64');
@@ -23,7 +27,7 @@ export const decryptData = (encryptedData: string): string => {
   const iv = buffer.subarray(0, ivLength);
   const tag = buffer.subarray(ivLength, ivLength + 16);
   const text = buffer.subarray(ivLength + 16);
-  const decipher = crypto.createDecipheriv(algorithm, key, iv);
+  const decipher = crypto.createDecipheriv(algorithm, getKey(), iv);
   decipher.setAuthTag(tag);
   const decrypted = Buffer.concat([decipher.update(text), decipher.final()]);
   return decrypted.toString('utf8');
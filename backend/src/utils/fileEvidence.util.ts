@@ -0,0 +1,78 @@
+import type { StoredFileField } from '../models/storedFile.model.js';
+import type { IBatchAttachment, IFileMetadata } from '../types/index.js';
+
+export interface FileRef {
+  fileId: string;
+  field: StoredFileField;
+}
+
+export interface EvidenceSource {
+  fileId: string;
+  filename: string;
+  mimeType: string;
+  size?: number;
+  sha256?: string;
+}
+
+/**
+ * Digest of a file the certificate relied on. A verifier handed the file
+ * hashes it with SHA-256 and compares against `sha256`.
+ */
+export interface EvidenceDigest {
+  id: string;
+  type: 'BatchAttachment' | 'InspectionPhoto' | 'LabReport';
+  name: string;
+  mimeType: string;
+  size?: number;
+  sha256: string;
+}
+
+const EVIDENCE_TYPES: Record<StoredFileField, EvidenceDigest['type']> = {
+  attachments: 'BatchAttachment',
+  photos: 'InspectionPhoto',
+  labReports: 'LabReport',
+};
+
+// Entries without a file ID (plain URLs from older clients) are not registry files
+const refsOf = (files: Pick<IFileMetadata, 'id'>[] | undefined, field: StoredFileField): FileRef[] =>
+  (files || [])
+    .filter((file) => typeof file?.id === 'string' && file.id !== '')
+    .map((file) => ({ fileId: file.id, field }));
+
+export const batchFileRefs = (batch: { attachments?: Pick<IBatchAttachment, 'id'>[] }): FileRef[] =>
+  refsOf(batch.attachments, 'attachments');
+
+export const inspectionFileRefs = (inspection: {
+  photos?: Pick<IFileMetadata, 'id'>[];
+  labReports?: Pick<IFileMetadata, 'id'>[];
+}): FileRef[] => [...refsOf(inspection.photos, 'photos'), ...refsOf(inspection.labReports, 'labReports')];
+
+/**
+ * Evidence entries for the referenced files, in reference order. Files
+ * without a recorded hash (uploaded before the registry existed) are left
+ * out rather than listed without a digest.
+ */
+export const buildEvidence = (refs: FileRef[], sources: EvidenceSource[]): EvidenceDigest[] => {
+  const byId = new Map(sources.map((source) => [source.fileId, source]));
+  const seen = new Set<string>();
+  const evidence: EvidenceDigest[] = [];
+
+  for (const ref of refs) {
+    const source = byId.get(ref.fileId);
+    if (!source?.sha256 || seen.has(ref.fileId)) {
+      continue;
+    }
+    seen.add(ref.fileId);
+
+    evidence.push({
+      id: ref.fileId,
+      type: EVIDENCE_TYPES[ref.field],
+      name: source.filename,
+      mimeType: source.mimeType,
+      size: source.size,
+      sha256: source.sha256,
+    });
+  }
+
+  return evidence;
+};
@@ -0,0 +1,78 @@
+/**
+ * Container formats recognisable from the first bytes of a file
+ */
+export type FileSignature = 'jpeg' | 'png' | 'heif' | 'pdf' | 'ole' | 'zip' | 'text';
+
+// Enough for every signature below, including the ftyp box brands
+export const SNIFF_BYTES = 4100;
+
+const SIGNATURES_BY_TYPE: Record<string, FileSignature[]> = {
+  'image/jpeg': ['jpeg'],
+  'image/jpg': ['jpeg'],
+  'image/png': ['png'],
+  'image/heic': ['heif'],
+  'image/heif': ['heif'],
+  'application/pdf': ['pdf'],
+  // Legacy Office documents are OLE compound files
+  'application/msword': ['ole'],
+  'application/vnd.ms-excel': ['ole', 'text'],
+  // Office Open XML documents are ZIP packages
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['zip'],
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['zip'],
+  'text/csv': ['text'],
+};
+
+// HEIF brands used by phones for still images and image sequences
+const HEIF_BRANDS = new Set(['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1', 'heif']);
+
+const startsWith = (buffer: Buffer, bytes: number[], offset = 0): boolean =>
+  buffer.length >= offset + bytes.length && bytes.every((byte, index) => buffer[offset + index] === byte);
+
+const isHeif = (buffer: Buffer): boolean => {
+  if (buffer.length < 16 || buffer.toString('latin1', 4, 8) !== 'ftyp') {
+    return false;
+  }
+
+  // Major brand, then the compatible brands up to the end of the ftyp box
+  const boxSize = Math.min(buffer.readUInt32BE(0), buffer.length);
+  const brands = [buffer.toString('latin1', 8, 12)];
+  for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+    brands.push(buffer.toString('latin1', offset, offset + 4));
+  }
+  return brands.some((brand) => HEIF_BRANDS.has(brand));
+};
+
+const isText = (buffer: Buffer): boolean => {
+  if (buffer.includes(0)) {
+    return false;
+  }
+  try {
+    // Streaming mode, so a multi-byte character cut off at the end of the sample is fine
+    new TextDecoder('utf-8', { fatal: true }).decode(buffer, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The format of a file from its leading bytes, or null if unrecognised
+ */
+export const detectSignature = (head: Buffer): FileSignature | null => {
+  if (startsWith(head, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (isHeif(head)) return 'heif';
+  if (startsWith(head, [0x25, 0x50, 0x44, 0x46, 0x2d])) return 'pdf';
+  if (startsWith(head, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return 'ole';
+  if (startsWith(head, [0x50, 0x4b, 0x03, 0x04])) return 'zip';
+  if (head.length > 0 && isText(head)) return 'text';
+  return null;
+};
+
+/**
+ * Whether the bytes are what the declared MIME type says they are
+ */
+export const matchesDeclaredType = (head: Buffer, mimeType: string): boolean => {
+  const signature = detectSignature(head);
+  return signature !== null && (SIGNATURES_BY_TYPE[mimeType] || []).includes(signature);
+};
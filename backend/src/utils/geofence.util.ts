@@ -0,0 +1,78 @@
+import type { IGeofenceCheck } from '../types/index.js';
+
+interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+interface GeofenceInput {
+  // Where the inspector's device was, and how sure it was
+  device?: Coordinates & { accuracy: number };
+  // The batch's farm location
+  site?: Coordinates;
+  radiusMeters: number;
+  maxAccuracyMeters: number;
+  checkedAt?: Date;
+}
+
+// Mean Earth radius (IUGG), as used for haversine distances
+const EARTH_RADIUS_METERS = 6371008.8;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const hasCoordinates = (point: Partial<Coordinates> | undefined): point is Coordinates =>
+  Number.isFinite(point?.latitude) && Number.isFinite(point?.longitude);
+
+/**
+ * Great-circle distance between two points in meters
+ */
+export const haversineDistanceMeters = (from: Coordinates, to: Coordinates): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+/**
+ * Whether the inspector was at the farm. A fix that is too coarse to tell
+ * is `low_accuracy` even when it lands inside the radius.
+ */
+export const checkGeofence = (input: GeofenceInput): IGeofenceCheck => {
+  const { device, site, radiusMeters, maxAccuracyMeters } = input;
+  const base = { radiusMeters, maxAccuracyMeters, checkedAt: input.checkedAt || new Date() };
+
+  if (!hasCoordinates(device) || !hasCoordinates(site)) {
+    return { ...base, status: 'unavailable' };
+  }
+
+  const distanceMeters = Math.round(haversineDistanceMeters(device, site));
+  const accuracyMeters = device.accuracy;
+
+  const status =
+    !Number.isFinite(accuracyMeters) || accuracyMeters > maxAccuracyMeters
+      ? 'low_accuracy'
+      : distanceMeters > radiusMeters
+        ? 'outside'
+        : 'within';
+
+  return { ...base, status, distanceMeters, accuracyMeters };
+};
+
+/**
+ * Human-readable reason a check did not place the inspector on the farm
+ */
+export const describeGeofence = (check: IGeofenceCheck): string => {
+  switch (check.status) {
+    case 'outside':
+      return `Inspection location is ${check.distanceMeters} m from the farm, outside the ${check.radiusMeters} m radius`;
+    case 'low_accuracy':
+      return `Location accuracy of ${check.accuracyMeters} m exceeds the ${check.maxAccuracyMeters} m limit`;
+    case 'unavailable':
+      return 'Inspection or farm location is missing';
+    default:
+      return `Inspection location is ${check.distanceMeters} m from the farm`;
+  }
+};
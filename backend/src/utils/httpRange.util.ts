@@ -0,0 +1,39 @@
+export interface ByteRange {
+  start: number;
+  // Inclusive
+  end: number;
+}
+
+/**
+ * Single byte range of a `Range: bytes=...` header for a resource of the
+ * given size. Returns null when the whole resource should be sent (no
+ * header, another unit, or several ranges) and 'unsatisfiable' for a 416.
+ */
+export const parseRange = (header: string | undefined, size: number): ByteRange | 'unsatisfiable' | null => {
+  if (!header) {
+    return null;
+  }
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return null;
+  }
+
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    const length = parseInt(match[2], 10);
+    if (length === 0 || size === 0) {
+      return 'unsatisfiable';
+    }
+    return { start: Math.max(size - length, 0), end: size - 1 };
+  }
+
+  const start = parseInt(match[1], 10);
+  const end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+
+  if (start >= size || end < start) {
+    return 'unsatisfiable';
+  }
+
+  return { start, end };
+};
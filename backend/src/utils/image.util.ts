@@ -0,0 +1,99 @@
+import sharp from 'sharp';
+import heicConvert from 'heic-convert';
+import exifr from 'exifr';
+
+/**
+ * What is kept from a photo's EXIF block once the block itself is stripped
+ */
+export interface CaptureMetadata {
+  capturedAt?: Date;
+  latitude?: number;
+  longitude?: number;
+  altitude?: number;
+}
+
+export interface NormalizedImage {
+  body: Buffer;
+  mimeType: 'image/jpeg' | 'image/png';
+  extension: '.jpg' | '.png';
+  width?: number;
+  height?: number;
+  capture: CaptureMetadata;
+  // Set when the upload was HEIC/HEIF and has been converted to JPEG
+  convertedFrom?: string;
+}
+
+const HEIF_TYPES = ['image/heic', 'image/heif'];
+
+export const THUMBNAIL_SIZE = 320;
+
+const finite = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+/**
+ * Capture time and position from EXIF; anything missing or unreadable is
+ * simply left out
+ */
+export const readCaptureMetadata = async (body: Buffer): Promise<CaptureMetadata> => {
+  try {
+    const exif = await exifr.parse(body, {
+      pick: ['DateTimeOriginal', 'CreateDate', 'GPSLatitude', 'GPSLatitudeRef', 'GPSLongitude', 'GPSLongitudeRef', 'GPSAltitude', 'GPSAltitudeRef'],
+    });
+    if (!exif) {
+      return {};
+    }
+
+    const capturedAt = exif.DateTimeOriginal || exif.CreateDate;
+    const altitude = finite(exif.GPSAltitude);
+    // A single byte, 1 meaning below sea level
+    const belowSeaLevel = Number(exif.GPSAltitudeRef?.[0] ?? exif.GPSAltitudeRef) === 1;
+
+    return {
+      capturedAt: capturedAt instanceof Date && !isNaN(capturedAt.getTime()) ? capturedAt : undefined,
+      latitude: finite(exif.latitude),
+      longitude: finite(exif.longitude),
+      altitude: altitude !== undefined && belowSeaLevel ? -altitude : altitude,
+    };
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Re-encode an uploaded photo: HEIC/HEIF becomes JPEG so browsers can show
+ * it, the EXIF orientation is applied to the pixels, and all metadata
+ * (EXIF, XMP, ICC comments) is dropped from the stored file
+ */
+export const normalizeImage = async (body: Buffer, mimeType: string): Promise<NormalizedImage> => {
+  const capture = await readCaptureMetadata(body);
+
+  let source = body;
+  let convertedFrom: string | undefined;
+  if (HEIF_TYPES.includes(mimeType)) {
+    source = Buffer.from(await heicConvert({ buffer: new Uint8Array(body), format: 'JPEG', quality: 0.9 }));
+    convertedFrom = mimeType;
+  }
+
+  // rotate() with no angle applies the EXIF orientation; sharp writes no metadata unless asked to
+  const pipeline = sharp(source).rotate();
+  const asPng = mimeType === 'image/png';
+  const { data, info } = await (asPng ? pipeline.png() : pipeline.jpeg({ quality: 90 })).toBuffer({
+    resolveWithObject: true,
+  });
+
+  return {
+    body: data,
+    mimeType: asPng ? 'image/png' : 'image/jpeg',
+    extension: asPng ? '.png' : '.jpg',
+    width: info.width,
+    height: info.height,
+    capture,
+    convertedFrom,
+  };
+};
+
+/**
+ * Square JPEG preview for photo grids
+ */
+export const createThumbnail = async (body: Buffer): Promise<Buffer> =>
+  sharp(body).resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'cover' }).jpeg({ quality: 75 }).toBuffer();
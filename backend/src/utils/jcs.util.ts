@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+
+/**
+ * JSON Canonicalization Scheme (RFC 8785)
+ *
+ * Produces a deterministic serialization: object keys sorted by UTF-16 code
+ * units, no insignificant whitespace, ECMAScript number and string formatting.
+ */
+export const canonicalize = (value: unknown): string => {
+  if (value !== null && typeof value === 'object' && typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return canonicalize((value as { toJSON: () => unknown }).toJSON());
+  }
+
+  if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error('Cannot canonicalize non-finite number');
+    }
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? 'null' : canonicalize(item))).join(',')}]`;
+  }
+
+  if (typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  throw new Error(`Cannot canonicalize value of type ${typeof value}`);
+};
+
+/**
+ * SHA-256 (hex) of a credential's JCS form. Key order and whitespace do not
+ * affect the result, so re-serialized copies hash the same.
+ */
+export const hashCredential = (credential: object): string =>
+  crypto.createHash('sha256').update(canonicalize(credential)).digest('hex');
@@ -9,19 +9,35 @@ export interface TokenPayload {
   role: UserRole;
   type: 'access' | 'refresh';
   jti?: string;
+  // Device session the token belongs to
+  sid?: string;
+}
+
+export type MfaChallengePurpose = 'verify' | 'enroll';
+
+/**
+ * Proof that a password was checked, exchanged for tokens once the second
+ * factor is verified (or enrolled)
+ */
+export interface MfaChallengePayload {
+  userId: string;
+  type: 'mfa_challenge';
+  purpose: MfaChallengePurpose;
+  challengeId: string;
 }
 
 export class JWTService {
   /**
    * Generate access token
    */
-  static generateAccessToken(userId: string, email: string, role: UserRole): string {
+  static generateAccessToken(userId: string, email: string, role: UserRole, sessionId?: string): string {
     const payload: TokenPayload = {
       userId,
       email,
       role,
       type: 'access',
       jti: nanoid(),
+      sid: sessionId,
     };
 
     // Use a typed-any call to avoid mismatch with jsonwebtoken overloads in this TS setup
@@ -35,13 +51,14 @@ export class JWTService {
   /**
    * Generate refresh token
    */
-  static generateRefreshToken(userId: string, email: string, role: UserRole): string {
+  static generateRefreshToken(userId: string, email: string, role: UserRole, sessionId?: string): string {
     const payload: TokenPayload = {
       userId,
       email,
       role,
       type: 'refresh',
       jti: nanoid(),
+      sid: sessionId,
     };
 
     return (jwt.sign as any)(payload, config.jwt.refreshSecret, {
@@ -54,10 +71,10 @@ export class JWTService {
   /**
    * Generate both access and refresh tokens
    */
-  static generateTokenPair(userId: string, email: string, role: UserRole) {
+  static generateTokenPair(userId: string, email: string, role: UserRole, sessionId?: string) {
     return {
-      accessToken: this.generateAccessToken(userId, email, role),
-      refreshToken: this.generateRefreshToken(userId, email, role),
+      accessToken: this.generateAccessToken(userId, email, role, sessionId),
+      refreshToken: this.generateRefreshToken(userId, email, role, sessionId),
     };
   }
 
@@ -110,21 +127,45 @@ export class JWTService {
   }
 
   /**
-   * Add new refresh token and manage token rotation (max 5 tokens)
+   * Generate a short-lived two-factor login challenge
    */
-  static addRefreshToken(currentTokens: string[], newToken: string): string[] {
-    const tokens = [...currentTokens, newToken];
-    if (tokens.length > 5) {
-      return tokens.slice(-5);
-    }
-    return tokens;
+  static generateMfaChallengeToken(userId: string, purpose: MfaChallengePurpose, challengeId: string): string {
+    const payload: MfaChallengePayload = {
+      userId,
+      type: 'mfa_challenge',
+      purpose,
+      challengeId,
+    };
+
+    return (jwt.sign as any)(payload, config.jwt.secret, {
+      expiresIn: config.auth.twoFactor.challengeExpiresIn,
+      issuer: 'agriqcert-api',
+      audience: 'agriqcert-app',
+    });
   }
 
   /**
-   * Remove a refresh token
+   * Verify a two-factor login challenge
    */
-  static removeRefreshToken(currentTokens: string[], tokenToRemove: string): string[] {
-    return currentTokens.filter(token => token !== tokenToRemove);
+  static verifyMfaChallengeToken(token: string): MfaChallengePayload {
+    try {
+      const secret = config.jwt.secret;
+      if (!secret) {
+        throw new Error('JWT secret not configured');
+      }
+      const decoded = jwt.verify(token, secret, {
+        issuer: 'agriqcert-api',
+        audience: 'agriqcert-app',
+      }) as unknown as MfaChallengePayload;
+
+      if (decoded.type !== 'mfa_challenge') {
+        throw new Error('Invalid token type');
+      }
+
+      return decoded;
+    } catch {
+      throw new Error('Invalid or expired two-factor challenge');
+    }
   }
 
   /**
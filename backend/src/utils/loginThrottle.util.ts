@@ -0,0 +1,67 @@
+export interface ThrottlePolicy {
+  // Failures older than this are forgotten
+  windowMinutes: number;
+  // Failures allowed before attempts start being delayed
+  delayAfterFailures: number;
+  maxDelaySeconds: number;
+  // Failures that lock the account or address
+  maxFailures: number;
+  lockoutMinutes: number;
+}
+
+export interface ThrottleState {
+  failures?: number;
+  lastFailureAt?: Date;
+  lockedUntil?: Date;
+}
+
+/**
+ * Wait imposed after the given number of consecutive failures: nothing up to
+ * the threshold, then 1s, 2s, 4s and so on, capped
+ */
+export const failureDelaySeconds = (failures: number, policy: ThrottlePolicy): number => {
+  if (failures < policy.delayAfterFailures) {
+    return 0;
+  }
+  return Math.min(2 ** (failures - policy.delayAfterFailures), policy.maxDelaySeconds);
+};
+
+/**
+ * Failures still inside the window; older ones no longer count
+ */
+export const activeFailures = (state: ThrottleState, policy: ThrottlePolicy, now: Date = new Date()): number => {
+  if (!state.failures || !state.lastFailureAt) {
+    return 0;
+  }
+  const windowStart = now.getTime() - policy.windowMinutes * 60 * 1000;
+  return state.lastFailureAt.getTime() < windowStart ? 0 : state.failures;
+};
+
+/**
+ * Seconds until another attempt is allowed, or 0 if one is allowed now
+ */
+export const secondsUntilAllowed = (state: ThrottleState, policy: ThrottlePolicy, now: Date = new Date()): number => {
+  if (state.lockedUntil && state.lockedUntil > now) {
+    return Math.ceil((state.lockedUntil.getTime() - now.getTime()) / 1000);
+  }
+
+  const failures = activeFailures(state, policy, now);
+  const delay = failureDelaySeconds(failures, policy);
+  if (delay === 0 || !state.lastFailureAt) {
+    return 0;
+  }
+
+  const allowedAt = state.lastFailureAt.getTime() + delay * 1000;
+  return Math.max(0, Math.ceil((allowedAt - now.getTime()) / 1000));
+};
+
+/**
+ * "30 seconds", "1 minute", "15 minutes"
+ */
+export const formatWait = (seconds: number): string => {
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
@@ -0,0 +1,81 @@
+import crypto, { KeyObject } from 'crypto';
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+// Multicodec prefix for an Ed25519 public key (0xed, varint-encoded)
+const ED25519_PUB_MULTICODEC = Buffer.from([0xed, 0x01]);
+
+/**
+ * Encode bytes as base58 (Bitcoin alphabet)
+ */
+export const base58Encode = (bytes: Uint8Array): string => {
+  let zeros = 0;
+  while (zeros < bytes.length && bytes[zeros] === 0) zeros++;
+
+  let value = BigInt('0x' + (Buffer.from(bytes).toString('hex') || '0'));
+  let encoded = '';
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+
+  return '1'.repeat(zeros) + encoded;
+};
+
+/**
+ * Decode a base58 (Bitcoin alphabet) string
+ */
+export const base58Decode = (input: string): Buffer => {
+  let zeros = 0;
+  while (zeros < input.length && input[zeros] === '1') zeros++;
+
+  let value = 0n;
+  for (const char of input) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) {
+      throw new Error(`Invalid base58 character: ${char}`);
+    }
+    value = value * 58n + BigInt(digit);
+  }
+
+  let hex = value > 0n ? value.toString(16) : '';
+  if (hex.length % 2) hex = '0' + hex;
+
+  return Buffer.concat([Buffer.alloc(zeros), Buffer.from(hex, 'hex')]);
+};
+
+/**
+ * Multibase base58btc encoding ('z' prefix)
+ */
+export const toMultibase = (bytes: Uint8Array): string => `z${base58Encode(bytes)}`;
+
+export const fromMultibase = (value: string): Buffer => {
+  if (!value || value[0] !== 'z') {
+    throw new Error('Only base58btc multibase values are supported');
+  }
+  return base58Decode(value.slice(1));
+};
+
+/**
+ * Encode an Ed25519 public key as publicKeyMultibase (Ed25519VerificationKey2020)
+ */
+export const ed25519PublicKeyToMultibase = (publicKey: KeyObject): string => {
+  const jwk = publicKey.export({ format: 'jwk' });
+  const raw = Buffer.from(jwk.x as string, 'base64url');
+  return toMultibase(Buffer.concat([ED25519_PUB_MULTICODEC, raw]));
+};
+
+/**
+ * Decode a publicKeyMultibase value into an Ed25519 public KeyObject
+ */
+export const ed25519PublicKeyFromMultibase = (publicKeyMultibase: string): KeyObject => {
+  const bytes = fromMultibase(publicKeyMultibase);
+  if (bytes.length !== 34 || !bytes.subarray(0, 2).equals(ED25519_PUB_MULTICODEC)) {
+    throw new Error('Not an Ed25519 publicKeyMultibase value');
+  }
+
+  return crypto.createPublicKey({
+    key: { kty: 'OKP', crv: 'Ed25519', x: bytes.subarray(2).toString('base64url') },
+    format: 'jwk',
+  });
+};
@@ -0,0 +1,27 @@
+import { UserRole } from '../types/index.js';
+
+export interface ScopedUser {
+  userId: string;
+  role: UserRole;
+  organizationId?: string;
+}
+
+/**
+ * Whether the user only sees records of their own organization. Admins see
+ * every organization, and farmers are limited to their own records instead.
+ */
+export const isOrganizationScoped = (user: ScopedUser): boolean =>
+  user.role !== 'admin' && user.role !== 'farmer';
+
+/**
+ * Query filter for the records the user can see. Users outside any
+ * organization see only records that belong to none.
+ */
+export const organizationFilter = (user: ScopedUser): Record<string, unknown> =>
+  isOrganizationScoped(user) ? { organizationId: user.organizationId ?? null } : {};
+
+/**
+ * Whether a record belonging to the given organization is visible to the user
+ */
+export const inOrganizationScope = (user: ScopedUser, organizationId?: string | null): boolean =>
+  !isOrganizationScoped(user) || (organizationId ?? null) === (user.organizationId ?? null);
@@ -0,0 +1,199 @@
+import type {
+  IEvaluationCheck,
+  IFileMetadata,
+  IInspectionReading,
+  IQualityReading,
+  IStandardParameter,
+  IStandardSnapshot,
+} from '../types/index.js';
+
+export interface EvaluationInput {
+  readings: IInspectionReading[];
+  qualityReadings?: Partial<IQualityReading>;
+  photos?: Pick<IFileMetadata, 'filename' | 'description'>[];
+  standard: IStandardSnapshot;
+}
+
+export interface EvaluationResult {
+  classification: 'pass' | 'fail';
+  checks: IEvaluationCheck[];
+  // Readings with `passed` recomputed from the checks
+  readings: IInspectionReading[];
+}
+
+// Structured quality readings and the standard parameter key each is checked against
+const QUALITY_FIELDS: Array<{ field: 'moisturePercent' | 'pesticidePPM' | 'temperatureC'; key: string }> = [
+  { field: 'moisturePercent', key: 'moisture' },
+  { field: 'pesticidePPM', key: 'pesticide' },
+  { field: 'temperatureC', key: 'temperature' },
+];
+
+const normalizeName = (name: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const normalizeUnit = (unit?: string): string =>
+  (unit || '').toLowerCase().replace(/[\s°]/g, '');
+
+// Whole-word match, so "pH" does not match "phosphorus"
+const nameMatches = (text: string, names: string[]): boolean => {
+  const padded = ` ${normalizeName(text)} `;
+  return names.some((name) => {
+    const normalized = normalizeName(name);
+    return normalized !== '' && padded.includes(` ${normalized} `);
+  });
+};
+
+const parameterNames = (parameter: IStandardParameter): string[] => [
+  parameter.key,
+  parameter.label,
+  ...(parameter.aliases || []),
+];
+
+const findParameter = (readingName: string, standard: IStandardSnapshot): IStandardParameter | undefined =>
+  standard.parameters.find((parameter) => nameMatches(readingName, parameterNames(parameter)));
+
+const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+};
+
+// Tightest bound wins when both the reading and the standard define one
+const tighter = (a: number | undefined, b: number | undefined, pick: (x: number, y: number) => number) =>
+  a === undefined || a === null ? b : b === undefined || b === null ? a : pick(a, b);
+
+const checkRange = (
+  check: Omit<IEvaluationCheck, 'status' | 'reason'>,
+  value: number
+): IEvaluationCheck => {
+  const unit = check.unit ? ` ${check.unit}` : '';
+
+  if (check.min !== undefined && check.min !== null && value < check.min) {
+    return { ...check, status: 'fail', reason: `${value}${unit} is below the minimum of ${check.min}${unit}` };
+  }
+  if (check.max !== undefined && check.max !== null && value > check.max) {
+    return { ...check, status: 'fail', reason: `${value}${unit} exceeds the maximum of ${check.max}${unit}` };
+  }
+  return { ...check, status: 'pass', reason: `${value}${unit} is within limits` };
+};
+
+const evaluateReading = (reading: IInspectionReading, standard: IStandardSnapshot): IEvaluationCheck => {
+  const parameter = findParameter(reading.parameter, standard);
+  const base = {
+    source: 'reading' as const,
+    parameter: reading.parameter,
+    value: reading.value,
+    unit: reading.unit,
+    min: tighter(reading.minThreshold, parameter?.min, Math.max),
+    max: tighter(reading.maxThreshold, parameter?.max, Math.min),
+  };
+
+  if (parameter && normalizeUnit(reading.unit) !== normalizeUnit(parameter.unit)) {
+    return { ...base, status: 'fail', reason: `Unit "${reading.unit}" does not match the standard unit "${parameter.unit}"` };
+  }
+
+  if ((base.min === undefined || base.min === null) && (base.max === undefined || base.max === null)) {
+    return { ...base, status: 'not_evaluated', reason: 'No threshold defined for this parameter' };
+  }
+
+  const value = toNumber(reading.value);
+  if (value === undefined) {
+    return { ...base, status: 'fail', reason: 'Value is not numeric' };
+  }
+
+  return checkRange(base, value);
+};
+
+const evaluateQualityReadings = (
+  quality: Partial<IQualityReading> | undefined,
+  standard: IStandardSnapshot
+): IEvaluationCheck[] => {
+  const checks: IEvaluationCheck[] = [];
+
+  for (const { field, key } of QUALITY_FIELDS) {
+    const value = quality?.[field];
+    const parameter = standard.parameters.find((candidate) => candidate.key === key);
+    if (value === undefined || value === null || !parameter) {
+      continue;
+    }
+    checks.push(
+      checkRange({ source: 'quality', parameter: field, value, unit: parameter.unit, min: parameter.min, max: parameter.max }, value)
+    );
+  }
+
+  if (standard.requiresOrganic) {
+    const isOrganic = quality?.isOrganic === true;
+    checks.push({
+      source: 'quality',
+      parameter: 'isOrganic',
+      value: isOrganic,
+      status: isOrganic ? 'pass' : 'fail',
+      reason: isOrganic ? 'Produce verified as organic' : 'Standard requires organic produce',
+    });
+  }
+
+  return checks;
+};
+
+const evaluateRequirements = (input: EvaluationInput): IEvaluationCheck[] => {
+  const { readings, qualityReadings, photos = [], standard } = input;
+
+  const requiredReadings = standard.requiredReadings.map((name): IEvaluationCheck => {
+    const parameter = standard.parameters.find((candidate) => candidate.key === name);
+    const names = parameter ? parameterNames(parameter) : [name];
+    const quality = QUALITY_FIELDS.find((entry) => entry.key === name);
+
+    const present =
+      readings.some((reading) => reading.value !== '' && nameMatches(reading.parameter, names)) ||
+      (quality !== undefined && qualityReadings?.[quality.field] !== undefined && qualityReadings?.[quality.field] !== null);
+
+    return {
+      source: 'required_reading',
+      parameter: name,
+      status: present ? 'pass' : 'fail',
+      reason: present ? 'Reading recorded' : 'Required reading is missing',
+    };
+  });
+
+  const requiredPhotos = standard.requiredPhotos.map((name): IEvaluationCheck => {
+    const present = photos.some((photo) => nameMatches(`${photo.description || ''} ${photo.filename || ''}`, [name]));
+
+    return {
+      source: 'required_photo',
+      parameter: name,
+      status: present ? 'pass' : 'fail',
+      reason: present ? 'Photo attached' : 'Required photo is missing',
+    };
+  });
+
+  return [...requiredReadings, ...requiredPhotos];
+};
+
+/**
+ * Evaluate an inspection against a quality standard version.
+ * Any failed check fails the inspection; client-supplied `passed` flags are ignored.
+ */
+export const evaluateInspection = (input: EvaluationInput): EvaluationResult => {
+  const { readings, qualityReadings, standard } = input;
+
+  const readingChecks = readings.map((reading) => evaluateReading(reading, standard));
+  const checks = [
+    ...readingChecks,
+    ...evaluateQualityReadings(qualityReadings, standard),
+    ...evaluateRequirements(input),
+  ];
+
+  return {
+    classification: checks.some((check) => check.status === 'fail') ? 'fail' : 'pass',
+    checks,
+    readings: readings.map((reading, index) => ({
+      ...reading,
+      passed: readingChecks[index].status !== 'fail',
+    })),
+  };
+};
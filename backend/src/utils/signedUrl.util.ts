@@ -0,0 +1,71 @@
+import crypto from 'crypto';
+
+// What a signed upload URL allows: one file, of one type, up to a size, until it expires
+export interface UploadGrant {
+  fileId: string;
+  category: string;
+  mimeType: string;
+  maxSize: number;
+  // Unix time in seconds
+  expires: number;
+}
+
+export interface DownloadGrant {
+  fileId: string;
+  category: string;
+  expires: number;
+}
+
+const hmac = (secret: string, parts: (string | number)[]): string =>
+  crypto.createHmac('sha256', secret).update(parts.join('\n')).digest('hex');
+
+const signaturesMatch = (expected: string, received: string): boolean =>
+  expected.length === received.length &&
+  crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(received));
+
+const expiryError = (expires: number, now: Date): string | null => {
+  if (!Number.isFinite(expires)) {
+    return 'Invalid signature';
+  }
+  return expires * 1000 < now.getTime() ? 'Signed URL has expired' : null;
+};
+
+/**
+ * HMAC-SHA256 over every field of the grant, so none can be altered
+ * without invalidating the URL
+ */
+export const signUpload = (grant: UploadGrant, secret: string): string =>
+  hmac(secret, ['upload', grant.fileId, grant.category, grant.mimeType, grant.maxSize, grant.expires]);
+
+export const signDownload = (grant: DownloadGrant, secret: string): string =>
+  hmac(secret, ['download', grant.fileId, grant.category, grant.expires]);
+
+/**
+ * Why the upload signature is rejected, or null if it is valid
+ */
+export const verifyUpload = (
+  grant: UploadGrant,
+  signature: string,
+  secret: string,
+  now: Date = new Date()
+): string | null => {
+  if (!signaturesMatch(signUpload(grant, secret), signature)) {
+    return 'Invalid signature';
+  }
+  return expiryError(grant.expires, now);
+};
+
+/**
+ * Why the download signature is rejected, or null if it is valid
+ */
+export const verifyDownload = (
+  grant: DownloadGrant,
+  signature: string,
+  secret: string,
+  now: Date = new Date()
+): string | null => {
+  if (!signaturesMatch(signDownload(grant, secret), signature)) {
+    return 'Invalid signature';
+  }
+  return expiryError(grant.expires, now);
+};
@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+
+export interface SigV4Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+  service?: string;
+}
+
+interface SigV4Request {
+  method: string;
+  url: URL;
+  headers?: Record<string, string>;
+  // Hex SHA-256 of the body, or UNSIGNED-PAYLOAD
+  payloadHash?: string;
+  date?: Date;
+}
+
+export const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+const sha256Hex = (data: string | Buffer): string => crypto.createHash('sha256').update(data).digest('hex');
+
+const hmac = (key: string | Buffer, data: string): Buffer => crypto.createHmac('sha256', key).update(data).digest();
+
+/**
+ * RFC 3986 encoding as SigV4 expects it; encodeURIComponent leaves !'()* alone
+ */
+export const uriEncode = (value: string): string =>
+  encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const canonicalPath = (url: URL): string =>
+  url.pathname
+    .split('/')
+    .map((segment) => uriEncode(decodeURIComponent(segment)))
+    .join('/') || '/';
+
+const canonicalQuery = (params: URLSearchParams): string =>
+  [...params.entries()]
+    .map(([key, value]) => [uriEncode(key), uriEncode(value)])
+    .sort(([a, av], [b, bv]) => (a === b ? (av < bv ? -1 : 1) : a < b ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+
+// 20130524T000000Z
+const amzDate = (date: Date): string => date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+
+const signature = (
+  credentials: SigV4Credentials,
+  date: Date,
+  canonicalRequest: string
+): { scope: string; signature: string } => {
+  const day = amzDate(date).slice(0, 8);
+  const service = credentials.service || 's3';
+  const scope = `${day}/${credentials.region}/${service}/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate(date), scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, day), credentials.region), service),
+    'aws4_request'
+  );
+
+  return { scope, signature: crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex') };
+};
+
+const canonicalHeaders = (headers: Record<string, string>) => {
+  const entries = Object.entries(headers)
+    .map(([name, value]) => [name.toLowerCase(), value.trim().replace(/\s+/g, ' ')])
+    .sort(([a], [b]) => (a < b ? -1 : 1));
+
+  return {
+    canonical: entries.map(([name, value]) => `${name}:${value}\n`).join(''),
+    signed: entries.map(([name]) => name).join(';'),
+  };
+};
+
+/**
+ * Headers to send with a request authenticated by AWS Signature Version 4
+ */
+export const signRequest = (request: SigV4Request, credentials: SigV4Credentials): Record<string, string> => {
+  const date = request.date ?? new Date();
+  const payloadHash = request.payloadHash ?? UNSIGNED_PAYLOAD;
+  const headers: Record<string, string> = {
+    ...request.headers,
+    host: request.url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate(date),
+  };
+  const { canonical, signed } = canonicalHeaders(headers);
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    canonicalPath(request.url),
+    canonicalQuery(request.url.searchParams),
+    canonical,
+    signed,
+    payloadHash,
+  ].join('\n');
+  const result = signature(credentials, date, canonicalRequest);
+
+  return {
+    ...headers,
+    authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${result.scope}, SignedHeaders=${signed}, Signature=${result.signature}`,
+  };
+};
+
+/**
+ * Query-string signed URL usable without credentials until it expires.
+ * Headers passed here are signed and must be sent unchanged by the client.
+ */
+export const presignUrl = (
+  request: SigV4Request & { expiresIn: number },
+  credentials: SigV4Credentials
+): string => {
+  const date = request.date ?? new Date();
+  const day = amzDate(date).slice(0, 8);
+  const service = credentials.service || 's3';
+  const { canonical, signed } = canonicalHeaders({ ...request.headers, host: request.url.host });
+
+  const url = new URL(request.url.toString());
+  url.searchParams.set('X-Amz-Algorithm', 'AWS4-HMAC-SHA256');
+  url.searchParams.set('X-Amz-Credential', `${credentials.accessKeyId}/${day}/${credentials.region}/${service}/aws4_request`);
+  url.searchParams.set('X-Amz-Date', amzDate(date));
+  url.searchParams.set('X-Amz-Expires', String(request.expiresIn));
+  url.searchParams.set('X-Amz-SignedHeaders', signed);
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    canonicalPath(url),
+    canonicalQuery(url.searchParams),
+    canonical,
+    signed,
+    request.payloadHash ?? UNSIGNED_PAYLOAD,
+  ].join('\n');
+
+  url.searchParams.set('X-Amz-Signature', signature(credentials, date, canonicalRequest).signature);
+  return url.toString();
+};
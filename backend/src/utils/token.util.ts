@@ -0,0 +1,16 @@
+import crypto from 'crypto';
+
+/**
+ * SHA-256 (hex) of a one-time token. Only this digest is stored, so a leaked
+ * database does not yield usable links.
+ */
+export const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Random URL-safe token for emailed links, with the digest to store
+ */
+export const createOneTimeToken = (): { token: string; hash: string } => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  return { token, hash: hashToken(token) };
+};
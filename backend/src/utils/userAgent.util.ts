@@ -0,0 +1,41 @@
+// Checked in order; Edge and Opera also identify as Chrome, and Chrome as Safari
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(?:e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+  [/PostmanRuntime\//, 'Postman'],
+  [/curl\//, 'curl'],
+  [/node-fetch|axios\/|undici/, 'Node.js'],
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+const match = (userAgent: string, patterns: Array<[RegExp, string]>): string | undefined =>
+  patterns.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+/**
+ * Short human-readable label for a User-Agent header, e.g. "Firefox on Windows"
+ */
+export const describeUserAgent = (userAgent?: string | null): string => {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = match(userAgent, BROWSERS);
+  const platform = match(userAgent, PLATFORMS);
+
+  if (browser && platform) {
+    return `${browser} on ${platform}`;
+  }
+  return browser || platform || 'Unknown device';
+};
@@ -8,16 +8,20 @@ const objectIdSchema = z.string().refine((value) => {
   message: 'Invalid ObjectId format',
 });
 
+const passwordSchema = z
+  .string()
+  .min(8, 'Password must be at least 8 characters')
+  .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
+  .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
+  .regex(/[0-9]/, 'Password must contain at least one number')
+  .regex(/[@$!%*?&#]/, 'Password must contain at least one special character');
+
+const userRoleSchema = z.enum(['farmer', 'qa_inspector', 'certifier', 'admin', 'verifier']);
+
 // Auth schemas
 export const registerSchema = z.object({
   email: z.string().email('Invalid email address'),
-  password: z
-    .string()
-    .min(8, 'Password must be at least 8 characters')
-    .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
-    .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
-    .regex(/[0-9]/, 'Password must contain at least one number')
-    .regex(/[@$!%*?&#]/, 'Password must contain at least one special character'),
+  password: passwordSchema,
   name: z.string().min(2, 'Name must be at least 2 characters').max(100),
   role: z.enum(['farmer', 'qa_inspector', 'certifier', 'verifier']).optional(),
   organization: z.string().optional(),
@@ -36,15 +40,58 @@ export const refreshTokenSchema = z.object({
 
 export const changePasswordSchema = z.object({
   currentPassword: z.string().min(1, 'Current password is required'),
-  newPassword: z
-    .string()
-    .min(8, 'Password must be at least 8 characters')
-    .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
-    .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
-    .regex(/[0-9]/, 'Password must contain at least one number')
-    .regex(/[@$!%*?&#]/, 'Password must contain at least one special character'),
+  newPassword: passwordSchema,
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification token is required'),
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email address'),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: passwordSchema,
+});
+
+// Two-factor schemas
+const totpCodeSchema = z.string().trim().regex(/^\d{6}$/, 'Code must be 6 digits');
+
+export const twoFactorChallengeSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+});
+
+export const twoFactorLoginSchema = twoFactorChallengeSchema
+  .extend({
+    code: totpCodeSchema.optional(),
+    recoveryCode: z.string().trim().min(1).optional(),
+  })
+  .refine((data) => !!data.code !== !!data.recoveryCode, {
+    message: 'Provide either an authentication code or a recovery code',
+    path: ['code'],
+  });
+
+export const twoFactorEnrollSchema = twoFactorChallengeSchema.extend({
+  code: totpCodeSchema,
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: totpCodeSchema,
 });
 
+export const twoFactorDisableSchema = z
+  .object({
+    password: z.string().min(1, 'Password is required'),
+    code: totpCodeSchema.optional(),
+    recoveryCode: z.string().trim().min(1).optional(),
+  })
+  .refine((data) => !!data.code !== !!data.recoveryCode, {
+    message: 'Provide either an authentication code or a recovery code',
+    path: ['code'],
+  });
+
 export const updateProfileSchema = z.object({
   name: z.string().min(2).max(100).optional(),
   avatar: z.string().url().optional(),
@@ -53,8 +100,80 @@ export const updateProfileSchema = z.object({
   address: z.string().optional(),
 });
 
+// User administration schemas
+export const createUserSchema = registerSchema.extend({
+  role: userRoleSchema,
+});
+
+export const updateUserRoleSchema = z.object({
+  role: userRoleSchema,
+});
+
+export const updateUserStatusSchema = z.object({
+  isActive: z.boolean(),
+});
+
+export const userQuerySchema = z.object({
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().max(100).optional().default(20),
+  role: userRoleSchema.optional(),
+  isActive: z.enum(['true', 'false']).optional().transform((val) => (val === undefined ? undefined : val === 'true')),
+  search: z.string().trim().max(100).optional(),
+});
+
+export type UserQuery = z.infer<typeof userQuerySchema>;
+
+// Organization schemas
+const organizationTypeSchema = z.enum(['certification_body', 'cooperative', 'lab']);
+
+const organizationRoleSchema = z.enum(['owner', 'admin', 'member']);
+
+const didSchema = z.string().trim().regex(/^did:[a-z0-9]+:\S+$/, 'Invalid DID');
+
+export const createOrganizationSchema = z.object({
+  name: z.string().trim().min(2, 'Name must be at least 2 characters').max(120),
+  slug: z
+    .string()
+    .trim()
+    .max(60)
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug may only contain lowercase letters, digits and hyphens')
+    .optional(),
+  type: organizationTypeSchema,
+  description: z.string().trim().max(500).optional(),
+  contactEmail: z.string().email('Invalid email address').optional(),
+  issuerDid: didSchema.optional(),
+});
+
+export const updateOrganizationSchema = z.object({
+  name: z.string().trim().min(2, 'Name must be at least 2 characters').max(120).optional(),
+  description: z.string().trim().max(500).optional(),
+  contactEmail: z.string().email('Invalid email address').optional(),
+  // null reverts to the platform issuer DID
+  issuerDid: didSchema.nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const organizationQuerySchema = z.object({
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().max(100).optional().default(20),
+  type: organizationTypeSchema.optional(),
+  isActive: z.enum(['true', 'false']).optional().transform((val) => (val === undefined ? undefined : val === 'true')),
+  search: z.string().trim().max(100).optional(),
+});
+
+export const addOrganizationMemberSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  role: organizationRoleSchema.optional().default('member'),
+});
+
+export const updateOrganizationMemberSchema = z.object({
+  role: organizationRoleSchema,
+});
+
 // Batch schemas
 export const createBatchSchema = z.object({
+  // Certification body the batch will be submitted to
+  organizationId: objectIdSchema.optional(),
   productType: z.string().min(1, 'Product type is required'),
   productName: z.string().min(1, 'Product name is required'),
   quantity: z.number().positive('Quantity must be positive'),
@@ -81,6 +200,17 @@ export const createBatchSchema = z.object({
 export const updateBatchSchema = createBatchSchema.partial();
 
 // Inspection schemas
+const fileMetadataSchema = z.object({
+  id: z.string().min(1),
+  filename: z.string().min(1),
+  url: z.string().min(1),
+  thumbnailUrl: z.string().optional(),
+  size: z.number().nonnegative(),
+  mimeType: z.string().min(1),
+  uploadedAt: z.string().or(z.date()).optional(),
+  description: z.string().max(500).optional(),
+});
+
 export const createInspectionSchema = z.object({
   readings: z.array(z.object({
     parameter: z.string().min(1),
@@ -90,7 +220,8 @@ export const createInspectionSchema = z.object({
     maxThreshold: z.number().optional(),
     passed: z.boolean(),
   })).min(1, 'At least one reading is required'),
-  photos: z.array(z.string()).optional(),
+  photos: z.array(fileMetadataSchema).max(50).optional(),
+  labReports: z.array(fileMetadataSchema).max(10).optional(),
   geolocation: z.object({
     latitude: z.number().min(-90).max(90),
     longitude: z.number().min(-180).max(180),
@@ -100,8 +231,8 @@ export const createInspectionSchema = z.object({
   notes: z.string().max(2000).optional(),
 });
 
+// Status is server-owned: an inspection is closed only through the evaluated complete route
 export const updateInspectionSchema = z.object({
-  status: z.enum(['pending', 'in_progress', 'completed', 'failed']).optional(),
   readings: z.array(z.object({
     parameter: z.string().min(1),
     value: z.union([z.string(), z.number()]),
@@ -110,7 +241,52 @@ export const updateInspectionSchema = z.object({
     maxThreshold: z.number().optional(),
     passed: z.boolean(),
   })).optional(),
-  photos: z.array(z.string()).optional(),
+  photos: z.array(fileMetadataSchema).max(50).optional(),
+  labReports: z.array(fileMetadataSchema).max(10).optional(),
+  // Re-recorded on the farm; checked against the batch location again
+  geolocation: z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    accuracy: z.number().nonnegative(),
+    timestamp: z.string().or(z.date()),
+  }).optional(),
+  notes: z.string().max(2000).optional(),
+});
+
+// Autosaved work in progress. Status, outcome and location are server-owned or go through update.
+export const saveInspectionDraftSchema = z.object({
+  readings: z.array(z.object({
+    parameter: z.string().min(1),
+    value: z.union([z.string(), z.number()]),
+    unit: z.string().min(1),
+    minThreshold: z.number().optional(),
+    maxThreshold: z.number().optional(),
+    passed: z.boolean().optional(),
+  })).optional(),
+  photos: z.array(fileMetadataSchema).max(50).optional(),
+  labReports: z.array(fileMetadataSchema).max(10).optional(),
+  notes: z.string().max(2000).optional(),
+});
+
+export const completeInspectionSchema = z.object({
+  readings: z.array(z.object({
+    parameter: z.string().min(1),
+    value: z.union([z.string(), z.number()]),
+    unit: z.string().min(1),
+    minThreshold: z.number().optional(),
+    maxThreshold: z.number().optional(),
+    passed: z.boolean().optional(),
+  })).optional(),
+  passed: z.boolean().optional(),
+  overallResult: z.enum(['pass', 'fail']).optional(),
+  outcome: z.object({
+    classification: z.enum(['pass', 'fail', 'conditional_pass', 'requires_retest']),
+    reasoning: z.string().max(2000).optional(),
+    recommendations: z.array(z.string()).max(20).optional(),
+    followUpRequired: z.boolean().optional(),
+    complianceNotes: z.string().max(1000).optional(),
+  }).optional(),
+  comments: z.string().max(2000).optional(),
   notes: z.string().max(2000).optional(),
 });
 
@@ -122,6 +298,81 @@ export const inspectionQuerySchema = z.object({
   inspectorId: objectIdSchema.optional(),
 });
 
+// Assignment schemas
+export const createAssignmentSchema = z.object({
+  batchId: objectIdSchema,
+  inspectorId: objectIdSchema,
+  scheduledFor: z.coerce.date({ invalid_type_error: 'Invalid scheduled date' }),
+  notes: z.string().trim().max(1000).optional(),
+});
+
+export const reassignAssignmentSchema = createAssignmentSchema.omit({ batchId: true });
+
+export const declineAssignmentSchema = z.object({
+  reason: z.string().trim().min(3, 'Please give a reason').max(500),
+});
+
+export const assignmentQuerySchema = z.object({
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().max(100).optional().default(20),
+  status: z.enum(['pending', 'accepted', 'declined', 'reassigned', 'completed']).optional(),
+  batchId: objectIdSchema.optional(),
+  inspectorId: objectIdSchema.optional(),
+});
+
+export const eligibleInspectorsQuerySchema = z.object({
+  batchId: objectIdSchema,
+});
+
+// Quality standard schemas
+const standardParameterSchema = z
+  .object({
+    key: z
+      .string()
+      .trim()
+      .toLowerCase()
+      .regex(/^[a-z0-9_]+$/, 'Parameter key may only contain letters, digits and underscores')
+      .max(50),
+    label: z.string().trim().min(1, 'Parameter label is required').max(100),
+    unit: z.string().trim().min(1, 'Parameter unit is required').max(20),
+    min: z.number().optional(),
+    max: z.number().optional(),
+    aliases: z.array(z.string().trim().min(1).max(100)).max(10).optional(),
+  })
+  .refine((data) => data.min === undefined || data.max === undefined || data.min <= data.max, {
+    message: 'min cannot be greater than max',
+    path: ['min'],
+  });
+
+const qualityStandardBodySchema = z.object({
+  name: z.string().trim().min(1, 'Standard name is required').max(200),
+  description: z.string().trim().max(1000).optional(),
+  effectiveFrom: z.coerce.date().optional(),
+  parameters: z
+    .array(standardParameterSchema)
+    .max(50)
+    .refine((params) => new Set(params.map((param) => param.key)).size === params.length, {
+      message: 'Parameter keys must be unique',
+    }),
+  requiresOrganic: z.boolean().optional(),
+  requiredPhotos: z.array(z.string().trim().min(1).max(100)).max(20).optional(),
+  requiredReadings: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+});
+
+export const createQualityStandardSchema = qualityStandardBodySchema.extend({
+  productType: z.string().trim().min(1, 'Product type is required').max(100),
+});
+
+export const updateQualityStandardSchema = qualityStandardBodySchema.partial();
+
+export const qualityStandardQuerySchema = z.object({
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().max(100).optional().default(20),
+  productType: z.string().trim().optional(),
+});
+
+export type QualityStandardQuery = z.infer<typeof qualityStandardQuerySchema>;
+
 // Certificate / VC schemas
 export const issueCertificateSchema = z.object({
   batchId: objectIdSchema,
@@ -142,6 +393,10 @@ export const revokeCertificateSchema = z.object({
   ]),
 });
 
+export const revokeIssuerKeySchema = z.object({
+  reason: z.string().trim().max(500, 'Reason cannot exceed 500 characters').optional(),
+});
+
 export const issueVCSchema = z.object({
   batchId: z.string().min(1, 'Batch ID is required'),
   inspectionId: z.string().optional(),
@@ -160,6 +415,80 @@ export const verifyVCSchema = z
     },
   );
 
+export const issuanceJobQuerySchema = z
+  .object({
+    page: z.coerce.number().int().positive().optional().default(1),
+    limit: z.coerce.number().int().positive().max(100).optional().default(20),
+    status: z
+      .enum(['pending', 'processing', 'success', 'failed', 'dead_letter', 'cancelled'])
+      .optional(),
+    batchId: objectIdSchema.optional(),
+    minAgeMinutes: z.coerce.number().int().nonnegative().optional(),
+    maxAgeMinutes: z.coerce.number().int().positive().optional(),
+  })
+  .refine(
+    (data) =>
+      data.minAgeMinutes === undefined ||
+      data.maxAgeMinutes === undefined ||
+      data.minAgeMinutes < data.maxAgeMinutes,
+    {
+      message: 'minAgeMinutes must be less than maxAgeMinutes',
+      path: ['minAgeMinutes'],
+    },
+  );
+
+export type IssuanceJobQuery = z.infer<typeof issuanceJobQuerySchema>;
+
+// Notification schemas
+export const notificationQuerySchema = z.object({
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().max(100).optional().default(20),
+  unreadOnly: z.enum(['true', 'false']).optional().transform((val) => val === 'true'),
+  type: z
+    .enum([
+      'batch_submitted',
+      'inspection_complete',
+      'certificate_issued',
+      'certificate_revoked',
+      'action_required',
+      'batch_approved',
+      'batch_rejected',
+      'inspection_scheduled',
+    ])
+    .optional(),
+});
+
+export type NotificationQuery = z.infer<typeof notificationQuerySchema>;
+
+// Audit log schemas
+const auditLogFilterSchema = z.object({
+  userId: z.string().trim().optional(),
+  action: z.string().trim().toUpperCase().optional(),
+  resource: z.string().trim().optional(),
+  resourceId: z.string().trim().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const validAuditLogRange = (data: { from?: Date; to?: Date }) =>
+  data.from === undefined || data.to === undefined || data.from <= data.to;
+
+export const auditLogQuerySchema = auditLogFilterSchema
+  .extend({
+    page: z.coerce.number().int().positive().optional().default(1),
+    limit: z.coerce.number().int().positive().max(200).optional().default(50),
+  })
+  .refine(validAuditLogRange, { message: 'from must be before to', path: ['from'] });
+
+export const auditLogExportQuerySchema = auditLogFilterSchema
+  .extend({
+    format: z.enum(['csv', 'jsonl']).optional().default('csv'),
+  })
+  .refine(validAuditLogRange, { message: 'from must be before to', path: ['from'] });
+
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
+export type AuditLogExportQuery = z.infer<typeof auditLogExportQuerySchema>;
+
 // Draft schemas
 export const saveDraftSchema = z.object({
   data: z.record(z.any()),
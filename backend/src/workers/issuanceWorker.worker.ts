@@ -1,9 +1,27 @@
-import crypto from 'crypto';
+import os from 'os';
 import config from '../config/config.js';
 import database from '../config/database.config.js';
-import { IssuanceJob, Batch, Inspection, Certificate, Notification } from '../models/index.js';
+import { IssuanceJob, Batch, Inspection, Certificate, Organization, WorkerHeartbeat } from '../models/index.js';
 import { injiClient } from '../services/injiClient.service.js';
+import type { IOrganizationDocument } from '../models/index.js';
 import type { VCPayload } from '../services/injiClient.service.js';
+import { StatusListService } from '../services/statusList.service.js';
+import { NotificationService } from '../services/notification.service.js';
+import { FileRegistryService } from '../services/fileRegistry.service.js';
+import { hashCredential } from '../utils/jcs.util.js';
+import type { StatusAllocation } from '../services/statusList.service.js';
+import { batchFileRefs, inspectionFileRefs } from '../utils/fileEvidence.util.js';
+import type { EvidenceDigest } from '../utils/fileEvidence.util.js';
+
+/**
+ * Another worker may have reclaimed the job, so this one must not finish it
+ */
+class LeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Lost lease on job ${jobId}`);
+    this.name = 'LeaseLostError';
+  }
+}
 
 class IssuanceWorker {
   private isRunning = false;
@@ -11,10 +29,15 @@ class IssuanceWorker {
   private maxConcurrency: number;
   private activeJobs = new Set<string>();
   private readonly workerId: string;
+  private readonly leaseMs: number;
+  private readonly heartbeatIntervalMs: number;
+  private startedAt = new Date();
 
   constructor() {
     this.pollInterval = config.features.worker.pollIntervalMs;
     this.maxConcurrency = config.features.worker.concurrency;
+    this.leaseMs = config.features.worker.leaseMs;
+    this.heartbeatIntervalMs = config.features.worker.heartbeatIntervalMs;
     this.workerId = `worker-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
 
@@ -33,6 +56,7 @@ class IssuanceWorker {
     await database.connect();
 
     this.isRunning = true;
+    this.startedAt = new Date();
     this.poll();
   }
 
@@ -49,6 +73,7 @@ class IssuanceWorker {
       await new Promise(resolve => setTimeout(resolve, 1000));
     }
 
+    await this.reportStatus();
     console.log('[IssuanceWorker] Stopped');
   }
 
@@ -63,6 +88,8 @@ class IssuanceWorker {
         console.error('[IssuanceWorker] Error in poll cycle:', error);
       }
 
+      await this.reportStatus();
+
       if (this.isRunning) {
         await new Promise(resolve => setTimeout(resolve, this.pollInterval));
       }
@@ -77,8 +104,14 @@ class IssuanceWorker {
       return;
     }
 
+    // Jobs whose worker died on the final attempt go straight to the dead-letter state
+    const deadLettered = await IssuanceJob.deadLetterExpiredLeases(this.leaseMs);
+    if (deadLettered.modifiedCount > 0) {
+      console.warn(`[IssuanceWorker] Dead-lettered ${deadLettered.modifiedCount} jobs with expired leases`);
+    }
+
     const availableSlots = this.maxConcurrency - this.activeJobs.size;
-    const pendingJobs = await (IssuanceJob as any).findPendingJobs(availableSlots);
+    const pendingJobs = await IssuanceJob.findPendingJobs(availableSlots, this.leaseMs);
 
     if (pendingJobs.length === 0) {
       return;
@@ -87,7 +120,7 @@ class IssuanceWorker {
     console.log(`[IssuanceWorker] Found ${pendingJobs.length} pending jobs`);
 
     // Process jobs concurrently
-    const promises = pendingJobs.map((job: any) => this.processJob(job.id));
+    const promises = pendingJobs.map((job) => this.processJob(job.id));
     await Promise.allSettled(promises);
   }
 
@@ -100,15 +133,39 @@ class IssuanceWorker {
     }
 
     this.activeJobs.add(jobId);
+    let heartbeat: NodeJS.Timeout | undefined;
+    let leaseHeld = true;
+
+    // Renew the lease before any step with side effects, and stop once it is lost
+    const assertLease = async (): Promise<void> => {
+      if (leaseHeld) {
+        leaseHeld = await IssuanceJob.heartbeat(jobId, this.workerId, this.leaseMs);
+      }
+      if (!leaseHeld) {
+        throw new LeaseLostError(jobId);
+      }
+    };
 
     try {
-      // Claim the job atomically
-      const job = await (IssuanceJob as any).claimJob(jobId, this.workerId);
+      // Claim the job atomically (or reclaim it if another worker's lease expired)
+      const job = await IssuanceJob.claimJob(jobId, this.workerId, this.leaseMs);
       if (!job) {
         console.log(`[IssuanceWorker] Job ${jobId} already claimed or processed`);
         return;
       }
 
+      // Keep the lease alive while the job runs
+      heartbeat = setInterval(() => {
+        IssuanceJob.heartbeat(jobId, this.workerId, this.leaseMs)
+          .then((held: boolean) => {
+            if (!held) {
+              leaseHeld = false;
+              console.warn(`[IssuanceWorker] Lost lease on job ${jobId}`);
+            }
+          })
+          .catch((error: unknown) => console.error(`[IssuanceWorker] Heartbeat failed for job ${jobId}:`, error));
+      }, this.heartbeatIntervalMs);
+
       console.log(`[IssuanceWorker] Processing job ${jobId} for batch ${job.batchId}`);
 
       // Get batch and inspection data
@@ -121,46 +178,82 @@ class IssuanceWorker {
         ? await Inspection.findById(job.inspectionId).populate('inspectorId', 'name email')
         : null;
 
-      // Build credential payload
-      const payload = this.buildCredentialPayload(batch, inspection);
-
-      // Issue VC through Inji client
-      const result = await injiClient.issueVC(payload);
-
-      // Compute VC hash
-      const vcHash = crypto
-        .createHash('sha256')
-        .update(JSON.stringify(result.vcJson))
-        .digest('hex');
-
-      // Create Certificate document
-      const certificate = await Certificate.create({
-        batchId: batch.id,
-        vc: result.vcJson,
-        providerVcId: result.vcId,
-        vcUrl: result.vcUrl,
-        vcHash,
-        qrCodeData: JSON.stringify({
-          type: 'AgriQCert_Certificate',
-          id: result.vcId,
-          url: result.vcUrl,
-          hash: vcHash,
-        }),
-        issuedBy: inspection?.inspectorId || batch.farmerId,
-        expiresAt: new Date(Date.now() + config.features.vc.defaultExpiryDays * 24 * 60 * 60 * 1000),
-        metadata: {
-          jobId: job.id,
-          issuanceMethod: 'inji',
-          processingTime: Date.now() - job.createdAt.getTime(),
-        },
-      });
+      // Certificates are issued under the certification body's own DID when it has one
+      const organization = batch.organizationId ? await Organization.findById(batch.organizationId) : null;
+
+      const evidenceRefs = [...batchFileRefs(batch), ...(inspection ? inspectionFileRefs(inspection) : [])];
+
+      // An earlier attempt may have created the certificate and then lost its
+      // lease; finish the job with it instead of issuing a second credential
+      let certificate = await Certificate.findOne({ batchId: batch.id });
+      if (certificate && certificate.metadata?.jobId !== job.id) {
+        throw new Error(`Batch ${batch.id} already has certificate ${certificate.id}`);
+      }
+
+      if (!certificate) {
+        // Reserve a revocation status list entry once per job so retries reuse it.
+        // The list belongs to the credential's issuer, which signs it too.
+        let statusAllocation: StatusAllocation | undefined = job.payload?.statusAllocation;
+        if (!statusAllocation) {
+          statusAllocation = await StatusListService.allocateEntry(organization?.issuerDid || undefined);
+          await IssuanceJob.updateOne(
+            { _id: job._id, workerId: this.workerId, status: 'processing' },
+            { $set: { 'payload.statusAllocation': statusAllocation } }
+          );
+        }
+
+        // Hashes of the attachments, photos and lab reports the certificate rests on
+        const evidence = await FileRegistryService.evidenceFor(evidenceRefs);
+
+        // Build credential payload
+        const payload = this.buildCredentialPayload(batch, inspection, statusAllocation, organization, evidence);
+
+        // Issue VC through Inji client
+        await assertLease();
+        const result = await injiClient.issueVC(payload);
+
+        // Compute VC hash over the canonical (JCS) form
+        const vcHash = hashCredential(result.vcJson);
+
+        // Create Certificate document
+        await assertLease();
+        certificate = await Certificate.create({
+          batchId: batch.id,
+          organizationId: batch.organizationId,
+          vc: result.vcJson,
+          providerVcId: result.vcId,
+          vcUrl: result.vcUrl,
+          vcHash,
+          statusListId: statusAllocation.listId,
+          statusListIndex: statusAllocation.index,
+          qrCodeData: JSON.stringify({
+            type: 'AgriQCert_Certificate',
+            id: result.vcId,
+            url: result.vcUrl,
+            hash: vcHash,
+          }),
+          issuedBy: inspection?.inspectorId || batch.farmerId,
+          expiresAt: new Date(Date.now() + config.features.vc.defaultExpiryDays * 24 * 60 * 60 * 1000),
+          metadata: {
+            jobId: job.id,
+            issuanceMethod: 'inji',
+            processingTime: Date.now() - job.createdAt.getTime(),
+          },
+        });
+      }
+
+      // The credential's evidence digests must keep pointing at existing files
+      await FileRegistryService.pinEvidence(certificate.id, evidenceRefs);
 
       // Mark job as successful
-      await (IssuanceJob as any).markSuccess(jobId, {
-        vcId: result.vcId,
-        vcUrl: result.vcUrl,
+      const completedJob = await IssuanceJob.markSuccess(jobId, {
+        vcId: certificate.providerVcId,
+        vcUrl: certificate.vcUrl,
         certificateId: certificate.id,
-      });
+      }, this.workerId);
+      if (!completedJob) {
+        console.warn(`[IssuanceWorker] Lost lease on job ${jobId} after creating certificate ${certificate.id}`);
+      }
 
       // Update batch status if needed
       if (batch.status === 'approved') {
@@ -175,20 +268,32 @@ class IssuanceWorker {
       console.log(`[IssuanceWorker] Successfully processed job ${jobId}, created certificate ${certificate.id}`);
 
     } catch (error) {
+      if (error instanceof LeaseLostError) {
+        console.warn(`[IssuanceWorker] Abandoning job ${jobId}: ${error.message}`);
+        return;
+      }
+
       console.error(`[IssuanceWorker] Job ${jobId} failed:`, error);
 
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
-      // Get current job to check attempt count
-      const currentJob = await IssuanceJob.findById(jobId);
-      if (currentJob && currentJob.attempts >= 3) {
-        // Max attempts reached, mark as failed
-        await (IssuanceJob as any).markFailed(jobId, errorMessage);
+      // Reschedule with backoff, or dead-letter once maxAttempts is reached
+      const failedJob = await IssuanceJob.markFailed(jobId, errorMessage, this.workerId, {
+        baseMs: config.features.worker.backoffBaseMs,
+        maxMs: config.features.worker.backoffMaxMs,
+      });
+
+      if (failedJob?.status === 'dead_letter') {
+        console.error(`[IssuanceWorker] Job ${jobId} moved to dead-letter after ${failedJob.attempts} attempts`);
+      } else if (failedJob) {
+        console.log(`[IssuanceWorker] Job ${jobId} will be retried at ${failedJob.nextRunAt?.toISOString()}`);
       } else {
-        // Requeue for retry
-        await (IssuanceJob as any).requeueJob(jobId, errorMessage);
+        console.warn(`[IssuanceWorker] Lost lease on job ${jobId} before recording the failure`);
       }
     } finally {
+      if (heartbeat) {
+        clearInterval(heartbeat);
+      }
       this.activeJobs.delete(jobId);
     }
   }
@@ -196,7 +301,13 @@ class IssuanceWorker {
   /**
    * Build credential payload from batch and inspection data
    */
-  private buildCredentialPayload(batch: any, inspection: any): VCPayload {
+  private buildCredentialPayload(
+    batch: any,
+    inspection: any,
+    statusAllocation: StatusAllocation,
+    organization: IOrganizationDocument | null,
+    evidence: EvidenceDigest[] = []
+  ): VCPayload {
     const credentialSubject: Record<string, any> = {
       id: `did:agriqcert:batch:${batch.id}`,
       batchId: batch.id,
@@ -218,6 +329,13 @@ class IssuanceWorker {
       },
     };
 
+    if (organization) {
+      credentialSubject.certificationBody = {
+        id: organization.id,
+        name: organization.name,
+      };
+    }
+
     if (inspection) {
       credentialSubject.inspection = {
         id: inspection.id,
@@ -234,6 +352,30 @@ class IssuanceWorker {
         notes: inspection.notes,
         overallScore: inspection.overallScore,
       };
+
+      // Where the inspection was recorded and how far that was from the farm
+      if (inspection.geospatialData) {
+        credentialSubject.inspection.geolocation = {
+          latitude: inspection.geospatialData.latitude,
+          longitude: inspection.geospatialData.longitude,
+          accuracy: inspection.geospatialData.accuracy,
+          timestamp: inspection.geospatialData.timestamp,
+        };
+      }
+      if (inspection.geofence) {
+        credentialSubject.inspection.geofence = {
+          status: inspection.geofence.status,
+          distanceMeters: inspection.geofence.distanceMeters,
+          accuracyMeters: inspection.geofence.accuracyMeters,
+          radiusMeters: inspection.geofence.radiusMeters,
+          maxAccuracyMeters: inspection.geofence.maxAccuracyMeters,
+          checkedAt: inspection.geofence.checkedAt,
+        };
+      }
+    }
+
+    if (evidence.length > 0) {
+      credentialSubject.evidence = evidence;
     }
 
     return {
@@ -243,7 +385,8 @@ class IssuanceWorker {
         'https://www.w3.org/2018/credentials/v1',
         'https://schemas.agriqcert.com/v1',
       ],
-      issuer: config.features.inji.issuerDid,
+      issuer: organization?.issuerDid || config.features.inji.issuerDid,
+      credentialStatus: statusAllocation.credentialStatus,
       expirationDate: new Date(Date.now() + config.features.vc.defaultExpiryDays * 24 * 60 * 60 * 1000).toISOString(),
     };
   }
@@ -253,17 +396,17 @@ class IssuanceWorker {
    */
   private async createNotification(batch: any, certificate: any): Promise<void> {
     try {
-      await Notification.create({
+      await NotificationService.createNotification({
         userId: batch.farmerId,
         type: 'certificate_issued',
         title: 'Certificate Issued',
         message: `Your certificate for batch ${batch.id} (${batch.productName}) has been successfully issued.`,
-        data: {
+        actionUrl: `/batches/${batch._id}`,
+        metadata: {
           batchId: batch.id,
           certificateId: certificate.id,
           productName: batch.productName,
         },
-        priority: 'high',
       });
     } catch (error) {
       console.error('[IssuanceWorker] Failed to create notification:', error);
@@ -282,15 +425,38 @@ class IssuanceWorker {
     return 'Winter';
   }
 
+  /**
+   * Publish this worker's status so the API process can report on it
+   */
+  private async reportStatus(): Promise<void> {
+    try {
+      await WorkerHeartbeat.updateOne(
+        { workerId: this.workerId },
+        {
+          ...this.getStatus(),
+          hostname: os.hostname(),
+          pid: process.pid,
+          startedAt: this.startedAt,
+          lastSeenAt: new Date(),
+        },
+        { upsert: true }
+      );
+    } catch (error) {
+      console.error('[IssuanceWorker] Failed to report status:', error);
+    }
+  }
+
   /**
    * Get worker status
    */
   getStatus() {
     return {
+      workerId: this.workerId,
       isRunning: this.isRunning,
       activeJobs: this.activeJobs.size,
       maxConcurrency: this.maxConcurrency,
       pollInterval: this.pollInterval,
+      leaseMs: this.leaseMs,
     };
   }
 }
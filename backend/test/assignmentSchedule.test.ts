@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_SCHEDULE_DAYS, formatVisitDate, scheduleError } from '../src/utils/assignmentSchedule.util.js';
+
+const now = new Date('2026-03-10T15:30:00Z');
+
+describe('Assignment scheduling', () => {
+  it('should accept visits from today up to the scheduling horizon', () => {
+    expect(scheduleError(new Date('2026-03-10T08:00:00Z'), now)).toBeNull();
+    expect(scheduleError(new Date('2026-03-11T09:00:00Z'), now)).toBeNull();
+    expect(scheduleError(new Date(now.getTime() + MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000), now)).toBeNull();
+  });
+
+  it('should reject past, far-off and invalid dates', () => {
+    expect(scheduleError(new Date('2026-03-09T23:59:00Z'), now)).toBe('Scheduled date cannot be in the past');
+    expect(scheduleError(new Date('2026-09-01T00:00:00Z'), now)).toMatch(/at most 90 days ahead/);
+    expect(scheduleError(new Date('not a date'), now)).toBe('Invalid scheduled date');
+  });
+
+  it('should format the visit as a calendar date', () => {
+    expect(formatVisitDate(new Date('2026-03-14T10:00:00Z'))).toBe('2026-03-14');
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GENESIS_HASH,
+  ChainedAuditEntry,
+  computeAuditEntryHash,
+  createChainVerifier,
+} from '../src/utils/auditChain.util.js';
+
+const buildChain = (length: number): ChainedAuditEntry[] => {
+  const entries: ChainedAuditEntry[] = [];
+  let prevHash = GENESIS_HASH;
+
+  for (let sequence = 1; sequence <= length; sequence++) {
+    const content = {
+      sequence,
+      prevHash,
+      userId: 'u1',
+      userName: 'Admin',
+      action: 'BATCH_SUBMITTED',
+      resource: 'batch',
+      resourceId: `b${sequence}`,
+      details: { productType: 'wheat', quantity: sequence },
+      timestamp: new Date(Date.UTC(2024, 4, 1, 10, sequence)),
+    };
+    const hash = computeAuditEntryHash(content);
+    entries.push({ ...content, hash });
+    prevHash = hash;
+  }
+
+  return entries;
+};
+
+const verify = (entries: ChainedAuditEntry[]) => {
+  const verifier = createChainVerifier();
+  entries.forEach((entry) => verifier.check(entry));
+  return verifier;
+};
+
+describe('Audit log hash chain', () => {
+  it('should hash independently of details key order', () => {
+    const [entry] = buildChain(1);
+    const reordered = { ...entry, details: { quantity: 1, productType: 'wheat' } };
+
+    expect(computeAuditEntryHash(reordered)).toBe(entry.hash);
+    expect(computeAuditEntryHash({ ...entry, ipAddress: undefined })).toBe(
+      computeAuditEntryHash({ ...entry, ipAddress: null })
+    );
+  });
+
+  it('should accept an intact chain', () => {
+    const entries = buildChain(5);
+    const verifier = verify(entries);
+
+    expect(verifier.issueCount).toBe(0);
+    expect(verifier.headSequence).toBe(5);
+    expect(verifier.headHash).toBe(entries[4].hash);
+  });
+
+  it('should detect an entry modified after it was written', () => {
+    const entries = buildChain(3);
+    entries[1] = { ...entries[1], details: { productType: 'rice', quantity: 2 } };
+
+    expect(verify(entries).issues).toEqual([expect.objectContaining({ type: 'modified', sequence: 2 })]);
+  });
+
+  it('should detect a deleted entry as a gap', () => {
+    const entries = buildChain(4);
+    entries.splice(1, 1);
+
+    expect(verify(entries).issues).toEqual([
+      expect.objectContaining({ type: 'gap', sequence: 3, expectedSequence: 2 }),
+    ]);
+  });
+
+  it('should detect an entry rehashed without relinking its successor', () => {
+    const entries = buildChain(3);
+    const forged = { ...entries[1], action: 'BATCH_APPROVED' };
+    entries[1] = { ...forged, hash: computeAuditEntryHash(forged) };
+
+    expect(verify(entries).issues).toEqual([expect.objectContaining({ type: 'broken_link', sequence: 3 })]);
+  });
+
+  it('should flag conflicting copies of a sequence but not identical ones', () => {
+    const entries = buildChain(3);
+
+    expect(verify([entries[0], entries[1], entries[1], entries[2]]).issueCount).toBe(0);
+
+    const conflicting = { ...entries[1], hash: 'f'.repeat(64) };
+    expect(verify([entries[0], entries[1], conflicting, entries[2]]).issues).toEqual([
+      expect.objectContaining({ type: 'duplicate', sequence: 2 }),
+    ]);
+  });
+
+  it('should keep checkpointed hashes available', () => {
+    const entries = buildChain(3);
+    const verifier = createChainVerifier([2]);
+    entries.forEach((entry) => verifier.check(entry));
+
+    expect(verifier.hashAt(2)).toBe(entries[1].hash);
+    expect(verifier.hashAt(9)).toBeUndefined();
+  });
+});
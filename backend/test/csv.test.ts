@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { toCsvField, toCsvRow } from '../src/utils/csv.util.js';
+
+describe('CSV formatting', () => {
+  it('should quote fields containing separators, quotes or newlines', () => {
+    expect(toCsvField('plain')).toBe('plain');
+    expect(toCsvField('a,b')).toBe('"a,b"');
+    expect(toCsvField('say "hi"')).toBe('"say ""hi"""');
+    expect(toCsvField('line\nbreak')).toBe('"line\nbreak"');
+  });
+
+  it('should format dates, objects and empty values', () => {
+    expect(toCsvField(new Date('2024-05-01T10:00:00.000Z'))).toBe('2024-05-01T10:00:00.000Z');
+    expect(toCsvField({ batchId: 'b1', passed: true })).toBe('"{""batchId"":""b1"",""passed"":true}"');
+    expect(toCsvField(undefined)).toBe('');
+    expect(toCsvField(null)).toBe('');
+    expect(toCsvField(-3)).toBe('-3');
+  });
+
+  it('should neutralise text a spreadsheet would run as a formula', () => {
+    expect(toCsvField('=HYPERLINK("http://evil")')).toBe('"\'=HYPERLINK(""http://evil"")"');
+    expect(toCsvField('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(toCsvField('-1+2')).toBe("'-1+2");
+  });
+
+  it('should join a row with CRLF line endings', () => {
+    expect(toCsvRow(['USER_LOGIN', 'user', 'u1'])).toBe('USER_LOGIN,user,u1\r\n');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { batchFileRefs, buildEvidence, inspectionFileRefs } from '../src/utils/fileEvidence.util.js';
+
+const report = {
+  fileId: '5b6f1c1e-0d2a-4d4e-9a43-3f1f0a7c2b10',
+  filename: 'moisture-lab.pdf',
+  mimeType: 'application/pdf',
+  size: 2048,
+  sha256: 'a'.repeat(64),
+};
+const photo = {
+  fileId: '0c1d2e3f-4a5b-4c6d-8e7f-901234567890',
+  filename: 'bags.jpg',
+  mimeType: 'image/jpeg',
+  size: 4096,
+  sha256: 'b'.repeat(64),
+};
+
+describe('File evidence', () => {
+  it('should collect file references from batches and inspections', () => {
+    expect(batchFileRefs({ attachments: [{ id: report.fileId }] })).toEqual([
+      { fileId: report.fileId, field: 'attachments' },
+    ]);
+    expect(
+      inspectionFileRefs({ photos: [{ id: photo.fileId }], labReports: [{ id: report.fileId }] })
+    ).toEqual([
+      { fileId: photo.fileId, field: 'photos' },
+      { fileId: report.fileId, field: 'labReports' },
+    ]);
+  });
+
+  it('should skip entries without a file ID', () => {
+    const photos = ['https://example.com/photo.jpg', { id: '' }] as unknown as { id: string }[];
+    expect(inspectionFileRefs({ photos })).toEqual([]);
+    expect(batchFileRefs({})).toEqual([]);
+  });
+
+  it('should list digests in reference order, once per file', () => {
+    const evidence = buildEvidence(
+      [
+        { fileId: report.fileId, field: 'labReports' },
+        { fileId: photo.fileId, field: 'photos' },
+        { fileId: report.fileId, field: 'attachments' },
+      ],
+      [photo, report]
+    );
+
+    expect(evidence).toEqual([
+      { id: report.fileId, type: 'LabReport', name: 'moisture-lab.pdf', mimeType: 'application/pdf', size: 2048, sha256: report.sha256 },
+      { id: photo.fileId, type: 'InspectionPhoto', name: 'bags.jpg', mimeType: 'image/jpeg', size: 4096, sha256: photo.sha256 },
+    ]);
+  });
+
+  it('should leave out files that are unregistered or not yet hashed', () => {
+    const evidence = buildEvidence(
+      [
+        { fileId: report.fileId, field: 'labReports' },
+        { fileId: photo.fileId, field: 'photos' },
+      ],
+      [{ ...report, sha256: undefined }]
+    );
+
+    expect(evidence).toEqual([]);
+  });
+});
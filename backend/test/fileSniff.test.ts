@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { detectSignature, matchesDeclaredType } from '../src/utils/fileSniff.util.js';
+
+const ftyp = (major: string, ...compatible: string[]) => {
+  const box = Buffer.alloc(16 + compatible.length * 4);
+  box.writeUInt32BE(box.length, 0);
+  box.write('ftyp', 4, 'latin1');
+  box.write(major, 8, 'latin1');
+  compatible.forEach((brand, index) => box.write(brand, 16 + index * 4, 'latin1'));
+  return box;
+};
+
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+const PDF = Buffer.from('%PDF-1.7\n');
+const ZIP = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00]);
+const OLE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1, 0x00]);
+
+describe('Upload content sniffing', () => {
+  it('should recognise common upload formats from their leading bytes', () => {
+    expect(detectSignature(JPEG)).toBe('jpeg');
+    expect(detectSignature(PNG)).toBe('png');
+    expect(detectSignature(PDF)).toBe('pdf');
+    expect(detectSignature(ZIP)).toBe('zip');
+    expect(detectSignature(OLE)).toBe('ole');
+    expect(detectSignature(Buffer.from('batch,moisture\nB-1,12.5\n'))).toBe('text');
+  });
+
+  it('should recognise HEIF from the major or a compatible brand', () => {
+    expect(detectSignature(ftyp('heic', 'mif1', 'heic'))).toBe('heif');
+    expect(detectSignature(ftyp('MiHE', 'mif1'))).toBe('heif');
+    expect(detectSignature(ftyp('isom', 'mp41'))).toBeNull();
+  });
+
+  it('should treat binary or invalid UTF-8 as unrecognised', () => {
+    expect(detectSignature(Buffer.alloc(0))).toBeNull();
+    expect(detectSignature(Buffer.from([0x4d, 0x5a, 0x90, 0x00]))).toBeNull();
+    expect(detectSignature(Buffer.from([0x61, 0xc3, 0x28, 0x62]))).toBeNull();
+  });
+
+  it('should accept text whose sample ends inside a multi-byte character', () => {
+    const text = Buffer.from('Région,Humidité');
+    expect(detectSignature(text.subarray(0, text.indexOf(0xc3) + 1))).toBe('text');
+  });
+
+  it('should check content against the declared type', () => {
+    expect(matchesDeclaredType(JPEG, 'image/jpeg')).toBe(true);
+    expect(matchesDeclaredType(ftyp('heic'), 'image/heic')).toBe(true);
+    expect(matchesDeclaredType(ZIP, 'application/vnd.openxmlformats-officedocument.wordprocessingml.document')).toBe(true);
+    expect(matchesDeclaredType(Buffer.from('a,b\n1,2\n'), 'application/vnd.ms-excel')).toBe(true);
+
+    expect(matchesDeclaredType(PDF, 'image/jpeg')).toBe(false);
+    expect(matchesDeclaredType(Buffer.from('<script>alert(1)</script>'), 'image/png')).toBe(false);
+    expect(matchesDeclaredType(ZIP, 'application/pdf')).toBe(false);
+    expect(matchesDeclaredType(JPEG, 'image/gif')).toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { checkGeofence, describeGeofence, haversineDistanceMeters } from '../src/utils/geofence.util.js';
+
+const farm = { latitude: 14.5995, longitude: 120.9842 };
+const checkedAt = new Date('2026-03-14T09:00:00Z');
+
+describe('Geofence check', () => {
+  it('should compute great-circle distances', () => {
+    expect(haversineDistanceMeters(farm, farm)).toBe(0);
+    // One degree of latitude is about 111.2 km
+    expect(haversineDistanceMeters({ latitude: 0, longitude: 0 }, { latitude: 1, longitude: 0 })).toBeCloseTo(111195, -1);
+    // Paris to London, about 343.5 km
+    expect(
+      haversineDistanceMeters({ latitude: 48.8566, longitude: 2.3522 }, { latitude: 51.5074, longitude: -0.1278 }) / 1000
+    ).toBeCloseTo(343.5, 0);
+  });
+
+  it('should place a nearby, precise fix within the radius', () => {
+    const check = checkGeofence({
+      device: { latitude: 14.6035, longitude: 120.9842, accuracy: 12 },
+      site: farm,
+      radiusMeters: 1000,
+      maxAccuracyMeters: 100,
+      checkedAt,
+    });
+
+    expect(check).toEqual({
+      status: 'within',
+      distanceMeters: 445,
+      accuracyMeters: 12,
+      radiusMeters: 1000,
+      maxAccuracyMeters: 100,
+      checkedAt,
+    });
+  });
+
+  it('should flag a fix outside the radius', () => {
+    const check = checkGeofence({
+      device: { latitude: 14.8547, longitude: 120.273, accuracy: 5 },
+      site: farm,
+      radiusMeters: 1000,
+      maxAccuracyMeters: 100,
+    });
+
+    expect(check.status).toBe('outside');
+    expect(check.distanceMeters).toBeGreaterThan(80000);
+    expect(describeGeofence(check)).toMatch(/outside the 1000 m radius/);
+  });
+
+  it('should flag a fix too coarse to tell, even inside the radius', () => {
+    const check = checkGeofence({
+      device: { ...farm, accuracy: 250 },
+      site: farm,
+      radiusMeters: 1000,
+      maxAccuracyMeters: 100,
+    });
+
+    expect(check.status).toBe('low_accuracy');
+    expect(check.distanceMeters).toBe(0);
+    expect(describeGeofence(check)).toBe('Location accuracy of 250 m exceeds the 100 m limit');
+  });
+
+  it('should report missing locations as unavailable', () => {
+    expect(checkGeofence({ site: farm, radiusMeters: 1000, maxAccuracyMeters: 100 }).status).toBe('unavailable');
+
+    const check = checkGeofence({ device: { ...farm, accuracy: 5 }, radiusMeters: 1000, maxAccuracyMeters: 100 });
+    expect(check.status).toBe('unavailable');
+    expect(check.distanceMeters).toBeUndefined();
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { parseRange } from '../src/utils/httpRange.util.js';
+
+describe('HTTP Range parsing', () => {
+  it('should send the whole file without a usable bytes range', () => {
+    expect(parseRange(undefined, 100)).toBeNull();
+    expect(parseRange('items=0-9', 100)).toBeNull();
+    expect(parseRange('bytes=0-9,20-29', 100)).toBeNull();
+    expect(parseRange('bytes=-', 100)).toBeNull();
+  });
+
+  it('should parse closed, open-ended and suffix ranges', () => {
+    expect(parseRange('bytes=0-9', 100)).toEqual({ start: 0, end: 9 });
+    expect(parseRange('bytes=90-', 100)).toEqual({ start: 90, end: 99 });
+    expect(parseRange('bytes=-10', 100)).toEqual({ start: 90, end: 99 });
+  });
+
+  it('should clamp ranges that run past the end of the file', () => {
+    expect(parseRange('bytes=50-500', 100)).toEqual({ start: 50, end: 99 });
+    expect(parseRange('bytes=-500', 100)).toEqual({ start: 0, end: 99 });
+  });
+
+  it('should flag ranges that cannot be satisfied', () => {
+    expect(parseRange('bytes=100-', 100)).toBe('unsatisfiable');
+    expect(parseRange('bytes=9-0', 100)).toBe('unsatisfiable');
+    expect(parseRange('bytes=-0', 100)).toBe('unsatisfiable');
+    expect(parseRange('bytes=0-0', 0)).toBe('unsatisfiable');
+  });
+});
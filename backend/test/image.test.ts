@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import exifr from 'exifr';
+import { THUMBNAIL_SIZE, createThumbnail, normalizeImage, readCaptureMetadata } from '../src/utils/image.util.js';
+
+// A field photo as a phone would save it: rotated via EXIF, with time and position
+const fieldPhoto = () =>
+  sharp({ create: { width: 640, height: 480, channels: 3, background: { r: 40, g: 140, b: 60 } } })
+    .withExif({
+      IFD0: { Make: 'TestPhone' },
+      IFD2: { DateTimeOriginal: '2026:03:14 09:26:53' },
+      IFD3: {
+        GPSLatitudeRef: 'S',
+        GPSLatitude: '1/1 17/1 3000/100',
+        GPSLongitudeRef: 'E',
+        GPSLongitude: '36/1 49/1 1200/100',
+        GPSAltitudeRef: '0',
+        GPSAltitude: '1650/1',
+      },
+    })
+    .withMetadata({ orientation: 6 })
+    .jpeg()
+    .toBuffer();
+
+describe('Photo normalization', () => {
+  it('should read capture time and position from EXIF', async () => {
+    const capture = await readCaptureMetadata(await fieldPhoto());
+
+    expect(capture.capturedAt).toBeInstanceOf(Date);
+    expect(capture.latitude).toBeCloseTo(-(1 + 17 / 60 + 30 / 3600), 5);
+    expect(capture.longitude).toBeCloseTo(36 + 49 / 60 + 12 / 3600, 5);
+    expect(capture.altitude).toBe(1650);
+  });
+
+  it('should return nothing for images without EXIF', async () => {
+    const plain = await sharp({ create: { width: 8, height: 8, channels: 3, background: '#fff' } }).png().toBuffer();
+    expect(await readCaptureMetadata(plain)).toEqual({});
+  });
+
+  it('should apply the orientation and strip all metadata', async () => {
+    const normalized = await normalizeImage(await fieldPhoto(), 'image/jpeg');
+
+    expect(normalized.mimeType).toBe('image/jpeg');
+    expect(normalized.extension).toBe('.jpg');
+    expect(normalized.width).toBe(480);
+    expect(normalized.height).toBe(640);
+    expect(normalized.capture.latitude).toBeLessThan(0);
+    expect(normalized.convertedFrom).toBeUndefined();
+    expect(await exifr.parse(normalized.body)).toBeUndefined();
+  });
+
+  it('should keep PNGs as PNG', async () => {
+    const png = await sharp({ create: { width: 16, height: 16, channels: 4, background: '#0000' } }).png().toBuffer();
+    const normalized = await normalizeImage(png, 'image/png');
+
+    expect(normalized.mimeType).toBe('image/png');
+    expect((await sharp(normalized.body).metadata()).format).toBe('png');
+  });
+
+  it('should create square JPEG thumbnails', async () => {
+    const thumbnail = await sharp(await createThumbnail(await fieldPhoto())).metadata();
+
+    expect(thumbnail.format).toBe('jpeg');
+    expect(thumbnail.width).toBe(THUMBNAIL_SIZE);
+    expect(thumbnail.height).toBe(THUMBNAIL_SIZE);
+  });
+});
@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import crypto from 'crypto';
 import { injiClient } from '../src/services/injiClient.service.js';
 import config from '../src/config/config.js';
 
@@ -16,6 +17,18 @@ vi.mock('../config/index.js', () => ({
   }
 }));
 
+// Sign with an in-memory key instead of the database-backed DID keys
+vi.mock('../src/services/did.service.js', () => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+  const verificationMethod = 'did:example:agriqcert#key-1';
+  return {
+    didService: {
+      getSigningKey: async () => ({ verificationMethod, privateKey }),
+      resolveVerificationMethod: async (vm: string) => (vm === verificationMethod ? publicKey : null),
+    },
+  };
+});
+
 describe('InjiClient', () => {
   beforeAll(() => {
     // Ensure we're in mock mode for tests
@@ -76,4 +76,78 @@ describe('IssuanceJob Model', () => {
     const secondClaim = await (IssuanceJob as any).claimJob(job._id, 'worker-2');
     expect(secondClaim).toBeNull();
   });
-});
\ No newline at end of file
+
+  it('should reschedule failed attempts with exponential backoff', async () => {
+    const job = await IssuanceJob.create({ batchId: 'BATCH-2024-005' });
+
+    await (IssuanceJob as any).claimJob(job._id, 'worker-1');
+    const failed = await (IssuanceJob as any).markFailed(job._id, 'Inji timeout', 'worker-1', {
+      baseMs: 60000,
+      maxMs: 600000,
+    });
+
+    expect(failed.status).toBe('pending');
+    expect(failed.nextRunAt.getTime()).toBeGreaterThan(Date.now() + 50000);
+    expect(failed.errorHistory).toHaveLength(1);
+    expect(failed.toObject().errorHistory[0]).toMatchObject({ attempt: 1, error: 'Inji timeout', workerId: 'worker-1' });
+
+    // Not due yet, so it cannot be claimed
+    expect(await (IssuanceJob as any).claimJob(job._id, 'worker-2')).toBeNull();
+  });
+
+  it('should dead-letter a job once maxAttempts is reached', async () => {
+    const job = await IssuanceJob.create({ batchId: 'BATCH-2024-006', maxAttempts: 1 });
+
+    await (IssuanceJob as any).claimJob(job._id, 'worker-1');
+    const failed = await (IssuanceJob as any).markFailed(job._id, 'Batch not found', 'worker-1');
+
+    expect(failed.status).toBe('dead_letter');
+    expect(failed.deadLetteredAt).toBeInstanceOf(Date);
+    expect(failed.errorHistory.map((entry: any) => entry.error)).toEqual(['Batch not found']);
+  });
+
+  it('should let another worker reclaim a job whose lease expired', async () => {
+    const job = await IssuanceJob.create({ batchId: 'BATCH-2024-007' });
+
+    await (IssuanceJob as any).claimJob(job._id, 'worker-1', 1);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const reclaimed = await (IssuanceJob as any).claimJob(job._id, 'worker-2');
+
+    expect(reclaimed?.workerId).toBe('worker-2');
+    expect(reclaimed?.attempts).toBe(2);
+    expect(reclaimed?.toObject().errorHistory[0]).toMatchObject({ attempt: 1, workerId: 'worker-1' });
+    expect(await (IssuanceJob as any).heartbeat(job._id, 'worker-1')).toBe(false);
+  });
+
+  it('should not let a worker that lost the lease complete or fail the job', async () => {
+    const job = await IssuanceJob.create({ batchId: 'BATCH-2024-010' });
+
+    await (IssuanceJob as any).claimJob(job._id, 'worker-1', 1);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await (IssuanceJob as any).claimJob(job._id, 'worker-2');
+
+    expect(await (IssuanceJob as any).markSuccess(job._id, { vcId: 'vc-1' }, 'worker-1')).toBeNull();
+    expect(await (IssuanceJob as any).markFailed(job._id, 'Inji timeout', 'worker-1')).toBeNull();
+
+    const completed = await (IssuanceJob as any).markSuccess(job._id, { vcId: 'vc-2' }, 'worker-2');
+    expect(completed.status).toBe('success');
+    expect(completed.result.vcId).toBe('vc-2');
+  });
+
+  it('should only cancel pending jobs and allow them to be retried', async () => {
+    const pending = await IssuanceJob.create({ batchId: 'BATCH-2024-008' });
+    const processing = await IssuanceJob.create({ batchId: 'BATCH-2024-009' });
+    await (IssuanceJob as any).claimJob(processing._id, 'worker-1');
+
+    const cancelled = await (IssuanceJob as any).cancelJob(pending._id, 'admin-1');
+    expect(cancelled.status).toBe('cancelled');
+    expect(cancelled.cancelledBy).toBe('admin-1');
+    expect(await (IssuanceJob as any).cancelJob(processing._id, 'admin-1')).toBeNull();
+
+    expect(cancelled.canRetry()).toBe(true);
+    const retried = await cancelled.retry();
+    expect(retried.status).toBe('pending');
+    expect(retried.cancelledAt).toBeUndefined();
+  });
+});
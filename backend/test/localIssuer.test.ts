@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import { LocalIssuer } from '../src/services/localIssuer.service.js';
+
+describe('LocalIssuer', () => {
+  const { privateKey } = crypto.generateKeyPairSync('ed25519');
+  const issuer = new LocalIssuer({
+    did: 'did:example:agriqcert',
+    verificationMethod: 'did:example:agriqcert#key-1',
+    privateKey,
+  });
+
+  const credential = {
+    '@context': ['https://www.w3.org/2018/credentials/v1'],
+    type: ['VerifiableCredential', 'AgricultureQualityCertificate'],
+    issuer: 'did:example:agriqcert',
+    issuanceDate: '2024-06-01T00:00:00.000Z',
+    credentialSubject: {
+      id: 'did:agriqcert:batch:1',
+      productName: 'Organic Rice',
+      quantity: 1000,
+      harvestDate: new Date('2024-05-01T00:00:00.000Z'),
+    },
+  };
+
+  it('should sign a credential with an eddsa-jcs-2022 Data Integrity proof', async () => {
+    const signed = await issuer.signCredential(credential);
+
+    expect(signed.proof.type).toBe('DataIntegrityProof');
+    expect(signed.proof.cryptosuite).toBe('eddsa-jcs-2022');
+    expect(signed['@context']).toContain('https://w3id.org/security/data-integrity/v2');
+    expect(signed.proof['@context']).toEqual(signed['@context']);
+    expect(signed.proof.verificationMethod).toBe('did:example:agriqcert#key-1');
+    expect(signed.proof.proofValue).toMatch(/^z/);
+    expect(signed.credentialSubject.harvestDate).toBe('2024-05-01T00:00:00.000Z');
+    expect((await issuer.verifyCredential(signed)).valid).toBe(true);
+  });
+
+  it('should verify regardless of key order', async () => {
+    const signed = await issuer.signCredential(credential);
+    const reordered = JSON.parse(JSON.stringify({
+      proof: signed.proof,
+      credentialSubject: { ...signed.credentialSubject },
+      issuanceDate: signed.issuanceDate,
+      issuer: signed.issuer,
+      type: signed.type,
+      '@context': signed['@context'],
+    }));
+
+    expect((await issuer.verifyCredential(reordered)).valid).toBe(true);
+  });
+
+  it('should reject a tampered credential', async () => {
+    const signed = await issuer.signCredential(credential);
+    const tampered = {
+      ...signed,
+      credentialSubject: { ...signed.credentialSubject, quantity: 5000 },
+    };
+
+    const result = await issuer.verifyCredential(tampered);
+    expect(result.valid).toBe(false);
+    expect(result.reason).toBe('Signature does not match credential');
+  });
+
+  it('should reject proofs with another cryptosuite', async () => {
+    const signed = await issuer.signCredential(credential);
+    const relabelled = { ...signed, proof: { ...signed.proof, cryptosuite: 'eddsa-rdfc-2022' } };
+
+    expect((await issuer.verifyCredential(relabelled)).valid).toBe(false);
+  });
+
+  it('should reject forged proof values', async () => {
+    const signed = await issuer.signCredential(credential);
+    const forged = { ...signed, proof: { ...signed.proof, proofValue: 'mock_signature_abc' } };
+
+    expect((await issuer.verifyCredential(forged)).valid).toBe(false);
+  });
+
+  it('should reject signatures from an unknown key', async () => {
+    const other = new LocalIssuer({
+      did: 'did:example:agriqcert',
+      verificationMethod: 'did:example:agriqcert#key-1',
+      privateKey: crypto.generateKeyPairSync('ed25519').privateKey,
+    });
+
+    expect((await issuer.verifyCredential(await other.signCredential(credential))).valid).toBe(false);
+  });
+
+  it('should reject verification methods not controlled by the issuer', async () => {
+    const signed = await issuer.signCredential(credential);
+
+    expect((await issuer.verifyCredential({ ...signed, issuer: 'did:example:other' })).valid).toBe(false);
+  });
+
+  it('should only accept keys that were valid when the proof was created', async () => {
+    const publicKey = crypto.createPublicKey(privateKey);
+    const withValidUntil = (validUntil: Date) =>
+      new LocalIssuer({
+        did: 'did:example:agriqcert',
+        keySource: {
+          getSigningKey: async () => ({ verificationMethod: 'did:example:agriqcert#key-1', privateKey }),
+          resolveVerificationMethod: async (_vm: string, at?: Date) =>
+            at && at <= validUntil ? publicKey : null,
+        },
+      });
+
+    const signed = await issuer.signCredential(credential);
+    const createdAt = new Date(signed.proof.created);
+
+    expect((await withValidUntil(new Date(createdAt.getTime() + 1000)).verifyCredential(signed)).valid).toBe(true);
+    expect((await withValidUntil(new Date(createdAt.getTime() - 1000)).verifyCredential(signed)).valid).toBe(false);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ThrottlePolicy,
+  activeFailures,
+  failureDelaySeconds,
+  formatWait,
+  secondsUntilAllowed,
+} from '../src/utils/loginThrottle.util.js';
+
+const policy: ThrottlePolicy = {
+  windowMinutes: 15,
+  delayAfterFailures: 3,
+  maxDelaySeconds: 30,
+  maxFailures: 10,
+  lockoutMinutes: 15,
+};
+
+const now = new Date('2024-05-01T10:00:00Z');
+const secondsAgo = (seconds: number) => new Date(now.getTime() - seconds * 1000);
+
+describe('Login throttling', () => {
+  it('should delay progressively after the threshold, up to the cap', () => {
+    expect([0, 1, 2].map((failures) => failureDelaySeconds(failures, policy))).toEqual([0, 0, 0]);
+    expect([3, 4, 5, 6].map((failures) => failureDelaySeconds(failures, policy))).toEqual([1, 2, 4, 8]);
+    expect(failureDelaySeconds(20, policy)).toBe(30);
+  });
+
+  it('should forget failures outside the window', () => {
+    expect(activeFailures({ failures: 5, lastFailureAt: secondsAgo(60) }, policy, now)).toBe(5);
+    expect(activeFailures({ failures: 5, lastFailureAt: secondsAgo(16 * 60) }, policy, now)).toBe(0);
+    expect(activeFailures({}, policy, now)).toBe(0);
+  });
+
+  it('should allow an attempt once the delay since the last failure has passed', () => {
+    // 5 failures: 4 second delay
+    expect(secondsUntilAllowed({ failures: 5, lastFailureAt: secondsAgo(1) }, policy, now)).toBe(3);
+    expect(secondsUntilAllowed({ failures: 5, lastFailureAt: secondsAgo(4) }, policy, now)).toBe(0);
+    expect(secondsUntilAllowed({ failures: 2, lastFailureAt: secondsAgo(0) }, policy, now)).toBe(0);
+  });
+
+  it('should refuse attempts until a lockout ends', () => {
+    const lockedUntil = new Date(now.getTime() + 10 * 60 * 1000);
+
+    expect(secondsUntilAllowed({ failures: 0, lockedUntil }, policy, now)).toBe(600);
+    expect(secondsUntilAllowed({ failures: 0, lockedUntil: secondsAgo(1) }, policy, now)).toBe(0);
+  });
+
+  it('should format waits for messages', () => {
+    expect(formatWait(1)).toBe('1 second');
+    expect(formatWait(45)).toBe('45 seconds');
+    expect(formatWait(60)).toBe('1 minute');
+    expect(formatWait(600)).toBe('10 minutes');
+  });
+});
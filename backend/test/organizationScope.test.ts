@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { ScopedUser, inOrganizationScope, organizationFilter } from '../src/utils/organizationScope.util.js';
+
+const certifier: ScopedUser = { userId: 'u1', role: 'certifier', organizationId: 'org-a' };
+const unaffiliated: ScopedUser = { userId: 'u2', role: 'qa_inspector' };
+const admin: ScopedUser = { userId: 'u3', role: 'admin', organizationId: 'org-a' };
+const farmer: ScopedUser = { userId: 'u4', role: 'farmer', organizationId: 'org-b' };
+
+describe('Organization scope', () => {
+  it('should filter organization staff to their own organization', () => {
+    expect(organizationFilter(certifier)).toEqual({ organizationId: 'org-a' });
+    expect(organizationFilter(unaffiliated)).toEqual({ organizationId: null });
+  });
+
+  it('should not filter admins or farmers by organization', () => {
+    expect(organizationFilter(admin)).toEqual({});
+    expect(organizationFilter(farmer)).toEqual({});
+  });
+
+  it('should only allow staff to act on records of their organization', () => {
+    expect(inOrganizationScope(certifier, 'org-a')).toBe(true);
+    expect(inOrganizationScope(certifier, 'org-b')).toBe(false);
+    expect(inOrganizationScope(certifier, undefined)).toBe(false);
+    expect(inOrganizationScope(unaffiliated, undefined)).toBe(true);
+    expect(inOrganizationScope(unaffiliated, 'org-a')).toBe(false);
+    expect(inOrganizationScope(admin, 'org-b')).toBe(true);
+  });
+});
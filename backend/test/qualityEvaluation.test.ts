@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateInspection } from '../src/utils/qualityEvaluation.util.js';
+import type { IStandardSnapshot } from '../src/types/index.js';
+
+describe('evaluateInspection', () => {
+  const grains: IStandardSnapshot = {
+    productType: 'grains',
+    name: 'Grains quality standard',
+    version: 2,
+    effectiveFrom: new Date('2024-01-01T00:00:00.000Z'),
+    parameters: [
+      { key: 'moisture', label: 'Moisture Content', unit: '%', max: 14, aliases: [] },
+      { key: 'temperature', label: 'Storage Temperature', unit: '°C', min: 10, max: 25, aliases: ['temp'] },
+      { key: 'ph', label: 'pH Level', unit: 'pH', min: 6, max: 7.5, aliases: [] },
+    ],
+    requiresOrganic: false,
+    requiredPhotos: [],
+    requiredReadings: [],
+  };
+
+  it('should pass readings within both reading and standard thresholds', () => {
+    const result = evaluateInspection({
+      standard: grains,
+      readings: [
+        { parameter: 'Moisture Content', value: '12', unit: '%', minThreshold: 10, maxThreshold: 14, passed: false },
+        { parameter: 'pH Level', value: 6.5, unit: 'pH', passed: false },
+      ],
+    });
+
+    expect(result.classification).toBe('pass');
+    expect(result.readings.every((reading) => reading.passed)).toBe(true);
+  });
+
+  it('should ignore client passed flags and apply the tighter standard limit', () => {
+    const result = evaluateInspection({
+      standard: grains,
+      readings: [
+        // Inspector widened the threshold past the standard maximum of 14%
+        { parameter: 'Moisture Content', value: 16, unit: '%', maxThreshold: 20, passed: true },
+      ],
+    });
+
+    expect(result.classification).toBe('fail');
+    expect(result.readings[0].passed).toBe(false);
+    expect(result.checks[0]).toMatchObject({ max: 14, status: 'fail' });
+  });
+
+  it('should fail readings in an unexpected unit or with a non-numeric value', () => {
+    const result = evaluateInspection({
+      standard: grains,
+      readings: [
+        { parameter: 'Temp', value: 70, unit: '°F', passed: true },
+        { parameter: 'pH Level', value: 'neutral', unit: 'pH', passed: true },
+      ],
+    });
+
+    expect(result.checks.map((check) => check.status)).toEqual(['fail', 'fail']);
+  });
+
+  it('should match parameter names on whole words only', () => {
+    const result = evaluateInspection({
+      standard: grains,
+      readings: [{ parameter: 'Phosphorus', value: 40, unit: 'mg/kg', passed: false }],
+    });
+
+    expect(result.classification).toBe('pass');
+    expect(result.checks[0].status).toBe('not_evaluated');
+  });
+
+  it('should evaluate quality readings and organic requirements', () => {
+    const result = evaluateInspection({
+      standard: { ...grains, requiresOrganic: true },
+      readings: [],
+      qualityReadings: { moisturePercent: 12, temperatureC: 30, isOrganic: false },
+    });
+
+    const byParameter = Object.fromEntries(result.checks.map((check) => [check.parameter, check.status]));
+    expect(byParameter).toEqual({ moisturePercent: 'pass', temperatureC: 'fail', isOrganic: 'fail' });
+    expect(result.classification).toBe('fail');
+  });
+
+  it('should fail when required readings or photos are missing', () => {
+    const standard = { ...grains, requiredReadings: ['moisture', 'visual_inspection'], requiredPhotos: ['sample'] };
+    const readings = [{ parameter: 'Moisture Content', value: 12, unit: '%', passed: true }];
+
+    const missing = evaluateInspection({ standard, readings });
+    expect(missing.checks.filter((check) => check.status === 'fail').map((check) => check.parameter)).toEqual([
+      'visual_inspection',
+      'sample',
+    ]);
+
+    const complete = evaluateInspection({
+      standard,
+      readings: [...readings, { parameter: 'Visual inspection', value: 'good', unit: 'grade', passed: true }],
+      photos: [{ filename: 'IMG_0042.jpg', description: 'Sample from bag 3' }],
+    });
+    expect(complete.classification).toBe('pass');
+  });
+});
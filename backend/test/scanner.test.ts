@@ -0,0 +1,87 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import net from 'net';
+import { ClamAvScanner, parseClamdReply } from '../src/services/scanner.service.js';
+
+/**
+ * Minimal clamd: reads one zINSTREAM request and answers with `reply`
+ */
+const fakeClamd = (reply: (payload: Buffer) => string): Promise<{ server: net.Server; port: number }> =>
+  new Promise((resolve) => {
+    const server = net.createServer((socket) => {
+      let received = Buffer.alloc(0);
+      socket.on('data', (chunk) => {
+        received = Buffer.concat([received, chunk]);
+
+        const command = 'zINSTREAM\0';
+        if (received.length < command.length) return;
+
+        const chunks: Buffer[] = [];
+        let offset = command.length;
+        while (offset + 4 <= received.length) {
+          const length = received.readUInt32BE(offset);
+          if (length === 0) {
+            socket.end(`${reply(Buffer.concat(chunks))}\0`);
+            return;
+          }
+          if (offset + 4 + length > received.length) return;
+          chunks.push(received.subarray(offset + 4, offset + 4 + length));
+          offset += 4 + length;
+        }
+      });
+    });
+    server.listen(0, '127.0.0.1', () => resolve({ server, port: (server.address() as net.AddressInfo).port }));
+  });
+
+describe('ClamAV scanner', () => {
+  let server: net.Server | null = null;
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve) ?? resolve(undefined));
+    server = null;
+  });
+
+  it('should parse clamd replies', () => {
+    expect(parseClamdReply('stream: OK\0')).toEqual({ clean: true });
+    expect(parseClamdReply('stream: Eicar-Test-Signature FOUND\0')).toEqual({
+      clean: false,
+      signature: 'Eicar-Test-Signature',
+    });
+    expect(() => parseClamdReply('INSTREAM size limit exceeded. ERROR\0')).toThrow(/size limit/);
+    expect(() => parseClamdReply('')).toThrow(/empty reply/);
+  });
+
+  it('should stream the whole file in chunks and report a clean result', async () => {
+    let scanned = Buffer.alloc(0);
+    const clamd = await fakeClamd((payload) => {
+      scanned = payload;
+      return 'stream: OK';
+    });
+    server = clamd.server;
+
+    const body = Buffer.alloc(200 * 1024, 7);
+    const scanner = new ClamAvScanner({ host: '127.0.0.1', port: clamd.port, timeoutMs: 5000 });
+
+    await expect(scanner.scan(body)).resolves.toEqual({ clean: true });
+    expect(scanned.equals(body)).toBe(true);
+  });
+
+  it('should report the detected signature', async () => {
+    const clamd = await fakeClamd(() => 'stream: Eicar-Test-Signature FOUND');
+    server = clamd.server;
+
+    const scanner = new ClamAvScanner({ host: '127.0.0.1', port: clamd.port, timeoutMs: 5000 });
+    await expect(scanner.scan(Buffer.from('X5O!P%@AP'))).resolves.toEqual({
+      clean: false,
+      signature: 'Eicar-Test-Signature',
+    });
+  });
+
+  it('should fail when clamd cannot be reached', async () => {
+    const clamd = await fakeClamd(() => 'stream: OK');
+    const { port } = clamd;
+    await new Promise((resolve) => clamd.server.close(resolve));
+
+    const scanner = new ClamAvScanner({ host: '127.0.0.1', port, timeoutMs: 5000 });
+    await expect(scanner.scan(Buffer.from('data'))).rejects.toThrow();
+  });
+});
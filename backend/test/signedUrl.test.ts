@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { UploadGrant, signDownload, signUpload, verifyDownload, verifyUpload } from '../src/utils/signedUrl.util.js';
+
+const secret = 'test-secret';
+const now = new Date('2026-03-10T12:00:00Z');
+const grant: UploadGrant = {
+  fileId: '5b6f1c1e-0d2a-4d4e-9a43-3f1f0a7c2b10',
+  category: 'lab-reports',
+  mimeType: 'application/pdf',
+  maxSize: 1024,
+  expires: now.getTime() / 1000 + 600,
+};
+
+describe('Signed file URLs', () => {
+  it('should accept an untampered upload grant before it expires', () => {
+    expect(verifyUpload(grant, signUpload(grant, secret), secret, now)).toBeNull();
+  });
+
+  it('should reject upload grants with altered fields or another secret', () => {
+    const signature = signUpload(grant, secret);
+
+    expect(verifyUpload({ ...grant, maxSize: 10 * 1024 * 1024 }, signature, secret, now)).toBe('Invalid signature');
+    expect(verifyUpload({ ...grant, mimeType: 'text/html' }, signature, secret, now)).toBe('Invalid signature');
+    expect(verifyUpload({ ...grant, category: 'photos' }, signature, secret, now)).toBe('Invalid signature');
+    expect(verifyUpload(grant, signUpload(grant, 'other-secret'), secret, now)).toBe('Invalid signature');
+    expect(verifyUpload(grant, 'not-a-signature', secret, now)).toBe('Invalid signature');
+  });
+
+  it('should reject expired grants', () => {
+    const later = new Date(now.getTime() + 601 * 1000);
+    expect(verifyUpload(grant, signUpload(grant, secret), secret, later)).toBe('Signed URL has expired');
+  });
+
+  it('should not accept an upload signature for a download', () => {
+    const download = { fileId: grant.fileId, category: grant.category, expires: grant.expires };
+
+    expect(verifyDownload(download, signDownload(download, secret), secret, now)).toBeNull();
+    expect(verifyDownload(download, signUpload(grant, secret), secret, now)).toBe('Invalid signature');
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotp,
+  normalizeRecoveryCode,
+  totpStep,
+  verifyTotp,
+} from '../src/utils/totp.util.js';
+
+// RFC 6238 appendix B test secret ("12345678901234567890")
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP', () => {
+  it('should round-trip base32', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(RFC_SECRET).toString()).toBe('12345678901234567890');
+    expect(base32Decode('gezd gnbv')).toEqual(base32Decode('GEZDGNBV'));
+  });
+
+  it('should match the RFC 6238 SHA-1 test vectors', () => {
+    const vectors: Array<[number, string]> = [
+      [59, '94287082'],
+      [1111111109, '07081804'],
+      [1234567890, '89005924'],
+      [2000000000, '69279037'],
+    ];
+
+    for (const [seconds, expected] of vectors) {
+      expect(generateTotp(RFC_SECRET, totpStep(seconds * 1000), 8)).toBe(expected);
+    }
+  });
+
+  it('should accept codes within the drift window only', () => {
+    const time = 1_700_000_000_000;
+    const step = totpStep(time);
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step), { time })).toBe(step);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), { time })).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 3), { time })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '12ab56', { time })).toBeNull();
+  });
+
+  it('should build an otpauth URI', () => {
+    const uri = buildOtpauthUri(RFC_SECRET, 'meera@example.com', 'AgriQCert');
+
+    expect(uri.startsWith('otpauth://totp/AgriQCert%3Ameera%40example.com?')).toBe(true);
+    expect(new URL(uri).searchParams.get('secret')).toBe(RFC_SECRET);
+  });
+
+  it('should generate distinct recovery codes that normalize consistently', () => {
+    const codes = generateRecoveryCodes();
+
+    expect(new Set(codes).size).toBe(10);
+    expect(codes[0]).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/);
+    expect(normalizeRecoveryCode(codes[0].toUpperCase().replace('-', ' '))).toBe(codes[0].replace('-', ''));
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { describeUserAgent } from '../src/utils/userAgent.util.js';
+
+describe('describeUserAgent', () => {
+  it('should name the browser and platform', () => {
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36'
+      )
+    ).toBe('Chrome on Windows');
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_4) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Safari/605.1.15'
+      )
+    ).toBe('Safari on macOS');
+    expect(
+      describeUserAgent('Mozilla/5.0 (X11; Ubuntu; Linux x86_64; rv:125.0) Gecko/20100101 Firefox/125.0')
+    ).toBe('Firefox on Linux');
+  });
+
+  it('should not mistake Edge or mobile Chrome for desktop Chrome', () => {
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.0.0'
+      )
+    ).toBe('Edge on Windows');
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36'
+      )
+    ).toBe('Chrome on Android');
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) CriOS/124.0 Mobile/15E148 Safari/604.1'
+      )
+    ).toBe('Chrome on iOS');
+  });
+
+  it('should fall back for missing or unrecognised agents', () => {
+    expect(describeUserAgent(undefined)).toBe('Unknown device');
+    expect(describeUserAgent('')).toBe('Unknown device');
+    expect(describeUserAgent('curl/8.5.0')).toBe('curl');
+    expect(describeUserAgent('SomeBot/1.0')).toBe('Unknown device');
+  });
+});
@@ -12,7 +12,11 @@ import Index from "./pages/Index";
 import Dashboard from "./pages/admin/Dashboard";
 import Profile from "./pages/admin/Profile";
 import Users from "./pages/admin/Users";
+import Organizations from "./pages/admin/Organizations";
 import Settings from "./pages/admin/Settings";
+import IssuanceQueue from "./pages/admin/IssuanceQueue";
+import QualityStandards from "./pages/admin/QualityStandards";
+import AuditLogs from "./pages/admin/AuditLogs";
 import BatchList from "./pages/farmer/BatchList";
 import BatchNew from "./pages/farmer/BatchNew";
 import BatchDetail from "./pages/farmer/BatchDetail";
@@ -62,6 +66,8 @@ function AppRoutes() {
     <Routes>
       <Route path="/login" element={isAuthenticated ? <Navigate to="/dashboard" replace /> : <Login />} />
       <Route path="/login/:role" element={isAuthenticated ? <Navigate to="/dashboard" replace /> : <Login />} />
+      <Route path="/verify-email" element={<Login />} />
+      <Route path="/reset-password" element={<Login />} />
       <Route path="/" element={<Index />} />
       {/* Generic routes */}
       <Route path="/dashboard" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
@@ -222,6 +228,16 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/admin/organizations"
+        element={
+          <ProtectedRoute>
+            <RoleRoute allowed={["admin"]}>
+              <Organizations />
+            </RoleRoute>
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/admin/settings"
         element={
@@ -232,6 +248,36 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/admin/issuance-queue"
+        element={
+          <ProtectedRoute>
+            <RoleRoute allowed={["admin", "certifier"]}>
+              <IssuanceQueue />
+            </RoleRoute>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/admin/standards"
+        element={
+          <ProtectedRoute>
+            <RoleRoute allowed={["admin"]}>
+              <QualityStandards />
+            </RoleRoute>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/admin/audit-logs"
+        element={
+          <ProtectedRoute>
+            <RoleRoute allowed={["admin"]}>
+              <AuditLogs />
+            </RoleRoute>
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/admin/batches"
         element={
@@ -5,6 +5,7 @@ import type {
   Inspection,
   Certificate,
   Notification,
+  NotificationList,
   BatchDraft,
   VerificationResult,
   ApiResponse,
@@ -12,13 +13,16 @@ import type {
   User,
   CreateBatchPayload,
   UpdateBatchPayload,
-  CreateInspectionPayload
+  CreateInspectionPayload,
+  CompleteInspectionPayload,
+  TwoFactorSetup,
+  TwoFactorStatus,
+  DeviceSession
 } from '@/types';
 import {
   mockBatches,
   mockInspections,
-  mockCertificates,
-  mockNotifications
+  mockCertificates
 } from './mockData';
 
 const API_BASE_URL = import.meta.env?.VITE_API_BASE_URL || 'http://localhost:5000/api';
@@ -199,6 +203,70 @@ export const api = {
       });
       return response.data;
     },
+
+    verifyEmail: async (token: string) => {
+      const response = await apiClient.post('/auth/verify-email', { token });
+      return response.data;
+    },
+
+    resendVerification: async () => {
+      const response = await apiClient.post('/auth/resend-verification');
+      return response.data;
+    },
+
+    forgotPassword: async (email: string) => {
+      const response = await apiClient.post('/auth/forgot-password', { email });
+      return response.data;
+    },
+
+    resetPassword: async (token: string, password: string) => {
+      const response = await apiClient.post('/auth/reset-password', { token, password });
+      return response.data;
+    },
+
+    twoFactor: {
+      status: async (): Promise<TwoFactorStatus> => {
+        const response = await apiClient.get('/auth/2fa');
+        return response.data.data;
+      },
+
+      setup: async (): Promise<TwoFactorSetup> => {
+        const response = await apiClient.post('/auth/2fa/setup');
+        return response.data.data;
+      },
+
+      enable: async (code: string): Promise<string[]> => {
+        const response = await apiClient.post('/auth/2fa/enable', { code });
+        return response.data.data.recoveryCodes;
+      },
+
+      disable: async (password: string, factor: { code?: string; recoveryCode?: string }) => {
+        const response = await apiClient.post('/auth/2fa/disable', { password, ...factor });
+        return response.data;
+      },
+
+      regenerateRecoveryCodes: async (code: string): Promise<string[]> => {
+        const response = await apiClient.post('/auth/2fa/recovery-codes', { code });
+        return response.data.data.recoveryCodes;
+      },
+    },
+
+    sessions: {
+      list: async (): Promise<DeviceSession[]> => {
+        const response = await apiClient.get('/auth/sessions');
+        return response.data.data;
+      },
+
+      revoke: async (id: string) => {
+        const response = await apiClient.delete(`/auth/sessions/${id}`);
+        return response.data;
+      },
+
+      revokeOthers: async () => {
+        const response = await apiClient.delete('/auth/sessions');
+        return response.data;
+      },
+    },
   },
 
   // Batches
@@ -369,7 +437,7 @@ export const api = {
       };
     },
 
-    complete: async (id: string, data: { passed: boolean; comments?: string; readings?: unknown[] }): Promise<ApiResponse<Inspection>> => {
+    complete: async (id: string, data: CompleteInspectionPayload): Promise<ApiResponse<Inspection>> => {
       if (!id || id === 'undefined' || id === 'null') {
         throw new Error('Invalid inspection ID provided');
       }
@@ -494,24 +562,30 @@ export const api = {
 
   // Notifications
   notifications: {
-    list: async (userId: string): Promise<PaginatedResponse<Notification>> => {
-      await delay(400);
-      const filtered = mockNotifications.filter(n => n.userId === userId);
-      return {
-        data: filtered,
-        total: filtered.length,
-        page: 1,
-        pageSize: 10,
-        totalPages: 1,
-      };
+    // Always scoped to the signed-in user by the backend
+    list: async (filters?: { page?: number; limit?: number; unreadOnly?: boolean }): Promise<NotificationList> => {
+      const params = new URLSearchParams();
+      if (filters?.page) params.append('page', filters.page.toString());
+      if (filters?.limit) params.append('limit', filters.limit.toString());
+      if (filters?.unreadOnly) params.append('unreadOnly', 'true');
+
+      const response = await apiClient.get(`/notifications?${params.toString()}`);
+      return response.data.data;
     },
 
-    markRead: async (id: string): Promise<void> => {
-      await delay(200);
-      const notif = mockNotifications.find(n => n.id === id);
-      if (notif) {
-        notif.read = true;
-      }
+    unreadCount: async (): Promise<number> => {
+      const response = await apiClient.get('/notifications/unread-count');
+      return response.data.data.count;
+    },
+
+    markRead: async (id: string): Promise<Notification> => {
+      const response = await apiClient.post(`/notifications/${id}/read`);
+      return response.data.data;
+    },
+
+    markAllRead: async (): Promise<number> => {
+      const response = await apiClient.post('/notifications/read-all');
+      return response.data.data.updated;
     },
   },
 
@@ -0,0 +1,79 @@
+import { apiClient } from './apiClient';
+import type { Assignment, AssignmentStatus, User } from '../types';
+
+// Types
+export interface AssignmentFilters {
+  status?: AssignmentStatus;
+  batchId?: string;
+  inspectorId?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface AssignmentList {
+  data: Assignment[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export interface AssignInspectionInput {
+  batchId: string;
+  inspectorId: string;
+  // ISO date of the planned visit
+  scheduledFor: string;
+  notes?: string;
+}
+
+export type ReassignInspectionInput = Omit<AssignInspectionInput, 'batchId'>;
+
+// API Functions
+
+/**
+ * List inspection assignments; inspectors receive their own queue
+ */
+export const listAssignments = async (filters: AssignmentFilters = {}): Promise<AssignmentList> => {
+  const response = await apiClient.get('/assignments', { params: filters });
+  return response.data.data;
+};
+
+/**
+ * List the inspectors a batch can be assigned to
+ */
+export const listEligibleInspectors = async (batchId: string): Promise<User[]> => {
+  const response = await apiClient.get('/assignments/inspectors', { params: { batchId } });
+  return response.data.data;
+};
+
+/**
+ * Assign a submitted batch to an inspector
+ */
+export const assignInspection = async (request: AssignInspectionInput): Promise<Assignment> => {
+  const response = await apiClient.post('/assignments', request);
+  return response.data.data;
+};
+
+/**
+ * Move an assignment to another inspector or visit date
+ */
+export const reassignInspection = async (id: string, request: ReassignInspectionInput): Promise<Assignment> => {
+  const response = await apiClient.post(`/assignments/${id}/reassign`, request);
+  return response.data.data;
+};
+
+/**
+ * Accept an assignment
+ */
+export const acceptAssignment = async (id: string): Promise<Assignment> => {
+  const response = await apiClient.post(`/assignments/${id}/accept`);
+  return response.data.data;
+};
+
+/**
+ * Decline an assignment
+ */
+export const declineAssignment = async (id: string, reason: string): Promise<Assignment> => {
+  const response = await apiClient.post(`/assignments/${id}/decline`, { reason });
+  return response.data.data;
+};
@@ -0,0 +1,124 @@
+import { apiClient } from './apiClient';
+
+// Types
+export interface AuditLogEntry {
+  id: string;
+  userId: string;
+  userName: string;
+  action: string;
+  resource: string;
+  resourceId: string;
+  details?: Record<string, unknown>;
+  ipAddress?: string;
+  userAgent?: string;
+  timestamp: string;
+  sequence?: number;
+  hash?: string;
+  prevHash?: string;
+}
+
+export interface AuditLogFilters {
+  userId?: string;
+  action?: string;
+  resource?: string;
+  resourceId?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface AuditLogList {
+  data: AuditLogEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export interface AuditLogFacets {
+  actions: string[];
+  resources: string[];
+}
+
+export interface ChainIssue {
+  type: 'gap' | 'broken_link' | 'modified' | 'duplicate';
+  sequence: number;
+  expectedSequence?: number;
+  message: string;
+}
+
+export interface ChainVerificationReport {
+  valid: boolean;
+  checkedEntries: number;
+  headSequence: number;
+  headHash: string;
+  unchainedEntries: number;
+  issues: ChainIssue[];
+  issueCount: number;
+  checkpoints: {
+    sequence: number;
+    createdAt: string;
+    status: 'valid' | 'invalid_signature' | 'hash_mismatch' | 'missing_entry';
+  }[];
+  verifiedAt: string;
+}
+
+// API Functions
+
+/**
+ * Query audit log entries, newest first
+ */
+export const listAuditLogs = async (filters: AuditLogFilters & { page?: number; limit?: number } = {}): Promise<AuditLogList> => {
+  const response = await apiClient.get('/audit-logs', { params: filters });
+  return response.data.data;
+};
+
+/**
+ * Distinct actions and resources for the filter menus
+ */
+export const getAuditLogFacets = async (): Promise<AuditLogFacets> => {
+  const response = await apiClient.get('/audit-logs/facets');
+  return response.data.data;
+};
+
+/**
+ * Full history of one resource, oldest first
+ */
+export const getResourceTimeline = async (resource: string, resourceId: string): Promise<AuditLogEntry[]> => {
+  const response = await apiClient.get(
+    `/audit-logs/timeline/${encodeURIComponent(resource)}/${encodeURIComponent(resourceId)}`
+  );
+  return response.data.data;
+};
+
+/**
+ * Check the audit log hash chain and its signed checkpoints
+ */
+export const verifyAuditChain = async (): Promise<ChainVerificationReport> => {
+  const response = await apiClient.get('/audit-logs/verify', {
+    // Verification walks the entire log
+    timeout: 0,
+  });
+  return response.data.data;
+};
+
+/**
+ * Download matching entries as a CSV or JSON Lines file
+ */
+export const exportAuditLogs = async (filters: AuditLogFilters, format: 'csv' | 'jsonl'): Promise<void> => {
+  const response = await apiClient.get('/audit-logs/export', {
+    params: { ...filters, format },
+    responseType: 'blob',
+    // Exports of the full log can take longer than the default timeout
+    timeout: 0,
+  });
+
+  const disposition: string = response.headers['content-disposition'] || '';
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `audit-log.${format}`;
+
+  const url = URL.createObjectURL(response.data);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
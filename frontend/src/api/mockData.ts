@@ -127,8 +127,24 @@ export const mockInspections: Inspection[] = [
       { parameter: 'Heavy Metals', value: 0.001, unit: 'ppm', maxThreshold: 0.01, passed: true },
     ],
     photos: [
-      'https://images.unsplash.com/photo-1416879595882-3373a0480b5b?w=600',
-      'https://images.unsplash.com/photo-1574323347407-f5e1ad6d020b?w=600',
+      {
+        id: 'photo-001',
+        filename: 'field-overview.jpg',
+        url: 'https://images.unsplash.com/photo-1416879595882-3373a0480b5b?w=600',
+        thumbnailUrl: 'https://images.unsplash.com/photo-1416879595882-3373a0480b5b?w=320&h=320&fit=crop',
+        size: 245760,
+        mimeType: 'image/jpeg',
+        uploadedAt: '2024-11-18T10:05:00Z',
+      },
+      {
+        id: 'photo-002',
+        filename: 'harvest-sample.jpg',
+        url: 'https://images.unsplash.com/photo-1574323347407-f5e1ad6d020b?w=600',
+        thumbnailUrl: 'https://images.unsplash.com/photo-1574323347407-f5e1ad6d020b?w=320&h=320&fit=crop',
+        size: 198656,
+        mimeType: 'image/jpeg',
+        uploadedAt: '2024-11-18T10:12:00Z',
+      },
     ],
     geolocation: {
       latitude: 14.5995,
@@ -136,6 +152,14 @@ export const mockInspections: Inspection[] = [
       accuracy: 5,
       timestamp: '2024-11-18T10:00:00Z',
     },
+    geofence: {
+      status: 'within',
+      distanceMeters: 120,
+      accuracyMeters: 5,
+      radiusMeters: 1000,
+      maxAccuracyMeters: 100,
+      checkedAt: '2024-11-18T10:00:00Z',
+    },
     notes: 'All parameters within acceptable ranges. Farm follows good agricultural practices.',
     createdAt: '2024-11-18T09:00:00Z',
     completedAt: '2024-11-18T12:00:00Z',
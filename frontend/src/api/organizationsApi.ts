@@ -0,0 +1,94 @@
+import { apiClient } from './apiClient';
+import type { Organization, OrganizationRole, OrganizationType, User } from '../types';
+
+// Types
+export interface OrganizationFilters {
+  type?: OrganizationType;
+  isActive?: boolean;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface OrganizationList {
+  data: Organization[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export interface CreateOrganizationInput {
+  name: string;
+  slug?: string;
+  type: OrganizationType;
+  description?: string;
+  contactEmail?: string;
+  issuerDid?: string;
+}
+
+export interface UpdateOrganizationInput {
+  name?: string;
+  description?: string;
+  contactEmail?: string;
+  // null reverts to the platform issuer DID
+  issuerDid?: string | null;
+  isActive?: boolean;
+}
+
+// API Functions
+
+/**
+ * List and search organizations
+ */
+export const listOrganizations = async (filters: OrganizationFilters = {}): Promise<OrganizationList> => {
+  const response = await apiClient.get('/organizations', { params: filters });
+  return response.data.data;
+};
+
+/**
+ * Create an organization
+ */
+export const createOrganization = async (request: CreateOrganizationInput): Promise<Organization> => {
+  const response = await apiClient.post('/organizations', request);
+  return response.data.data;
+};
+
+/**
+ * Update an organization's details or issuer DID
+ */
+export const updateOrganization = async (id: string, request: UpdateOrganizationInput): Promise<Organization> => {
+  const response = await apiClient.patch(`/organizations/${id}`, request);
+  return response.data.data;
+};
+
+/**
+ * List an organization's members
+ */
+export const listOrganizationMembers = async (id: string): Promise<User[]> => {
+  const response = await apiClient.get(`/organizations/${id}/members`);
+  return response.data.data;
+};
+
+/**
+ * Add an existing user to an organization
+ */
+export const addOrganizationMember = async (id: string, email: string, role: OrganizationRole): Promise<User> => {
+  const response = await apiClient.post(`/organizations/${id}/members`, { email, role });
+  return response.data.data;
+};
+
+/**
+ * Change a member's role in the organization
+ */
+export const updateOrganizationMember = async (id: string, userId: string, role: OrganizationRole): Promise<User> => {
+  const response = await apiClient.patch(`/organizations/${id}/members/${userId}`, { role });
+  return response.data.data;
+};
+
+/**
+ * Remove a member from the organization
+ */
+export const removeOrganizationMember = async (id: string, userId: string): Promise<void> => {
+  await apiClient.delete(`/organizations/${id}/members/${userId}`);
+};
@@ -0,0 +1,89 @@
+import { apiClient } from './apiClient';
+
+// Types
+export interface StandardParameter {
+  key: string;
+  label: string;
+  unit: string;
+  min?: number;
+  max?: number;
+  aliases?: string[];
+}
+
+export interface QualityStandard {
+  id: string;
+  productType: string;
+  name: string;
+  description?: string;
+  version: number;
+  effectiveFrom: string;
+  parameters: StandardParameter[];
+  requiresOrganic: boolean;
+  requiredPhotos: string[];
+  requiredReadings: string[];
+  createdBy: string;
+  updatedBy?: string;
+  createdAt: string;
+  updatedAt: string;
+  // Only present in list responses
+  state?: 'effective' | 'scheduled' | 'superseded';
+}
+
+export interface QualityStandardInput {
+  name: string;
+  description?: string;
+  effectiveFrom?: string;
+  parameters: StandardParameter[];
+  requiresOrganic?: boolean;
+  requiredPhotos?: string[];
+  requiredReadings?: string[];
+}
+
+export interface QualityStandardList {
+  data: QualityStandard[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+// API Functions
+
+/**
+ * List quality standard versions
+ */
+export const listStandards = async (filters: { productType?: string; page?: number; limit?: number } = {}): Promise<QualityStandardList> => {
+  const response = await apiClient.get('/standards', { params: filters });
+  return response.data.data;
+};
+
+/**
+ * Get the standard version in effect for a product type
+ */
+export const getCurrentStandard = async (productType: string): Promise<QualityStandard> => {
+  const response = await apiClient.get(`/standards/current/${encodeURIComponent(productType)}`);
+  return response.data.data;
+};
+
+/**
+ * Create a new version of a product's standard
+ */
+export const createStandard = async (request: QualityStandardInput & { productType: string }): Promise<QualityStandard> => {
+  const response = await apiClient.post('/standards', request);
+  return response.data.data;
+};
+
+/**
+ * Update a standard version that has not taken effect yet
+ */
+export const updateStandard = async (id: string, request: Partial<QualityStandardInput>): Promise<QualityStandard> => {
+  const response = await apiClient.put(`/standards/${id}`, request);
+  return response.data.data;
+};
+
+/**
+ * Delete a standard version that has not taken effect yet
+ */
+export const deleteStandard = async (id: string): Promise<void> => {
+  await apiClient.delete(`/standards/${id}`);
+};
@@ -0,0 +1,77 @@
+import { apiClient } from './apiClient';
+import type { User, UserRole } from '../types';
+
+// Types
+export interface UserFilters {
+  role?: UserRole;
+  isActive?: boolean;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface UserList {
+  data: User[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export interface CreateUserInput {
+  email: string;
+  password: string;
+  name: string;
+  role: UserRole;
+  organization?: string;
+  phone?: string;
+}
+
+// API Functions
+
+/**
+ * List and search users
+ */
+export const listUsers = async (filters: UserFilters = {}): Promise<UserList> => {
+  const response = await apiClient.get('/users', { params: filters });
+  return response.data.data;
+};
+
+/**
+ * Create a user with any role
+ */
+export const createUser = async (request: CreateUserInput): Promise<User> => {
+  const response = await apiClient.post('/users', request);
+  return response.data.data;
+};
+
+/**
+ * Change a user's role
+ */
+export const changeUserRole = async (id: string, role: UserRole): Promise<User> => {
+  const response = await apiClient.patch(`/users/${id}/role`, { role });
+  return response.data.data;
+};
+
+/**
+ * Activate or deactivate a user
+ */
+export const setUserActive = async (id: string, isActive: boolean): Promise<User> => {
+  const response = await apiClient.patch(`/users/${id}/status`, { isActive });
+  return response.data.data;
+};
+
+/**
+ * Sign a user out of every session
+ */
+export const forceLogoutUser = async (id: string): Promise<void> => {
+  await apiClient.post(`/users/${id}/logout`);
+};
+
+/**
+ * Lift a lockout from failed sign-in attempts
+ */
+export const unlockUser = async (id: string): Promise<User> => {
+  const response = await apiClient.post(`/users/${id}/unlock`);
+  return response.data.data;
+};
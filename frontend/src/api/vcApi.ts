@@ -14,13 +14,27 @@ export interface IssueVCResponse {
   createdAt: string;
 }
 
+export type JobState = 'pending' | 'processing' | 'success' | 'failed' | 'dead_letter' | 'cancelled';
+
+export interface JobError {
+  attempt: number;
+  error: string;
+  workerId?: string;
+  occurredAt: string;
+}
+
 export interface JobStatus {
   id: string;
   batchId: string;
   inspectionId?: string;
-  status: 'pending' | 'processing' | 'success' | 'failed';
+  status: JobState;
   attempts: number;
+  maxAttempts?: number;
+  nextRunAt?: string;
   lastError?: string;
+  errorHistory?: JobError[];
+  deadLetteredAt?: string;
+  cancelledAt?: string;
   result?: {
     vcId: string;
     vcUrl: string;
@@ -87,6 +101,38 @@ export interface VCStats {
   };
 }
 
+export interface JobFilters {
+  status?: JobState;
+  batchId?: string;
+  minAgeMinutes?: number;
+  maxAgeMinutes?: number;
+  page?: number;
+  limit?: number;
+}
+
+export interface JobList {
+  data: JobStatus[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export interface WorkerStatus {
+  id: string;
+  workerId: string;
+  hostname: string;
+  pid: number;
+  isRunning: boolean;
+  activeJobs: number;
+  maxConcurrency: number;
+  pollInterval: number;
+  leaseMs: number;
+  startedAt: string;
+  lastSeenAt: string;
+  stale: boolean;
+}
+
 // API Functions
 
 /**
@@ -105,6 +151,38 @@ export const getJobStatus = async (jobId: string): Promise<JobStatus> => {
   return response.data.data;
 };
 
+/**
+ * List issuance jobs
+ */
+export const listJobs = async (filters: JobFilters = {}): Promise<JobList> => {
+  const response = await apiClient.get('/vc/jobs', { params: filters });
+  return response.data.data;
+};
+
+/**
+ * Retry a failed, dead-lettered or cancelled issuance job
+ */
+export const retryJob = async (jobId: string): Promise<JobStatus> => {
+  const response = await apiClient.post(`/vc/jobs/${jobId}/retry`);
+  return response.data.data;
+};
+
+/**
+ * Cancel a pending issuance job
+ */
+export const cancelJob = async (jobId: string): Promise<JobStatus> => {
+  const response = await apiClient.post(`/vc/jobs/${jobId}/cancel`);
+  return response.data.data;
+};
+
+/**
+ * Get issuance worker status
+ */
+export const getWorkerStatus = async (): Promise<{ workers: WorkerStatus[]; running: number }> => {
+  const response = await apiClient.get('/vc/worker/status');
+  return response.data.data;
+};
+
 /**
  * Get certificate by ID
  */
@@ -3,15 +3,18 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Upload, X, FileText, Image, Check, AlertCircle } from 'lucide-react';
+import type { FileMetadata } from '@/types';
 
-interface FileMetadata {
-  id: string;
+// What the server stored after checking the upload; photos may be renamed (HEIC becomes JPEG)
+interface ProcessedUpload {
+  fileId: string;
   filename: string;
   url: string;
+  thumbnailUrl?: string;
   size: number;
   mimeType: string;
-  uploadedAt: Date;
-  description?: string;
+  capture?: FileMetadata['capture'];
+  uploadedAt: string;
 }
 
 interface FileUploaderProps {
@@ -40,7 +43,7 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
   onFileRemove,
   uploadedFiles = [],
   maxFiles = 10,
-  maxFileSize = 50 * 1024 * 1024, // 50MB
+  maxFileSize = 10 * 1024 * 1024, // 10MB, the server's default limit
   acceptedTypes,
   required = false,
   description,
@@ -82,7 +85,7 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
     return null;
   };
 
-  const generatePresignedUrl = async (filename: string, mimeType: string) => {
+  const generatePresignedUrl = async (filename: string, mimeType: string, size: number) => {
     const response = await fetch('/api/files/generate-upload-url', {
       method: 'POST',
       headers: {
@@ -93,6 +96,8 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
         filename,
         mimeType,
         category,
+        // The signed upload URL only accepts a file up to this size
+        size,
       }),
     });
 
@@ -104,7 +109,44 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
     return response.json();
   };
 
-  const uploadFileToPresignedUrl = async (file: File, uploadUrl: string): Promise<void> => {
+  const uploadFileToPresignedUrl = async (
+    file: File,
+    uploadUrl: string,
+    uploadMethod: 'POST' | 'PUT' = 'POST',
+    uploadHeaders?: Record<string, string>,
+    completeUrl?: string
+  ): Promise<ProcessedUpload> => {
+    // Object storage takes the raw file; its error body is XML
+    if (uploadMethod === 'PUT') {
+      const response = await fetch(uploadUrl, {
+        method: 'PUT',
+        headers: uploadHeaders,
+        body: file,
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to upload file');
+      }
+
+      if (!completeUrl) {
+        throw new Error('Upload URL has no completion step');
+      }
+
+      // The server checks the file before it can be used
+      const completed = await fetch(completeUrl, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        },
+      });
+
+      const result = await completed.json();
+      if (!completed.ok) {
+        throw new Error(result.error || 'Failed to upload file');
+      }
+      return result.data;
+    }
+
     const formData = new FormData();
     formData.append('file', file);
 
@@ -113,12 +155,12 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
       body: formData,
     });
 
+    const result = await response.json();
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to upload file');
+      throw new Error(result.error || 'Failed to upload file');
     }
 
-    return response.json();
+    return result.data;
   };
 
   const handleFileUpload = useCallback(async (files: FileList) => {
@@ -145,10 +187,16 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
 
       try {
         // Generate presigned URL
-        const { data } = await generatePresignedUrl(file.name, file.type);
+        const { data } = await generatePresignedUrl(file.name, file.type, file.size);
         
         // Upload file
-        await uploadFileToPresignedUrl(file, data.uploadUrl);
+        const uploaded = await uploadFileToPresignedUrl(
+          file,
+          data.uploadUrl,
+          data.uploadMethod,
+          data.uploadHeaders,
+          data.completeUrl
+        );
         
         // Update progress to completed
         setUploading(prev => prev.map(up => 
@@ -159,12 +207,14 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
 
         // Create file metadata
         const fileMetadata: FileMetadata = {
-          id: data.fileId,
-          filename: file.name,
-          url: data.accessUrl,
-          size: file.size,
-          mimeType: file.type,
-          uploadedAt: new Date(),
+          id: uploaded.fileId,
+          filename: uploaded.filename,
+          url: uploaded.url,
+          thumbnailUrl: uploaded.thumbnailUrl,
+          size: uploaded.size,
+          mimeType: uploaded.mimeType,
+          uploadedAt: uploaded.uploadedAt,
+          capture: uploaded.capture,
         };
 
         onFileUpload(fileMetadata);
@@ -0,0 +1,131 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Laptop, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { useAuth } from '@/contexts/AuthContext';
+import { api } from '@/api/apiClient';
+import type { DeviceSession } from '@/types';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (error as { response?: { data?: { message?: string } } }).response?.data?.message || fallback;
+
+/**
+ * Devices signed in to the current account, each of which can be signed out
+ */
+export function SessionsSettings() {
+  const { logout } = useAuth();
+  const navigate = useNavigate();
+  const [sessions, setSessions] = useState<DeviceSession[] | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setSessions(await api.auth.sessions.list());
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to load sessions'));
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const revoke = async (session: DeviceSession) => {
+    if (session.current && !window.confirm('Sign out of this device?')) {
+      return;
+    }
+
+    setPendingId(session.id);
+    setError(null);
+    try {
+      await api.auth.sessions.revoke(session.id);
+      if (session.current) {
+        await logout();
+        navigate('/login');
+        return;
+      }
+      await loadSessions();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to sign out device'));
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const revokeOthers = async () => {
+    if (!window.confirm('Sign out of every other device?')) {
+      return;
+    }
+
+    setPendingId('others');
+    setError(null);
+    try {
+      await api.auth.sessions.revokeOthers();
+      await loadSessions();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to sign out other devices'));
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const hasOthers = sessions?.some((session) => !session.current);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Sessions</CardTitle>
+        <CardDescription>Devices currently signed in to your account</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!sessions && !error && <Loader2 className="h-6 w-6 mx-auto animate-spin text-primary" />}
+
+        {sessions && sessions.length === 0 && (
+          <p className="text-sm text-muted-foreground">No active sessions.</p>
+        )}
+
+        {sessions?.map((session) => (
+          <div
+            key={session.id}
+            className="flex items-center justify-between gap-4 rounded-lg border border-border p-3"
+          >
+            <div className="flex items-start gap-3 min-w-0">
+              <Laptop className="h-5 w-5 mt-0.5 text-muted-foreground shrink-0" />
+              <div className="min-w-0">
+                <p className="font-medium flex items-center gap-2">
+                  {session.device}
+                  {session.current && <Badge variant="outline">This device</Badge>}
+                </p>
+                <p className="text-xs text-muted-foreground truncate" title={session.userAgent}>
+                  {session.ipAddress || 'Unknown IP'} · Last active {new Date(session.lastUsedAt).toLocaleString()}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Signed in {new Date(session.createdAt).toLocaleString()}
+                </p>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={pendingId !== null}
+              onClick={() => revoke(session)}
+            >
+              {pendingId === session.id ? 'Signing out...' : 'Sign out'}
+            </Button>
+          </div>
+        ))}
+
+        {hasOthers && (
+          <Button variant="outline" disabled={pendingId !== null} onClick={revokeOthers}>
+            {pendingId === 'others' ? 'Signing out...' : 'Sign out all other devices'}
+          </Button>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,148 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Copy, Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import type { TwoFactorSetup } from '@/types';
+
+interface TwoFactorEnrollmentProps {
+  loadSetup: () => Promise<TwoFactorSetup>;
+  // Resolves with the new recovery codes
+  confirm: (code: string) => Promise<string[]>;
+  onComplete: () => void;
+}
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (error as { response?: { data?: { message?: string } } }).response?.data?.message || fallback;
+
+export function TotpCodeInput({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} disabled={disabled} containerClassName="justify-center">
+      <InputOTPGroup>
+        {[0, 1, 2, 3, 4, 5].map((index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+export function RecoveryCodes({ codes }: { codes: string[] }) {
+  const text = codes.join('\n');
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([`${text}\n`], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'agriqcert-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Store these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator.
+        They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-lg border border-border bg-muted/40 p-3 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => navigator.clipboard?.writeText(text)}>
+          <Copy className="h-4 w-4 mr-1" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={download}>
+          <Download className="h-4 w-4 mr-1" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Scan-and-confirm flow for adding an authenticator app
+ */
+export function TwoFactorEnrollment({ loadSetup, confirm, onComplete }: TwoFactorEnrollmentProps) {
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Each setup call replaces the pending secret, so only request one
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (requested.current) return;
+    requested.current = true;
+
+    loadSetup()
+      .then(setSetup)
+      .catch((err) => setError(errorMessage(err, 'Could not start two-factor setup')));
+  }, [loadSetup]);
+
+  const handleConfirm = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setRecoveryCodes(await confirm(code));
+    } catch (err) {
+      setError(errorMessage(err, 'Invalid authentication code'));
+      setCode('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodes codes={recoveryCodes} />
+        <Button className="w-full" onClick={onComplete}>
+          I have saved my recovery codes
+        </Button>
+      </div>
+    );
+  }
+
+  if (!setup) {
+    return error ? (
+      <p className="text-sm text-destructive text-center">{error}</p>
+    ) : (
+      <Loader2 className="h-8 w-8 mx-auto animate-spin text-primary" />
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Scan this QR code with an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password,
+        then enter the 6-digit code it shows.
+      </p>
+      <div className="flex justify-center rounded-lg bg-white p-4">
+        <QRCodeSVG value={setup.otpauthUri} size={176} />
+      </div>
+      <p className="text-xs text-muted-foreground text-center">
+        Can't scan? Enter this key manually:
+        <span className="block font-mono text-foreground break-all mt-1">{setup.secret}</span>
+      </p>
+      <TotpCodeInput value={code} onChange={setCode} disabled={isLoading} />
+      <Button className="w-full" disabled={code.length !== 6 || isLoading} onClick={handleConfirm}>
+        {isLoading ? 'Verifying...' : 'Verify and enable'}
+      </Button>
+      {error && <p className="text-sm text-destructive text-center">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ShieldCheck, ShieldAlert, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { RecoveryCodes, TotpCodeInput, TwoFactorEnrollment } from '@/components/TwoFactorEnrollment';
+import { api } from '@/api/apiClient';
+import type { TwoFactorStatus } from '@/types';
+
+type Mode = 'idle' | 'enroll' | 'regenerate' | 'disable' | 'codes';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (error as { response?: { data?: { message?: string } } }).response?.data?.message || fallback;
+
+/**
+ * Two-factor status and management for the signed-in user
+ */
+export function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [mode, setMode] = useState<Mode>('idle');
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setStatus(await api.auth.twoFactor.status());
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to load two-factor status'));
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setCode('');
+    setPassword('');
+    setError(null);
+  };
+
+  const handleRegenerate = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setRecoveryCodes(await api.auth.twoFactor.regenerateRecoveryCodes(code));
+      setMode('codes');
+      await loadStatus();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to regenerate recovery codes'));
+      setCode('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await api.auth.twoFactor.disable(password, { code });
+      switchMode('idle');
+      await loadStatus();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to disable two-factor authentication'));
+      setCode('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {status?.enabled ? (
+            <ShieldCheck className="h-5 w-5 text-green-600" />
+          ) : (
+            <ShieldAlert className="h-5 w-5 text-amber-600" />
+          )}
+          Two-Factor Authentication
+        </CardTitle>
+        <CardDescription>
+          {!status
+            ? 'Loading...'
+            : status.enabled
+              ? `Enabled. ${status.recoveryCodesRemaining} recovery codes remaining.`
+              : status.required
+                ? 'Required for your role. You will be asked to set it up when you next sign in.'
+                : 'Protect your account with a code from an authenticator app.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!status && !error && <Loader2 className="h-6 w-6 mx-auto animate-spin text-primary" />}
+
+        {status && mode === 'idle' && (
+          <div className="flex flex-wrap gap-2">
+            {status.enabled ? (
+              <>
+                <Button variant="outline" onClick={() => switchMode('regenerate')}>
+                  New recovery codes
+                </Button>
+                {!status.required && (
+                  <Button variant="outline" onClick={() => switchMode('disable')}>
+                    Disable
+                  </Button>
+                )}
+              </>
+            ) : (
+              <Button onClick={() => switchMode('enroll')}>Set up authenticator app</Button>
+            )}
+          </div>
+        )}
+
+        {mode === 'enroll' && (
+          <TwoFactorEnrollment
+            loadSetup={api.auth.twoFactor.setup}
+            confirm={api.auth.twoFactor.enable}
+            onComplete={() => {
+              switchMode('idle');
+              loadStatus();
+            }}
+          />
+        )}
+
+        {mode === 'codes' && (
+          <>
+            <RecoveryCodes codes={recoveryCodes} />
+            <Button variant="outline" onClick={() => switchMode('idle')}>
+              Done
+            </Button>
+          </>
+        )}
+
+        {(mode === 'regenerate' || mode === 'disable') && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {mode === 'regenerate'
+                ? 'Enter a code from your authenticator app. Your existing recovery codes will stop working.'
+                : 'Enter your password and a code from your authenticator app.'}
+            </p>
+            {mode === 'disable' && (
+              <Input
+                label="Password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            )}
+            <TotpCodeInput value={code} onChange={setCode} disabled={isLoading} />
+            <div className="flex gap-2">
+              <Button
+                variant={mode === 'disable' ? 'destructive' : 'default'}
+                disabled={isLoading || code.length !== 6 || (mode === 'disable' && !password)}
+                onClick={mode === 'regenerate' ? handleRegenerate : handleDisable}
+              >
+                {isLoading ? 'Please wait...' : mode === 'regenerate' ? 'Regenerate codes' : 'Disable two-factor'}
+              </Button>
+              <Button variant="outline" onClick={() => switchMode('idle')} disabled={isLoading}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,7 +6,11 @@ import {
   Package,
   ClipboardCheck,
   Award,
+  ListChecks,
+  Ruler,
+  ScrollText,
   Users,
+  Building2,
   Settings,
   Bell,
   LogOut,
@@ -21,11 +25,18 @@ import {
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useAuth } from '@/contexts/AuthContext';
-import { useNotifications } from '@/hooks/useApi';
+import {
+  useNotifications,
+  useUnreadNotificationCount,
+  useMarkNotificationRead,
+  useMarkAllNotificationsRead,
+  useNotificationSocket,
+  useRealtimeUpdates,
+} from '@/hooks/useApi';
 import { useTheme } from '@/contexts/ThemeContext';
 import { Switch } from '@/components/ui/switch';
 import { cn } from '@/lib/utils';
-import type { UserRole } from '@/types';
+import type { Notification, UserRole } from '@/types';
 import { AppFooter } from '@/components/layout/AppFooter';
 
 interface NavItem {
@@ -40,7 +51,11 @@ const navItems: NavItem[] = [
   { label: 'Batches', href: '/batches', icon: Package, roles: ['farmer', 'qa_inspector', 'certifier', 'admin'] },
   { label: 'Inspections', href: '/inspections', icon: ClipboardCheck, roles: ['qa_inspector', 'certifier', 'admin'] },
   { label: 'Certificates', href: '/certificates', icon: Award, roles: ['farmer', 'certifier', 'admin', 'verifier'] },
+  { label: 'Issuance Queue', href: '/admin/issuance-queue', icon: ListChecks, roles: ['certifier', 'admin'] },
+  { label: 'Quality Standards', href: '/admin/standards', icon: Ruler, roles: ['admin'] },
+  { label: 'Audit Log', href: '/admin/audit-logs', icon: ScrollText, roles: ['admin'] },
   { label: 'Users', href: '/admin/users', icon: Users, roles: ['admin'] },
+  { label: 'Organizations', href: '/admin/organizations', icon: Building2, roles: ['admin'] },
   { label: 'Settings', href: '/admin/settings', icon: Settings, roles: ['admin'] },
 ];
 
@@ -55,13 +70,20 @@ const roleSegments: Record<UserRole, string> = {
 export function AppShell({ children }: { children: React.ReactNode }) {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [userMenuOpen, setUserMenuOpen] = useState(false);
+  const [notificationsOpen, setNotificationsOpen] = useState(false);
   const { user, logout } = useAuth();
   const { resolvedTheme, setTheme } = useTheme();
   const location = useLocation();
   const navigate = useNavigate();
 
-  const { data: notificationsData } = useNotifications(user?.id || '');
-  const unreadCount = notificationsData?.data.filter(n => !n.read).length || 0;
+  const { data: notificationsData } = useNotifications(user?.id || '', { limit: 10 });
+  const { data: unreadCount = 0 } = useUnreadNotificationCount(user?.id || '');
+  const markNotificationRead = useMarkNotificationRead();
+  const markAllNotificationsRead = useMarkAllNotificationsRead();
+  useNotificationSocket(user?.id || '');
+  useRealtimeUpdates(user?.id || '');
+
+  const notifications = notificationsData?.data || [];
 
   const filteredNavItems = navItems.filter(item =>
     user && item.roles.includes(user.role)
@@ -74,11 +96,25 @@ export function AppShell({ children }: { children: React.ReactNode }) {
     if (item.label === 'Batches') return `/${segment}/batches`;
     if (item.label === 'Inspections') return `/${segment}/inspections`;
     if (item.label === 'Certificates') return `/${segment}/certificates`;
+    if (item.label === 'Issuance Queue') return '/admin/issuance-queue';
+    if (item.label === 'Quality Standards') return '/admin/standards';
+    if (item.label === 'Audit Log') return '/admin/audit-logs';
     if (item.label === 'Users') return '/admin/users';
+    if (item.label === 'Organizations') return '/admin/organizations';
     if (item.label === 'Settings') return '/admin/settings';
     return item.href;
   };
 
+  const handleNotificationClick = (notification: Notification) => {
+    if (!notification.read) {
+      markNotificationRead.mutate(notification.id);
+    }
+    setNotificationsOpen(false);
+    if (notification.actionUrl) {
+      navigate(notification.actionUrl);
+    }
+  };
+
   const handleLogout = () => {
     logout();
     navigate('/login');
@@ -219,14 +255,83 @@ export function AppShell({ children }: { children: React.ReactNode }) {
             </div>
 
             {/* Notifications */}
-            <Button variant="ghost" size="icon" className="relative">
-              <Bell className="h-5 w-5" />
-              {unreadCount > 0 && (
-                <span className="absolute -top-0.5 -right-0.5 flex h-4 w-4 items-center justify-center rounded-full bg-destructive text-[10px] font-medium text-destructive-foreground">
-                  {unreadCount}
-                </span>
-              )}
-            </Button>
+            <div className="relative">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="relative"
+                aria-label="Notifications"
+                onClick={() => setNotificationsOpen(!notificationsOpen)}
+              >
+                <Bell className="h-5 w-5" />
+                {unreadCount > 0 && (
+                  <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 px-1 items-center justify-center rounded-full bg-destructive text-[10px] font-medium text-destructive-foreground">
+                    {unreadCount > 99 ? '99+' : unreadCount}
+                  </span>
+                )}
+              </Button>
+
+              <AnimatePresence>
+                {notificationsOpen && (
+                  <>
+                    <div
+                      className="fixed inset-0 z-40"
+                      onClick={() => setNotificationsOpen(false)}
+                    />
+                    <motion.div
+                      initial={{ opacity: 0, y: -8 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: -8 }}
+                      transition={{ duration: 0.15 }}
+                      className="absolute right-0 top-full mt-2 z-50 w-80 rounded-xl border border-border bg-card shadow-lg"
+                    >
+                      <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+                        <p className="font-medium text-sm">Notifications</p>
+                        {unreadCount > 0 && (
+                          <button
+                            onClick={() => markAllNotificationsRead.mutate()}
+                            disabled={markAllNotificationsRead.isPending}
+                            className="text-xs text-primary hover:underline disabled:opacity-50"
+                          >
+                            Mark all as read
+                          </button>
+                        )}
+                      </div>
+                      <div className="max-h-96 overflow-y-auto p-1.5">
+                        {notifications.length > 0 ? (
+                          notifications.map((notification) => (
+                            <button
+                              key={notification.id}
+                              onClick={() => handleNotificationClick(notification)}
+                              className={cn(
+                                "flex w-full gap-2 rounded-lg px-3 py-2 text-left transition-colors hover:bg-muted",
+                                !notification.read && "bg-primary/5"
+                              )}
+                            >
+                              <span
+                                className={cn(
+                                  "mt-1.5 h-2 w-2 shrink-0 rounded-full",
+                                  notification.read ? "bg-transparent" : "bg-primary"
+                                )}
+                              />
+                              <span className="min-w-0">
+                                <span className="block text-sm font-medium">{notification.title}</span>
+                                <span className="block text-xs text-muted-foreground line-clamp-2">{notification.message}</span>
+                                <span className="block text-[11px] text-muted-foreground mt-0.5">
+                                  {new Date(notification.createdAt).toLocaleString()}
+                                </span>
+                              </span>
+                            </button>
+                          ))
+                        ) : (
+                          <p className="px-3 py-6 text-center text-sm text-muted-foreground">No notifications</p>
+                        )}
+                      </div>
+                    </motion.div>
+                  </>
+                )}
+              </AnimatePresence>
+            </div>
 
             {/* User menu */}
             <div className="relative">
@@ -1,10 +1,19 @@
 import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
 import axios from 'axios';
 import { apiClient } from '@/api/apiClient';
-import type { User, UserRole, AuthState } from '@/types';
+import { disconnectSocket } from '@/lib/socket';
+import type { User, UserRole, AuthState, TwoFactorChallenge, TwoFactorSetup } from '@/types';
 
 interface AuthContextType extends AuthState {
-  login: (email: string, password: string) => Promise<void>;
+  // Resolves with a challenge instead of signing in when a second factor is needed
+  login: (email: string, password: string) => Promise<TwoFactorChallenge | null>;
+  verifyTwoFactor: (challengeToken: string, factor: { code?: string; recoveryCode?: string }) => Promise<void>;
+  beginTwoFactorEnrollment: (challengeToken: string) => Promise<TwoFactorSetup>;
+  // Resolves with the recovery codes; signIn starts the session once they have been shown
+  completeTwoFactorEnrollment: (
+    challengeToken: string,
+    code: string
+  ) => Promise<{ recoveryCodes: string[]; signIn: () => void }>;
   logout: () => Promise<void>;
   signup: (
     email: string,
@@ -14,7 +23,7 @@ interface AuthContextType extends AuthState {
     organization?: string,
     phone?: string,
     address?: string
-  ) => Promise<void>;
+  ) => Promise<TwoFactorChallenge | null>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -115,6 +124,20 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     };
   }, []);
 
+  const startSession = useCallback((data: { tokens: { accessToken: string; refreshToken: string }; user: User }) => {
+    const { tokens, user } = data;
+
+    setCookie('agriqcert_access_token', tokens.accessToken, 1);
+    setCookie('agriqcert_refresh_token', tokens.refreshToken, 7);
+    localStorage.setItem('agriqcert_user', JSON.stringify(user));
+
+    setAuthState({
+      user,
+      isAuthenticated: true,
+      isLoading: false,
+    });
+  }, []);
+
   const login = useCallback(async (email: string, password: string) => {
     try {
       const response = await axios.post(
@@ -123,24 +146,59 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         { withCredentials: true }
       );
 
-      const { tokens, user } = response.data.data;
-      const { accessToken, refreshToken } = tokens;
-
-      setCookie('agriqcert_access_token', accessToken, 1);
-      setCookie('agriqcert_refresh_token', refreshToken, 7);
-      localStorage.setItem('agriqcert_user', JSON.stringify(user));
+      const data = response.data.data;
+      if (data.twoFactorRequired) {
+        return { challengeToken: data.challengeToken, purpose: data.purpose } as TwoFactorChallenge;
+      }
 
-      setAuthState({
-        user,
-        isAuthenticated: true,
-        isLoading: false,
-      });
+      startSession(data);
+      return null;
     } catch (error) {
       console.error('Login failed:', error);
       throw error;
     }
+  }, [startSession]);
+
+  const verifyTwoFactor = useCallback(
+    async (challengeToken: string, factor: { code?: string; recoveryCode?: string }) => {
+      const response = await axios.post(
+        `${API_BASE_URL}/auth/2fa/verify`,
+        { challengeToken, ...factor },
+        { withCredentials: true }
+      );
+
+      startSession(response.data.data);
+    },
+    [startSession]
+  );
+
+  const beginTwoFactorEnrollment = useCallback(async (challengeToken: string) => {
+    const response = await axios.post(
+      `${API_BASE_URL}/auth/2fa/enroll/setup`,
+      { challengeToken },
+      { withCredentials: true }
+    );
+
+    return response.data.data as TwoFactorSetup;
   }, []);
 
+  const completeTwoFactorEnrollment = useCallback(
+    async (challengeToken: string, code: string) => {
+      const response = await axios.post(
+        `${API_BASE_URL}/auth/2fa/enroll/confirm`,
+        { challengeToken, code },
+        { withCredentials: true }
+      );
+
+      const { recoveryCodes, ...session } = response.data.data;
+      return {
+        recoveryCodes: recoveryCodes as string[],
+        signIn: () => startSession(session),
+      };
+    },
+    [startSession]
+  );
+
   const logout = useCallback(async () => {
     try {
       const refreshToken = getCookie('agriqcert_refresh_token');
@@ -163,6 +221,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       deleteCookie('agriqcert_access_token');
       deleteCookie('agriqcert_refresh_token');
       localStorage.removeItem('agriqcert_user');
+      disconnectSocket();
       setAuthState({
         user: null,
         isAuthenticated: false,
@@ -200,28 +259,33 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           { withCredentials: true }
         );
 
-        const { tokens, user } = response.data.data;
-        const { accessToken, refreshToken } = tokens;
-
-        setCookie('agriqcert_access_token', accessToken, 1);
-        setCookie('agriqcert_refresh_token', refreshToken, 7);
-        localStorage.setItem('agriqcert_user', JSON.stringify(user));
+        const data = response.data.data;
+        if (data.twoFactorRequired) {
+          return { challengeToken: data.challengeToken, purpose: data.purpose } as TwoFactorChallenge;
+        }
 
-        setAuthState({
-          user,
-          isAuthenticated: true,
-          isLoading: false,
-        });
+        startSession(data);
+        return null;
       } catch (error) {
         console.error('Signup failed:', error);
         throw error;
       }
     },
-    []
+    [startSession]
   );
 
   return (
-    <AuthContext.Provider value={{ ...authState, login, logout, signup }}>
+    <AuthContext.Provider
+      value={{
+        ...authState,
+        login,
+        logout,
+        signup,
+        verifyTwoFactor,
+        beginTwoFactorEnrollment,
+        completeTwoFactorEnrollment,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -1,5 +1,8 @@
+import { useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from '@/api/apiClient';
+import { connectSocket } from '@/lib/socket';
+import { useToast } from '@/hooks/use-toast';
 import type { 
   Batch, 
   Inspection, 
@@ -7,7 +10,12 @@ import type {
   BatchDraft, 
   CreateBatchPayload, 
   UpdateBatchPayload,
-  CreateInspectionPayload 
+  CreateInspectionPayload,
+  CompleteInspectionPayload,
+  Notification,
+  BatchStatusEvent,
+  InspectionCompletedEvent,
+  JobProgressEvent
 } from '@/types';
 
 // Query Keys
@@ -19,6 +27,7 @@ export const queryKeys = {
   certificates: ['certificates'] as const,
   certificate: (id: string) => ['certificate', id] as const,
   notifications: (userId: string) => ['notifications', userId] as const,
+  unreadNotifications: (userId: string) => ['notifications', userId, 'unread'] as const,
   drafts: ['drafts'] as const,
   verification: (id: string) => ['verification', id] as const,
   // VC-related query keys
@@ -129,7 +138,7 @@ export function useUpdateInspection() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: ({ id, data }: { id: string; data: Partial<Pick<Inspection, 'readings' | 'notes' | 'photos' | 'geolocation'>> }) => 
+    mutationFn: ({ id, data }: { id: string; data: Partial<Pick<Inspection, 'readings' | 'notes' | 'photos' | 'labReports' | 'geolocation'>> }) => 
       api.inspections.update(id, data),
     onSuccess: (_, { id }) => {
       queryClient.invalidateQueries({ queryKey: queryKeys.inspections });
@@ -142,7 +151,7 @@ export function useCompleteInspection() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: ({ id, data }: { id: string; data: { passed: boolean; comments?: string; readings?: unknown[] } }) => 
+    mutationFn: ({ id, data }: { id: string; data: CompleteInspectionPayload }) => 
       api.inspections.complete(id, data),
     onSuccess: (_, { id }) => {
       queryClient.invalidateQueries({ queryKey: queryKeys.inspections });
@@ -209,15 +218,100 @@ export function useVerifyQR() {
 }
 
 // Notification Hooks
-export function useNotifications(userId: string) {
+export function useNotifications(userId: string, filters?: { page?: number; limit?: number; unreadOnly?: boolean }) {
   return useQuery({
-    queryKey: queryKeys.notifications(userId),
-    queryFn: () => api.notifications.list(userId),
+    queryKey: [...queryKeys.notifications(userId), filters],
+    queryFn: () => api.notifications.list(filters),
     enabled: !!userId && userId !== 'undefined' && userId !== 'null',
     refetchInterval: 30000, // Poll every 30 seconds
   });
 }
 
+export function useUnreadNotificationCount(userId: string) {
+  return useQuery({
+    queryKey: queryKeys.unreadNotifications(userId),
+    queryFn: () => api.notifications.unreadCount(),
+    enabled: !!userId && userId !== 'undefined' && userId !== 'null',
+    // Socket events refresh this immediately; polling covers notifications
+    // created by processes without a socket server, such as the worker
+    refetchInterval: 30000,
+  });
+}
+
+/**
+ * Refresh notification queries and toast new notifications as they are pushed
+ */
+export function useNotificationSocket(userId: string) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const socket = connectSocket(userId);
+
+    const handleNew = (notification: Notification) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications(userId) });
+      toast({
+        title: notification.title,
+        description: notification.message,
+      });
+    };
+    const handleRead = () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications(userId) });
+    };
+
+    socket.on('notification:new', handleNew);
+    socket.on('notification:read', handleRead);
+
+    return () => {
+      socket.off('notification:new', handleNew);
+      socket.off('notification:read', handleRead);
+    };
+  }, [userId, queryClient, toast]);
+}
+
+/**
+ * Keep batch, inspection and issuance queries fresh from server-pushed events
+ */
+export function useRealtimeUpdates(userId: string) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const socket = connectSocket(userId);
+
+    const handleBatchStatus = (event: BatchStatusEvent) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.batches });
+      queryClient.invalidateQueries({ queryKey: queryKeys.batch(event.batchId) });
+    };
+    const handleInspectionCompleted = (event: InspectionCompletedEvent) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.inspections });
+      queryClient.invalidateQueries({ queryKey: queryKeys.inspection(event.inspectionId) });
+    };
+    const handleJobProgress = (event: JobProgressEvent) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.vcJobs });
+      queryClient.invalidateQueries({ queryKey: queryKeys.issueStatus(event.jobId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.vcStats });
+      if (event.status === 'success') {
+        queryClient.invalidateQueries({ queryKey: queryKeys.certificates });
+        queryClient.invalidateQueries({ queryKey: ['certificate', 'batch', event.batchId] });
+      }
+    };
+
+    socket.on('batch:status', handleBatchStatus);
+    socket.on('inspection:completed', handleInspectionCompleted);
+    socket.on('job:progress', handleJobProgress);
+
+    return () => {
+      socket.off('batch:status', handleBatchStatus);
+      socket.off('inspection:completed', handleInspectionCompleted);
+      socket.off('job:progress', handleJobProgress);
+    };
+  }, [userId, queryClient]);
+}
+
 export function useMarkNotificationRead() {
   const queryClient = useQueryClient();
   
@@ -229,6 +323,17 @@ export function useMarkNotificationRead() {
   });
 }
 
+export function useMarkAllNotificationsRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => api.notifications.markAllRead(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    },
+  });
+}
+
 // Upload Hooks
 export function useFileUpload() {
   return useMutation({
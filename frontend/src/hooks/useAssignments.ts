@@ -0,0 +1,130 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  listAssignments,
+  listEligibleInspectors,
+  assignInspection,
+  reassignInspection,
+  acceptAssignment,
+  declineAssignment,
+} from '../api/assignmentsApi';
+import type {
+  AssignInspectionInput,
+  AssignmentFilters,
+  AssignmentList,
+  ReassignInspectionInput,
+} from '../api/assignmentsApi';
+import type { User } from '../types';
+import { useToast } from './use-toast';
+
+export function useAssignments(filters: AssignmentFilters, enabled = true) {
+  return useQuery<AssignmentList>({
+    queryKey: ['assignments', filters],
+    queryFn: () => listAssignments(filters),
+    enabled,
+  });
+}
+
+export function useEligibleInspectors(batchId: string | null) {
+  return useQuery<User[]>({
+    queryKey: ['assignments', 'inspectors', batchId],
+    queryFn: () => listEligibleInspectors(batchId as string),
+    enabled: !!batchId,
+  });
+}
+
+export function useAssignInspection() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (request: AssignInspectionInput) => assignInspection(request),
+    onSuccess: (assignment) => {
+      toast({
+        title: "Inspection Assigned",
+        description: `${assignment.inspectorName} has been asked to inspect the batch.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['assignments'] });
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast({
+        title: "Assignment Failed",
+        description: err.response?.data?.message || "Failed to assign inspection",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useReassignInspection() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ id, request }: { id: string; request: ReassignInspectionInput }) =>
+      reassignInspection(id, request),
+    onSuccess: (assignment) => {
+      toast({
+        title: "Inspection Reassigned",
+        description: `${assignment.inspectorName} has been asked to inspect the batch.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['assignments'] });
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast({
+        title: "Reassignment Failed",
+        description: err.response?.data?.message || "Failed to reassign inspection",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useAcceptAssignment() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (id: string) => acceptAssignment(id),
+    onSuccess: () => {
+      toast({
+        title: "Assignment Accepted",
+        description: "You can start the inspection from your queue.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['assignments'] });
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast({
+        title: "Accept Failed",
+        description: err.response?.data?.message || "Failed to accept assignment",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useDeclineAssignment() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) => declineAssignment(id, reason),
+    onSuccess: () => {
+      toast({
+        title: "Assignment Declined",
+        description: "The batch has been returned for reassignment.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['assignments'] });
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast({
+        title: "Decline Failed",
+        description: err.response?.data?.message || "Failed to decline assignment",
+        variant: "destructive",
+      });
+    },
+  });
+}
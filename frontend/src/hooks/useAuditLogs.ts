@@ -0,0 +1,59 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { listAuditLogs, getAuditLogFacets, getResourceTimeline, exportAuditLogs, verifyAuditChain } from '../api/auditApi';
+import type { AuditLogEntry, AuditLogFacets, AuditLogFilters, AuditLogList, ChainVerificationReport } from '../api/auditApi';
+import { useToast } from './use-toast';
+
+export function useAuditLogs(filters: AuditLogFilters & { page?: number; limit?: number }) {
+  return useQuery<AuditLogList>({
+    queryKey: ['auditLogs', filters],
+    queryFn: () => listAuditLogs(filters),
+  });
+}
+
+export function useAuditLogFacets() {
+  return useQuery<AuditLogFacets>({
+    queryKey: ['auditLogFacets'],
+    queryFn: getAuditLogFacets,
+  });
+}
+
+export function useResourceTimeline(resource: string | undefined, resourceId: string | undefined) {
+  return useQuery<AuditLogEntry[]>({
+    queryKey: ['auditLogTimeline', resource, resourceId],
+    queryFn: () => getResourceTimeline(resource!, resourceId!),
+    enabled: !!resource && !!resourceId,
+  });
+}
+
+export function useExportAuditLogs() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ filters, format }: { filters: AuditLogFilters; format: 'csv' | 'jsonl' }) =>
+      exportAuditLogs(filters, format),
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast({
+        title: "Export Failed",
+        description: err.response?.data?.message || "Failed to export audit log",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useVerifyAuditChain() {
+  const { toast } = useToast();
+
+  return useMutation<ChainVerificationReport>({
+    mutationFn: verifyAuditChain,
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast({
+        title: "Verification Failed",
+        description: err.response?.data?.message || "Failed to verify audit log",
+        variant: "destructive",
+      });
+    },
+  });
+}
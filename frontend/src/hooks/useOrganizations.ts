@@ -0,0 +1,158 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  listOrganizations,
+  createOrganization,
+  updateOrganization,
+  listOrganizationMembers,
+  addOrganizationMember,
+  updateOrganizationMember,
+  removeOrganizationMember,
+} from '../api/organizationsApi';
+import type {
+  CreateOrganizationInput,
+  OrganizationFilters,
+  OrganizationList,
+  UpdateOrganizationInput,
+} from '../api/organizationsApi';
+import type { OrganizationRole, User } from '../types';
+import { useToast } from './use-toast';
+
+export function useOrganizations(filters: OrganizationFilters) {
+  return useQuery<OrganizationList>({
+    queryKey: ['organizations', filters],
+    queryFn: () => listOrganizations(filters),
+  });
+}
+
+export function useOrganizationMembers(id: string | null) {
+  return useQuery<User[]>({
+    queryKey: ['organizations', id, 'members'],
+    queryFn: () => listOrganizationMembers(id as string),
+    enabled: !!id,
+  });
+}
+
+export function useCreateOrganization() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (request: CreateOrganizationInput) => createOrganization(request),
+    onSuccess: (organization) => {
+      toast({
+        title: "Organization Created",
+        description: `${organization.name} has been created.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['organizations'] });
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast({
+        title: "Create Failed",
+        description: err.response?.data?.message || "Failed to create organization",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useUpdateOrganization() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ id, request }: { id: string; request: UpdateOrganizationInput }) =>
+      updateOrganization(id, request),
+    onSuccess: (organization) => {
+      toast({
+        title: "Organization Updated",
+        description: `${organization.name} has been updated.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['organizations'] });
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast({
+        title: "Update Failed",
+        description: err.response?.data?.message || "Failed to update organization",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useAddOrganizationMember() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ id, email, role }: { id: string; email: string; role: OrganizationRole }) =>
+      addOrganizationMember(id, email, role),
+    onSuccess: (member, { id }) => {
+      toast({
+        title: "Member Added",
+        description: `${member.name} joined as ${member.organizationRole}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['organizations', id, 'members'] });
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast({
+        title: "Add Failed",
+        description: err.response?.data?.message || "Failed to add member",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useUpdateOrganizationMember() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ id, userId, role }: { id: string; userId: string; role: OrganizationRole }) =>
+      updateOrganizationMember(id, userId, role),
+    onSuccess: (member, { id }) => {
+      toast({
+        title: "Member Updated",
+        description: `${member.name} is now ${member.organizationRole}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['organizations', id, 'members'] });
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast({
+        title: "Update Failed",
+        description: err.response?.data?.message || "Failed to change member role",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useRemoveOrganizationMember() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ id, userId }: { id: string; userId: string }) => removeOrganizationMember(id, userId),
+    onSuccess: (_data, { id }) => {
+      toast({
+        title: "Member Removed",
+        description: "The user is no longer part of the organization.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['organizations', id, 'members'] });
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast({
+        title: "Remove Failed",
+        description: err.response?.data?.message || "Failed to remove member",
+        variant: "destructive",
+      });
+    },
+  });
+}
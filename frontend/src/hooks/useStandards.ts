@@ -0,0 +1,92 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { listStandards, getCurrentStandard, createStandard, updateStandard, deleteStandard } from '../api/standardsApi';
+import type { QualityStandard, QualityStandardInput, QualityStandardList } from '../api/standardsApi';
+import { useToast } from './use-toast';
+
+export function useStandards(filters: { productType?: string; page?: number; limit?: number } = {}) {
+  return useQuery<QualityStandardList>({
+    queryKey: ['standards', filters],
+    queryFn: () => listStandards(filters),
+  });
+}
+
+export function useCurrentStandard(productType: string | undefined) {
+  return useQuery<QualityStandard>({
+    queryKey: ['standards', 'current', productType],
+    queryFn: () => getCurrentStandard(productType!),
+    enabled: !!productType,
+    retry: false,
+  });
+}
+
+export function useCreateStandard() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (request: QualityStandardInput & { productType: string }) => createStandard(request),
+    onSuccess: (standard) => {
+      toast({
+        title: "Standard Created",
+        description: `Version ${standard.version} of the ${standard.productType} standard was created.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['standards'] });
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast({
+        title: "Create Failed",
+        description: err.response?.data?.message || "Failed to create quality standard",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useUpdateStandard() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ id, request }: { id: string; request: Partial<QualityStandardInput> }) => updateStandard(id, request),
+    onSuccess: () => {
+      toast({
+        title: "Standard Updated",
+        description: "The scheduled standard version was updated.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['standards'] });
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast({
+        title: "Update Failed",
+        description: err.response?.data?.message || "Failed to update quality standard",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useDeleteStandard() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteStandard(id),
+    onSuccess: () => {
+      toast({
+        title: "Standard Deleted",
+        description: "The scheduled standard version was deleted.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['standards'] });
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast({
+        title: "Delete Failed",
+        description: err.response?.data?.message || "Failed to delete quality standard",
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -0,0 +1,132 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { listUsers, createUser, changeUserRole, setUserActive, forceLogoutUser, unlockUser } from '../api/usersApi';
+import type { CreateUserInput, UserFilters, UserList } from '../api/usersApi';
+import type { UserRole } from '../types';
+import { useToast } from './use-toast';
+
+export function useUsers(filters: UserFilters) {
+  return useQuery<UserList>({
+    queryKey: ['users', filters],
+    queryFn: () => listUsers(filters),
+  });
+}
+
+export function useCreateUser() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (request: CreateUserInput) => createUser(request),
+    onSuccess: (user) => {
+      toast({
+        title: "User Created",
+        description: `${user.name} can now sign in as ${user.role.replace('_', ' ')}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast({
+        title: "Create Failed",
+        description: err.response?.data?.message || "Failed to create user",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useChangeUserRole() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ id, role }: { id: string; role: UserRole }) => changeUserRole(id, role),
+    onSuccess: (user) => {
+      toast({
+        title: "Role Updated",
+        description: `${user.name} is now ${user.role.replace('_', ' ')}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast({
+        title: "Update Failed",
+        description: err.response?.data?.message || "Failed to change role",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useSetUserActive() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) => setUserActive(id, isActive),
+    onSuccess: (user) => {
+      toast({
+        title: user.isActive ? "User Activated" : "User Deactivated",
+        description: user.isActive
+          ? `${user.name} can sign in again.`
+          : `${user.name} has been signed out and can no longer sign in.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast({
+        title: "Update Failed",
+        description: err.response?.data?.message || "Failed to update user",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useForceLogoutUser() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (id: string) => forceLogoutUser(id),
+    onSuccess: () => {
+      toast({
+        title: "Sessions Revoked",
+        description: "The user has been signed out of all sessions.",
+      });
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast({
+        title: "Sign Out Failed",
+        description: err.response?.data?.message || "Failed to revoke sessions",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useUnlockUser() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (id: string) => unlockUser(id),
+    onSuccess: (user) => {
+      toast({
+        title: "User Unlocked",
+        description: `${user.name} can sign in again.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast({
+        title: "Unlock Failed",
+        description: err.response?.data?.message || "Failed to unlock user",
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { getCertificate, getCertificateByBatch, revokeVC, getVCStats } from '../api/vcApi';
-import type { Certificate, RevokeVCRequest, VCStats } from '../api/vcApi';
+import { getCertificate, getCertificateByBatch, revokeVC, getVCStats, listJobs, retryJob, cancelJob, getWorkerStatus } from '../api/vcApi';
+import type { Certificate, RevokeVCRequest, VCStats, JobFilters, JobList } from '../api/vcApi';
 import { useToast } from './use-toast';
 import type { AxiosError } from 'axios';
 
@@ -66,6 +66,72 @@ export function useVCStats(enabled: boolean = true) {
   });
 }
 
+export function useIssuanceJobs(filters: JobFilters = {}) {
+  return useQuery<JobList>({
+    queryKey: ['vcJobs', filters],
+    queryFn: () => listJobs(filters),
+    refetchInterval: 10000,
+  });
+}
+
+export function useWorkerStatus() {
+  return useQuery({
+    queryKey: ['vcWorkerStatus'],
+    queryFn: getWorkerStatus,
+    refetchInterval: 15000,
+  });
+}
+
+export function useRetryJob() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (jobId: string) => retryJob(jobId),
+    onSuccess: () => {
+      toast({
+        title: "Job Requeued",
+        description: "The issuance job will be picked up by the next worker poll.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['vcJobs'] });
+      queryClient.invalidateQueries({ queryKey: ['vcStats'] });
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast({
+        title: "Retry Failed",
+        description: err.response?.data?.message || "Failed to retry job",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useCancelJob() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (jobId: string) => cancelJob(jobId),
+    onSuccess: () => {
+      toast({
+        title: "Job Cancelled",
+        description: "The issuance job has been removed from the queue.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['vcJobs'] });
+      queryClient.invalidateQueries({ queryKey: ['vcStats'] });
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      toast({
+        title: "Cancel Failed",
+        description: err.response?.data?.message || "Failed to cancel job",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
 // Hook to check if a batch has a certificate
 export function useBatchCertificateStatus(batchId: string) {
   const { data: certificate, isLoading, error } = useCertificateByBatch(batchId);
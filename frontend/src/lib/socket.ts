@@ -0,0 +1,64 @@
+import { io } from 'socket.io-client';
+import type { Socket } from 'socket.io-client';
+
+const API_BASE_URL = import.meta.env?.VITE_API_BASE_URL || 'http://localhost:5000/api';
+
+// Socket.IO is served from the API origin, not the /api prefix
+const SOCKET_URL = import.meta.env?.VITE_SOCKET_URL || new URL(API_BASE_URL, window.location.origin).origin;
+
+// Retry delay after the server rejects the handshake, e.g. with an expired token
+const AUTH_RETRY_DELAY_MS = 10000;
+
+const getAccessToken = (): string | null => {
+  const value = document.cookie.split('; ').find(row => row.startsWith('agriqcert_access_token='));
+  if (!value) return null;
+  return decodeURIComponent(value.split('=')[1] || '');
+};
+
+let socket: Socket | null = null;
+let socketUserId: string | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Shared connection for the signed-in user. Reconnects when the user changes.
+ */
+export const connectSocket = (userId: string): Socket => {
+  if (socket && socketUserId === userId) {
+    return socket;
+  }
+
+  disconnectSocket();
+
+  // The token is read on every (re)connect so refreshed tokens are picked up
+  const connection = io(SOCKET_URL, {
+    auth: (cb) => cb({ token: getAccessToken() }),
+    withCredentials: true,
+  });
+
+  // Handshake rejections are not retried by the client, so retry once the
+  // REST client has had a chance to refresh the access token
+  connection.on('connect_error', () => {
+    if (connection.active || retryTimer) return;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      if (socket === connection) {
+        connection.connect();
+      }
+    }, AUTH_RETRY_DELAY_MS);
+  });
+
+  socket = connection;
+  socketUserId = userId;
+
+  return connection;
+};
+
+export const disconnectSocket = () => {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  socket?.disconnect();
+  socket = null;
+  socketUserId = null;
+};
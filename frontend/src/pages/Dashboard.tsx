@@ -11,6 +11,7 @@ import {
   AlertCircle,
   Plus,
   ArrowRight,
+  Calendar,
   Eye
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
@@ -219,10 +220,13 @@ export default function Dashboard() {
                           "flex h-8 w-8 items-center justify-center rounded-full",
                           notification.type === 'certificate_issued' ? "bg-success/10 text-success" :
                           notification.type === 'action_required' ? "bg-warning/10 text-warning" :
+                          notification.type === 'security_alert' ? "bg-destructive/10 text-destructive" :
+                          notification.type === 'inspection_scheduled' ? "bg-info/10 text-info" :
                           "bg-primary/10 text-primary"
                         )}>
                           {notification.type === 'certificate_issued' ? <Award className="h-4 w-4" /> :
-                           notification.type === 'action_required' ? <AlertCircle className="h-4 w-4" /> :
+                           notification.type === 'action_required' || notification.type === 'security_alert' ? <AlertCircle className="h-4 w-4" /> :
+                           notification.type === 'inspection_scheduled' ? <Calendar className="h-4 w-4" /> :
                            <CheckCircle className="h-4 w-4" />}
                         </div>
                         <div className="flex-1 min-w-0">
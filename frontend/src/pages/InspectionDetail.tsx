@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { cn } from '@/lib/utils';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
@@ -23,11 +23,16 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { StatusBadge } from '@/components/StatusBadge';
+import { FileUploader } from '@/components/FileUploader';
 import { AppShell } from '@/components/layout/AppShell';
 import { useAuth } from '@/contexts/AuthContext';
 import { useBatch, useInspections, useCreateInspection, useUpdateInspection, useCompleteInspection } from '@/hooks/useApi';
 import { useToast } from '@/hooks/use-toast';
+import { useCurrentStandard } from '@/hooks/useStandards';
+import type { FileMetadata, GeofenceCheck } from '@/types';
+import type { QualityStandard } from '@/api/standardsApi';
 
 interface Reading {
   parameter: string;
@@ -38,6 +43,67 @@ interface Reading {
   passed: boolean;
 }
 
+// Photos not labelled with one of the standard's required photos
+const UNLABELLED = 'none';
+
+const humanize = (name: string) =>
+  name.replace(/_/g, ' ').replace(/\b\w/g, (letter) => letter.toUpperCase());
+
+// Same whole-word matching the server uses to find required readings and photos
+const normalizeName = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const nameMatches = (text: string, names: string[]) => {
+  const padded = ` ${normalizeName(text)} `;
+  return names.some((name) => normalizeName(name) !== '' && padded.includes(` ${normalizeName(name)} `));
+};
+
+const requiredReadingNames = (standard: QualityStandard, name: string) => {
+  const parameter = standard.parameters.find((candidate) => candidate.key === name);
+  return parameter ? [parameter.key, parameter.label, ...(parameter.aliases || [])] : [name];
+};
+
+// One row per standard parameter, plus the required readings that have no threshold
+const readingsFromStandard = (standard: QualityStandard): Reading[] => [
+  ...standard.parameters.map((parameter) => ({
+    parameter: parameter.label,
+    value: '',
+    unit: parameter.unit,
+    minThreshold: parameter.min,
+    maxThreshold: parameter.max,
+    passed: false,
+  })),
+  ...standard.requiredReadings
+    .filter((name) => !standard.parameters.some((parameter) => parameter.key === name))
+    .map((name) => ({ parameter: humanize(name), value: '', unit: 'n/a', passed: false })),
+];
+
+const getDevicePosition = (): Promise<GeolocationPosition> =>
+  new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error('Geolocation is not supported by this browser'));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(resolve, reject, {
+      enableHighAccuracy: true,
+      timeout: 15000,
+      maximumAge: 30000,
+    });
+  });
+
+const geofenceLabel = (geofence: GeofenceCheck): string => {
+  switch (geofence.status) {
+    case 'within':
+      return `On site (${geofence.distanceMeters} m from farm)`;
+    case 'outside':
+      return `Off site (${geofence.distanceMeters} m from farm)`;
+    case 'low_accuracy':
+      return `Location too imprecise (±${Math.round(geofence.accuracyMeters ?? 0)} m)`;
+    default:
+      return 'Location not verified';
+  }
+};
+
 export default function InspectionDetail() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -63,6 +129,25 @@ export default function InspectionDetail() {
   );
   
   const [notes, setNotes] = useState(existingInspection?.notes || '');
+  const [photos, setPhotos] = useState<FileMetadata[]>(existingInspection?.photos || []);
+
+  const { data: standard } = useCurrentStandard(batch?.productType);
+  const seededFromStandard = useRef(false);
+  const batchIsOrganic = batch?.metadata?.certificationStandards?.includes('organic') ?? false;
+
+  // A new inspection starts with the readings its product standard asks for
+  React.useEffect(() => {
+    if (standard && !existingInspection && !seededFromStandard.current) {
+      seededFromStandard.current = true;
+      setReadings(readingsFromStandard(standard));
+    }
+  }, [standard, existingInspection]);
+
+  const labelPhoto = (photoId: string, label: string) => {
+    setPhotos((prev) => prev.map((photo) =>
+      photo.id === photoId ? { ...photo, description: label === UNLABELLED ? undefined : label } : photo
+    ));
+  };
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const updateReading = (index: number, field: keyof Reading, value: string | number | undefined) => {
@@ -111,14 +196,23 @@ export default function InspectionDetail() {
     
     setIsSubmitting(true);
     try {
+      // Checked by the server against the farm location
+      let position: GeolocationPosition;
+      try {
+        position = await getDevicePosition();
+      } catch {
+        throw new Error('Your location is needed to record the inspection. Allow location access and try again.');
+      }
+
       const inspectionData = {
         readings: validReadings,
         notes,
+        photos,
         geolocation: {
-          latitude: batch?.location?.latitude || 0,
-          longitude: batch?.location?.longitude || 0,
-          accuracy: 10,
-          timestamp: new Date().toISOString(),
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy: position.coords.accuracy,
+          timestamp: new Date(position.timestamp).toISOString(),
         },
       };
 
@@ -171,28 +265,24 @@ export default function InspectionDetail() {
       return;
     }
 
-    const passed = validReadings.every(r => r.passed);
-    
     setIsSubmitting(true);
     try {
-      await completeInspection.mutateAsync({
+      // The server evaluates the readings against the product standard and decides the outcome
+      const response = await completeInspection.mutateAsync({
         id: existingInspection.id,
         data: {
           readings: validReadings,
           notes,
-          overallResult: passed ? 'pass' : 'fail',
-          outcome: {
-            classification: passed ? 'pass' : 'fail',
-            reasoning: passed ? 'All quality parameters meet the required standards.' : 'One or more quality parameters failed to meet standards.',
-            followUpRequired: !passed,
-            complianceNotes: notes || ''
-          }
         }
       });
+      const passed = response.data?.overallResult === 'pass';
       
       toast({ 
         title: "Inspection completed", 
-        description: `Quality inspection ${passed ? 'passed' : 'failed'}. Batch status has been updated.`,
+        description: passed
+          ? 'Quality inspection passed. Batch status has been updated.'
+          : `Quality inspection failed. ${response.data?.outcome?.reasoning || 'Batch status has been updated.'}`,
+        variant: passed ? undefined : "destructive",
       });
       
       navigate('/inspections');
@@ -353,11 +443,11 @@ export default function InspectionDetail() {
                     <Label htmlFor={`value-${index}`}>Value</Label>
                     <Input
                       id={`value-${index}`}
-                      type="number"
+                      type={reading.minThreshold !== undefined || reading.maxThreshold !== undefined ? 'number' : 'text'}
                       step="any"
                       value={reading.value}
                       onChange={(e) => updateReading(index, 'value', e.target.value)}
-                      placeholder="0.00"
+                      placeholder={reading.minThreshold !== undefined || reading.maxThreshold !== undefined ? '0.00' : 'Observation'}
                     />
                   </div>
                   <div className="col-span-2">
@@ -422,6 +512,121 @@ export default function InspectionDetail() {
             </CardContent>
           </Card>
 
+          {/* Requirements of the product standard, checked again by the server on completion */}
+          {standard && (standard.requiredReadings.length > 0 || standard.requiredPhotos.length > 0 || standard.requiresOrganic) && (
+            <Card className="lg:col-span-3">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ClipboardCheck className="h-5 w-5" />
+                  Required by {standard.name} (v{standard.version})
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="grid gap-6 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Readings</Label>
+                  {standard.requiredReadings.map((name) => {
+                    const done = readings.some((reading) =>
+                      reading.value !== '' && nameMatches(reading.parameter, requiredReadingNames(standard, name))
+                    );
+                    return (
+                      <div key={name} className="flex items-center gap-2 text-sm">
+                        {done
+                          ? <CheckCircle className="h-4 w-4 text-success" />
+                          : <AlertCircle className="h-4 w-4 text-muted-foreground" />}
+                        {humanize(name)}
+                      </div>
+                    );
+                  })}
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Photos</Label>
+                  {standard.requiredPhotos.map((name) => {
+                    const done = photos.some((photo) => nameMatches(`${photo.description || ''} ${photo.filename}`, [name]));
+                    return (
+                      <div key={name} className="flex items-center gap-2 text-sm">
+                        {done
+                          ? <CheckCircle className="h-4 w-4 text-success" />
+                          : <AlertCircle className="h-4 w-4 text-muted-foreground" />}
+                        {humanize(name)}
+                      </div>
+                    );
+                  })}
+                  {standard.requiredPhotos.length > 0 && (
+                    <p className="text-xs text-muted-foreground">Label each photo below with what it shows.</p>
+                  )}
+                </div>
+                {standard.requiresOrganic && (
+                  <div className="flex items-center gap-2 text-sm">
+                    {batchIsOrganic
+                      ? <CheckCircle className="h-4 w-4 text-success" />
+                      : <AlertCircle className="h-4 w-4 text-destructive" />}
+                    {batchIsOrganic ? 'Batch declared as organic' : 'Batch is not declared as organic'}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Photos */}
+          <Card className="lg:col-span-3">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Camera className="h-5 w-5" />
+                Inspection Photos
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {photos.length > 0 && (
+                <div className="grid grid-cols-2 gap-3 sm:grid-cols-4 lg:grid-cols-6">
+                  {photos.map((photo) => (
+                    <div key={photo.id} className="overflow-hidden rounded-lg border">
+                      <a href={photo.url} target="_blank" rel="noreferrer" className="group block">
+                        <img
+                          src={photo.thumbnailUrl || photo.url}
+                          alt={photo.filename}
+                          loading="lazy"
+                          className="aspect-square w-full object-cover transition-transform group-hover:scale-105"
+                        />
+                        <p className="truncate px-2 py-1 text-xs text-muted-foreground">
+                          {photo.capture?.capturedAt
+                            ? new Date(photo.capture.capturedAt).toLocaleString()
+                            : photo.filename}
+                        </p>
+                      </a>
+                      {standard && standard.requiredPhotos.length > 0 && (
+                        <div className="px-2 pb-2">
+                          <Select
+                            value={photo.description || UNLABELLED}
+                            onValueChange={(label) => labelPhoto(photo.id, label)}
+                          >
+                            <SelectTrigger className="h-8 text-xs">
+                              <SelectValue placeholder="Label" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={UNLABELLED}>No label</SelectItem>
+                              {standard.requiredPhotos.map((name) => (
+                                <SelectItem key={name} value={name}>{humanize(name)}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <FileUploader
+                category="photos"
+                uploadedFiles={photos}
+                maxFiles={50}
+                onFileUpload={(file) => setPhotos((prev) => [...prev, file])}
+                onFileRemove={(fileId) => setPhotos((prev) => prev.filter((photo) => photo.id !== fileId))}
+                description="Photos are checked on upload; HEIC is converted to JPEG and location data is removed from the image itself."
+              />
+            </CardContent>
+          </Card>
+
           {/* Notes */}
           <Card className="lg:col-span-3">
             <CardHeader>
@@ -462,6 +667,12 @@ export default function InspectionDetail() {
                       Status: {existingInspection.status}
                     </Badge>
                   )}
+                  {existingInspection?.geofence && (
+                    <Badge variant={existingInspection.geofence.status === 'within' ? 'success' : 'warning'}>
+                      <MapPin className="h-3 w-3 mr-1" />
+                      {geofenceLabel(existingInspection.geofence)}
+                    </Badge>
+                  )}
                 </div>
                 <div className="flex items-center gap-3">
                   <Button
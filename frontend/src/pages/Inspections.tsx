@@ -1,25 +1,143 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { ClipboardCheck, Calendar, User, MapPin, ChevronRight, Plus } from 'lucide-react';
+import { ClipboardCheck, Calendar, User, MapPin, ChevronRight, Check, X, UserPlus } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { StatusBadge } from '@/components/StatusBadge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { AppShell } from '@/components/layout/AppShell';
 import { useAuth } from '@/contexts/AuthContext';
 import { useInspections, useBatches } from '@/hooks/useApi';
+import {
+  useAssignments,
+  useEligibleInspectors,
+  useAssignInspection,
+  useReassignInspection,
+  useAcceptAssignment,
+  useDeclineAssignment,
+} from '@/hooks/useAssignments';
+import type { Assignment, AssignmentBatch, AssignmentStatus } from '@/types';
+
+const assignmentStatusLabels: Record<AssignmentStatus, string> = {
+  pending: 'Awaiting response',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  reassigned: 'Reassigned',
+  completed: 'Completed',
+};
+
+const assignmentStatusVariants: Record<AssignmentStatus, 'pending' | 'success' | 'rejected' | 'draft'> = {
+  pending: 'pending',
+  accepted: 'success',
+  declined: 'rejected',
+  reassigned: 'draft',
+  completed: 'success',
+};
+
+const assignmentBatch = (assignment: Assignment): AssignmentBatch | undefined =>
+  typeof assignment.batchId === 'string' ? undefined : assignment.batchId;
+
+const assignmentBatchId = (assignment: Assignment): string =>
+  typeof assignment.batchId === 'string' ? assignment.batchId : assignment.batchId.id;
+
+// Visits are booked by calendar date, stored as UTC midnight
+const formatVisitDate = (scheduledFor: string) =>
+  new Date(scheduledFor).toLocaleDateString(undefined, { timeZone: 'UTC' });
+
+const isActive = (assignment: Assignment) => assignment.status === 'pending' || assignment.status === 'accepted';
+
+const emptyAssignForm = { inspectorId: '', scheduledFor: '', notes: '' };
 
 export default function Inspections() {
   const { user } = useAuth();
+  const isInspector = user?.role === 'qa_inspector';
+  const canAssign = user?.role === 'certifier' || user?.role === 'admin';
+
   const { data: inspectionsData, isLoading } = useInspections();
   const { data: batchesData } = useBatches();
-  
+  const { data: assignmentsData } = useAssignments({ limit: 100 }, isInspector || canAssign);
+
+  const [assigningBatchId, setAssigningBatchId] = useState<string | null>(null);
+  const [currentAssignment, setCurrentAssignment] = useState<Assignment | null>(null);
+  const [assignForm, setAssignForm] = useState(emptyAssignForm);
+  const [declining, setDeclining] = useState<Assignment | null>(null);
+  const [declineReason, setDeclineReason] = useState('');
+
+  const { data: inspectors, isLoading: inspectorsLoading } = useEligibleInspectors(assigningBatchId);
+  const assignInspection = useAssignInspection();
+  const reassignInspection = useReassignInspection();
+  const acceptAssignment = useAcceptAssignment();
+  const declineAssignment = useDeclineAssignment();
+
   const inspections = inspectionsData?.data || [];
   const batches = batchesData?.data || [];
-  
-  // Get batches pending inspection for inspectors
-  const pendingBatches = batches.filter(b => b.status === 'submitted' || b.status === 'inspecting');
+  const assignments = assignmentsData?.data || [];
+
+  const myAssignments = assignments.filter(isActive);
+
+  // The active assignment of each batch, or the latest declined one awaiting reassignment
+  const assignmentsByBatch = new Map<string, Assignment>();
+  for (const assignment of assignments) {
+    const batchId = assignmentBatchId(assignment);
+    const existing = assignmentsByBatch.get(batchId);
+    if (isActive(assignment)) {
+      assignmentsByBatch.set(batchId, assignment);
+    } else if (assignment.status === 'declined' && (!existing || (!isActive(existing) && existing.updatedAt < assignment.updatedAt))) {
+      assignmentsByBatch.set(batchId, assignment);
+    }
+  }
+
+  const submittedBatches = batches.filter(b => b.status === 'submitted');
+
+  const isAssigning = assignInspection.isPending || reassignInspection.isPending;
+
+  const openAssign = (batchId: string, assignment?: Assignment) => {
+    setAssigningBatchId(batchId);
+    setCurrentAssignment(assignment ?? null);
+    setAssignForm(
+      assignment
+        ? {
+          inspectorId: assignment.status === 'declined' ? '' : assignment.inspectorId,
+          scheduledFor: assignment.scheduledFor.slice(0, 10),
+          notes: assignment.notes || '',
+        }
+        : emptyAssignForm
+    );
+  };
+
+  const handleAssign = () => {
+    if (!assigningBatchId) return;
+    const request = {
+      inspectorId: assignForm.inspectorId,
+      scheduledFor: assignForm.scheduledFor,
+      notes: assignForm.notes.trim() || undefined,
+    };
+    const onSuccess = () => setAssigningBatchId(null);
+
+    if (currentAssignment) {
+      reassignInspection.mutate({ id: currentAssignment.id, request }, { onSuccess });
+    } else {
+      assignInspection.mutate({ batchId: assigningBatchId, ...request }, { onSuccess });
+    }
+  };
+
+  const openDecline = (assignment: Assignment) => {
+    setDeclining(assignment);
+    setDeclineReason('');
+  };
+
+  const handleDecline = () => {
+    if (!declining) return;
+    declineAssignment.mutate(
+      { id: declining.id, reason: declineReason.trim() },
+      { onSuccess: () => setDeclining(null) }
+    );
+  };
 
   return (
     <AppShell>
@@ -40,41 +158,141 @@ export default function Inspections() {
           </div>
         </div>
 
-        {/* Pending Batches for Inspection */}
-        {user?.role === 'qa_inspector' && pendingBatches.length > 0 && (
+        {/* Inspector queue */}
+        {isInspector && myAssignments.length > 0 && (
           <Card>
             <CardHeader>
-              <CardTitle className="text-base">Batches Awaiting Inspection</CardTitle>
+              <CardTitle className="text-base">My Assignments</CardTitle>
             </CardHeader>
             <CardContent>
               <div className="space-y-3">
-                {pendingBatches.map((batch, idx) => (
-                  <Link
-                    key={batch.id ?? batch._id ?? idx}
-                    to={`/inspect/${batch.id ?? batch._id}`}
-                    className="flex items-center justify-between p-4 rounded-xl border border-border hover:bg-accent/50 transition-colors"
-                  >
-                    <div className="flex items-center gap-4">
-                      <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-warning/10 text-warning font-medium">
-                        {(batch.productName || 'U').charAt(0)}
-                      </div>
-                      <div>
-                        <p className="font-medium">{batch.productName || 'Unnamed Product'}</p>
-                          <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                          <span className="font-mono">{batch.id ?? batch._id ?? 'No ID'}</span>
-                          <span>•</span>
-                          <span>{batch.farmerName || 'Unknown Farmer'}</span>
+                {myAssignments.map((assignment) => {
+                  const batch = assignmentBatch(assignment);
+                  const batchId = assignmentBatchId(assignment);
+
+                  return (
+                    <div
+                      key={assignment.id}
+                      className="flex flex-col gap-3 p-4 rounded-xl border border-border sm:flex-row sm:items-center sm:justify-between"
+                    >
+                      <div className="flex items-center gap-4">
+                        <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-warning/10 text-warning font-medium">
+                          {(batch?.productName || 'U').charAt(0)}
                         </div>
+                        <div>
+                          <p className="font-medium">{batch?.productName || 'Unnamed Product'}</p>
+                          <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                            <span className="font-mono">{batchId}</span>
+                            <span>•</span>
+                            <span>{batch?.farmerName || 'Unknown Farmer'}</span>
+                            {batch?.location?.address && (
+                              <span className="flex items-center gap-1">
+                                <MapPin className="h-3.5 w-3.5" />
+                                {batch.location.address}
+                              </span>
+                            )}
+                          </div>
+                          <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                            <Calendar className="h-3.5 w-3.5" />
+                            Visit on {formatVisitDate(assignment.scheduledFor)}
+                          </p>
+                          {assignment.notes && (
+                            <p className="text-xs text-muted-foreground mt-1">{assignment.notes}</p>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant={assignmentStatusVariants[assignment.status]}>
+                          {assignmentStatusLabels[assignment.status]}
+                        </Badge>
+                        {assignment.status === 'pending' ? (
+                          <>
+                            <Button
+                              size="sm"
+                              disabled={acceptAssignment.isPending}
+                              onClick={() => acceptAssignment.mutate(assignment.id)}
+                            >
+                              <Check className="h-4 w-4 mr-1" />
+                              Accept
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => openDecline(assignment)}>
+                              <X className="h-4 w-4 mr-1" />
+                              Decline
+                            </Button>
+                          </>
+                        ) : (
+                          <>
+                            <Button variant="outline" size="sm" onClick={() => openDecline(assignment)}>
+                              Decline
+                            </Button>
+                            <Button size="sm" asChild>
+                              <Link to={`/inspect/${batchId}`}>Start Inspection</Link>
+                            </Button>
+                          </>
+                        )}
                       </div>
                     </div>
-                    <div className="flex items-center gap-3">
-                      <StatusBadge status={batch.status} />
-                      <Button variant="outline" size="sm">
-                        Start Inspection
-                      </Button>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Assignment of submitted batches */}
+        {canAssign && submittedBatches.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Batches Awaiting Inspection</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {submittedBatches.map((batch) => {
+                  const assignment = assignmentsByBatch.get(batch.id);
+
+                  return (
+                    <div
+                      key={batch.id}
+                      className="flex flex-col gap-3 p-4 rounded-xl border border-border sm:flex-row sm:items-center sm:justify-between"
+                    >
+                      <div className="flex items-center gap-4">
+                        <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-warning/10 text-warning font-medium">
+                          {(batch.productName || 'U').charAt(0)}
+                        </div>
+                        <div>
+                          <p className="font-medium">{batch.productName || 'Unnamed Product'}</p>
+                          <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                            <span className="font-mono">{batch.id}</span>
+                            <span>•</span>
+                            <span>{batch.farmerName || 'Unknown Farmer'}</span>
+                          </div>
+                          {assignment ? (
+                            <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                              <User className="h-3.5 w-3.5" />
+                              {assignment.inspectorName} • {formatVisitDate(assignment.scheduledFor)}
+                              {assignment.status === 'declined' && assignment.declineReason && (
+                                <span>• {assignment.declineReason}</span>
+                              )}
+                            </p>
+                          ) : (
+                            <p className="text-sm text-muted-foreground">Not assigned yet</p>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {assignment && (
+                          <Badge variant={assignmentStatusVariants[assignment.status]}>
+                            {assignmentStatusLabels[assignment.status]}
+                          </Badge>
+                        )}
+                        <Button variant="outline" size="sm" onClick={() => openAssign(batch.id, assignment)}>
+                          <UserPlus className="h-4 w-4 mr-1" />
+                          {assignment ? 'Reassign' : 'Assign'}
+                        </Button>
+                      </div>
                     </div>
-                  </Link>
-                ))}
+                  );
+                })}
               </div>
             </CardContent>
           </Card>
@@ -169,6 +387,96 @@ export default function Inspections() {
             </CardContent>
           </Card>
         )}
+
+        {/* Assign / reassign */}
+        <Dialog open={!!assigningBatchId} onOpenChange={(open) => !open && setAssigningBatchId(null)}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{currentAssignment ? 'Reassign Inspection' : 'Assign Inspection'}</DialogTitle>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Inspector</Label>
+                <Select value={assignForm.inspectorId} onValueChange={(value) => setAssignForm({ ...assignForm, inspectorId: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={inspectorsLoading ? 'Loading inspectors...' : 'Select an inspector'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(inspectors || []).map((inspector) => (
+                      <SelectItem key={inspector.id} value={inspector.id}>
+                        {inspector.name} ({inspector.email})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {!inspectorsLoading && inspectors?.length === 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    No active inspectors belong to this batch's certification body.
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label>Visit date</Label>
+                <Input
+                  type="date"
+                  value={assignForm.scheduledFor}
+                  onChange={(e) => setAssignForm({ ...assignForm, scheduledFor: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">The farmer is notified of this date.</p>
+              </div>
+              <div className="space-y-2">
+                <Label>Notes</Label>
+                <Textarea
+                  rows={3}
+                  value={assignForm.notes}
+                  onChange={(e) => setAssignForm({ ...assignForm, notes: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setAssigningBatchId(null)}>
+                Cancel
+              </Button>
+              <Button disabled={!assignForm.inspectorId || !assignForm.scheduledFor || isAssigning} onClick={handleAssign}>
+                {isAssigning ? 'Saving...' : currentAssignment ? 'Reassign' : 'Assign'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Decline */}
+        <Dialog open={!!declining} onOpenChange={(open) => !open && setDeclining(null)}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>Decline Assignment</DialogTitle>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Textarea
+                rows={3}
+                placeholder="e.g. Unavailable on the scheduled date"
+                value={declineReason}
+                onChange={(e) => setDeclineReason(e.target.value)}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDeclining(null)}>
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                disabled={declineReason.trim().length < 3 || declineAssignment.isPending}
+                onClick={handleDecline}
+              >
+                {declineAssignment.isPending ? 'Declining...' : 'Decline'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </motion.div>
     </AppShell>
   );
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate, useParams, useLocation } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useForm } from 'react-hook-form';
@@ -13,14 +13,21 @@ import {
   ChevronRight,
   Eye,
   EyeOff,
-  ArrowLeft
+  ArrowLeft,
+  CheckCircle2,
+  XCircle,
+  Loader2,
+  MailCheck,
+  KeyRound
 } from 'lucide-react';
 
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input'; // Ensure this component uses React.forwardRef
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { useAuth } from '@/contexts/AuthContext';
-import type { UserRole } from '@/types';
+import { api } from '@/api/apiClient';
+import { TwoFactorEnrollment, TotpCodeInput } from '@/components/TwoFactorEnrollment';
+import type { TwoFactorChallenge, UserRole } from '@/types';
 import { cn } from '@/lib/utils';
 
 // --- Improved Validation Schema ---
@@ -36,6 +43,32 @@ const authSchema = z.object({
 
 type AuthFormData = z.infer<typeof authSchema>;
 
+const forgotSchema = z.object({
+  email: z.string().email('Please enter a valid email'),
+});
+
+// Mirrors the server's password rules so problems show before submitting
+const resetSchema = z
+  .object({
+    password: z
+      .string()
+      .min(8, 'Password must be at least 8 characters')
+      .regex(/[A-Z]/, 'Password must contain an uppercase letter')
+      .regex(/[a-z]/, 'Password must contain a lowercase letter')
+      .regex(/[0-9]/, 'Password must contain a number')
+      .regex(/[@$!%*?&#]/, 'Password must contain a special character (@$!%*?&#)'),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword'],
+  });
+
+type ForgotFormData = z.infer<typeof forgotSchema>;
+type ResetFormData = z.infer<typeof resetSchema>;
+
+type LoginMode = 'login' | 'role-select' | 'signup' | 'forgot' | 'reset' | 'verify' | 'two-factor';
+
 const roles: { role: UserRole; label: string; description: string; icon: React.ElementType }[] = [
   { role: 'farmer', label: 'Farmer', description: 'Submit batches for certification', icon: Leaf },
   { role: 'qa_inspector', label: 'QA Inspector', description: 'Inspect and verify quality', icon: ClipboardCheck },
@@ -73,13 +106,25 @@ const roleContent: Record<string, { heroTitle: string; heroSubtitle: string; car
 };
 
 export default function Login() {
-  const [mode, setMode] = useState<'login' | 'role-select' | 'signup'>('role-select');
+  const [mode, setMode] = useState<LoginMode>('role-select');
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [authError, setAuthError] = useState<string | null>(null);
   const [selectedRole, setSelectedRole] = useState<UserRole | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [otpCode, setOtpCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  // Held back until the recovery codes have been acknowledged, since signing in leaves this page
+  const enrollmentSignIn = useRef<(() => void) | null>(null);
+  const [verifyState, setVerifyState] = useState<{ status: 'pending' | 'success' | 'error'; message?: string }>({
+    status: 'pending',
+  });
+  // Verification tokens are single-use, so never submit the same one twice
+  const submittedVerifyToken = useRef<string | null>(null);
 
-  const { login, signup } = useAuth();
+  const { login, signup, verifyTwoFactor, beginTwoFactorEnrollment, completeTwoFactorEnrollment } = useAuth();
   const navigate = useNavigate();
   const params = useParams<{ role?: string }>();
   const location = useLocation();
@@ -87,6 +132,7 @@ export default function Login() {
   const searchParams = new URLSearchParams(location.search);
   const redirectParam = searchParams.get('redirect');
   const fromPath = locationState?.from || redirectParam || '/dashboard';
+  const linkToken = searchParams.get('token');
 
   const form = useForm<AuthFormData>({
     resolver: zodResolver(authSchema),
@@ -100,7 +146,26 @@ export default function Login() {
     },
   });
 
+  const forgotForm = useForm<ForgotFormData>({
+    resolver: zodResolver(forgotSchema),
+    defaultValues: { email: '' },
+  });
+
+  const resetForm = useForm<ResetFormData>({
+    resolver: zodResolver(resetSchema),
+    defaultValues: { password: '', confirmPassword: '' },
+  });
+
   useEffect(() => {
+    if (location.pathname === '/verify-email') {
+      setMode('verify');
+      return;
+    }
+    if (location.pathname === '/reset-password') {
+      setMode('reset');
+      return;
+    }
+
     const roleParam = params.role as UserRole;
     const validRoles = roles.map((r) => r.role);
 
@@ -111,15 +176,107 @@ export default function Login() {
       setSelectedRole(null);
       setMode('role-select');
     }
-  }, [params.role]);
+  }, [params.role, location.pathname]);
+
+  useEffect(() => {
+    if (mode !== 'verify' || !linkToken || submittedVerifyToken.current === linkToken) {
+      return;
+    }
+    submittedVerifyToken.current = linkToken;
+
+    api.auth
+      .verifyEmail(linkToken)
+      .then(() => setVerifyState({ status: 'success' }))
+      .catch((error) => {
+        const err = error as { response?: { data?: { message?: string } } };
+        setVerifyState({
+          status: 'error',
+          message: err.response?.data?.message || 'This verification link could not be used.',
+        });
+      });
+  }, [mode, linkToken]);
+
+  const showForgot = () => {
+    forgotForm.reset({ email: form.getValues('email') });
+    setAuthError(null);
+    setNotice(null);
+    setMode('forgot');
+  };
+
+  const onForgotSubmit = async (data: ForgotFormData) => {
+    setIsLoading(true);
+    setAuthError(null);
+    try {
+      const response = await api.auth.forgotPassword(data.email);
+      setNotice(response.message);
+    } catch (error) {
+      const err = error as { response?: { data?: { message?: string } } };
+      setAuthError(err.response?.data?.message || 'Could not send a reset link. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onResetSubmit = async (data: ResetFormData) => {
+    if (!linkToken) return;
+
+    setIsLoading(true);
+    setAuthError(null);
+    try {
+      const response = await api.auth.resetPassword(linkToken, data.password);
+      setNotice(response.message);
+      resetForm.reset();
+    } catch (error) {
+      const err = error as { response?: { data?: { message?: string } } };
+      setAuthError(err.response?.data?.message || 'Could not reset your password. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
   const handleRoleSelect = (role: UserRole) => {
     navigate(`/login/${role}`);
   };
 
+  const startChallenge = (next: TwoFactorChallenge) => {
+    setChallenge(next);
+    setOtpCode('');
+    setRecoveryCode('');
+    setUseRecoveryCode(false);
+    setMode('two-factor');
+  };
+
+  const leaveChallenge = () => {
+    setChallenge(null);
+    setAuthError(null);
+    setMode(selectedRole ? 'login' : 'role-select');
+  };
+
+  const onTwoFactorSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!challenge) return;
+
+    setIsLoading(true);
+    setAuthError(null);
+    try {
+      await verifyTwoFactor(
+        challenge.challengeToken,
+        useRecoveryCode ? { recoveryCode: recoveryCode.trim() } : { code: otpCode }
+      );
+      navigate(fromPath, { replace: true });
+    } catch (error) {
+      const err = error as { response?: { status?: number; data?: { message?: string } } };
+      setAuthError(err.response?.data?.message || 'Verification failed. Please try again.');
+      setOtpCode('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const onSubmit = async (data: AuthFormData) => {
     setIsLoading(true);
     setAuthError(null);
+    let pendingChallenge: TwoFactorChallenge | null = null;
     try {
       if (mode === 'signup') {
         // Manual check for name since it's "optional" in schema to allow login
@@ -130,7 +287,7 @@ export default function Login() {
         }
 
         const effectiveRole: UserRole = selectedRole || 'farmer';
-        await signup(
+        pendingChallenge = await signup(
           data.email,
           data.password,
           data.name,
@@ -140,7 +297,12 @@ export default function Login() {
           data.address
         );
       } else {
-        await login(data.email, data.password);
+        pendingChallenge = await login(data.email, data.password);
+      }
+
+      if (pendingChallenge) {
+        startChallenge(pendingChallenge);
+        return;
       }
       navigate(fromPath, { replace: true });
     } catch (error) {
@@ -212,7 +374,185 @@ export default function Login() {
           animate={{ opacity: 1, scale: 1 }}
           className="w-full max-w-md"
         >
-          {mode === 'role-select' ? (
+          {mode === 'two-factor' && challenge ? (
+            <Card className="border-none shadow-xl lg:shadow-none">
+              <CardHeader>
+                <button
+                  onClick={leaveChallenge}
+                  className="flex items-center text-sm text-muted-foreground hover:text-primary mb-2 transition-colors"
+                >
+                  <ArrowLeft className="h-4 w-4 mr-1" /> Back to sign in
+                </button>
+                <CardTitle className="text-2xl flex items-center gap-2">
+                  <KeyRound className="h-6 w-6 text-primary" />
+                  {challenge.purpose === 'enroll' ? 'Set up two-factor authentication' : 'Two-factor authentication'}
+                </CardTitle>
+                <CardDescription>
+                  {challenge.purpose === 'enroll'
+                    ? 'Your role requires an authenticator app. Set it up now to finish signing in.'
+                    : useRecoveryCode
+                      ? 'Enter one of your recovery codes.'
+                      : 'Enter the 6-digit code from your authenticator app.'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {challenge.purpose === 'enroll' ? (
+                  <TwoFactorEnrollment
+                    loadSetup={() => beginTwoFactorEnrollment(challenge.challengeToken)}
+                    confirm={async (code) => {
+                      const result = await completeTwoFactorEnrollment(challenge.challengeToken, code);
+                      enrollmentSignIn.current = result.signIn;
+                      return result.recoveryCodes;
+                    }}
+                    onComplete={() => {
+                      enrollmentSignIn.current?.();
+                      navigate(fromPath, { replace: true });
+                    }}
+                  />
+                ) : (
+                  <form onSubmit={onTwoFactorSubmit} className="space-y-4">
+                    {useRecoveryCode ? (
+                      <Input
+                        label="Recovery Code"
+                        placeholder="xxxxx-xxxxx"
+                        autoComplete="off"
+                        value={recoveryCode}
+                        onChange={(e) => setRecoveryCode(e.target.value)}
+                        className="font-mono"
+                      />
+                    ) : (
+                      <TotpCodeInput value={otpCode} onChange={setOtpCode} disabled={isLoading} />
+                    )}
+                    <Button
+                      type="submit"
+                      className="w-full"
+                      disabled={isLoading || (useRecoveryCode ? !recoveryCode.trim() : otpCode.length !== 6)}
+                    >
+                      {isLoading ? 'Verifying...' : 'Verify'}
+                    </Button>
+                    {authError && <p className="text-sm text-destructive text-center">{authError}</p>}
+                    <div className="text-center">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setUseRecoveryCode(!useRecoveryCode);
+                          setAuthError(null);
+                        }}
+                        className="text-sm text-muted-foreground hover:text-primary transition-colors"
+                      >
+                        {useRecoveryCode ? 'Use authenticator app instead' : 'Use a recovery code'}
+                      </button>
+                    </div>
+                  </form>
+                )}
+              </CardContent>
+            </Card>
+          ) : mode === 'verify' ? (
+            <Card className="border-none shadow-xl lg:shadow-none">
+              <CardHeader className="text-center">
+                <CardTitle className="text-2xl">Email verification</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4 text-center">
+                {!linkToken ? (
+                  <p className="text-sm text-destructive">This verification link is incomplete.</p>
+                ) : verifyState.status === 'pending' ? (
+                  <Loader2 className="h-10 w-10 mx-auto animate-spin text-primary" />
+                ) : verifyState.status === 'success' ? (
+                  <>
+                    <CheckCircle2 className="h-12 w-12 mx-auto text-green-600" />
+                    <p className="text-sm">Your email address is verified.</p>
+                  </>
+                ) : (
+                  <>
+                    <XCircle className="h-12 w-12 mx-auto text-destructive" />
+                    <p className="text-sm">{verifyState.message}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Sign in and request a new link from your profile if this one has expired.
+                    </p>
+                  </>
+                )}
+                <Button className="w-full" onClick={() => navigate('/login')}>
+                  Continue
+                </Button>
+              </CardContent>
+            </Card>
+          ) : mode === 'forgot' || mode === 'reset' ? (
+            <Card className="border-none shadow-xl lg:shadow-none">
+              <CardHeader>
+                <button
+                  onClick={() => (mode === 'forgot' && selectedRole ? setMode('login') : navigate('/login'))}
+                  className="flex items-center text-sm text-muted-foreground hover:text-primary mb-2 transition-colors"
+                >
+                  <ArrowLeft className="h-4 w-4 mr-1" /> Back to sign in
+                </button>
+                <CardTitle className="text-2xl">
+                  {mode === 'forgot' ? 'Forgot password' : 'Choose a new password'}
+                </CardTitle>
+                <CardDescription>
+                  {mode === 'forgot'
+                    ? "Enter your account's email address and we'll send you a reset link."
+                    : 'Your new password signs you out of every other device.'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {notice ? (
+                  <div className="space-y-4 text-center">
+                    <MailCheck className="h-12 w-12 mx-auto text-primary" />
+                    <p className="text-sm">{notice}</p>
+                    {mode === 'reset' && (
+                      <Button className="w-full" onClick={() => navigate('/login')}>
+                        Sign in
+                      </Button>
+                    )}
+                  </div>
+                ) : mode === 'forgot' ? (
+                  <form onSubmit={forgotForm.handleSubmit(onForgotSubmit)} className="space-y-4">
+                    <Input
+                      label="Email Address"
+                      type="email"
+                      placeholder="name@company.com"
+                      {...forgotForm.register('email')}
+                      error={forgotForm.formState.errors.email?.message}
+                    />
+                    <Button type="submit" className="w-full" disabled={isLoading}>
+                      {isLoading ? 'Sending...' : 'Send reset link'}
+                    </Button>
+                    {authError && <p className="text-sm text-destructive text-center">{authError}</p>}
+                  </form>
+                ) : !linkToken ? (
+                  <p className="text-sm text-destructive">This reset link is incomplete. Request a new one.</p>
+                ) : (
+                  <form onSubmit={resetForm.handleSubmit(onResetSubmit)} className="space-y-4">
+                    <Input
+                      label="New Password"
+                      type={showPassword ? 'text' : 'password'}
+                      autoComplete="new-password"
+                      {...resetForm.register('password')}
+                      error={resetForm.formState.errors.password?.message}
+                    />
+                    <Input
+                      label="Confirm Password"
+                      type={showPassword ? 'text' : 'password'}
+                      autoComplete="new-password"
+                      {...resetForm.register('confirmPassword')}
+                      error={resetForm.formState.errors.confirmPassword?.message}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="text-xs text-muted-foreground hover:text-primary transition-colors"
+                    >
+                      {showPassword ? 'Hide passwords' : 'Show passwords'}
+                    </button>
+                    <Button type="submit" className="w-full" disabled={isLoading}>
+                      {isLoading ? 'Saving...' : 'Reset password'}
+                    </Button>
+                    {authError && <p className="text-sm text-destructive text-center">{authError}</p>}
+                  </form>
+                )}
+              </CardContent>
+            </Card>
+          ) : mode === 'role-select' ? (
             <Card className="border-none shadow-xl lg:shadow-none">
               <CardHeader className="text-center">
                 <CardTitle className="text-2xl">Welcome back</CardTitle>
@@ -296,6 +636,18 @@ export default function Login() {
                     </button>
                   </div>
 
+                  {mode === 'login' && (
+                    <div className="flex justify-end -mt-2">
+                      <button
+                        type="button"
+                        onClick={showForgot}
+                        className="text-xs text-muted-foreground hover:text-primary transition-colors"
+                      >
+                        Forgot password?
+                      </button>
+                    </div>
+                  )}
+
                   <Button type="submit" className="w-full" variant="default" disabled={isLoading}>
                     {isLoading ? 'Processing...' : mode === 'signup' ? 'Create Account' : 'Sign In'}
                   </Button>
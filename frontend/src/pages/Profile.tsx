@@ -10,7 +10,9 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { apiClient } from '@/api/apiClient';
+import { TwoFactorSettings } from '@/components/TwoFactorSettings';
+import { SessionsSettings } from '@/components/SessionsSettings';
+import { api, apiClient } from '@/api/apiClient';
 import type { User as UserType } from '@/types';
 
 const profileSchema = z.object({
@@ -47,6 +49,7 @@ export default function Profile() {
   const [showPassword, setShowPassword] = useState(false);
   const [showNewPassword, setShowNewPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
+  const [verificationSent, setVerificationSent] = useState(false);
 
   const profileForm = useForm<ProfileFormData>({
     resolver: zodResolver(profileSchema),
@@ -127,6 +130,17 @@ export default function Profile() {
     }
   };
 
+  const resendVerification = async () => {
+    setErrorMessage('');
+    try {
+      await api.auth.resendVerification();
+      setVerificationSent(true);
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } }; message?: string };
+      setErrorMessage(err.response?.data?.message || 'Failed to send verification email');
+    }
+  };
+
   const handleLogout = async () => {
     await logout();
     navigate('/login');
@@ -163,6 +177,22 @@ export default function Profile() {
           </Alert>
         )}
 
+        {user.isVerified === false && (
+          <Alert className="mb-6 border-amber-200 bg-amber-50">
+            <Mail className="h-4 w-4 text-amber-600" />
+            <AlertDescription className="text-amber-800 flex flex-wrap items-center justify-between gap-2">
+              {verificationSent
+                ? `A verification link has been sent to ${user.email}.`
+                : 'Your email address has not been verified yet.'}
+              {!verificationSent && (
+                <Button variant="outline" size="sm" onClick={resendVerification}>
+                  Resend verification email
+                </Button>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Tabs */}
         <div className="flex gap-2 mb-6">
           <button
@@ -365,6 +395,10 @@ export default function Profile() {
           </Card>
         )}
 
+        <TwoFactorSettings />
+
+        <SessionsSettings />
+
         {/* Logout Section */}
         <Card className="mt-6 border-red-200 bg-red-50">
           <CardHeader>
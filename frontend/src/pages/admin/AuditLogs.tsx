@@ -0,0 +1,325 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Download, History, ScrollText, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { AppShell } from '@/components/layout/AppShell';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useAuditLogs, useAuditLogFacets, useResourceTimeline, useExportAuditLogs, useVerifyAuditChain } from '@/hooks/useAuditLogs';
+import type { AuditLogEntry, AuditLogFilters } from '@/api/auditApi';
+
+const PAGE_SIZE = 50;
+
+const formatAction = (action: string) =>
+  action.toLowerCase().split('_').map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const actionVariant = (action: string): 'destructive' | 'warning' | 'success' | 'secondary' => {
+  if (/REVOKED|DELETED|REJECTED|FAILED/.test(action)) return 'destructive';
+  if (/CANCELLED|RETRIED|ROTATED|CHANGED/.test(action)) return 'warning';
+  if (/CREATED|COMPLETED|REGISTERED/.test(action)) return 'success';
+  return 'secondary';
+};
+
+function DetailsList({ details }: { details?: Record<string, unknown> }) {
+  const entries = Object.entries(details || {});
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs">
+      {entries.map(([key, value]) => (
+        <React.Fragment key={key}>
+          <span className="text-muted-foreground">{key}</span>
+          <span className="font-mono break-all">
+            {typeof value === 'object' ? JSON.stringify(value) : String(value)}
+          </span>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+}
+
+export default function AuditLogs() {
+  const [action, setAction] = useState('all');
+  const [resource, setResource] = useState('all');
+  const [userId, setUserId] = useState('');
+  const [resourceId, setResourceId] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [page, setPage] = useState(1);
+  const [timelineFor, setTimelineFor] = useState<{ resource: string; resourceId: string } | null>(null);
+
+  // Dates are picked as whole local days
+  const filters: AuditLogFilters = {
+    action: action === 'all' ? undefined : action,
+    resource: resource === 'all' ? undefined : resource,
+    userId: userId.trim() || undefined,
+    resourceId: resourceId.trim() || undefined,
+    from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+    to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined,
+  };
+
+  const { data, isLoading } = useAuditLogs({ ...filters, page, limit: PAGE_SIZE });
+  const { data: facets } = useAuditLogFacets();
+  const { data: timeline, isLoading: timelineLoading } = useResourceTimeline(timelineFor?.resource, timelineFor?.resourceId);
+  const exportLogs = useExportAuditLogs();
+  const verifyChain = useVerifyAuditChain();
+  const report = verifyChain.data;
+
+  const entries = data?.data || [];
+  const totalPages = data?.totalPages || 1;
+
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const openTimeline = (entry: AuditLogEntry) => {
+    setTimelineFor({ resource: entry.resource, resourceId: entry.resourceId });
+  };
+
+  return (
+    <AppShell>
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="space-y-6"
+      >
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">Audit Log</h1>
+            <p className="text-muted-foreground text-sm">
+              Every recorded action on batches, inspections, certificates and accounts.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              disabled={verifyChain.isPending}
+              onClick={() => verifyChain.mutate()}
+            >
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              {verifyChain.isPending ? 'Verifying...' : 'Verify chain'}
+            </Button>
+            <Button
+              variant="outline"
+              disabled={exportLogs.isPending}
+              onClick={() => exportLogs.mutate({ filters, format: 'csv' })}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              CSV
+            </Button>
+            <Button
+              variant="outline"
+              disabled={exportLogs.isPending}
+              onClick={() => exportLogs.mutate({ filters, format: 'jsonl' })}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              JSONL
+            </Button>
+          </div>
+        </div>
+
+        {/* Chain verification */}
+        {report && (
+          <Card className={report.valid ? 'border-green-500/50' : 'border-destructive'}>
+            <CardContent className="pt-6 space-y-2">
+              <div className="flex items-center gap-2 font-medium">
+                {report.valid ? (
+                  <ShieldCheck className="h-5 w-5 text-green-600" />
+                ) : (
+                  <ShieldAlert className="h-5 w-5 text-destructive" />
+                )}
+                {report.valid ? 'Audit log intact' : 'Audit log integrity check failed'}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {report.checkedEntries} entries checked up to #{report.headSequence},{' '}
+                {report.checkpoints.filter((checkpoint) => checkpoint.status === 'valid').length} of{' '}
+                {report.checkpoints.length} signed checkpoints valid
+                {report.unchainedEntries > 0 && `, ${report.unchainedEntries} entries predate chaining`}
+              </p>
+              {report.issues.length > 0 && (
+                <ul className="text-sm space-y-1">
+                  {report.issues.map((issue, index) => (
+                    <li key={index} className="flex gap-2">
+                      <Badge variant="destructive">{issue.type.replace('_', ' ')}</Badge>
+                      {issue.message}
+                    </li>
+                  ))}
+                  {report.issueCount > report.issues.length && (
+                    <li className="text-muted-foreground">
+                      and {report.issueCount - report.issues.length} more
+                    </li>
+                  )}
+                </ul>
+              )}
+              {report.checkpoints
+                .filter((checkpoint) => checkpoint.status !== 'valid')
+                .map((checkpoint) => (
+                  <p key={checkpoint.sequence} className="text-sm text-destructive">
+                    Checkpoint at #{checkpoint.sequence} ({new Date(checkpoint.createdAt).toLocaleString()}):{' '}
+                    {checkpoint.status.replace('_', ' ')}
+                  </p>
+                ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Filters */}
+        <div className="grid gap-3 md:grid-cols-3 lg:grid-cols-6">
+          <Select value={action} onValueChange={updateFilter(setAction)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All actions</SelectItem>
+              {(facets?.actions || []).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {formatAction(option)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={resource} onValueChange={updateFilter(setResource)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All resources</SelectItem>
+              {(facets?.resources || []).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Resource ID"
+            value={resourceId}
+            onChange={(e) => updateFilter(setResourceId)(e.target.value)}
+            className="font-mono"
+          />
+          <Input
+            placeholder="User ID"
+            value={userId}
+            onChange={(e) => updateFilter(setUserId)(e.target.value)}
+            className="font-mono"
+          />
+          <Input
+            type="date"
+            aria-label="From date"
+            value={fromDate}
+            onChange={(e) => updateFilter(setFromDate)(e.target.value)}
+          />
+          <Input
+            type="date"
+            aria-label="To date"
+            value={toDate}
+            onChange={(e) => updateFilter(setToDate)(e.target.value)}
+          />
+        </div>
+
+        {/* Entries */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <ScrollText className="h-4 w-4" />
+              Entries
+              {data && <span className="text-muted-foreground font-normal">({data.total})</span>}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoading ? (
+              [1, 2, 3, 4].map((i) => (
+                <div key={i} className="h-14 rounded-lg bg-muted animate-pulse" />
+              ))
+            ) : entries.length > 0 ? (
+              entries.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="rounded-lg border border-border/60 bg-card/60 px-4 py-3 flex flex-col lg:flex-row lg:items-center justify-between gap-3"
+                >
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <Badge variant={actionVariant(entry.action)}>{formatAction(entry.action)}</Badge>
+                      <span className="text-sm">{entry.userName}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(entry.timestamp).toLocaleString()}
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground font-mono truncate">
+                      {entry.resource} · {entry.resourceId}
+                      {entry.ipAddress && ` · ${entry.ipAddress}`}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="sm" className="shrink-0" onClick={() => openTimeline(entry)}>
+                    <History className="h-4 w-4 mr-1" />
+                    Timeline
+                  </Button>
+                </div>
+              ))
+            ) : (
+              <div className="text-center py-12">
+                <ScrollText className="h-12 w-12 mx-auto text-muted-foreground/50 mb-4" />
+                <h3 className="font-semibold mb-1">No entries found</h3>
+                <p className="text-sm text-muted-foreground">Try widening the filters or date range.</p>
+              </div>
+            )}
+
+            {totalPages > 1 && (
+              <div className="flex items-center justify-between pt-2">
+                <p className="text-xs text-muted-foreground">
+                  Page {page} of {totalPages}
+                </p>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                    Previous
+                  </Button>
+                  <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Resource timeline */}
+        <Dialog open={!!timelineFor} onOpenChange={(open) => !open && setTimelineFor(null)}>
+          <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {timelineFor?.resource} <span className="font-mono text-sm text-muted-foreground">{timelineFor?.resourceId}</span>
+              </DialogTitle>
+            </DialogHeader>
+            {timelineLoading ? (
+              <div className="h-32 rounded-lg bg-muted animate-pulse" />
+            ) : (
+              <ol className="relative border-l border-border ml-2 space-y-5">
+                {(timeline || []).map((entry) => (
+                  <li key={entry.id} className="ml-5">
+                    <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border-2 border-background bg-primary" />
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <Badge variant={actionVariant(entry.action)}>{formatAction(entry.action)}</Badge>
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(entry.timestamp).toLocaleString()}
+                      </span>
+                    </div>
+                    <p className="text-sm mt-1">
+                      {entry.userName} <span className="text-xs text-muted-foreground font-mono">({entry.userId})</span>
+                    </p>
+                    <div className="mt-1">
+                      <DetailsList details={entry.details} />
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </DialogContent>
+        </Dialog>
+      </motion.div>
+    </AppShell>
+  );
+}
@@ -0,0 +1,300 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Activity, AlertTriangle, ChevronDown, ChevronUp, ListChecks, RotateCcw, Server, XCircle } from 'lucide-react';
+import { AppShell } from '@/components/layout/AppShell';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useIssuanceJobs, useWorkerStatus, useRetryJob, useCancelJob } from '@/hooks/useVCS';
+import type { JobState, JobStatus } from '@/api/vcApi';
+
+const statusOptions: { value: JobState | 'all'; label: string }[] = [
+  { value: 'all', label: 'All statuses' },
+  { value: 'pending', label: 'Queued' },
+  { value: 'processing', label: 'Processing' },
+  { value: 'success', label: 'Completed' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'dead_letter', label: 'Dead letter' },
+  { value: 'cancelled', label: 'Cancelled' },
+];
+
+// Age windows in minutes since the job was queued
+const ageOptions: { value: string; label: string; minAgeMinutes?: number; maxAgeMinutes?: number }[] = [
+  { value: 'any', label: 'Any age' },
+  { value: 'hour', label: 'Last hour', maxAgeMinutes: 60 },
+  { value: 'day', label: 'Last 24 hours', maxAgeMinutes: 24 * 60 },
+  { value: 'stuck', label: 'Older than 15 minutes', minAgeMinutes: 15 },
+  { value: 'old', label: 'Older than 24 hours', minAgeMinutes: 24 * 60 },
+];
+
+const statusBadge: Record<JobState, { label: string; variant: 'pending' | 'info' | 'success' | 'warning' | 'rejected' | 'secondary' }> = {
+  pending: { label: 'Queued', variant: 'pending' },
+  processing: { label: 'Processing', variant: 'info' },
+  success: { label: 'Completed', variant: 'success' },
+  failed: { label: 'Failed', variant: 'warning' },
+  dead_letter: { label: 'Dead letter', variant: 'rejected' },
+  cancelled: { label: 'Cancelled', variant: 'secondary' },
+};
+
+const PAGE_SIZE = 20;
+
+export default function IssuanceQueue() {
+  const [status, setStatus] = useState<JobState | 'all'>('all');
+  const [age, setAge] = useState('any');
+  const [batchId, setBatchId] = useState('');
+  const [page, setPage] = useState(1);
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+
+  const ageFilter = ageOptions.find((option) => option.value === age);
+  const trimmedBatchId = batchId.trim();
+
+  const { data, isLoading } = useIssuanceJobs({
+    status: status === 'all' ? undefined : status,
+    batchId: /^[a-f\d]{24}$/i.test(trimmedBatchId) ? trimmedBatchId : undefined,
+    minAgeMinutes: ageFilter?.minAgeMinutes,
+    maxAgeMinutes: ageFilter?.maxAgeMinutes,
+    page,
+    limit: PAGE_SIZE,
+  });
+  const { data: workerData } = useWorkerStatus();
+  const retryJob = useRetryJob();
+  const cancelJob = useCancelJob();
+
+  const jobs = data?.data || [];
+  const totalPages = data?.totalPages || 1;
+  const workers = workerData?.workers || [];
+
+  const canRetry = (job: JobStatus) => ['failed', 'dead_letter', 'cancelled'].includes(job.status);
+
+  return (
+    <AppShell>
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="space-y-6"
+      >
+        <div>
+          <h1 className="text-2xl font-bold">Issuance Queue</h1>
+          <p className="text-muted-foreground text-sm">
+            Monitor credential issuance jobs, retry failures and cancel queued work.
+          </p>
+        </div>
+
+        {/* Workers */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <Server className="h-4 w-4" />
+              Workers
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {workers.length > 0 ? (
+              <div className="grid gap-3 md:grid-cols-2">
+                {workers.map((worker) => (
+                  <div
+                    key={worker.workerId}
+                    className="rounded-lg border border-border/60 bg-card/60 px-4 py-3 space-y-2"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-mono text-xs truncate">{worker.workerId}</p>
+                      <Badge variant={worker.stale ? 'rejected' : worker.isRunning ? 'success' : 'secondary'}>
+                        {worker.stale ? 'Unresponsive' : worker.isRunning ? 'Running' : 'Stopped'}
+                      </Badge>
+                    </div>
+                    <div className="grid grid-cols-2 gap-1 text-xs text-muted-foreground">
+                      <span>Host</span>
+                      <span className="text-foreground">{worker.hostname} (pid {worker.pid})</span>
+                      <span>Active jobs</span>
+                      <span className="text-foreground">{worker.activeJobs} / {worker.maxConcurrency}</span>
+                      <span>Last seen</span>
+                      <span className="text-foreground">{new Date(worker.lastSeenAt).toLocaleString()}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <AlertTriangle className="h-4 w-4 text-warning" />
+                No worker has reported in. Queued jobs will not be processed until one is started.
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Filters */}
+        <div className="flex flex-col md:flex-row gap-3">
+          <Select
+            value={status}
+            onValueChange={(value) => {
+              setStatus(value as JobState | 'all');
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="md:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {statusOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={age}
+            onValueChange={(value) => {
+              setAge(value);
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="md:w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ageOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Filter by batch ID"
+            value={batchId}
+            onChange={(e) => {
+              setBatchId(e.target.value);
+              setPage(1);
+            }}
+            className="md:w-72 font-mono"
+          />
+        </div>
+
+        {/* Jobs */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <ListChecks className="h-4 w-4" />
+              Jobs
+              {data && <span className="text-muted-foreground font-normal">({data.total})</span>}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {isLoading ? (
+              [1, 2, 3].map((i) => (
+                <div key={i} className="h-16 rounded-lg bg-muted animate-pulse" />
+              ))
+            ) : jobs.length > 0 ? (
+              jobs.map((job) => {
+                const badge = statusBadge[job.status];
+                const expanded = expandedJobId === job.id;
+                const history = job.errorHistory || [];
+
+                return (
+                  <div
+                    key={job.id}
+                    className="rounded-lg border border-border/60 bg-card/60 px-4 py-3 space-y-3"
+                  >
+                    <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+                      <div className="space-y-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <Badge variant={badge.variant}>{badge.label}</Badge>
+                          <p className="text-xs text-muted-foreground font-mono truncate">{job.id}</p>
+                        </div>
+                        <p className="text-sm">
+                          Batch <span className="font-mono">{job.batchId}</span>
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Queued {new Date(job.createdAt).toLocaleString()} · Attempt {job.attempts}
+                          {job.maxAttempts ? ` of ${job.maxAttempts}` : ''}
+                          {job.status === 'pending' && job.nextRunAt && ` · Next run ${new Date(job.nextRunAt).toLocaleString()}`}
+                        </p>
+                        {job.lastError && (
+                          <p className="text-xs text-destructive truncate">{job.lastError}</p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        {history.length > 0 && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setExpandedJobId(expanded ? null : job.id)}
+                          >
+                            {expanded ? <ChevronUp className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
+                            Errors ({history.length})
+                          </Button>
+                        )}
+                        {canRetry(job) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={retryJob.isPending}
+                            onClick={() => retryJob.mutate(job.id)}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Retry
+                          </Button>
+                        )}
+                        {job.status === 'pending' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={cancelJob.isPending}
+                            onClick={() => cancelJob.mutate(job.id)}
+                          >
+                            <XCircle className="h-4 w-4 mr-1" />
+                            Cancel
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+
+                    {expanded && (
+                      <div className="border-t border-border pt-3 space-y-2">
+                        {history.map((entry, index) => (
+                          <div key={index} className="text-xs grid grid-cols-[auto_1fr] gap-x-3">
+                            <span className="text-muted-foreground">
+                              #{entry.attempt} · {new Date(entry.occurredAt).toLocaleString()}
+                            </span>
+                            <span className="break-words">{entry.error}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })
+            ) : (
+              <div className="text-center py-12">
+                <Activity className="h-12 w-12 mx-auto text-muted-foreground/50 mb-4" />
+                <h3 className="font-semibold mb-1">No jobs found</h3>
+                <p className="text-sm text-muted-foreground">
+                  Try changing the filters, or issue a certificate to queue a job.
+                </p>
+              </div>
+            )}
+
+            {totalPages > 1 && (
+              <div className="flex items-center justify-between pt-2">
+                <p className="text-xs text-muted-foreground">
+                  Page {page} of {totalPages}
+                </p>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                    Previous
+                  </Button>
+                  <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+    </AppShell>
+  );
+}
@@ -0,0 +1,434 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Building2, Pencil, Plus, Search, Trash2, UserPlus, Users as UsersIcon } from 'lucide-react';
+import { AppShell } from '@/components/layout/AppShell';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  useOrganizations,
+  useCreateOrganization,
+  useUpdateOrganization,
+  useOrganizationMembers,
+  useAddOrganizationMember,
+  useUpdateOrganizationMember,
+  useRemoveOrganizationMember,
+} from '@/hooks/useOrganizations';
+import type { CreateOrganizationInput } from '@/api/organizationsApi';
+import type { Organization, OrganizationRole, OrganizationType, User } from '@/types';
+
+const PAGE_SIZE = 20;
+
+const typeLabels: Record<OrganizationType, string> = {
+  certification_body: 'Certification Body',
+  cooperative: 'Cooperative',
+  lab: 'Lab',
+};
+
+const types = Object.keys(typeLabels) as OrganizationType[];
+
+const memberRoleLabels: Record<OrganizationRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+};
+
+const memberRoles = Object.keys(memberRoleLabels) as OrganizationRole[];
+
+const emptyForm: CreateOrganizationInput = {
+  name: '',
+  type: 'certification_body',
+  description: '',
+  contactEmail: '',
+  issuerDid: '',
+};
+
+export default function Organizations() {
+  const [search, setSearch] = useState('');
+  const [type, setType] = useState<string>('all');
+  const [page, setPage] = useState(1);
+  const [editing, setEditing] = useState<Organization | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<CreateOrganizationInput>(emptyForm);
+  const [membersOf, setMembersOf] = useState<Organization | null>(null);
+  const [memberEmail, setMemberEmail] = useState('');
+  const [memberRole, setMemberRole] = useState<OrganizationRole>('member');
+
+  const { data, isLoading } = useOrganizations({
+    search: search.trim() || undefined,
+    type: type === 'all' ? undefined : (type as OrganizationType),
+    page,
+    limit: PAGE_SIZE,
+  });
+  const createOrganization = useCreateOrganization();
+  const updateOrganization = useUpdateOrganization();
+  const { data: members, isLoading: membersLoading } = useOrganizationMembers(membersOf?.id ?? null);
+  const addMember = useAddOrganizationMember();
+  const updateMember = useUpdateOrganizationMember();
+  const removeMember = useRemoveOrganizationMember();
+
+  const organizations = data?.data || [];
+  const totalPages = data?.totalPages || 1;
+
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (organization: Organization) => {
+    setEditing(organization);
+    setForm({
+      name: organization.name,
+      type: organization.type,
+      description: organization.description || '',
+      contactEmail: organization.contactEmail || '',
+      issuerDid: organization.issuerDid || '',
+    });
+    setDialogOpen(true);
+  };
+
+  const openMembers = (organization: Organization) => {
+    setMembersOf(organization);
+    setMemberEmail('');
+    setMemberRole('member');
+  };
+
+  const handleSave = () => {
+    const details = {
+      name: form.name.trim(),
+      description: form.description?.trim() || undefined,
+      contactEmail: form.contactEmail?.trim() || undefined,
+    };
+    const issuerDid = form.issuerDid?.trim();
+    const onSuccess = () => setDialogOpen(false);
+
+    if (editing) {
+      updateOrganization.mutate(
+        // Clearing the DID reverts to the platform issuer
+        { id: editing.id, request: { ...details, issuerDid: issuerDid || (editing.issuerDid ? null : undefined) } },
+        { onSuccess }
+      );
+    } else {
+      createOrganization.mutate({ ...details, type: form.type, issuerDid: issuerDid || undefined }, { onSuccess });
+    }
+  };
+
+  const handleStatusChange = (organization: Organization, isActive: boolean) => {
+    if (
+      !isActive &&
+      !window.confirm(`Deactivate ${organization.name}? Farmers will no longer be able to choose it.`)
+    ) {
+      return;
+    }
+    updateOrganization.mutate({ id: organization.id, request: { isActive } });
+  };
+
+  const handleAddMember = () => {
+    if (!membersOf) return;
+    addMember.mutate(
+      { id: membersOf.id, email: memberEmail.trim(), role: memberRole },
+      { onSuccess: () => setMemberEmail('') }
+    );
+  };
+
+  const handleRemoveMember = (member: User) => {
+    if (membersOf && window.confirm(`Remove ${member.name} from ${membersOf.name}?`)) {
+      removeMember.mutate({ id: membersOf.id, userId: member.id });
+    }
+  };
+
+  const isSaving = createOrganization.isPending || updateOrganization.isPending;
+  const canSave = form.name.trim().length >= 2;
+
+  return (
+    <AppShell>
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="space-y-6"
+      >
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">Organizations</h1>
+            <p className="text-muted-foreground text-sm">
+              Certification bodies, cooperatives and labs, their members and issuer DIDs.
+            </p>
+          </div>
+          <Button variant="gradient" onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Organization
+          </Button>
+        </div>
+
+        {/* Filters */}
+        <div className="grid gap-3 md:grid-cols-[1fr_220px]">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search name or slug"
+              value={search}
+              onChange={(e) => updateFilter(setSearch)(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          <Select value={type} onValueChange={updateFilter(setType)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All types</SelectItem>
+              {types.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {typeLabels[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <Building2 className="h-4 w-4" />
+              Organization Directory
+              {data && <span className="text-muted-foreground font-normal">({data.total})</span>}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {isLoading ? (
+              [1, 2, 3].map((i) => (
+                <div key={i} className="h-16 rounded-lg bg-muted animate-pulse" />
+              ))
+            ) : organizations.length > 0 ? (
+              organizations.map((organization) => (
+                <div
+                  key={organization.id}
+                  className="flex flex-col lg:flex-row lg:items-center justify-between gap-3 rounded-lg border border-border/60 bg-card/60 px-4 py-3"
+                >
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium text-sm">{organization.name}</p>
+                      <Badge variant="outline">{typeLabels[organization.type]}</Badge>
+                      <Badge variant={organization.isActive ? 'success' : 'secondary'}>
+                        {organization.isActive ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground font-mono truncate">
+                      {organization.slug}
+                      {` · ${organization.issuerDid || 'Platform issuer DID'}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3 shrink-0">
+                    <Button variant="outline" size="sm" onClick={() => openMembers(organization)}>
+                      <UsersIcon className="h-4 w-4 mr-1" />
+                      Members
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => openEdit(organization)}>
+                      <Pencil className="h-4 w-4 mr-1" />
+                      Edit
+                    </Button>
+                    <Switch
+                      aria-label={organization.isActive ? 'Deactivate organization' : 'Activate organization'}
+                      checked={organization.isActive}
+                      disabled={updateOrganization.isPending}
+                      onCheckedChange={(checked) => handleStatusChange(organization, checked)}
+                    />
+                  </div>
+                </div>
+              ))
+            ) : (
+              <div className="text-center py-12">
+                <Building2 className="h-12 w-12 mx-auto text-muted-foreground/50 mb-4" />
+                <h3 className="font-semibold mb-1">No organizations found</h3>
+                <p className="text-sm text-muted-foreground">Try a different search or filter.</p>
+              </div>
+            )}
+
+            {totalPages > 1 && (
+              <div className="flex items-center justify-between pt-2">
+                <p className="text-xs text-muted-foreground">
+                  Page {page} of {totalPages}
+                </p>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                    Previous
+                  </Button>
+                  <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Create or edit organization */}
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{editing ? `Edit ${editing.name}` : 'Add Organization'}</DialogTitle>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Name</Label>
+                  <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Type</Label>
+                  <Select
+                    value={form.type}
+                    disabled={!!editing}
+                    onValueChange={(value) => setForm({ ...form, type: value as OrganizationType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {types.map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {typeLabels[option]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Description</Label>
+                <Input value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Contact email</Label>
+                <Input
+                  type="email"
+                  value={form.contactEmail}
+                  onChange={(e) => setForm({ ...form, contactEmail: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Issuer DID</Label>
+                <Input
+                  className="font-mono"
+                  placeholder="did:web:example.com:orgs:my-organization"
+                  value={form.issuerDid}
+                  onChange={(e) => setForm({ ...form, issuerDid: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Certificates for this organization are signed under this DID. Leave empty to use the platform DID.
+                </p>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button disabled={!canSave || isSaving} onClick={handleSave}>
+                {isSaving ? 'Saving...' : editing ? 'Save changes' : 'Create organization'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Members */}
+        <Dialog open={!!membersOf} onOpenChange={(open) => !open && setMembersOf(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>{membersOf?.name} Members</DialogTitle>
+            </DialogHeader>
+
+            <div className="space-y-3">
+              {membersLoading ? (
+                <div className="h-16 rounded-lg bg-muted animate-pulse" />
+              ) : members && members.length > 0 ? (
+                members.map((member) => (
+                  <div
+                    key={member.id}
+                    className="flex items-center justify-between gap-3 rounded-lg border border-border/60 px-4 py-2"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium text-sm">{member.name}</p>
+                      <p className="text-xs text-muted-foreground font-mono truncate">
+                        {member.email} · {member.role.replace('_', ' ')}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Select
+                        value={member.organizationRole}
+                        disabled={updateMember.isPending}
+                        onValueChange={(value) =>
+                          membersOf &&
+                          updateMember.mutate({ id: membersOf.id, userId: member.id, role: value as OrganizationRole })
+                        }
+                      >
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {memberRoles.map((option) => (
+                            <SelectItem key={option} value={option}>
+                              {memberRoleLabels[option]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        aria-label={`Remove ${member.name}`}
+                        disabled={removeMember.isPending}
+                        onClick={() => handleRemoveMember(member)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))
+              ) : (
+                <p className="text-sm text-muted-foreground">No members yet.</p>
+              )}
+
+              <div className="grid gap-3 sm:grid-cols-[1fr_140px_auto] pt-2 border-t border-border/60">
+                <Input
+                  type="email"
+                  placeholder="Email of an existing user"
+                  value={memberEmail}
+                  onChange={(e) => setMemberEmail(e.target.value)}
+                />
+                <Select value={memberRole} onValueChange={(value) => setMemberRole(value as OrganizationRole)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {memberRoles.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {memberRoleLabels[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button disabled={!memberEmail.trim() || addMember.isPending} onClick={handleAddMember}>
+                  <UserPlus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </motion.div>
+    </AppShell>
+  );
+}
@@ -0,0 +1,382 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Pencil, Plus, Ruler, Trash2 } from 'lucide-react';
+import { AppShell } from '@/components/layout/AppShell';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useStandards, useCreateStandard, useUpdateStandard, useDeleteStandard } from '@/hooks/useStandards';
+import type { QualityStandard, QualityStandardInput } from '@/api/standardsApi';
+
+const stateBadge: Record<NonNullable<QualityStandard['state']>, { label: string; variant: 'success' | 'info' | 'secondary' }> = {
+  effective: { label: 'In effect', variant: 'success' },
+  scheduled: { label: 'Scheduled', variant: 'info' },
+  superseded: { label: 'Superseded', variant: 'secondary' },
+};
+
+interface ParameterRow {
+  key: string;
+  label: string;
+  unit: string;
+  min: string;
+  max: string;
+  aliases: string;
+}
+
+interface StandardForm {
+  productType: string;
+  name: string;
+  description: string;
+  effectiveFrom: string;
+  requiresOrganic: boolean;
+  requiredPhotos: string;
+  requiredReadings: string;
+  parameters: ParameterRow[];
+}
+
+const emptyParameter: ParameterRow = { key: '', label: '', unit: '', min: '', max: '', aliases: '' };
+
+// datetime-local inputs expect local time without a zone suffix
+const toLocalInput = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const splitList = (value: string) =>
+  value.split(',').map((item) => item.trim()).filter(Boolean);
+
+const toForm = (standard?: QualityStandard, keepSchedule = false): StandardForm => ({
+  productType: standard?.productType || '',
+  name: standard?.name || '',
+  description: standard?.description || '',
+  effectiveFrom: keepSchedule && standard
+    ? toLocalInput(new Date(standard.effectiveFrom))
+    : toLocalInput(new Date(Date.now() + 5 * 60000)),
+  requiresOrganic: standard?.requiresOrganic || false,
+  requiredPhotos: (standard?.requiredPhotos || []).join(', '),
+  requiredReadings: (standard?.requiredReadings || []).join(', '),
+  parameters: standard?.parameters.length
+    ? standard.parameters.map((parameter) => ({
+        key: parameter.key,
+        label: parameter.label,
+        unit: parameter.unit,
+        min: parameter.min?.toString() ?? '',
+        max: parameter.max?.toString() ?? '',
+        aliases: (parameter.aliases || []).join(', '),
+      }))
+    : [{ ...emptyParameter }],
+});
+
+const toPayload = (form: StandardForm): QualityStandardInput => ({
+  name: form.name.trim(),
+  description: form.description.trim() || undefined,
+  effectiveFrom: new Date(form.effectiveFrom).toISOString(),
+  requiresOrganic: form.requiresOrganic,
+  requiredPhotos: splitList(form.requiredPhotos),
+  requiredReadings: splitList(form.requiredReadings),
+  parameters: form.parameters
+    .filter((parameter) => parameter.key.trim())
+    .map((parameter) => ({
+      key: parameter.key.trim().toLowerCase(),
+      label: parameter.label.trim() || parameter.key.trim(),
+      unit: parameter.unit.trim(),
+      min: parameter.min === '' ? undefined : Number(parameter.min),
+      max: parameter.max === '' ? undefined : Number(parameter.max),
+      aliases: splitList(parameter.aliases),
+    })),
+});
+
+export default function QualityStandards() {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<StandardForm>(toForm());
+
+  const { data, isLoading } = useStandards({ limit: 100 });
+  const createStandard = useCreateStandard();
+  const updateStandard = useUpdateStandard();
+  const deleteStandard = useDeleteStandard();
+
+  // Versions grouped by product type, newest first
+  const groups = useMemo(() => {
+    const byType = new Map<string, QualityStandard[]>();
+    for (const standard of data?.data || []) {
+      byType.set(standard.productType, [...(byType.get(standard.productType) || []), standard]);
+    }
+    return Array.from(byType.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([productType, versions]) => ({
+        productType,
+        versions: versions.sort((a, b) => b.version - a.version),
+      }));
+  }, [data]);
+
+  const openCreate = (base?: QualityStandard) => {
+    setEditingId(null);
+    setForm(toForm(base));
+    setDialogOpen(true);
+  };
+
+  const openEdit = (standard: QualityStandard) => {
+    setEditingId(standard.id);
+    setForm(toForm(standard, true));
+    setDialogOpen(true);
+  };
+
+  const updateParameter = (index: number, field: keyof ParameterRow, value: string) => {
+    setForm((current) => ({
+      ...current,
+      parameters: current.parameters.map((parameter, i) =>
+        i === index ? { ...parameter, [field]: value } : parameter
+      ),
+    }));
+  };
+
+  const handleSubmit = () => {
+    const payload = toPayload(form);
+    const onSuccess = () => setDialogOpen(false);
+
+    if (editingId) {
+      updateStandard.mutate({ id: editingId, request: payload }, { onSuccess });
+    } else {
+      createStandard.mutate({ ...payload, productType: form.productType.trim().toLowerCase() }, { onSuccess });
+    }
+  };
+
+  const isSaving = createStandard.isPending || updateStandard.isPending;
+  const canSubmit = form.name.trim() && form.effectiveFrom && (editingId || form.productType.trim());
+
+  return (
+    <AppShell>
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="space-y-6"
+      >
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">Quality Standards</h1>
+            <p className="text-muted-foreground text-sm">
+              Thresholds and requirements inspections are evaluated against. Versions in effect cannot be changed.
+            </p>
+          </div>
+          <Button variant="gradient" onClick={() => openCreate()}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Product Standard
+          </Button>
+        </div>
+
+        {isLoading ? (
+          [1, 2].map((i) => <div key={i} className="h-40 rounded-lg bg-muted animate-pulse" />)
+        ) : groups.length > 0 ? (
+          groups.map(({ productType, versions }) => {
+            const current = versions.find((standard) => standard.state === 'effective') || versions[0];
+
+            return (
+              <Card key={productType}>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <CardTitle className="text-base flex items-center gap-2 capitalize">
+                    <Ruler className="h-4 w-4" />
+                    {productType}
+                  </CardTitle>
+                  <Button variant="outline" size="sm" onClick={() => openCreate(current)}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    New version
+                  </Button>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {versions.map((standard) => {
+                    const badge = standard.state ? stateBadge[standard.state] : undefined;
+
+                    return (
+                      <div
+                        key={standard.id}
+                        className="rounded-lg border border-border/60 bg-card/60 px-4 py-3 space-y-3"
+                      >
+                        <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+                          <div className="space-y-1 min-w-0">
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium">v{standard.version}</span>
+                              {badge && <Badge variant={badge.variant}>{badge.label}</Badge>}
+                              {standard.requiresOrganic && <Badge variant="outline">Organic</Badge>}
+                            </div>
+                            <p className="text-sm">{standard.name}</p>
+                            <p className="text-xs text-muted-foreground">
+                              Effective from {new Date(standard.effectiveFrom).toLocaleString()}
+                            </p>
+                          </div>
+                          {standard.state === 'scheduled' && (
+                            <div className="flex items-center gap-2 shrink-0">
+                              <Button variant="outline" size="sm" onClick={() => openEdit(standard)}>
+                                <Pencil className="h-4 w-4 mr-1" />
+                                Edit
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={deleteStandard.isPending}
+                                onClick={() => deleteStandard.mutate(standard.id)}
+                              >
+                                <Trash2 className="h-4 w-4 mr-1" />
+                                Delete
+                              </Button>
+                            </div>
+                          )}
+                        </div>
+
+                        {standard.parameters.length > 0 && (
+                          <div className="grid gap-1 text-xs sm:grid-cols-2 lg:grid-cols-3">
+                            {standard.parameters.map((parameter) => (
+                              <div key={parameter.key} className="flex justify-between gap-2 rounded bg-muted/50 px-2 py-1">
+                                <span className="text-muted-foreground">{parameter.label}</span>
+                                <span className="font-mono">
+                                  {parameter.min ?? '–'} … {parameter.max ?? '–'} {parameter.unit}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
+                        {(standard.requiredReadings.length > 0 || standard.requiredPhotos.length > 0) && (
+                          <p className="text-xs text-muted-foreground">
+                            {standard.requiredReadings.length > 0 && `Required readings: ${standard.requiredReadings.join(', ')}`}
+                            {standard.requiredReadings.length > 0 && standard.requiredPhotos.length > 0 && ' · '}
+                            {standard.requiredPhotos.length > 0 && `Required photos: ${standard.requiredPhotos.join(', ')}`}
+                          </p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            );
+          })
+        ) : (
+          <Card>
+            <CardContent className="text-center py-12">
+              <Ruler className="h-12 w-12 mx-auto text-muted-foreground/50 mb-4" />
+              <h3 className="font-semibold mb-1">No standards defined</h3>
+              <p className="text-sm text-muted-foreground">
+                Default standards are created the first time an inspection needs one.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {editingId ? 'Edit scheduled version' : form.productType ? `New ${form.productType} version` : 'New product standard'}
+              </DialogTitle>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="grid gap-3 md:grid-cols-2">
+                <div className="space-y-1">
+                  <Label>Product type</Label>
+                  <Input
+                    value={form.productType}
+                    disabled={!!editingId}
+                    placeholder="e.g. grains"
+                    onChange={(e) => setForm({ ...form, productType: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Effective from</Label>
+                  <Input
+                    type="datetime-local"
+                    value={form.effectiveFrom}
+                    onChange={(e) => setForm({ ...form, effectiveFrom: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label>Name</Label>
+                <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label>Description</Label>
+                <Textarea
+                  rows={2}
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Parameters</Label>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setForm({ ...form, parameters: [...form.parameters, { ...emptyParameter }] })}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add parameter
+                  </Button>
+                </div>
+                {form.parameters.map((parameter, index) => (
+                  <div key={index} className="grid gap-2 grid-cols-2 md:grid-cols-[1fr_1.5fr_0.7fr_0.7fr_0.7fr_1.5fr_auto] items-center">
+                    <Input placeholder="key" value={parameter.key} onChange={(e) => updateParameter(index, 'key', e.target.value)} />
+                    <Input placeholder="Label" value={parameter.label} onChange={(e) => updateParameter(index, 'label', e.target.value)} />
+                    <Input placeholder="Unit" value={parameter.unit} onChange={(e) => updateParameter(index, 'unit', e.target.value)} />
+                    <Input type="number" placeholder="Min" value={parameter.min} onChange={(e) => updateParameter(index, 'min', e.target.value)} />
+                    <Input type="number" placeholder="Max" value={parameter.max} onChange={(e) => updateParameter(index, 'max', e.target.value)} />
+                    <Input placeholder="Aliases" value={parameter.aliases} onChange={(e) => updateParameter(index, 'aliases', e.target.value)} />
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={() => setForm({ ...form, parameters: form.parameters.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid gap-3 md:grid-cols-2">
+                <div className="space-y-1">
+                  <Label>Required readings</Label>
+                  <Input
+                    placeholder="moisture, visual_inspection"
+                    value={form.requiredReadings}
+                    onChange={(e) => setForm({ ...form, requiredReadings: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Required photos</Label>
+                  <Input
+                    placeholder="sample, packaging"
+                    value={form.requiredPhotos}
+                    onChange={(e) => setForm({ ...form, requiredPhotos: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <Label>Requires organic certification</Label>
+                <Switch
+                  checked={form.requiresOrganic}
+                  onCheckedChange={(checked) => setForm({ ...form, requiresOrganic: checked })}
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button disabled={!canSubmit || isSaving} onClick={handleSubmit}>
+                {isSaving ? 'Saving...' : editingId ? 'Save changes' : 'Create version'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </motion.div>
+    </AppShell>
+  );
+}
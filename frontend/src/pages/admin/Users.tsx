@@ -1,57 +1,109 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { LockOpen, LogOut, Plus, Search, Users as UsersIcon } from 'lucide-react';
 import { AppShell } from '@/components/layout/AppShell';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import type { User } from '@/types';
-
-const mockUsers: User[] = [
-  {
-    id: 'u1',
-    name: 'Asha Farmer',
-    email: 'asha@example.com',
-    role: 'farmer',
-    createdAt: new Date().toISOString(),
-    isActive: true,
-    isVerified: true,
-    updatedAt: new Date().toISOString(),
-  },
-  {
-    id: 'u2',
-    name: 'Ravi QA',
-    email: 'ravi.qa@example.com',
-    role: 'qa_inspector',
-    createdAt: new Date().toISOString(),
-    isActive: true,
-    isVerified: true,
-    updatedAt: new Date().toISOString(),
-  },
-  {
-    id: 'u3',
-    name: 'Meera Certifier',
-    email: 'meera@example.com',
-    role: 'certifier',
-    createdAt: new Date().toISOString(),
-    isActive: true,
-    isVerified: true,
-    updatedAt: new Date().toISOString(),
-  },
-  {
-    id: 'u4',
-    name: 'Admin',
-    email: 'admin@example.com',
-    role: 'admin',
-    createdAt: new Date().toISOString(),
-    isActive: true,
-    isVerified: true,
-    updatedAt: new Date().toISOString(),
-  },
-];
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useUsers, useCreateUser, useChangeUserRole, useSetUserActive, useForceLogoutUser, useUnlockUser } from '@/hooks/useUsers';
+import type { CreateUserInput } from '@/api/usersApi';
+import type { User, UserRole } from '@/types';
+
+const PAGE_SIZE = 20;
+
+const roleLabels: Record<UserRole, string> = {
+  farmer: 'Farmer',
+  qa_inspector: 'QA Inspector',
+  certifier: 'Certifier',
+  verifier: 'Verifier',
+  admin: 'Admin',
+};
+
+const roles = Object.keys(roleLabels) as UserRole[];
+
+const emptyForm: CreateUserInput = {
+  name: '',
+  email: '',
+  password: '',
+  role: 'qa_inspector',
+  organization: '',
+  phone: '',
+};
 
 export default function Users() {
+  const { user: currentUser } = useAuth();
+  const [search, setSearch] = useState('');
+  const [role, setRole] = useState<string>('all');
+  const [status, setStatus] = useState<string>('all');
+  const [page, setPage] = useState(1);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<CreateUserInput>(emptyForm);
+
+  const { data, isLoading } = useUsers({
+    search: search.trim() || undefined,
+    role: role === 'all' ? undefined : (role as UserRole),
+    isActive: status === 'all' ? undefined : status === 'active',
+    page,
+    limit: PAGE_SIZE,
+  });
+  const createUser = useCreateUser();
+  const changeRole = useChangeUserRole();
+  const setActive = useSetUserActive();
+  const forceLogout = useForceLogoutUser();
+  const unlock = useUnlockUser();
+
+  const users = data?.data || [];
+  const totalPages = data?.totalPages || 1;
+
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const openCreate = () => {
+    setForm(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const handleCreate = () => {
+    createUser.mutate(
+      {
+        ...form,
+        organization: form.organization?.trim() || undefined,
+        phone: form.phone?.trim() || undefined,
+      },
+      { onSuccess: () => setDialogOpen(false) }
+    );
+  };
+
+  const handleStatusChange = (user: User, isActive: boolean) => {
+    if (!isActive && !window.confirm(`Deactivate ${user.name}? They will be signed out and unable to sign in.`)) {
+      return;
+    }
+    setActive.mutate({ id: user.id, isActive });
+  };
+
+  const handleForceLogout = (user: User) => {
+    if (window.confirm(`Sign ${user.name} out of every session?`)) {
+      forceLogout.mutate(user.id);
+    }
+  };
+
+  const canCreate = form.name.trim().length >= 2 && form.email.trim() && form.password.length >= 8;
+
   return (
     <AppShell>
-      <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="space-y-6"
+      >
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
           <div>
             <h1 className="text-2xl font-bold">Users</h1>
@@ -59,39 +111,229 @@ export default function Users() {
               Manage platform users and their roles.
             </p>
           </div>
-          <Button variant="gradient">
+          <Button variant="gradient" onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
             Add User
           </Button>
         </div>
 
+        {/* Filters */}
+        <div className="grid gap-3 md:grid-cols-[1fr_200px_200px]">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search name, email or organization"
+              value={search}
+              onChange={(e) => updateFilter(setSearch)(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          <Select value={role} onValueChange={updateFilter(setRole)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All roles</SelectItem>
+              {roles.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {roleLabels[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={status} onValueChange={updateFilter(setStatus)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              <SelectItem value="active">Active</SelectItem>
+              <SelectItem value="inactive">Inactive</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
         <Card>
           <CardHeader>
-            <CardTitle className="text-base">User Directory</CardTitle>
+            <CardTitle className="text-base flex items-center gap-2">
+              <UsersIcon className="h-4 w-4" />
+              User Directory
+              {data && <span className="text-muted-foreground font-normal">({data.total})</span>}
+            </CardTitle>
           </CardHeader>
           <CardContent className="space-y-3">
-            {mockUsers.map((user) => (
-              <div
-                key={user.id}
-                className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border border-border/60 bg-card/60 px-4 py-3"
-              >
-                <div className="space-y-1">
-                  <p className="font-medium text-sm">{user.name}</p>
-                  <p className="text-xs text-muted-foreground font-mono">{user.email}</p>
-                </div>
-                <div className="flex items-center gap-3">
-                  <Badge variant="outline" className="capitalize">
-                    {user.role.replace('_', ' ')}
-                  </Badge>
-                  <Badge variant={user.isActive ? 'success' : 'secondary'}>
-                    {user.isActive ? 'Active' : 'Inactive'}
-                  </Badge>
+            {isLoading ? (
+              [1, 2, 3, 4].map((i) => (
+                <div key={i} className="h-16 rounded-lg bg-muted animate-pulse" />
+              ))
+            ) : users.length > 0 ? (
+              users.map((user) => {
+                const isSelf = user.id === currentUser?.id;
+                const lockedUntil = user.lockedUntil ? new Date(user.lockedUntil) : null;
+                const isLocked = !!lockedUntil && lockedUntil > new Date();
+
+                return (
+                  <div
+                    key={user.id}
+                    className="flex flex-col lg:flex-row lg:items-center justify-between gap-3 rounded-lg border border-border/60 bg-card/60 px-4 py-3"
+                  >
+                    <div className="space-y-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium text-sm">{user.name}</p>
+                        {isSelf && <Badge variant="outline">You</Badge>}
+                        <Badge variant={user.isActive ? 'success' : 'secondary'}>
+                          {user.isActive ? 'Active' : 'Inactive'}
+                        </Badge>
+                        {isLocked && (
+                          <Badge variant="destructive" title={`Locked until ${lockedUntil?.toLocaleString()}`}>
+                            Locked
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground font-mono truncate">
+                        {user.email}
+                        {user.organization && ` · ${user.organization}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3 shrink-0">
+                      {isLocked && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={unlock.isPending}
+                          onClick={() => unlock.mutate(user.id)}
+                        >
+                          <LockOpen className="h-4 w-4 mr-1" />
+                          Unlock
+                        </Button>
+                      )}
+                      <Select
+                        value={user.role}
+                        disabled={isSelf || changeRole.isPending}
+                        onValueChange={(value) => changeRole.mutate({ id: user.id, role: value as UserRole })}
+                      >
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {roles.map((option) => (
+                            <SelectItem key={option} value={option}>
+                              {roleLabels[option]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Switch
+                        aria-label={user.isActive ? 'Deactivate user' : 'Activate user'}
+                        checked={!!user.isActive}
+                        disabled={isSelf || setActive.isPending}
+                        onCheckedChange={(checked) => handleStatusChange(user, checked)}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={forceLogout.isPending}
+                        onClick={() => handleForceLogout(user)}
+                      >
+                        <LogOut className="h-4 w-4 mr-1" />
+                        Sign out
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })
+            ) : (
+              <div className="text-center py-12">
+                <UsersIcon className="h-12 w-12 mx-auto text-muted-foreground/50 mb-4" />
+                <h3 className="font-semibold mb-1">No users found</h3>
+                <p className="text-sm text-muted-foreground">Try a different search or filter.</p>
+              </div>
+            )}
+
+            {totalPages > 1 && (
+              <div className="flex items-center justify-between pt-2">
+                <p className="text-xs text-muted-foreground">
+                  Page {page} of {totalPages}
+                </p>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                    Previous
+                  </Button>
+                  <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                    Next
+                  </Button>
                 </div>
               </div>
-            ))}
+            )}
           </CardContent>
         </Card>
-      </div>
+
+        {/* Create user */}
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Add User</DialogTitle>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Email</Label>
+                <Input type="email" value={form.email} onChange={(e) => setForm({ ...form, email: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Temporary password</Label>
+                <Input
+                  type="password"
+                  autoComplete="new-password"
+                  value={form.password}
+                  onChange={(e) => setForm({ ...form, password: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  At least 8 characters with upper and lower case letters, a number and a special character.
+                </p>
+              </div>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Role</Label>
+                  <Select value={form.role} onValueChange={(value) => setForm({ ...form, role: value as UserRole })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {roles.map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {roleLabels[option]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Phone</Label>
+                  <Input value={form.phone} onChange={(e) => setForm({ ...form, phone: e.target.value })} />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Organization</Label>
+                <Input value={form.organization} onChange={(e) => setForm({ ...form, organization: e.target.value })} />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button disabled={!canCreate || createUser.isPending} onClick={handleCreate}>
+                {createUser.isPending ? 'Creating...' : 'Create user'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </motion.div>
     </AppShell>
   );
 }
-
@@ -12,6 +12,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { AppShell } from '@/components/layout/AppShell';
 import { api } from '@/api/apiClient';
+import { useOrganizations } from '@/hooks/useOrganizations';
 
 const UNITS = [
   { value: 'kg', label: 'Kilogram (kg)' },
@@ -28,11 +29,13 @@ const UNITS = [
 ];
 
 const batchSchema = z.object({
+  organizationId: z.string().optional(),
   productType: z.string().min(2, 'Product type is required'),
   productName: z.string().min(2, 'Product name is required'),
   quantity: z.coerce.number().positive('Quantity must be positive'),
   unit: z.string().min(1, 'Unit is required'),
   harvestDate: z.string().min(1, 'Harvest date is required'),
+  organic: z.boolean().optional(),
   location: z.object({
     latitude: z.coerce.number().min(-90).max(90, 'Invalid latitude'),
     longitude: z.coerce.number().min(-180).max(180, 'Invalid longitude'),
@@ -54,11 +57,13 @@ export default function BatchNew() {
   const form = useForm<BatchFormData>({
     resolver: zodResolver(batchSchema),
     defaultValues: {
+      organizationId: '',
       productType: '',
       productName: '',
       quantity: 0,
       unit: 'kg',
       harvestDate: '',
+      organic: false,
       location: {
         latitude: 0,
         longitude: 0,
@@ -68,6 +73,8 @@ export default function BatchNew() {
     },
   });
 
+  const { data: certificationBodies } = useOrganizations({ type: 'certification_body', limit: 100 });
+
   if (user?.role !== 'farmer') {
     return (
       <AppShell>
@@ -100,7 +107,7 @@ export default function BatchNew() {
 
   const handleNext = async () => {
     if (step === 'details') {
-      const isValid = await form.trigger(['productType', 'productName', 'quantity', 'unit', 'harvestDate']);
+      const isValid = await form.trigger(['organizationId', 'productType', 'productName', 'quantity', 'unit', 'harvestDate']);
       if (isValid) {
         setStep('location');
       }
@@ -133,6 +140,7 @@ export default function BatchNew() {
       const batchResponse = await api.batches.create({
         farmerId: user?.id || '',
         farmerName: user?.name || '',
+        organizationId: data.organizationId || undefined,
         productType: data.productType,
         productName: data.productName,
         quantity: data.quantity,
@@ -140,6 +148,7 @@ export default function BatchNew() {
         harvestDate: data.harvestDate,
         location,
         attachments: [],
+        metadata: data.organic ? { certificationStandards: ['organic'] } : undefined,
       });
 
       if (!batchResponse.success) {
@@ -287,6 +296,24 @@ export default function BatchNew() {
                     </div>
                   </div>
 
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Certification Body</label>
+                    <select
+                      {...form.register('organizationId')}
+                      className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                    >
+                      <option value="">AgriQCert (platform)</option>
+                      {certificationBodies?.data.map((organization) => (
+                        <option key={organization.id} value={organization.id}>
+                          {organization.name}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Inspects your batch and issues its certificate
+                    </p>
+                  </div>
+
                   <div>
                     <label className="block text-sm font-medium mb-2">Harvest Date</label>
                     <Input
@@ -298,6 +325,16 @@ export default function BatchNew() {
                       <p className="text-red-600 text-sm mt-1">{form.formState.errors.harvestDate.message}</p>
                     )}
                   </div>
+
+                  <div>
+                    <label className="flex items-center gap-2 text-sm font-medium">
+                      <input type="checkbox" {...form.register('organic')} className="h-4 w-4" />
+                      Grown to an organic standard
+                    </label>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Organic standards only pass produce declared as organic
+                    </p>
+                  </div>
                 </motion.div>
               )}
 
@@ -390,6 +427,17 @@ export default function BatchNew() {
                           <p className="text-sm text-muted-foreground">Harvest Date</p>
                           <p className="font-medium">{new Date(formData.harvestDate).toLocaleDateString()}</p>
                         </div>
+                        <div>
+                          <p className="text-sm text-muted-foreground">Organic</p>
+                          <p className="font-medium">{formData.organic ? 'Yes' : 'No'}</p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-muted-foreground">Certification Body</p>
+                          <p className="font-medium">
+                            {certificationBodies?.data.find((organization) => organization.id === formData.organizationId)?.name ||
+                              'AgriQCert (platform)'}
+                          </p>
+                        </div>
                       </div>
                     </CardContent>
                   </Card>
@@ -8,14 +8,67 @@ export interface User {
   role: UserRole;
   avatar?: string;
   organization?: string;
+  organizationId?: string;
+  organizationRole?: OrganizationRole;
   phone?: string;
   address?: string;
   isActive?: boolean;
   isVerified?: boolean;
+  twoFactorEnabled?: boolean;
+  // Set while sign-in is locked after repeated failed passwords
+  lockedUntil?: string;
   createdAt: string;
   updatedAt?: string;
 }
 
+// Returned by login/signup instead of a session when a second factor is needed
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  purpose: 'verify' | 'enroll';
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface DeviceSession {
+  id: string;
+  device: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt?: string;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// Organization Types
+export type OrganizationType = 'certification_body' | 'cooperative' | 'lab';
+
+export type OrganizationRole = 'owner' | 'admin' | 'member';
+
+export interface Organization {
+  id: string;
+  name: string;
+  slug: string;
+  type: OrganizationType;
+  description?: string;
+  contactEmail?: string;
+  // Certificates are signed under the platform DID when unset
+  issuerDid?: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface AuthState {
   user: User | null;
   isAuthenticated: boolean;
@@ -38,6 +91,8 @@ export interface Batch {
   id: string;
   farmerId: string;
   farmerName: string;
+  // Certification body the batch is submitted to
+  organizationId?: string;
   productType: string;
   productName: string;
   quantity: number;
@@ -52,6 +107,10 @@ export interface Batch {
   };
   status: BatchStatus;
   attachments: BatchAttachment[];
+  // certificationStandards: ['organic'] marks the produce as organic
+  metadata?: {
+    certificationStandards?: string[];
+  };
   createdAt: string;
   updatedAt: string;
   submittedAt?: string;
@@ -65,6 +124,34 @@ export interface BatchDraft {
   lastSavedAt: string;
 }
 
+// Assignment Types
+export type AssignmentStatus = 'pending' | 'accepted' | 'declined' | 'reassigned' | 'completed';
+
+export type AssignmentBatch = Pick<
+  Batch,
+  'id' | 'productName' | 'productType' | 'quantity' | 'unit' | 'location' | 'farmerName' | 'status'
+>;
+
+export interface Assignment {
+  id: string;
+  // Populated with a batch summary in listings
+  batchId: string | AssignmentBatch;
+  organizationId?: string;
+  inspectorId: string;
+  inspectorName: string;
+  assignedBy: string;
+  assignedByName: string;
+  status: AssignmentStatus;
+  scheduledFor: string;
+  notes?: string;
+  declineReason?: string;
+  respondedAt?: string;
+  inspectionId?: string;
+  completedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 // Inspection Types
 export type InspectionStatus = 'pending' | 'in_progress' | 'completed' | 'failed';
 
@@ -77,6 +164,36 @@ export interface InspectionReading {
   passed: boolean;
 }
 
+// Uploaded file as returned by the files API and stored on inspections
+export interface FileMetadata {
+  id: string;
+  filename: string;
+  url: string;
+  // Preview for photos
+  thumbnailUrl?: string;
+  size: number;
+  mimeType: string;
+  uploadedAt: string | Date;
+  description?: string;
+  // Read from the photo's EXIF before it was stripped
+  capture?: {
+    capturedAt?: string;
+    latitude?: number;
+    longitude?: number;
+    altitude?: number;
+  };
+}
+
+// Distance between the inspector's device and the batch's farm location
+export interface GeofenceCheck {
+  status: 'within' | 'outside' | 'low_accuracy' | 'unavailable';
+  distanceMeters?: number;
+  accuracyMeters?: number;
+  radiusMeters: number;
+  maxAccuracyMeters: number;
+  checkedAt: string;
+}
+
 export interface Inspection {
   id: string;
   batchId: string;
@@ -84,18 +201,52 @@ export interface Inspection {
   inspectorName: string;
   status: InspectionStatus;
   readings: InspectionReading[];
-  photos?: string[];
+  photos?: FileMetadata[];
+  labReports?: FileMetadata[];
   geolocation?: {
     latitude: number;
     longitude: number;
     accuracy: number;
     timestamp: string;
   };
+  geofence?: GeofenceCheck;
   notes?: string;
   createdAt: string;
   updatedAt?: string;
   completedAt?: string;
   overallResult: 'pass' | 'fail' | 'pending';
+  outcome?: InspectionOutcome;
+  evaluation?: InspectionEvaluation;
+}
+
+export interface InspectionOutcome {
+  classification: 'pass' | 'fail' | 'conditional_pass' | 'requires_retest';
+  reasoning: string;
+  inspectorReasoning?: string;
+  recommendations: string[];
+  followUpRequired: boolean;
+  complianceNotes: string;
+}
+
+export interface EvaluationCheck {
+  source: 'reading' | 'quality';
+  parameter: string;
+  value?: number | string | boolean;
+  unit?: string;
+  min?: number;
+  max?: number;
+  status: 'pass' | 'fail' | 'not_evaluated';
+  reason: string;
+}
+
+// Server-side evaluation recorded when an inspection is completed
+export interface InspectionEvaluation {
+  classification: 'pass' | 'fail';
+  productType: string;
+  checks: EvaluationCheck[];
+  requestedClassification?: InspectionOutcome['classification'];
+  evaluatedAt: string;
+  evaluatedBy: string;
 }
 
 // Certificate & VC Types
@@ -155,15 +306,62 @@ export interface VerificationResult {
 }
 
 // Notification Types
+export type NotificationType =
+  | 'batch_submitted'
+  | 'inspection_complete'
+  | 'certificate_issued'
+  | 'certificate_revoked'
+  | 'action_required'
+  | 'batch_approved'
+  | 'batch_rejected'
+  | 'inspection_scheduled'
+  | 'security_alert';
+
 export interface Notification {
   id: string;
   userId: string;
-  type: 'batch_submitted' | 'inspection_complete' | 'certificate_issued' | 'certificate_revoked' | 'action_required';
+  type: NotificationType;
   title: string;
   message: string;
   read: boolean;
   createdAt: string;
   actionUrl?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface NotificationList extends PaginatedResponse<Notification> {
+  unreadCount: number;
+}
+
+// Real-time event payloads pushed over Socket.IO
+export interface BatchStatusEvent {
+  batchId: string;
+  farmerId: string;
+  productName: string;
+  status: BatchStatus;
+  previousStatus?: BatchStatus;
+  changedAt: string;
+}
+
+export interface InspectionCompletedEvent {
+  inspectionId: string;
+  batchId: string;
+  farmerId: string;
+  inspectorId: string;
+  classification: string;
+  completedAt: string;
+}
+
+export interface JobProgressEvent {
+  jobId: string;
+  batchId: string;
+  status: 'pending' | 'processing' | 'success' | 'failed' | 'dead_letter' | 'cancelled';
+  attempts: number;
+  maxAttempts?: number;
+  nextRunAt?: string;
+  lastError?: string;
+  certificateId?: string;
+  requestedBy?: string;
 }
 
 // API Response Types
@@ -239,6 +437,14 @@ export type UpdateBatchPayload = Partial<Pick<Batch, 'productType' | 'productNam
 
 export type CreateInspectionPayload = Omit<Inspection, 'id' | 'createdAt' | 'updatedAt' | 'completedAt' | 'overallResult' | 'status'>;
 
+// The outcome is computed server-side; a classification may only downgrade a computed pass
+export interface CompleteInspectionPayload {
+  readings?: InspectionReading[];
+  notes?: string;
+  comments?: string;
+  outcome?: Partial<InspectionOutcome> & Pick<InspectionOutcome, 'classification'>;
+}
+
 // API Error Types
 export interface ApiError {
   message: string;